@@ -0,0 +1,144 @@
+import { MigrationManager, MigrationError, MigrationStep } from '../config/migration.js';
+
+/**
+ * Usage of `npm run db -- <command>`
+ */
+export const DB_USAGE = `Usage: npm run db -- <command> [options]
+
+Commands:
+  status                   List applied and pending migrations
+  up [--to <version>]      Apply pending migrations, up to a version if given
+  down --to <version>      Roll back to a version (0 undoes every migration)
+  redo                     Roll the latest migration back and apply it again
+  dry-run [up|down|redo]   Print the SQL of a command without running it (default: up)
+
+Options:
+  --dry-run                Print the SQL instead of running it`;
+
+/**
+ * Where the CLI writes (console by default)
+ */
+export type CommandOutput = Pick<Console, 'log' | 'error'>;
+
+/**
+ * Parsed command line
+ */
+interface DbCommand {
+  name: string;
+  targetVersion: number | undefined;
+  dryRun: boolean;
+}
+
+/**
+ * Parse `<command> [--to <version>] [--dry-run]`
+ */
+const parseCommand = (args: string[]): DbCommand => {
+  let [name = '', ...rest] = args;
+  let dryRun = false;
+
+  if (name === 'dry-run') {
+    dryRun = true;
+    name = rest[0] && !rest[0].startsWith('--') ? (rest.shift() as string) : 'up';
+  }
+
+  let targetVersion: number | undefined;
+  for (let index = 0; index < rest.length; index++) {
+    const arg = rest[index] as string;
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg === '--to' || arg.startsWith('--to=')) {
+      const value = arg === '--to' ? rest[++index] : arg.slice('--to='.length);
+      if (value === undefined || !/^\d+$/.test(value)) {
+        throw new MigrationError('--to expects a version number');
+      }
+      targetVersion = parseInt(value, 10);
+    } else {
+      throw new MigrationError(`Unknown option ${arg}`);
+    }
+  }
+
+  return { name, targetVersion, dryRun };
+};
+
+/**
+ * Print the steps of a migration run (with their SQL on a dry run)
+ */
+const printSteps = (steps: MigrationStep[], dryRun: boolean, output: CommandOutput): void => {
+  if (steps.length === 0) {
+    output.log('Nothing to do');
+    return;
+  }
+
+  for (const { direction, migration, sql } of steps) {
+    output.log(`-- ${direction} ${migration.version} ${migration.name}`);
+    if (dryRun) {
+      output.log(sql.trim());
+      output.log('');
+    }
+  }
+};
+
+/**
+ * Print applied and pending migrations
+ */
+const printStatus = async (manager: MigrationManager, output: CommandOutput): Promise<void> => {
+  const applied = await manager.getAppliedMigrations();
+  const pending = await manager.getPendingMigrations();
+  const status = await manager.getStatus();
+
+  output.log(`Current version: ${status.currentVersion} (${status.totalMigrations} migrations, ${status.pendingCount} pending)`);
+  for (const migration of applied) {
+    const appliedAt = migration.appliedAt ? ` (${migration.appliedAt.toISOString()})` : '';
+    output.log(`  applied  ${migration.version} ${migration.name}${appliedAt}`);
+  }
+  for (const migration of pending) {
+    output.log(`  pending  ${migration.version} ${migration.name}`);
+  }
+};
+
+/**
+ * Run a database command against a loaded migration manager
+ * @returns The process exit code
+ */
+export async function runDbCommand(
+  args: string[],
+  manager: MigrationManager,
+  output: CommandOutput = console
+): Promise<number> {
+  try {
+    const command = parseCommand(args);
+    const options = { dryRun: command.dryRun };
+
+    switch (command.name) {
+      case 'status':
+        await printStatus(manager, output);
+        return 0;
+      case 'up':
+        printSteps(await manager.migrateTo(command.targetVersion, options), command.dryRun, output);
+        break;
+      case 'down':
+        if (command.targetVersion === undefined) {
+          throw new MigrationError('down requires --to <version>');
+        }
+        printSteps(await manager.rollbackTo(command.targetVersion, options), command.dryRun, output);
+        break;
+      case 'redo':
+        printSteps(await manager.redo(options), command.dryRun, output);
+        break;
+      default:
+        output.error(DB_USAGE);
+        return 1;
+    }
+
+    if (!command.dryRun) {
+      output.log(`Database at version ${await manager.getCurrentVersion()}`);
+    }
+    return 0;
+  } catch (error) {
+    if (error instanceof MigrationError) {
+      output.error(`Error: ${error.message}`);
+      return 1;
+    }
+    throw error;
+  }
+}
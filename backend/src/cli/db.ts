@@ -0,0 +1,24 @@
+import dotenv from 'dotenv';
+import { database } from '../config/database.js';
+import { migrationManager } from '../config/migration.js';
+import { registerMigrations } from '../config/migrations.js';
+import { runDbCommand } from './db-commands.js';
+
+// Load environment variables
+dotenv.config();
+
+// Run `npm run db -- <command>` against the configured database
+async function main(): Promise<void> {
+  await database.connect();
+  await registerMigrations();
+
+  const exitCode = await runDbCommand(process.argv.slice(2), migrationManager);
+
+  await database.close();
+  process.exit(exitCode);
+}
+
+main().catch((error) => {
+  console.error('Database command failed:', error);
+  process.exit(1);
+});
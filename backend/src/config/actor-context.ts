@@ -0,0 +1,18 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * User a piece of work runs on behalf of, so that writes deep down in the
+ * repositories can be attributed without threading the user through every
+ * call. Work outside a request (jobs, CLI) has no actor.
+ */
+const actors = new AsyncLocalStorage<string>();
+
+/**
+ * Run work, and everything it awaits, on behalf of a user
+ */
+export const runAsActor = <T>(actorId: string, work: () => T): T => actors.run(actorId, work);
+
+/**
+ * ID of the user the current work runs on behalf of
+ */
+export const getCurrentActor = (): string | undefined => actors.getStore();
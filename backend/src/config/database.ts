@@ -1,15 +1,29 @@
 import sqlite3 from 'sqlite3';
 import path from 'path';
 import fs from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
+import { execScript } from './sql.js';
+import { Connection, Queryable, Transaction } from './transaction.js';
 
 export interface DatabaseConfig {
   dbPath: string;
   verbose?: boolean;
 }
 
-export class Database {
+export class Database implements Queryable {
   private db: sqlite3.Database | null = null;
   private config: DatabaseConfig;
+  // Transaction bookkeeping: the open transaction, the queue of writers
+  // waiting for it, and the async context each transaction's work runs in
+  private context = new AsyncLocalStorage<Transaction>();
+  private active: Transaction | null = null;
+  private writers: Promise<void> = Promise.resolve();
+  private released: Promise<void> = Promise.resolve();
+  private connection: Connection = {
+    run: (sql, params = []) => this.runStatement(sql, params),
+    get: (sql, params = []) => this.getRow(sql, params),
+    all: (sql, params = []) => this.allRows(sql, params),
+  };
 
   constructor(config: DatabaseConfig) {
     this.config = config;
@@ -82,6 +96,89 @@ export class Database {
    * Run a query without returning results
    */
   public async run(sql: string, params: any[] = []): Promise<sqlite3.RunResult> {
+    await this.waitForTurn();
+    return this.runStatement(sql, params);
+  }
+
+  /**
+   * Get a single row
+   */
+  public async get(sql: string, params: any[] = []): Promise<any> {
+    await this.waitForTurn();
+    return this.getRow(sql, params);
+  }
+
+  /**
+   * Get multiple rows
+   */
+  public async all(sql: string, params: any[] = []): Promise<any[]> {
+    await this.waitForTurn();
+    return this.allRows(sql, params);
+  }
+
+  /**
+   * Execute a script of one or more statements, one at a time (run() only
+   * executes the first statement of a script)
+   * @returns The number of statements executed
+   * @throws {SqlStatementError} Naming the statement that failed
+   */
+  public async exec(sql: string): Promise<number> {
+    return execScript(sql, statement => this.run(statement));
+  }
+
+  /**
+   * Run work inside a transaction: committed when it resolves, rolled back
+   * when it throws. Transactions run one at a time, and statements from
+   * outside the open transaction wait for it to finish. Called again from
+   * within the work, it nests through a SAVEPOINT instead.
+   */
+  public async transaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T> {
+    const current = this.context.getStore();
+    if (current?.isActive() && current.root === this.active) {
+      return current.transaction(work);
+    }
+
+    const previous = this.writers;
+    let releaseWriter!: () => void;
+    this.writers = new Promise(resolve => { releaseWriter = resolve; });
+    await previous;
+
+    const tx = new Transaction(this.connection, this.context);
+    let releaseTurn!: () => void;
+    this.released = new Promise(resolve => { releaseTurn = resolve; });
+    this.active = tx;
+
+    try {
+      await this.runStatement('BEGIN IMMEDIATE');
+      try {
+        const result = await this.context.run(tx, () => work(tx));
+        await this.runStatement('COMMIT');
+        return result;
+      } catch (error) {
+        await this.runStatement('ROLLBACK');
+        throw error;
+      }
+    } finally {
+      tx.finish();
+      this.active = null;
+      releaseTurn();
+      releaseWriter();
+    }
+  }
+
+  /**
+   * Wait until no transaction other than the caller's holds the connection
+   */
+  private async waitForTurn(): Promise<void> {
+    while (this.active && this.context.getStore()?.root !== this.active) {
+      await this.released;
+    }
+  }
+
+  /**
+   * Run a statement on the connection, bypassing the transaction queue
+   */
+  private async runStatement(sql: string, params: any[] = []): Promise<sqlite3.RunResult> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not connected'));
@@ -99,9 +196,9 @@ export class Database {
   }
 
   /**
-   * Get a single row
+   * Get a single row, bypassing the transaction queue
    */
-  public async get(sql: string, params: any[] = []): Promise<any> {
+  private async getRow(sql: string, params: any[] = []): Promise<any> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not connected'));
@@ -119,9 +216,9 @@ export class Database {
   }
 
   /**
-   * Get multiple rows
+   * Get multiple rows, bypassing the transaction queue
    */
-  public async all(sql: string, params: any[] = []): Promise<any[]> {
+  private async allRows(sql: string, params: any[] = []): Promise<any[]> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not connected'));
@@ -137,27 +234,6 @@ export class Database {
       });
     });
   }
-
-  /**
-   * Begin a transaction
-   */
-  public async beginTransaction(): Promise<void> {
-    await this.run('BEGIN TRANSACTION');
-  }
-
-  /**
-   * Commit a transaction
-   */
-  public async commitTransaction(): Promise<void> {
-    await this.run('COMMIT');
-  }
-
-  /**
-   * Rollback a transaction
-   */
-  public async rollbackTransaction(): Promise<void> {
-    await this.run('ROLLBACK');
-  }
 }
 
 // Create and export database instance
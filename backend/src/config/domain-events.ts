@@ -0,0 +1,49 @@
+import { getCurrentActor } from './actor-context.js';
+import { DomainEvent, DomainEventData, DomainEventType } from '../types/index.js';
+
+/**
+ * Reaction to a domain event
+ */
+export type DomainEventHandler = (event: DomainEvent) => Promise<void> | void;
+
+/**
+ * In-process publish/subscribe of domain events. Workflows publish after
+ * their writes are committed; a failing handler is logged and never fails
+ * the workflow or the other handlers.
+ */
+export class DomainEventBus {
+  private handlers: DomainEventHandler[] = [];
+
+  /**
+   * Register a handler for every event
+   * @returns A function that unregisters it
+   */
+  subscribe(handler: DomainEventHandler): () => void {
+    this.handlers.push(handler);
+    return () => {
+      this.handlers = this.handlers.filter(registered => registered !== handler);
+    };
+  }
+
+  /**
+   * Publish an event on behalf of the current actor, and wait for the handlers
+   */
+  async publish<K extends DomainEventType>(type: K, data: DomainEventData[K]): Promise<DomainEvent> {
+    const event = {
+      id: crypto.randomUUID(),
+      type,
+      actorId: getCurrentActor(),
+      occurredAt: new Date(),
+      data,
+    } as DomainEvent;
+
+    for (const handler of [...this.handlers]) {
+      try {
+        await handler(event);
+      } catch (error) {
+        console.error(`Handler of ${event.type} event failed:`, error);
+      }
+    }
+    return event;
+  }
+}
@@ -3,6 +3,23 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
+import { database } from './database.js';
+import { createServices, Services } from './services.js';
+import { loadSession } from '../middleware/session.js';
+import { createSessionRoutes } from '../routes/session-routes.js';
+import { createRegistrationRequestRoutes } from '../routes/registration-request-routes.js';
+import { createUserRoutes } from '../routes/user-routes.js';
+import { createProgramRoutes } from '../routes/program-routes.js';
+import { createEnrollmentRequestRoutes } from '../routes/enrollment-request-routes.js';
+import { createClientRoutes } from '../routes/client-routes.js';
+import { createClientOrganizationRoutes } from '../routes/client-organization-routes.js';
+import { createSearchRoutes } from '../routes/search-routes.js';
+import { createAuditRoutes } from '../routes/audit-routes.js';
+import { createInboxRoutes } from '../routes/inbox-routes.js';
+import { createEventStreamRoutes } from '../routes/event-stream-routes.js';
+import { createWebhookRoutes } from '../routes/webhook-routes.js';
+import { createSchedulerRoutes } from '../routes/scheduler-routes.js';
+import { AppError } from '../utils/errors.js';
 
 // Load environment variables
 dotenv.config();
@@ -16,9 +33,11 @@ export interface ExpressConfig {
 export class ExpressApp {
   private app: Express;
   private config: ExpressConfig;
+  private services: Services;
 
-  constructor(config: ExpressConfig) {
+  constructor(config: ExpressConfig, services: Services = createServices(database)) {
     this.config = config;
+    this.services = services;
     this.app = express();
     this.setupMiddlewares();
     this.setupRoutes();
@@ -37,7 +56,8 @@ export class ExpressApp {
       origin: this.config.corsOrigin,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'X-Requested-With']
+      allowedHeaders: ['Content-Type', 'X-Requested-With', 'If-Match'],
+      exposedHeaders: ['ETag']
     }));
 
     // Body parsing middleware
@@ -65,6 +85,9 @@ export class ExpressApp {
       });
       next();
     });
+
+    // Session middleware (resolves the session cookie into req.user)
+    this.app.use(loadSession(this.services.sessionService));
   }
 
   /**
@@ -98,15 +121,38 @@ export class ExpressApp {
         endpoints: {
           health: '/health',
           api: '/api',
+          session: '/api/session',
+          registrationRequests: '/api/registration-requests',
+          users: '/api/users',
+          programs: '/api/programs',
+          enrollmentRequests: '/api/enrollment-requests',
+          clients: '/api/clients',
+          clientOrganizations: '/api/client-organizations',
+          search: '/api/search',
+          audit: '/api/audit',
+          notifications: '/api/notifications',
+          events: '/api/events',
+          webhooks: '/api/webhooks',
+          jobs: '/api/jobs',
           docs: '/api/docs'
         }
       });
     });
 
-    // API routes will be added here
-    // this.app.use('/api/users', userRoutes);
-    // this.app.use('/api/programs', programRoutes);
-    // this.app.use('/api/enrollment-requests', enrollmentRequestRoutes);
+    // API routes
+    this.app.use('/api/session', createSessionRoutes(this.services.sessionService));
+    this.app.use('/api/registration-requests', createRegistrationRequestRoutes(this.services.registrationRequestService));
+    this.app.use('/api/users', createUserRoutes(this.services.userService));
+    this.app.use('/api/programs', createProgramRoutes(this.services.programService));
+    this.app.use('/api/enrollment-requests', createEnrollmentRequestRoutes(this.services.enrollmentRequestService));
+    this.app.use('/api/clients', createClientRoutes(this.services.clientEngagementService));
+    this.app.use('/api/client-organizations', createClientOrganizationRoutes(this.services.clientOrganizationService));
+    this.app.use('/api/search', createSearchRoutes(this.services.searchService));
+    this.app.use('/api/audit', createAuditRoutes(this.services.auditService));
+    this.app.use('/api/notifications', createInboxRoutes(this.services.inboxService));
+    this.app.use('/api/events', createEventStreamRoutes(this.services.eventStreamService, this.services.sessionService));
+    this.app.use('/api/webhooks', createWebhookRoutes(this.services.webhookService));
+    this.app.use('/api/jobs', createSchedulerRoutes(this.services.schedulerService));
   }
 
   /**
@@ -126,7 +172,10 @@ export class ExpressApp {
 
     // Global error handler
     this.app.use((error: Error, req: Request, res: Response, _next: NextFunction) => {
-      console.error('Global error handler:', error);
+      // Client errors are expected; only log unexpected failures
+      if (!(error instanceof AppError) || error.statusCode >= 500) {
+        console.error('Global error handler:', error);
+      }
 
       // Default error response
       const errorResponse: {
@@ -146,12 +195,18 @@ export class ExpressApp {
         method: req.method
       };
 
+      // Known application errors carry their own status and code
+      if (error instanceof AppError) {
+        errorResponse.error = error.message;
+        errorResponse.code = error.code;
+      }
+
       // Add stack trace in development
       if (process.env['NODE_ENV'] === 'development' && error.stack) {
         errorResponse.stack = error.stack;
       }
 
-      res.status(500).json(errorResponse);
+      res.status(error instanceof AppError ? error.statusCode : 500).json(errorResponse);
     });
   }
 
@@ -162,6 +217,13 @@ export class ExpressApp {
     return this.app;
   }
 
+  /**
+   * Get the services the app was wired with
+   */
+  public getServices(): Services {
+    return this.services;
+  }
+
   /**
    * Start the server
    */
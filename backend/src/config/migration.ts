@@ -1,4 +1,8 @@
-import { database } from './database.js';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Database, database } from './database.js';
+import { SqlStatementError } from './sql.js';
 
 export interface Migration {
   version: number;
@@ -7,11 +11,95 @@ export interface Migration {
   down?: string;
 }
 
+/**
+ * A migration recorded in the migrations table
+ */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string | null;
+  appliedAt: Date | undefined;
+}
+
+/**
+ * One migration to apply or revert, with the SQL it runs
+ */
+export interface MigrationStep {
+  direction: 'up' | 'down';
+  migration: Migration;
+  sql: string;
+}
+
+/**
+ * Options for schema changes; a dry run only plans the steps
+ */
+export interface MigrateOptions {
+  dryRun?: boolean;
+}
+
+/**
+ * Migration files are named `<version>_<name>.ts`, compiled along with the
+ * rest of src/ to `<version>_<name>.js`
+ */
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(ts|js)$/;
+
+/**
+ * Raised when the migration set is inconsistent or an applied migration was edited
+ */
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Checksum of a migration's SQL, recorded when it is applied
+ */
+export const checksumMigration = (migration: Migration): string => {
+  return crypto.createHash('sha256').update(`${migration.up}\n${migration.down ?? ''}`).digest('hex');
+};
+
+/**
+ * Check whether a module export is a migration
+ */
+const isMigration = (value: unknown): value is Migration => {
+  return typeof value === 'object' && value !== null
+    && typeof (value as Migration).version === 'number'
+    && typeof (value as Migration).name === 'string'
+    && typeof (value as Migration).up === 'string';
+};
+
+/**
+ * Plan one migration in a direction
+ */
+const toStep = (migration: Migration, direction: 'up' | 'down'): MigrationStep => ({
+  direction,
+  migration,
+  sql: direction === 'up' ? migration.up : migration.down ?? '',
+});
+
+/**
+ * Name the migration and statement that failed
+ */
+const describeFailure = (migration: Migration, error: unknown): unknown => {
+  if (!(error instanceof SqlStatementError)) {
+    return error;
+  }
+  return new MigrationError(
+    `Migration ${migration.version} (${migration.name}) failed at statement ${error.statementIndex}: ` +
+    `${error.cause.message}\n${error.statement}`
+  );
+};
+
 export class MigrationManager {
+  private db: Database;
   private migrations: Migration[] = [];
   private initialized = false;
 
-  constructor() {}
+  constructor(db: Database = database) {
+    this.db = db;
+  }
 
   /**
    * Initialize migrations table (must be called after DB connect)
@@ -23,10 +111,20 @@ export class MigrationManager {
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         version INTEGER NOT NULL,
         name TEXT NOT NULL,
+        checksum TEXT,
         applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )
     `;
-    await database.run(createTableSQL);
+    await this.db.run(createTableSQL);
+
+    // Tables created before checksums were recorded
+    const checksumColumn = await this.db.get(
+      "SELECT name FROM pragma_table_info('migrations') WHERE name = 'checksum'"
+    );
+    if (!checksumColumn) {
+      await this.db.run('ALTER TABLE migrations ADD COLUMN checksum TEXT');
+    }
+
     this.initialized = true;
   }
 
@@ -39,11 +137,96 @@ export class MigrationManager {
     this.migrations.sort((a, b) => a.version - b.version);
   }
 
+  /**
+   * Discover and load the numbered migration files of a directory
+   * @throws {MigrationError} If a file does not export exactly one migration
+   * matching its file name, or if versions are duplicated or gapped
+   */
+  public async loadMigrations(directory: string): Promise<void> {
+    const files = fs.readdirSync(directory)
+      .filter(file => MIGRATION_FILE_PATTERN.test(file) && !file.endsWith('.d.ts'))
+      .sort();
+
+    for (const file of files) {
+      const [, version, name] = file.match(MIGRATION_FILE_PATTERN) ?? [];
+      const module = await import(path.resolve(directory, file));
+      const exported = Object.values(module).filter(isMigration);
+
+      if (exported.length !== 1) {
+        throw new MigrationError(`${file} must export exactly one migration`);
+      }
+
+      const migration = exported[0] as Migration;
+      if (migration.version !== Number(version) || migration.name !== name) {
+        throw new MigrationError(
+          `${file} declares migration ${migration.version} (${migration.name}), expected ${Number(version)} (${name})`
+        );
+      }
+
+      this.addMigration(migration);
+    }
+
+    this.validateVersions();
+  }
+
+  /**
+   * Check that versions are unique and numbered 1..N without gaps
+   * @throws {MigrationError} If a version is duplicated or missing
+   */
+  public validateVersions(): void {
+    this.migrations.forEach((migration, index) => {
+      const previous = this.migrations[index - 1];
+      if (previous && previous.version === migration.version) {
+        throw new MigrationError(
+          `Duplicate migration version ${migration.version}: ${previous.name} and ${migration.name}`
+        );
+      }
+
+      const expected = index + 1;
+      if (migration.version !== expected) {
+        throw new MigrationError(`Migration versions have a gap: expected ${expected}, found ${migration.version}`);
+      }
+    });
+  }
+
+  /**
+   * Check applied migrations against the registered ones. Rows recorded before
+   * checksums existed adopt the current checksum.
+   * @throws {MigrationError} If an applied migration is missing, renamed or edited
+   */
+  public async verifyAppliedMigrations(): Promise<void> {
+    const applied: Array<{ version: number; name: string; checksum: string | null }> = await this.db.all(
+      'SELECT version, name, checksum FROM migrations ORDER BY version ASC'
+    );
+
+    for (const row of applied) {
+      const migration = this.migrations.find(candidate => candidate.version === row.version);
+      if (!migration) {
+        throw new MigrationError(`Applied migration ${row.version} (${row.name}) is not registered`);
+      }
+
+      if (migration.name !== row.name) {
+        throw new MigrationError(
+          `Applied migration ${row.version} is ${row.name} but the registered one is ${migration.name}`
+        );
+      }
+
+      const checksum = checksumMigration(migration);
+      if (row.checksum === null) {
+        await this.db.run('UPDATE migrations SET checksum = ? WHERE version = ?', [checksum, row.version]);
+      } else if (row.checksum !== checksum) {
+        throw new MigrationError(
+          `Migration ${row.version} (${row.name}) was edited after being applied; add a new migration instead`
+        );
+      }
+    }
+  }
+
   /**
    * Get current database version
    */
   public async getCurrentVersion(): Promise<number> {
-    const result = await database.get(
+    const result = await this.db.get(
       'SELECT MAX(version) as current_version FROM migrations'
     );
     return result?.current_version || 0;
@@ -57,24 +240,69 @@ export class MigrationManager {
     return this.migrations.filter(migration => migration.version > currentVersion);
   }
 
+  /**
+   * Get applied migrations, oldest first
+   */
+  public async getAppliedMigrations(): Promise<AppliedMigration[]> {
+    await this.initializeMigrationsTable();
+    const rows: Array<{ version: number; name: string; checksum: string | null; applied_at: string | null }> =
+      await this.db.all('SELECT version, name, checksum, applied_at FROM migrations ORDER BY version ASC');
+
+    return rows.map(row => ({
+      version: row.version,
+      name: row.name,
+      checksum: row.checksum,
+      // CURRENT_TIMESTAMP is UTC without a zone designator
+      appliedAt: row.applied_at ? new Date(`${row.applied_at.replace(' ', 'T')}Z`) : undefined,
+    }));
+  }
+
   /**
    * Apply all pending migrations
+   * @throws {MigrationError} If the migration set is inconsistent or an applied migration was edited
    */
-  public async migrate(): Promise<void> {
-    const pendingMigrations = await this.getPendingMigrations();
-    
-    if (pendingMigrations.length === 0) {
+  public async migrate(options: MigrateOptions = {}): Promise<MigrationStep[]> {
+    return this.migrateTo(undefined, options);
+  }
+
+  /**
+   * Apply pending migrations up to a version (the latest by default)
+   * @throws {MigrationError} If the target is unknown or below the current version
+   */
+  public async migrateTo(targetVersion?: number, options: MigrateOptions = {}): Promise<MigrationStep[]> {
+    await this.prepare();
+    const currentVersion = await this.getCurrentVersion();
+    const latestVersion = this.migrations[this.migrations.length - 1]?.version ?? 0;
+    const target = targetVersion ?? latestVersion;
+
+    if (target > latestVersion) {
+      throw new MigrationError(`Cannot migrate to version ${target}: latest migration is ${latestVersion}`);
+    }
+    if (target < currentVersion) {
+      throw new MigrationError(`Cannot migrate up to version ${target}: database is at version ${currentVersion}`);
+    }
+
+    const steps = this.migrations
+      .filter(migration => migration.version > currentVersion && migration.version <= target)
+      .map(migration => toStep(migration, 'up'));
+
+    if (options.dryRun) {
+      return steps;
+    }
+
+    if (steps.length === 0) {
       console.log('No pending migrations');
-      return;
+      return steps;
     }
 
-    console.log(`Applying ${pendingMigrations.length} migrations...`);
+    console.log(`Applying ${steps.length} migrations...`);
 
-    for (const migration of pendingMigrations) {
-      await this.applyMigration(migration);
+    for (const step of steps) {
+      await this.applyMigration(step.migration);
     }
 
     console.log('All migrations applied successfully');
+    return steps;
   }
 
   /**
@@ -82,65 +310,133 @@ export class MigrationManager {
    */
   private async applyMigration(migration: Migration): Promise<void> {
     try {
-      await database.beginTransaction();
-
       console.log(`Applying migration ${migration.version}: ${migration.name}`);
 
-      // Execute the migration
-      await database.run(migration.up);
+      await this.db.transaction(async tx => {
+        // Execute the migration
+        await tx.exec(migration.up);
 
-      // Record the migration
-      await database.run(
-        'INSERT INTO migrations (version, name) VALUES (?, ?)',
-        [migration.version, migration.name]
-      );
+        // Record the migration
+        await tx.run(
+          'INSERT INTO migrations (version, name, checksum) VALUES (?, ?, ?)',
+          [migration.version, migration.name, checksumMigration(migration)]
+        );
+      });
 
-      await database.commitTransaction();
       console.log(`Migration ${migration.version} applied successfully`);
     } catch (error) {
-      await database.rollbackTransaction();
       console.error(`Failed to apply migration ${migration.version}:`, error);
-      throw error;
+      throw describeFailure(migration, error);
     }
   }
 
   /**
    * Rollback last migration
    */
-  public async rollback(): Promise<void> {
+  public async rollback(options: MigrateOptions = {}): Promise<MigrationStep[]> {
     const currentVersion = await this.getCurrentVersion();
-    const lastMigration = this.migrations
-      .filter(m => m.version <= currentVersion)
-      .pop();
-
-    if (!lastMigration || !lastMigration.down) {
-      console.log('No migration to rollback or rollback not supported');
-      return;
+    if (currentVersion === 0) {
+      console.log('No migration to rollback');
+      return [];
     }
+    return this.rollbackTo(currentVersion - 1, options);
+  }
 
-    try {
-      await database.beginTransaction();
+  /**
+   * Roll back applied migrations, newest first, until the schema is at a
+   * version (0 undoes everything)
+   * @throws {MigrationError} If the target is invalid or a migration has no down SQL
+   */
+  public async rollbackTo(targetVersion: number, options: MigrateOptions = {}): Promise<MigrationStep[]> {
+    await this.prepare();
+    const currentVersion = await this.getCurrentVersion();
 
-      console.log(`Rolling back migration ${lastMigration.version}: ${lastMigration.name}`);
+    if (!Number.isInteger(targetVersion) || targetVersion < 0) {
+      throw new MigrationError(`Cannot roll back to version ${targetVersion}`);
+    }
+    if (targetVersion > currentVersion) {
+      throw new MigrationError(`Cannot roll back to version ${targetVersion}: database is at version ${currentVersion}`);
+    }
 
-      // Execute the rollback
-      await database.run(lastMigration.down);
+    const migrations = this.migrations
+      .filter(migration => migration.version > targetVersion && migration.version <= currentVersion)
+      .reverse();
 
-      // Remove the migration record
-      await database.run(
-        'DELETE FROM migrations WHERE version = ?',
-        [lastMigration.version]
+    // Refuse before touching anything if one of them cannot be undone
+    const irreversible = migrations.find(migration => !migration.down);
+    if (irreversible) {
+      throw new MigrationError(
+        `Migration ${irreversible.version} (${irreversible.name}) cannot be rolled back: it has no down migration`
       );
+    }
 
-      await database.commitTransaction();
-      console.log(`Migration ${lastMigration.version} rolled back successfully`);
+    const steps = migrations.map(migration => toStep(migration, 'down'));
+    if (options.dryRun) {
+      return steps;
+    }
+
+    for (const step of steps) {
+      await this.revertMigration(step.migration);
+    }
+
+    return steps;
+  }
+
+  /**
+   * Roll the latest migration back and apply it again
+   * @throws {MigrationError} If nothing is applied or the latest migration has no down SQL
+   */
+  public async redo(options: MigrateOptions = {}): Promise<MigrationStep[]> {
+    await this.prepare();
+    const currentVersion = await this.getCurrentVersion();
+    if (currentVersion === 0) {
+      throw new MigrationError('No migration to redo');
+    }
+
+    const down = await this.rollbackTo(currentVersion - 1, options);
+    const latest = this.migrations.find(migration => migration.version === currentVersion) as Migration;
+    if (options.dryRun) {
+      return [...down, toStep(latest, 'up')];
+    }
+
+    const up = await this.migrateTo(currentVersion, options);
+    return [...down, ...up];
+  }
+
+  /**
+   * Revert a single migration
+   */
+  private async revertMigration(migration: Migration): Promise<void> {
+    try {
+      console.log(`Rolling back migration ${migration.version}: ${migration.name}`);
+
+      await this.db.transaction(async tx => {
+        // Execute the rollback
+        await tx.exec(migration.down ?? '');
+
+        // Remove the migration record
+        await tx.run(
+          'DELETE FROM migrations WHERE version = ?',
+          [migration.version]
+        );
+      });
+
+      console.log(`Migration ${migration.version} rolled back successfully`);
     } catch (error) {
-      await database.rollbackTransaction();
-      console.error(`Failed to rollback migration ${lastMigration.version}:`, error);
-      throw error;
+      console.error(`Failed to rollback migration ${migration.version}:`, error);
+      throw describeFailure(migration, error);
     }
   }
 
+  /**
+   * Make sure the migrations table exists and the migration set is consistent
+   */
+  private async prepare(): Promise<void> {
+    await this.initializeMigrationsTable();
+    this.validateVersions();
+    await this.verifyAppliedMigrations();
+  }
+
   /**
    * Get migration status
    */
@@ -162,4 +458,4 @@ export class MigrationManager {
 
 // Create and export migration manager instance
 export const migrationManager = new MigrationManager();
-export default migrationManager; 
\ No newline at end of file
+export default migrationManager;
@@ -0,0 +1,85 @@
+import { Database } from './database.js';
+import { RepositorySchema } from '../repositories/base.js';
+
+/**
+ * Difference between what a repository expects and the live table
+ */
+export interface SchemaDrift {
+  table: string;
+  missingTable: boolean;
+  missingColumns: string[];
+  // NOT NULL columns without default the repository never writes: inserts would fail
+  unexpectedColumns: string[];
+}
+
+/**
+ * Raised at startup when repositories and the database schema drifted apart
+ */
+export class SchemaDriftError extends Error {
+  public readonly drifts: SchemaDrift[];
+
+  constructor(drifts: SchemaDrift[]) {
+    super(`Database schema does not match the repositories: ${drifts.map(describeDrift).join('; ')}`);
+    this.name = 'SchemaDriftError';
+    this.drifts = drifts;
+  }
+}
+
+/**
+ * Describe a drift in one line
+ */
+const describeDrift = (drift: SchemaDrift): string => {
+  if (drift.missingTable) {
+    return `table ${drift.table} is missing`;
+  }
+
+  const problems: string[] = [];
+  if (drift.missingColumns.length > 0) {
+    problems.push(`missing columns ${drift.missingColumns.join(', ')}`);
+  }
+  if (drift.unexpectedColumns.length > 0) {
+    problems.push(`unexpected required columns ${drift.unexpectedColumns.join(', ')}`);
+  }
+  return `${drift.table}: ${problems.join(', ')}`;
+};
+
+/**
+ * Compare each repository's table and columns with the live SQLite schema
+ */
+export async function checkSchema(db: Database, schemas: RepositorySchema[]): Promise<SchemaDrift[]> {
+  const drifts: SchemaDrift[] = [];
+
+  for (const schema of schemas) {
+    const liveColumns: Array<{ name: string; notnull: number; dflt_value: unknown; pk: number }> =
+      await db.all('SELECT name, "notnull", dflt_value, pk FROM pragma_table_info(?)', [schema.table]);
+
+    if (liveColumns.length === 0) {
+      drifts.push({ table: schema.table, missingTable: true, missingColumns: [...schema.columns], unexpectedColumns: [] });
+      continue;
+    }
+
+    const liveNames = liveColumns.map(column => column.name);
+    const missingColumns = schema.columns.filter(column => !liveNames.includes(column));
+    const unexpectedColumns = liveColumns
+      .filter(column => !schema.columns.includes(column.name))
+      .filter(column => column.notnull === 1 && column.dflt_value === null && column.pk === 0)
+      .map(column => column.name);
+
+    if (missingColumns.length > 0 || unexpectedColumns.length > 0) {
+      drifts.push({ table: schema.table, missingTable: false, missingColumns, unexpectedColumns });
+    }
+  }
+
+  return drifts;
+}
+
+/**
+ * Refuse to continue when the schema drifted
+ * @throws {SchemaDriftError} If any repository does not match its table
+ */
+export async function verifySchema(db: Database, schemas: RepositorySchema[]): Promise<void> {
+  const drifts = await checkSchema(db, schemas);
+  if (drifts.length > 0) {
+    throw new SchemaDriftError(drifts);
+  }
+}
@@ -0,0 +1,336 @@
+import { Database } from './database.js';
+import { DomainEventBus } from './domain-events.js';
+import { BaseRepository, RepositorySchema } from '../repositories/base.js';
+import { UserRepository } from '../repositories/user-repository.js';
+import { SessionRepository } from '../repositories/session-repository.js';
+import { RegistrationRequestRepository } from '../repositories/registration-request-repository.js';
+import { ProgramRepository } from '../repositories/program-repository.js';
+import { EnrollmentRequestRepository } from '../repositories/enrollment-request-repository.js';
+import { ContactUserRepository } from '../repositories/contact-user-repository.js';
+import { ClientRepository } from '../repositories/client-repository.js';
+import { ClientActivityRepository } from '../repositories/client-activity-repository.js';
+import { ClientOrganizationRepository } from '../repositories/client-organization-repository.js';
+import { SearchRepository } from '../repositories/search-repository.js';
+import { AuditEventRepository } from '../repositories/audit-event-repository.js';
+import { OutboxMessageRepository } from '../repositories/outbox-message-repository.js';
+import { NotificationRepository } from '../repositories/notification-repository.js';
+import { WebhookRepository } from '../repositories/webhook-repository.js';
+import { WebhookDeliveryRepository } from '../repositories/webhook-delivery-repository.js';
+import { ScheduledJobRepository } from '../repositories/scheduled-job-repository.js';
+import { JobRunRepository } from '../repositories/job-run-repository.js';
+import { SessionService, DEFAULT_SESSION_TTL_MS } from '../services/session-service.js';
+import { RegistrationRequestService } from '../services/registration-request-service.js';
+import { UserService } from '../services/user-service.js';
+import { ProgramService } from '../services/program-service.js';
+import { EnrollmentRequestService } from '../services/enrollment-request-service.js';
+import { ClientEngagementService, DEFAULT_ENGAGEMENT_WINDOW_MS } from '../services/client-engagement-service.js';
+import { ClientOrganizationService } from '../services/client-organization-service.js';
+import { SearchService } from '../services/search-service.js';
+import { PurgeService, DEFAULT_RETENTION_MS } from '../services/purge-service.js';
+import { AuditService } from '../services/audit-service.js';
+import { NotificationService } from '../services/notification-service.js';
+import { InboxService, DEFAULT_ENDING_NOTICE_MS } from '../services/inbox-service.js';
+import { EventStreamService } from '../services/event-stream-service.js';
+import { WebhookService } from '../services/webhook-service.js';
+import { SchedulerService } from '../services/scheduler-service.js';
+import { WaitlistService } from '../services/waitlist-service.js';
+import { SmtpChannel, DEFAULT_MAIL_FROM } from '../services/channels/smtp-channel.js';
+import { FileChannel } from '../services/channels/file-channel.js';
+import { JobName, NotificationChannel } from '../types/index.js';
+
+/**
+ * Application services wired together (factory / dependency injection)
+ */
+export interface Services {
+  userRepository: UserRepository;
+  sessionRepository: SessionRepository;
+  registrationRequestRepository: RegistrationRequestRepository;
+  programRepository: ProgramRepository;
+  enrollmentRequestRepository: EnrollmentRequestRepository;
+  contactUserRepository: ContactUserRepository;
+  clientRepository: ClientRepository;
+  clientActivityRepository: ClientActivityRepository;
+  clientOrganizationRepository: ClientOrganizationRepository;
+  searchRepository: SearchRepository;
+  auditEventRepository: AuditEventRepository;
+  outboxMessageRepository: OutboxMessageRepository;
+  notificationRepository: NotificationRepository;
+  webhookRepository: WebhookRepository;
+  webhookDeliveryRepository: WebhookDeliveryRepository;
+  scheduledJobRepository: ScheduledJobRepository;
+  jobRunRepository: JobRunRepository;
+  domainEvents: DomainEventBus;
+  sessionService: SessionService;
+  registrationRequestService: RegistrationRequestService;
+  userService: UserService;
+  waitlistService: WaitlistService;
+  programService: ProgramService;
+  enrollmentRequestService: EnrollmentRequestService;
+  clientEngagementService: ClientEngagementService;
+  clientOrganizationService: ClientOrganizationService;
+  searchService: SearchService;
+  purgeService: PurgeService;
+  auditService: AuditService;
+  notificationService: NotificationService;
+  inboxService: InboxService;
+  eventStreamService: EventStreamService;
+  webhookService: WebhookService;
+  schedulerService: SchedulerService;
+}
+
+/**
+ * Channel notifications go out through: SMTP when a host is configured,
+ * otherwise the development outbox file, or the console without one
+ */
+export function createNotificationChannel(): NotificationChannel {
+  const host = process.env['SMTP_HOST'];
+  if (!host) {
+    return new FileChannel(process.env['MAIL_OUTBOX_FILE'] || undefined);
+  }
+
+  const secure = process.env['SMTP_SECURE'] === 'true';
+  const port = parseInt(process.env['SMTP_PORT'] || '', 10);
+  return new SmtpChannel({
+    host,
+    port: port > 0 ? port : secure ? 465 : 25,
+    secure,
+    user: process.env['SMTP_USER'] || undefined,
+    password: process.env['SMTP_PASSWORD'] || undefined,
+    from: process.env['MAIL_FROM'] || DEFAULT_MAIL_FROM,
+  });
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * How often programs are checked for a start or end date that has come
+ */
+const PROGRAM_JOB_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Days a program stays stopped before it is archived
+ */
+const DEFAULT_ARCHIVE_AFTER_DAYS = 30;
+
+/**
+ * Days an enrollment request may wait for a review before its program team is reminded
+ */
+const DEFAULT_ENROLLMENT_REMINDER_DAYS = 7;
+
+/**
+ * Create all repositories and services on top of a database
+ */
+export function createServices(db: Database): Services {
+  const sessionTtlMinutes = parseInt(process.env['SESSION_TTL_MINUTES'] || '', 10);
+  const sessionTtlMs = sessionTtlMinutes > 0 ? sessionTtlMinutes * 60 * 1000 : DEFAULT_SESSION_TTL_MS;
+  const engagementWindowDays = parseInt(process.env['ENGAGEMENT_WINDOW_DAYS'] || '', 10);
+  const engagementWindowMs = engagementWindowDays > 0
+    ? engagementWindowDays * 24 * 60 * 60 * 1000
+    : DEFAULT_ENGAGEMENT_WINDOW_MS;
+  const retentionDays = parseInt(process.env['SOFT_DELETE_RETENTION_DAYS'] || '', 10);
+  const retentionMs = retentionDays >= 0 ? retentionDays * 24 * 60 * 60 * 1000 : DEFAULT_RETENTION_MS;
+  const endingNoticeDays = parseInt(process.env['PROGRAM_ENDING_NOTICE_DAYS'] || '', 10);
+  const endingNoticeMs = endingNoticeDays >= 0
+    ? endingNoticeDays * 24 * 60 * 60 * 1000
+    : DEFAULT_ENDING_NOTICE_MS;
+  const archiveAfterDays = parseInt(process.env['PROGRAM_ARCHIVE_AFTER_DAYS'] || '', 10);
+  const archiveAfterMs = (archiveAfterDays >= 0 ? archiveAfterDays : DEFAULT_ARCHIVE_AFTER_DAYS) * DAY_MS;
+  const reminderDays = parseInt(process.env['ENROLLMENT_REMINDER_DAYS'] || '', 10);
+  const reminderMs = (reminderDays > 0 ? reminderDays : DEFAULT_ENROLLMENT_REMINDER_DAYS) * DAY_MS;
+
+  // Repositories
+  const userRepository = new UserRepository(db);
+  const sessionRepository = new SessionRepository(db);
+  const registrationRequestRepository = new RegistrationRequestRepository(db);
+  const programRepository = new ProgramRepository(db);
+  const enrollmentRequestRepository = new EnrollmentRequestRepository(db);
+  const contactUserRepository = new ContactUserRepository(db);
+  const clientRepository = new ClientRepository(db);
+  const clientActivityRepository = new ClientActivityRepository(db);
+  const clientOrganizationRepository = new ClientOrganizationRepository(db);
+  const searchRepository = new SearchRepository(db);
+  const auditEventRepository = new AuditEventRepository(db);
+  const outboxMessageRepository = new OutboxMessageRepository(db);
+  const notificationRepository = new NotificationRepository(db);
+  const webhookRepository = new WebhookRepository(db);
+  const webhookDeliveryRepository = new WebhookDeliveryRepository(db);
+  const scheduledJobRepository = new ScheduledJobRepository(db);
+  const jobRunRepository = new JobRunRepository(db);
+  for (const repository of [
+    userRepository,
+    registrationRequestRepository,
+    programRepository,
+    enrollmentRequestRepository,
+    clientRepository,
+    clientActivityRepository,
+    clientOrganizationRepository,
+    webhookRepository,
+  ]) {
+    repository.auditWith(auditEventRepository);
+  }
+
+  // Domain events, published by the workflows once their writes are committed
+  const domainEvents = new DomainEventBus();
+
+  // Services
+  const sessionService = new SessionService(userRepository, sessionRepository, sessionTtlMs);
+  const registrationRequestService = new RegistrationRequestService(
+    db,
+    registrationRequestRepository,
+    userRepository,
+    domainEvents
+  );
+  const userService = new UserService(db, userRepository, sessionRepository);
+  const waitlistService = new WaitlistService(
+    db,
+    clientRepository,
+    programRepository,
+    enrollmentRequestRepository,
+    domainEvents
+  );
+  const programService = new ProgramService(programRepository, userRepository, waitlistService, domainEvents);
+  const enrollmentRequestService = new EnrollmentRequestService(
+    db,
+    enrollmentRequestRepository,
+    contactUserRepository,
+    clientRepository,
+    clientOrganizationRepository,
+    programRepository,
+    domainEvents
+  );
+  const clientEngagementService = new ClientEngagementService(
+    clientRepository,
+    clientActivityRepository,
+    waitlistService,
+    engagementWindowMs
+  );
+  const clientOrganizationService = new ClientOrganizationService(
+    clientOrganizationRepository,
+    clientRepository,
+    clientActivityRepository,
+    programRepository,
+    engagementWindowMs
+  );
+  const searchService = new SearchService(searchRepository);
+  const purgeService = new PurgeService(
+    db,
+    enrollmentRequestRepository,
+    programRepository,
+    userRepository,
+    retentionMs
+  );
+  const auditService = new AuditService(auditEventRepository);
+  const notificationService = new NotificationService(
+    outboxMessageRepository,
+    userRepository,
+    programRepository,
+    createNotificationChannel()
+  );
+  const inboxService = new InboxService(notificationRepository, userRepository, programRepository, endingNoticeMs);
+  domainEvents.subscribe(async event => {
+    await notificationService.handle(event);
+  });
+  domainEvents.subscribe(async event => {
+    await inboxService.handle(event);
+  });
+  const eventStreamService = new EventStreamService();
+  domainEvents.subscribe(event => {
+    eventStreamService.handle(event);
+  });
+  const webhookService = new WebhookService(webhookRepository, webhookDeliveryRepository);
+  domainEvents.subscribe(async event => {
+    await webhookService.handle(event);
+  });
+
+  // Time-driven work, run by the scheduler
+  const schedulerService = new SchedulerService(scheduledJobRepository, jobRunRepository);
+  schedulerService.register({
+    name: JobName.START_PROGRAMS,
+    intervalMs: PROGRAM_JOB_INTERVAL_MS,
+    run: now => programService.startDuePrograms(now),
+  });
+  schedulerService.register({
+    name: JobName.STOP_PROGRAMS,
+    intervalMs: PROGRAM_JOB_INTERVAL_MS,
+    run: now => programService.stopEndedPrograms(now),
+  });
+  schedulerService.register({
+    name: JobName.ARCHIVE_PROGRAMS,
+    intervalMs: HOUR_MS,
+    run: now => programService.archiveStoppedPrograms(now, archiveAfterMs),
+  });
+  schedulerService.register({
+    name: JobName.REMIND_PENDING_ENROLLMENTS,
+    intervalMs: HOUR_MS,
+    run: now => enrollmentRequestService.remindOverdueRequests(now, reminderMs),
+  });
+  schedulerService.register({
+    name: JobName.REFRESH_CLIENT_ENGAGEMENT,
+    intervalMs: HOUR_MS,
+    run: now => clientEngagementService.refreshEngagement(now),
+  });
+  schedulerService.register({
+    name: JobName.NOTIFY_ENDING_PROGRAMS,
+    intervalMs: HOUR_MS,
+    run: now => inboxService.notifyEndingPrograms(now),
+  });
+  schedulerService.register({
+    name: JobName.PURGE_DELETED_ROWS,
+    intervalMs: HOUR_MS,
+    run: async now => {
+      const purged = await purgeService.purge(now);
+      return purged.enrollmentRequests + purged.programs + purged.users;
+    },
+  });
+
+  return {
+    userRepository,
+    sessionRepository,
+    registrationRequestRepository,
+    programRepository,
+    enrollmentRequestRepository,
+    contactUserRepository,
+    clientRepository,
+    clientActivityRepository,
+    clientOrganizationRepository,
+    searchRepository,
+    auditEventRepository,
+    outboxMessageRepository,
+    notificationRepository,
+    webhookRepository,
+    webhookDeliveryRepository,
+    scheduledJobRepository,
+    jobRunRepository,
+    domainEvents,
+    sessionService,
+    registrationRequestService,
+    userService,
+    waitlistService,
+    programService,
+    enrollmentRequestService,
+    clientEngagementService,
+    clientOrganizationService,
+    searchService,
+    purgeService,
+    auditService,
+    notificationService,
+    inboxService,
+    eventStreamService,
+    webhookService,
+    schedulerService,
+  };
+}
+
+/**
+ * Tables and columns expected by every repository, full-text indexes
+ * included (for the startup schema check)
+ */
+export function getRepositorySchemas(services: Services): RepositorySchema[] {
+  return Object.values(services).flatMap(service => {
+    if (service instanceof BaseRepository) {
+      return [service.getSchema()];
+    }
+    return service instanceof SearchRepository ? service.getSchemas() : [];
+  });
+}
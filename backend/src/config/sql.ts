@@ -0,0 +1,126 @@
+/**
+ * Raised when a statement of a multi-statement script fails
+ */
+export class SqlStatementError extends Error {
+  public readonly statementIndex: number; // 1-based position in the script
+  public readonly statement: string;
+  public readonly cause: Error;
+
+  constructor(statementIndex: number, statement: string, cause: Error) {
+    super(`Statement ${statementIndex} failed: ${cause.message}\n${statement}`);
+    this.name = 'SqlStatementError';
+    this.statementIndex = statementIndex;
+    this.statement = statement;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Triggers contain `;` inside their BEGIN ... END body
+ */
+const CREATE_TRIGGER_PATTERN = /^CREATE\s+(TEMP\s+|TEMPORARY\s+)?TRIGGER\b/i;
+
+/**
+ * Strip comments to see whether a chunk holds any SQL
+ */
+const stripComments = (sql: string): string => sql.replace(/--[^\n]*/g, '').replace(/\/\*[\s\S]*?\*\//g, '').trim();
+
+/**
+ * Split a SQL script into statements. Semicolons inside quotes, comments and
+ * trigger bodies do not end a statement; comment-only chunks are dropped.
+ */
+export const splitStatements = (sql: string): string[] => {
+  const statements: string[] = [];
+  let current = '';
+  let index = 0;
+
+  const push = (): void => {
+    const statement = current.trim();
+    if (stripComments(statement).length > 0) {
+      statements.push(statement);
+    }
+    current = '';
+  };
+
+  while (index < sql.length) {
+    const char = sql[index] as string;
+    const next = sql[index + 1];
+
+    // Line comment
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', index);
+      const stop = end === -1 ? sql.length : end;
+      current += sql.slice(index, stop);
+      index = stop;
+      continue;
+    }
+
+    // Block comment
+    if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', index + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      current += sql.slice(index, stop);
+      index = stop;
+      continue;
+    }
+
+    // Quoted string or identifier ('', "", ``, [])
+    if (char === "'" || char === '"' || char === '`' || char === '[') {
+      const closing = char === '[' ? ']' : char;
+      let stop = index + 1;
+      while (stop < sql.length) {
+        if (sql[stop] === closing) {
+          // A doubled quote is an escaped quote
+          if (closing !== ']' && sql[stop + 1] === closing) {
+            stop += 2;
+            continue;
+          }
+          break;
+        }
+        stop++;
+      }
+      current += sql.slice(index, stop + 1);
+      index = stop + 1;
+      continue;
+    }
+
+    if (char === ';') {
+      const body = stripComments(current);
+      const inTrigger = CREATE_TRIGGER_PATTERN.test(body) && !/\bEND$/i.test(body);
+      current += char;
+      index++;
+      if (!inTrigger) {
+        push();
+      }
+      continue;
+    }
+
+    current += char;
+    index++;
+  }
+
+  push();
+  return statements;
+};
+
+/**
+ * Run a script one statement at a time
+ * @returns The number of statements executed
+ * @throws {SqlStatementError} Naming the statement that failed
+ */
+export const execScript = async (
+  sql: string,
+  run: (statement: string) => Promise<unknown>
+): Promise<number> => {
+  const statements = splitStatements(sql);
+
+  for (const [index, statement] of statements.entries()) {
+    try {
+      await run(statement);
+    } catch (error) {
+      throw new SqlStatementError(index + 1, statement, error as Error);
+    }
+  }
+
+  return statements.length;
+};
@@ -0,0 +1,113 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import sqlite3 from 'sqlite3';
+import { execScript } from './sql.js';
+
+/**
+ * Statements on the shared SQLite connection
+ */
+export interface Connection {
+  run(sql: string, params?: any[]): Promise<sqlite3.RunResult>;
+  get(sql: string, params?: any[]): Promise<any>;
+  all(sql: string, params?: any[]): Promise<any[]>;
+}
+
+/**
+ * Anything repositories can query: the database itself or an open transaction
+ */
+export interface Queryable extends Connection {
+  exec(sql: string): Promise<number>;
+  transaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Raised when a transaction handle is used after its work has finished
+ */
+export class TransactionClosedError extends Error {
+  constructor() {
+    super('Transaction has already been committed or rolled back');
+    this.name = 'TransactionClosedError';
+  }
+}
+
+/**
+ * Handle on an open transaction (depth 0) or one of its savepoints. Only
+ * valid while the work it was handed to is running.
+ */
+export class Transaction implements Queryable {
+  public readonly depth: number;
+  public readonly root: Transaction;
+  private connection: Connection;
+  private context: AsyncLocalStorage<Transaction>;
+  private savepointCount = 0;
+  private finished = false;
+
+  constructor(connection: Connection, context: AsyncLocalStorage<Transaction>, parent?: Transaction) {
+    this.connection = connection;
+    this.context = context;
+    this.depth = parent ? parent.depth + 1 : 0;
+    this.root = parent ? parent.root : this;
+  }
+
+  /**
+   * Check whether the work owning this handle is still running
+   */
+  isActive(): boolean {
+    return !this.finished;
+  }
+
+  /**
+   * Mark the handle as finished (called once its work settles)
+   */
+  finish(): void {
+    this.finished = true;
+  }
+
+  async run(sql: string, params: any[] = []): Promise<sqlite3.RunResult> {
+    this.assertActive();
+    return this.connection.run(sql, params);
+  }
+
+  async get(sql: string, params: any[] = []): Promise<any> {
+    this.assertActive();
+    return this.connection.get(sql, params);
+  }
+
+  async all(sql: string, params: any[] = []): Promise<any[]> {
+    this.assertActive();
+    return this.connection.all(sql, params);
+  }
+
+  async exec(sql: string): Promise<number> {
+    this.assertActive();
+    return execScript(sql, statement => this.connection.run(statement));
+  }
+
+  /**
+   * Run nested work inside a SAVEPOINT: an error rolls back the nested work
+   * only, then propagates to the caller
+   */
+  async transaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T> {
+    this.assertActive();
+    const savepoint = `sp_${this.depth + 1}_${++this.root.savepointCount}`;
+    const nested = new Transaction(this.connection, this.context, this);
+
+    await this.connection.run(`SAVEPOINT ${savepoint}`);
+    try {
+      const result = await this.context.run(nested, () => work(nested));
+      await this.connection.run(`RELEASE ${savepoint}`);
+      return result;
+    } catch (error) {
+      await this.connection.run(`ROLLBACK TO ${savepoint}`);
+      await this.connection.run(`RELEASE ${savepoint}`);
+      throw error;
+    } finally {
+      nested.finish();
+    }
+  }
+
+  private assertActive(): void {
+    if (this.finished) {
+      throw new TransactionClosedError();
+    }
+  }
+}
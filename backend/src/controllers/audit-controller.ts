@@ -0,0 +1,41 @@
+import { Request, Response } from 'express';
+import { AuditService } from '../services/audit-service.js';
+import { getDateRange, getListOptions, getQueryString } from '../utils/pagination.js';
+import { AuditAction, AuditEntityType, AuditEventFilters } from '../types/index.js';
+
+/**
+ * Audit log controller
+ */
+export class AuditController {
+  private auditService: AuditService;
+
+  constructor(auditService: AuditService) {
+    this.auditService = auditService;
+  }
+
+  /**
+   * GET /api/audit
+   */
+  list = async (req: Request, res: Response): Promise<void> => {
+    const filters: AuditEventFilters = {};
+    const entityType = getQueryString(req, 'entityType');
+    const entityId = getQueryString(req, 'entityId');
+    const actorId = getQueryString(req, 'actorId');
+    const action = getQueryString(req, 'action');
+
+    if (entityType) filters.entityType = entityType as AuditEntityType;
+    if (entityId) filters.entityId = entityId;
+    if (actorId) filters.actorId = actorId;
+    if (action) filters.action = action as AuditAction;
+    const createdAt = getDateRange(req, 'created');
+    if (createdAt) filters.createdAt = createdAt;
+
+    const result = await this.auditService.list(filters, getListOptions(req));
+
+    res.json({
+      success: true,
+      data: result.data.map(event => event.toJSON()),
+      pagination: result.pagination,
+    });
+  };
+}
@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+import { ClientEngagementService, ClientTimeline } from '../services/client-engagement-service.js';
+import { getSessionUser } from '../middleware/session.js';
+import { CreateClientActivityRequest } from '../types/index.js';
+
+/**
+ * Serialize a client with its derived engagement and activity history
+ */
+const toTimelineResponse = ({ client, engagement, activities }: ClientTimeline): Record<string, any> => ({
+  client: client.toJSON(),
+  engagement,
+  activities: activities.map(activity => activity.toJSON()),
+});
+
+/**
+ * Client controller (engagement tracking and removal)
+ */
+export class ClientController {
+  private clientEngagementService: ClientEngagementService;
+
+  constructor(clientEngagementService: ClientEngagementService) {
+    this.clientEngagementService = clientEngagementService;
+  }
+
+  /**
+   * GET /api/clients/:id/timeline
+   */
+  getTimeline = async (req: Request, res: Response): Promise<void> => {
+    const timeline = await this.clientEngagementService.getTimeline(req.params['id'] as string);
+
+    res.json({
+      success: true,
+      data: toTimelineResponse(timeline),
+    });
+  };
+
+  /**
+   * POST /api/clients/:id/activities
+   */
+  recordActivity = async (req: Request, res: Response): Promise<void> => {
+    const { type, occurredAt, notes } = req.body as CreateClientActivityRequest;
+    const data: CreateClientActivityRequest = { type };
+    if (occurredAt !== undefined) data.occurredAt = occurredAt;
+    if (notes !== undefined) data.notes = notes;
+
+    const timeline = await this.clientEngagementService.recordActivity(
+      req.params['id'] as string,
+      data,
+      getSessionUser(req).id
+    );
+
+    res.status(201).json({
+      success: true,
+      data: toTimelineResponse(timeline),
+      message: 'Client activity recorded',
+    });
+  };
+
+  /**
+   * DELETE /api/clients/:id
+   */
+  remove = async (req: Request, res: Response): Promise<void> => {
+    await this.clientEngagementService.remove(req.params['id'] as string);
+    res.status(204).send();
+  };
+}
@@ -0,0 +1,79 @@
+import { Request, Response } from 'express';
+import { ClientOrganizationService, ClientProfile } from '../services/client-organization-service.js';
+import { getDateRange, getListOptions, getPaginationOptions, getQueryString } from '../utils/pagination.js';
+import { ClientOrganizationFilters } from '../types/index.js';
+
+/**
+ * Serialize an organisation profile with its per-program engagement
+ */
+const toProfileResponse = ({ organization, programs, engagementScore }: ClientProfile): Record<string, any> => ({
+  ...organization.toJSON(),
+  engagementScore,
+  programs: programs.map(({ program, client, engagement, activityCount, engagementScore: programScore }) => ({
+    program: program.toJSON(),
+    client: client.toJSON(),
+    engagement,
+    activityCount,
+    engagementScore: programScore,
+  })),
+});
+
+/**
+ * Client organisation controller
+ */
+export class ClientOrganizationController {
+  private clientOrganizationService: ClientOrganizationService;
+
+  constructor(clientOrganizationService: ClientOrganizationService) {
+    this.clientOrganizationService = clientOrganizationService;
+  }
+
+  /**
+   * GET /api/client-organizations
+   */
+  list = async (req: Request, res: Response): Promise<void> => {
+    const filters: ClientOrganizationFilters = {};
+    const search = getQueryString(req, 'search');
+    if (search) filters.search = search;
+    const createdAt = getDateRange(req, 'created');
+    if (createdAt) filters.createdAt = createdAt;
+
+    const result = await this.clientOrganizationService.list(filters, getListOptions(req));
+
+    res.json({
+      success: true,
+      data: result.data.map(organization => organization.toJSON()),
+      pagination: result.pagination,
+    });
+  };
+
+  /**
+   * GET /api/client-organizations/candidates
+   * Organisations ranked by engagement score, best first.
+   */
+  candidates = async (req: Request, res: Response): Promise<void> => {
+    const excludeProgramId = getQueryString(req, 'excludeProgramId');
+    const { limit } = getPaginationOptions(req);
+
+    const profiles = await this.clientOrganizationService.getCandidates(
+      excludeProgramId ? { excludeProgramId, limit } : { limit }
+    );
+
+    res.json({
+      success: true,
+      data: profiles.map(toProfileResponse),
+    });
+  };
+
+  /**
+   * GET /api/client-organizations/:id
+   */
+  getProfile = async (req: Request, res: Response): Promise<void> => {
+    const profile = await this.clientOrganizationService.getProfile(req.params['id'] as string);
+
+    res.json({
+      success: true,
+      data: toProfileResponse(profile),
+    });
+  };
+}
@@ -0,0 +1,152 @@
+import { Request, Response } from 'express';
+import { EnrollmentRequestService, EnrollmentRequestDetails } from '../services/enrollment-request-service.js';
+import { getSessionUser } from '../middleware/session.js';
+import { getDateRange, getListOptions, getQueryString } from '../utils/pagination.js';
+import { getIfMatchVersion, setETag } from '../utils/etag.js';
+import {
+  CreateEnrollmentRequestRequest,
+  ReviewEnrollmentRequestRequest,
+  EnrollmentRequestFilters,
+  EnrollmentRequestStatus,
+} from '../types/index.js';
+
+/**
+ * Serialize an enrollment request with its contacts
+ */
+const toResponse = ({ request, contacts }: EnrollmentRequestDetails): Record<string, any> => ({
+  ...request.toJSON(),
+  contacts: contacts.map(contact => contact.toJSON()),
+});
+
+/**
+ * Enrollment request controller
+ */
+export class EnrollmentRequestController {
+  private enrollmentRequestService: EnrollmentRequestService;
+
+  constructor(enrollmentRequestService: EnrollmentRequestService) {
+    this.enrollmentRequestService = enrollmentRequestService;
+  }
+
+  /**
+   * POST /api/enrollment-requests
+   */
+  submit = async (req: Request, res: Response): Promise<void> => {
+    const { programId, clientName, accountIds, contacts, motivation } = req.body as CreateEnrollmentRequestRequest;
+    const data: CreateEnrollmentRequestRequest = { programId, clientName, accountIds: accountIds || [], contacts };
+    if (motivation !== undefined) data.motivation = motivation;
+
+    const details = await this.enrollmentRequestService.submit(data, getSessionUser(req).id);
+
+    res.status(201).json({
+      success: true,
+      data: toResponse(details),
+      message: 'Enrollment request submitted',
+    });
+  };
+
+  /**
+   * GET /api/enrollment-requests
+   * Client Managers only see the requests they filed.
+   */
+  list = async (req: Request, res: Response): Promise<void> => {
+    const user = getSessionUser(req);
+    const filters: EnrollmentRequestFilters = {};
+    const status = getQueryString(req, 'status');
+    const programId = getQueryString(req, 'programId');
+    const search = getQueryString(req, 'search');
+
+    if (status) filters.status = status as EnrollmentRequestStatus;
+    if (programId) filters.programId = programId;
+    if (search) filters.search = search;
+    const createdAt = getDateRange(req, 'created');
+    const reviewedAt = getDateRange(req, 'reviewed');
+    if (createdAt) filters.createdAt = createdAt;
+    if (reviewedAt) filters.reviewedAt = reviewedAt;
+    if (!user.isProductPeople()) filters.requestedBy = user.id;
+
+    const result = await this.enrollmentRequestService.list(filters, getListOptions(req));
+
+    res.json({
+      success: true,
+      data: result.data.map(request => request.toJSON()),
+      pagination: result.pagination,
+    });
+  };
+
+  /**
+   * GET /api/enrollment-requests/:id
+   */
+  getById = async (req: Request, res: Response): Promise<void> => {
+    const details = await this.enrollmentRequestService.getById(req.params['id'] as string, getSessionUser(req));
+
+    setETag(res, details.request);
+    res.json({
+      success: true,
+      data: toResponse(details),
+    });
+  };
+
+  /**
+   * POST /api/enrollment-requests/:id/approve
+   */
+  approve = async (req: Request, res: Response): Promise<void> => {
+    const approval = await this.enrollmentRequestService.approve(
+      req.params['id'] as string,
+      getSessionUser(req).id,
+      getIfMatchVersion(req)
+    );
+
+    setETag(res, approval.request);
+    res.json({
+      success: true,
+      data: {
+        request: toResponse(approval),
+        client: approval.client.toJSON(),
+        organization: approval.organization.toJSON(),
+      },
+      message: 'Enrollment request approved',
+    });
+  };
+
+  /**
+   * POST /api/enrollment-requests/:id/reject
+   */
+  reject = async (req: Request, res: Response): Promise<void> => {
+    const { rejectionReason } = req.body as ReviewEnrollmentRequestRequest;
+    const request = await this.enrollmentRequestService.reject(
+      req.params['id'] as string,
+      getSessionUser(req).id,
+      rejectionReason ?? '',
+      getIfMatchVersion(req)
+    );
+
+    setETag(res, request);
+    res.json({
+      success: true,
+      data: request.toJSON(),
+      message: 'Enrollment request rejected',
+    });
+  };
+
+  /**
+   * DELETE /api/enrollment-requests/:id
+   */
+  delete = async (req: Request, res: Response): Promise<void> => {
+    await this.enrollmentRequestService.delete(req.params['id'] as string, getSessionUser(req));
+    res.status(204).send();
+  };
+
+  /**
+   * POST /api/enrollment-requests/:id/restore
+   */
+  restore = async (req: Request, res: Response): Promise<void> => {
+    const request = await this.enrollmentRequestService.restore(req.params['id'] as string, getSessionUser(req));
+
+    res.json({
+      success: true,
+      data: request.toJSON(),
+      message: 'Enrollment request restored',
+    });
+  };
+}
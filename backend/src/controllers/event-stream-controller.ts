@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import { EventStreamService, HEARTBEAT_INTERVAL_MS } from '../services/event-stream-service.js';
+import { SessionService } from '../services/session-service.js';
+import { getSession, getSessionUser } from '../middleware/session.js';
+import { StreamedEvent } from '../types/index.js';
+
+/**
+ * Delay before a dropped client reconnects, sent once per stream
+ */
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * Server-Sent Events frame of a domain event: the sequence as ID, the event
+ * type as name and the event as JSON data
+ */
+const formatEvent = ({ sequence, event }: StreamedEvent): string =>
+  `id: ${sequence}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+/**
+ * Live event stream controller
+ */
+export class EventStreamController {
+  private eventStreamService: EventStreamService;
+  private sessionService: SessionService;
+
+  constructor(eventStreamService: EventStreamService, sessionService: SessionService) {
+    this.eventStreamService = eventStreamService;
+    this.sessionService = sessionService;
+  }
+
+  /**
+   * GET /api/events
+   *
+   * Each heartbeat re-checks the session: the stream ends once it is logged
+   * out, expired or its user deactivated, and follows a change of role.
+   */
+  stream = (req: Request, res: Response): void => {
+    const lastEventId = req.header('Last-Event-ID');
+    const session = getSession(req);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Stops nginx from buffering the stream
+    });
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    const connection = this.eventStreamService.connect(
+      getSessionUser(req),
+      streamed => res.write(formatEvent(streamed)),
+      lastEventId === undefined ? undefined : Number(lastEventId)
+    );
+
+    let open = true;
+    const close = () => {
+      if (open) {
+        open = false;
+        clearInterval(heartbeat);
+        connection.close();
+        res.end();
+      }
+    };
+    const heartbeat = setInterval(() => {
+      this.sessionService
+        .check(session.id)
+        .then(active => {
+          if (!active) {
+            close();
+            return;
+          }
+          if (open) {
+            connection.setUser(active.user);
+            res.write(': heartbeat\n\n');
+          }
+        })
+        .catch(close);
+    }, HEARTBEAT_INTERVAL_MS);
+
+    req.on('close', close);
+  };
+}
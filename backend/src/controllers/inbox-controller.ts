@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import { InboxService } from '../services/inbox-service.js';
+import { getSessionUser } from '../middleware/session.js';
+import { getListOptions, getQueryString } from '../utils/pagination.js';
+import { NotificationFilters, NotificationType } from '../types/index.js';
+
+/**
+ * In-app notification controller: the session user's inbox
+ */
+export class InboxController {
+  private inboxService: InboxService;
+
+  constructor(inboxService: InboxService) {
+    this.inboxService = inboxService;
+  }
+
+  /**
+   * GET /api/notifications
+   */
+  list = async (req: Request, res: Response): Promise<void> => {
+    const filters: NotificationFilters = {};
+    const unread = getQueryString(req, 'unread');
+    const type = getQueryString(req, 'type');
+
+    if (unread) filters.unread = unread === 'true';
+    if (type) filters.type = type as NotificationType;
+
+    const result = await this.inboxService.list(getSessionUser(req).id, filters, getListOptions(req));
+
+    res.json({
+      success: true,
+      data: result.data.map(notification => notification.toJSON()),
+      pagination: result.pagination,
+    });
+  };
+
+  /**
+   * GET /api/notifications/unread-count
+   */
+  unreadCount = async (req: Request, res: Response): Promise<void> => {
+    const count = await this.inboxService.countUnread(getSessionUser(req).id);
+
+    res.json({
+      success: true,
+      data: { count },
+    });
+  };
+
+  /**
+   * POST /api/notifications/:id/read
+   */
+  markRead = async (req: Request, res: Response): Promise<void> => {
+    const notification = await this.inboxService.markRead(req.params['id'] as string, getSessionUser(req).id);
+
+    res.json({
+      success: true,
+      data: notification.toJSON(),
+    });
+  };
+
+  /**
+   * POST /api/notifications/read-all
+   */
+  markAllRead = async (req: Request, res: Response): Promise<void> => {
+    const updated = await this.inboxService.markAllRead(getSessionUser(req).id);
+
+    res.json({
+      success: true,
+      data: { updated },
+      message: `${updated} notifications marked read`,
+    });
+  };
+}
@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { ProgramService } from '../services/program-service.js';
+import { getSessionUser } from '../middleware/session.js';
+import { getDateRange, getListOptions, getQueryString } from '../utils/pagination.js';
+import { getIfMatchVersion, setETag } from '../utils/etag.js';
+import {
+  CreateProgramRequest,
+  UpdateProgramRequest,
+  TransitionProgramRequest,
+  ProgramFilters,
+  ProgramStatus,
+} from '../types/index.js';
+
+/**
+ * Program controller: CRUD and lifecycle transitions
+ */
+export class ProgramController {
+  private programService: ProgramService;
+
+  constructor(programService: ProgramService) {
+    this.programService = programService;
+  }
+
+  /**
+   * GET /api/programs
+   */
+  list = async (req: Request, res: Response): Promise<void> => {
+    const filters: ProgramFilters = {};
+    const status = getQueryString(req, 'status');
+    const creatorId = getQueryString(req, 'creatorId');
+    const search = getQueryString(req, 'search');
+
+    if (status) filters.status = status as ProgramStatus;
+    if (creatorId) filters.creatorId = creatorId;
+    if (search) filters.search = search;
+    const createdAt = getDateRange(req, 'created');
+    const startDate = getDateRange(req, 'start');
+    const endDate = getDateRange(req, 'end');
+    if (createdAt) filters.createdAt = createdAt;
+    if (startDate) filters.startDate = startDate;
+    if (endDate) filters.endDate = endDate;
+
+    const result = await this.programService.list(filters, getListOptions(req));
+
+    res.json({
+      success: true,
+      data: result.data.map(program => program.toJSON()),
+      pagination: result.pagination,
+    });
+  };
+
+  /**
+   * GET /api/programs/:id
+   */
+  getById = async (req: Request, res: Response): Promise<void> => {
+    const program = await this.programService.getById(req.params['id'] as string);
+
+    setETag(res, program);
+    res.json({
+      success: true,
+      data: program.toJSON(),
+    });
+  };
+
+  /**
+   * GET /api/programs/:id/waitlist
+   */
+  getWaitlist = async (req: Request, res: Response): Promise<void> => {
+    const clients = await this.programService.getWaitlist(req.params['id'] as string);
+
+    res.json({
+      success: true,
+      data: clients.map(client => client.toJSON()),
+    });
+  };
+
+  /**
+   * POST /api/programs
+   */
+  create = async (req: Request, res: Response): Promise<void> => {
+    const program = await this.programService.create(
+      this.pickProgramFields(req.body) as CreateProgramRequest,
+      getSessionUser(req).id
+    );
+
+    res.status(201).json({
+      success: true,
+      data: program.toJSON(),
+      message: 'Program created',
+    });
+  };
+
+  /**
+   * PUT /api/programs/:id
+   */
+  update = async (req: Request, res: Response): Promise<void> => {
+    const program = await this.programService.update(
+      req.params['id'] as string,
+      this.pickProgramFields(req.body),
+      getIfMatchVersion(req)
+    );
+
+    setETag(res, program);
+    res.json({
+      success: true,
+      data: program.toJSON(),
+      message: 'Program updated',
+    });
+  };
+
+  /**
+   * POST /api/programs/:id/transition
+   */
+  transition = async (req: Request, res: Response): Promise<void> => {
+    const { status } = req.body as TransitionProgramRequest;
+    const program = await this.programService.transition(req.params['id'] as string, status, getIfMatchVersion(req));
+
+    setETag(res, program);
+    res.json({
+      success: true,
+      data: program.toJSON(),
+      message: `Program is now ${program.status}`,
+    });
+  };
+
+  /**
+   * DELETE /api/programs/:id
+   */
+  delete = async (req: Request, res: Response): Promise<void> => {
+    await this.programService.delete(req.params['id'] as string, getIfMatchVersion(req));
+    res.status(204).send();
+  };
+
+  /**
+   * POST /api/programs/:id/restore
+   */
+  restore = async (req: Request, res: Response): Promise<void> => {
+    const program = await this.programService.restore(req.params['id'] as string);
+
+    res.json({
+      success: true,
+      data: program.toJSON(),
+      message: 'Program restored',
+    });
+  };
+
+  /**
+   * Keep only the editable program fields from a request body
+   */
+  private pickProgramFields(body: Record<string, any>): UpdateProgramRequest {
+    const data: UpdateProgramRequest = {};
+
+    if (body['title'] !== undefined) data.title = body['title'];
+    if (body['description'] !== undefined) data.description = body['description'];
+    if (body['stakeholders'] !== undefined) data.stakeholders = body['stakeholders'];
+    if (body['startDate'] !== undefined) data.startDate = body['startDate'];
+    if (body['endDate'] !== undefined) data.endDate = body['endDate'];
+    if (body['maxClients'] !== undefined) data.maxClients = body['maxClients'];
+
+    return data;
+  }
+}
@@ -0,0 +1,119 @@
+import { Request, Response } from 'express';
+import { RegistrationRequestService } from '../services/registration-request-service.js';
+import { getSessionUser } from '../middleware/session.js';
+import { getDateRange, getListOptions, getQueryString } from '../utils/pagination.js';
+import { getIfMatchVersion, setETag } from '../utils/etag.js';
+import {
+  CreateRegistrationRequestRequest,
+  ApproveRegistrationRequestRequest,
+  RegistrationRequestFilters,
+  RegistrationRequestStatus,
+  UserRole,
+} from '../types/index.js';
+
+/**
+ * Registration request controller: public submission and review workflow
+ */
+export class RegistrationRequestController {
+  private registrationRequestService: RegistrationRequestService;
+
+  constructor(registrationRequestService: RegistrationRequestService) {
+    this.registrationRequestService = registrationRequestService;
+  }
+
+  /**
+   * POST /api/registration-requests
+   */
+  submit = async (req: Request, res: Response): Promise<void> => {
+    const { email, firstName, lastName, requestedRole } = req.body as CreateRegistrationRequestRequest;
+    const request = await this.registrationRequestService.submit({ email, firstName, lastName, requestedRole });
+
+    res.status(201).json({
+      success: true,
+      data: request.toJSON(),
+      message: 'Registration request submitted',
+    });
+  };
+
+  /**
+   * GET /api/registration-requests
+   */
+  list = async (req: Request, res: Response): Promise<void> => {
+    const filters: RegistrationRequestFilters = {};
+    const status = getQueryString(req, 'status');
+    const requestedRole = getQueryString(req, 'requestedRole');
+    const email = getQueryString(req, 'email');
+    const search = getQueryString(req, 'search');
+
+    if (status) filters.status = status as RegistrationRequestStatus;
+    if (requestedRole) filters.requestedRole = requestedRole as UserRole;
+    if (email) filters.email = email;
+    if (search) filters.search = search;
+    const createdAt = getDateRange(req, 'created');
+    if (createdAt) filters.createdAt = createdAt;
+
+    const result = await this.registrationRequestService.list(filters, getListOptions(req));
+
+    res.json({
+      success: true,
+      data: result.data.map(request => request.toJSON()),
+      pagination: result.pagination,
+    });
+  };
+
+  /**
+   * GET /api/registration-requests/:id
+   */
+  getById = async (req: Request, res: Response): Promise<void> => {
+    const request = await this.registrationRequestService.getById(req.params['id'] as string);
+
+    setETag(res, request);
+    res.json({
+      success: true,
+      data: request.toJSON(),
+    });
+  };
+
+  /**
+   * POST /api/registration-requests/:id/approve
+   */
+  approve = async (req: Request, res: Response): Promise<void> => {
+    const { assignedRole } = req.body as ApproveRegistrationRequestRequest;
+    const { request, user } = await this.registrationRequestService.approve(
+      req.params['id'] as string,
+      getSessionUser(req).id,
+      assignedRole,
+      getIfMatchVersion(req)
+    );
+
+    setETag(res, request);
+    res.json({
+      success: true,
+      data: {
+        request: request.toJSON(),
+        user: user.toJSON(),
+      },
+      message: 'Registration request approved',
+    });
+  };
+
+  /**
+   * POST /api/registration-requests/:id/reject
+   */
+  reject = async (req: Request, res: Response): Promise<void> => {
+    const { rejectionReason } = req.body as ApproveRegistrationRequestRequest;
+    const request = await this.registrationRequestService.reject(
+      req.params['id'] as string,
+      getSessionUser(req).id,
+      rejectionReason ?? '',
+      getIfMatchVersion(req)
+    );
+
+    setETag(res, request);
+    res.json({
+      success: true,
+      data: request.toJSON(),
+      message: 'Registration request rejected',
+    });
+  };
+}
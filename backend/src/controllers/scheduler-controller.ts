@@ -0,0 +1,60 @@
+import { Request, Response } from 'express';
+import { SchedulerService } from '../services/scheduler-service.js';
+import { getListOptions, getQueryString } from '../utils/pagination.js';
+import { JobName, JobRunFilters, JobRunStatus } from '../types/index.js';
+
+/**
+ * Scheduler controller: job schedules and run history
+ */
+export class SchedulerController {
+  private schedulerService: SchedulerService;
+
+  constructor(schedulerService: SchedulerService) {
+    this.schedulerService = schedulerService;
+  }
+
+  /**
+   * GET /api/jobs
+   */
+  listJobs = async (_req: Request, res: Response): Promise<void> => {
+    const jobs = await this.schedulerService.listJobs();
+
+    res.json({
+      success: true,
+      data: jobs.map(job => job.toJSON()),
+    });
+  };
+
+  /**
+   * GET /api/jobs/runs
+   */
+  listRuns = async (req: Request, res: Response): Promise<void> => {
+    const filters: JobRunFilters = {};
+    const jobName = getQueryString(req, 'jobName');
+    const status = getQueryString(req, 'status');
+
+    if (jobName) filters.jobName = jobName as JobName;
+    if (status) filters.status = status as JobRunStatus;
+
+    const result = await this.schedulerService.listRuns(filters, getListOptions(req));
+
+    res.json({
+      success: true,
+      data: result.data.map(run => run.toJSON()),
+      pagination: result.pagination,
+    });
+  };
+
+  /**
+   * POST /api/jobs/:name/run
+   */
+  runNow = async (req: Request, res: Response): Promise<void> => {
+    const run = await this.schedulerService.runNow(req.params['name'] as JobName);
+
+    res.json({
+      success: true,
+      data: run.toJSON(),
+      message: `Job ${run.jobName} ${run.status === JobRunStatus.SUCCEEDED ? 'succeeded' : 'failed'}`,
+    });
+  };
+}
@@ -0,0 +1,34 @@
+import { Request, Response } from 'express';
+import { SearchService, DEFAULT_SEARCH_LIMIT } from '../services/search-service.js';
+import { getSessionUser } from '../middleware/session.js';
+import { getQueryString } from '../utils/pagination.js';
+
+/**
+ * Unified search controller
+ */
+export class SearchController {
+  private searchService: SearchService;
+
+  constructor(searchService: SearchService) {
+    this.searchService = searchService;
+  }
+
+  /**
+   * GET /api/search?q=
+   * Ranked, highlighted hits grouped by entity type.
+   */
+  search = async (req: Request, res: Response): Promise<void> => {
+    const limit = parseInt(getQueryString(req, 'limit') ?? '', 10);
+
+    const results = await this.searchService.search(
+      getQueryString(req, 'q') ?? '',
+      getSessionUser(req),
+      limit > 0 ? limit : DEFAULT_SEARCH_LIMIT
+    );
+
+    res.json({
+      success: true,
+      data: results,
+    });
+  };
+}
@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { SessionService } from '../services/session-service.js';
+import { setSessionCookie, clearSessionCookie } from '../middleware/session.js';
+import { UnauthorizedError } from '../utils/errors.js';
+import { CreateSessionRequest } from '../types/session.js';
+
+/**
+ * Session controller: email login, logout and current user
+ */
+export class SessionController {
+  private sessionService: SessionService;
+
+  constructor(sessionService: SessionService) {
+    this.sessionService = sessionService;
+  }
+
+  /**
+   * POST /api/session
+   */
+  login = async (req: Request, res: Response): Promise<void> => {
+    const { email } = req.body as CreateSessionRequest;
+    const { session, user } = await this.sessionService.login(email);
+
+    setSessionCookie(res, session);
+    res.status(201).json({
+      success: true,
+      data: {
+        user: user.toJSON(),
+        expiresAt: session.expiresAt,
+      },
+    });
+  };
+
+  /**
+   * DELETE /api/session
+   */
+  logout = async (req: Request, res: Response): Promise<void> => {
+    if (req.session) {
+      await this.sessionService.logout(req.session.id);
+    }
+
+    clearSessionCookie(res);
+    res.status(204).send();
+  };
+
+  /**
+   * GET /api/session/me
+   */
+  me = async (req: Request, res: Response): Promise<void> => {
+    if (!req.user || !req.session) {
+      throw new UnauthorizedError('An active session is required', 'SESSION_REQUIRED');
+    }
+
+    res.json({
+      success: true,
+      data: {
+        user: req.user.toJSON(),
+        expiresAt: req.session.expiresAt,
+      },
+    });
+  };
+}
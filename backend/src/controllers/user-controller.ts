@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { UserService } from '../services/user-service.js';
+import { getDateRange, getListOptions, getQueryString } from '../utils/pagination.js';
+import { getIfMatchVersion, setETag } from '../utils/etag.js';
+import { UpdateUserRequest, UserFilters, UserRole, UserStatus } from '../types/index.js';
+
+/**
+ * User administration controller
+ */
+export class UserController {
+  private userService: UserService;
+
+  constructor(userService: UserService) {
+    this.userService = userService;
+  }
+
+  /**
+   * GET /api/users
+   */
+  list = async (req: Request, res: Response): Promise<void> => {
+    const filters: UserFilters = {};
+    const role = getQueryString(req, 'role');
+    const status = getQueryString(req, 'status');
+    const email = getQueryString(req, 'email');
+    const search = getQueryString(req, 'search');
+
+    if (role) filters.role = role as UserRole;
+    if (status) filters.status = status as UserStatus;
+    if (email) filters.email = email;
+    if (search) filters.search = search;
+    const createdAt = getDateRange(req, 'created');
+    if (createdAt) filters.createdAt = createdAt;
+
+    const result = await this.userService.list(filters, getListOptions(req));
+
+    res.json({
+      success: true,
+      data: result.data.map(user => user.toJSON()),
+      pagination: result.pagination,
+    });
+  };
+
+  /**
+   * GET /api/users/:id
+   */
+  getById = async (req: Request, res: Response): Promise<void> => {
+    const user = await this.userService.getById(req.params['id'] as string);
+
+    setETag(res, user);
+    res.json({
+      success: true,
+      data: user.toJSON(),
+    });
+  };
+
+  /**
+   * PUT /api/users/:id
+   */
+  update = async (req: Request, res: Response): Promise<void> => {
+    const body = req.body as UpdateUserRequest;
+    const data: UpdateUserRequest = {};
+
+    if (body.email !== undefined) data.email = body.email;
+    if (body.firstName !== undefined) data.firstName = body.firstName;
+    if (body.lastName !== undefined) data.lastName = body.lastName;
+    if (body.role !== undefined) data.role = body.role;
+
+    const user = await this.userService.update(req.params['id'] as string, data, getIfMatchVersion(req));
+
+    setETag(res, user);
+    res.json({
+      success: true,
+      data: user.toJSON(),
+      message: 'User updated',
+    });
+  };
+
+  /**
+   * POST /api/users/:id/deactivate
+   */
+  deactivate = async (req: Request, res: Response): Promise<void> => {
+    const user = await this.userService.deactivate(req.params['id'] as string, getIfMatchVersion(req));
+
+    setETag(res, user);
+    res.json({
+      success: true,
+      data: user.toJSON(),
+      message: 'User deactivated',
+    });
+  };
+
+  /**
+   * POST /api/users/:id/activate
+   */
+  activate = async (req: Request, res: Response): Promise<void> => {
+    const user = await this.userService.activate(req.params['id'] as string, getIfMatchVersion(req));
+
+    setETag(res, user);
+    res.json({
+      success: true,
+      data: user.toJSON(),
+      message: 'User activated',
+    });
+  };
+
+  /**
+   * DELETE /api/users/:id
+   */
+  delete = async (req: Request, res: Response): Promise<void> => {
+    await this.userService.delete(req.params['id'] as string, getIfMatchVersion(req));
+    res.status(204).send();
+  };
+
+  /**
+   * POST /api/users/:id/restore
+   */
+  restore = async (req: Request, res: Response): Promise<void> => {
+    const user = await this.userService.restore(req.params['id'] as string);
+
+    res.json({
+      success: true,
+      data: user.toJSON(),
+      message: 'User restored',
+    });
+  };
+}
@@ -0,0 +1,135 @@
+import { Request, Response } from 'express';
+import { WebhookService } from '../services/webhook-service.js';
+import { getSessionUser } from '../middleware/session.js';
+import { getListOptions, getQueryString } from '../utils/pagination.js';
+import {
+  CreateWebhookRequest,
+  DomainEventType,
+  UpdateWebhookRequest,
+  WebhookDeliveryFilters,
+  WebhookDeliveryStatus,
+} from '../types/index.js';
+
+/**
+ * Webhook controller: endpoint registration and the delivery log
+ */
+export class WebhookController {
+  private webhookService: WebhookService;
+
+  constructor(webhookService: WebhookService) {
+    this.webhookService = webhookService;
+  }
+
+  /**
+   * GET /api/webhooks
+   */
+  list = async (req: Request, res: Response): Promise<void> => {
+    const result = await this.webhookService.list(getListOptions(req));
+
+    res.json({
+      success: true,
+      data: result.data.map(webhook => webhook.toJSON()),
+      pagination: result.pagination,
+    });
+  };
+
+  /**
+   * GET /api/webhooks/:id
+   */
+  getById = async (req: Request, res: Response): Promise<void> => {
+    const webhook = await this.webhookService.getById(req.params['id'] as string);
+
+    res.json({
+      success: true,
+      data: webhook.toJSON(),
+    });
+  };
+
+  /**
+   * POST /api/webhooks
+   */
+  create = async (req: Request, res: Response): Promise<void> => {
+    const webhook = await this.webhookService.create(
+      this.pickWebhookFields(req.body) as CreateWebhookRequest,
+      getSessionUser(req).id
+    );
+
+    // The only response carrying the secret
+    res.status(201).json({
+      success: true,
+      data: { ...webhook.toJSON(), secret: webhook.secret },
+      message: 'Webhook created',
+    });
+  };
+
+  /**
+   * PUT /api/webhooks/:id
+   */
+  update = async (req: Request, res: Response): Promise<void> => {
+    const webhook = await this.webhookService.update(req.params['id'] as string, this.pickWebhookFields(req.body));
+
+    res.json({
+      success: true,
+      data: webhook.toJSON(),
+      message: 'Webhook updated',
+    });
+  };
+
+  /**
+   * DELETE /api/webhooks/:id
+   */
+  delete = async (req: Request, res: Response): Promise<void> => {
+    await this.webhookService.delete(req.params['id'] as string);
+    res.status(204).send();
+  };
+
+  /**
+   * GET /api/webhooks/:id/deliveries
+   */
+  listDeliveries = async (req: Request, res: Response): Promise<void> => {
+    const filters: WebhookDeliveryFilters = {};
+    const status = getQueryString(req, 'status');
+    const eventType = getQueryString(req, 'eventType');
+
+    if (status) filters.status = status as WebhookDeliveryStatus;
+    if (eventType) filters.eventType = eventType as DomainEventType;
+
+    const result = await this.webhookService.listDeliveries(req.params['id'] as string, filters, getListOptions(req));
+
+    res.json({
+      success: true,
+      data: result.data.map(delivery => delivery.toJSON()),
+      pagination: result.pagination,
+    });
+  };
+
+  /**
+   * POST /api/webhooks/:id/deliveries/:deliveryId/redeliver
+   */
+  redeliver = async (req: Request, res: Response): Promise<void> => {
+    const delivery = await this.webhookService.redeliver(
+      req.params['id'] as string,
+      req.params['deliveryId'] as string
+    );
+
+    res.status(202).json({
+      success: true,
+      data: delivery.toJSON(),
+      message: 'Delivery queued',
+    });
+  };
+
+  /**
+   * Keep only the editable webhook fields from a request body
+   */
+  private pickWebhookFields(body: Record<string, any>): UpdateWebhookRequest {
+    const data: UpdateWebhookRequest = {};
+
+    if (body['url'] !== undefined) data.url = body['url'];
+    if (body['description'] !== undefined) data.description = body['description'];
+    if (body['events'] !== undefined) data.events = body['events'];
+    if (body['active'] !== undefined) data.active = body['active'];
+
+    return data;
+  }
+}
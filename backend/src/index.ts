@@ -1,5 +1,8 @@
 import dotenv from 'dotenv';
 import { initializeDatabase } from './config/migrations.js';
+import { database } from './config/database.js';
+import { verifySchema } from './config/schema-check.js';
+import { getRepositorySchemas } from './config/services.js';
 import { expressApp } from './config/express.js';
 
 // Load environment variables
@@ -10,9 +13,23 @@ async function startServer(): Promise<void> {
   try {
     // Initialize database
     await initializeDatabase();
+
+    // Refuse to boot when repositories and the live schema drifted apart
+    await verifySchema(database, getRepositorySchemas(expressApp.getServices()));
     
     // Start Express server
     expressApp.start();
+
+    // Deliver queued notifications, retrying the ones that failed
+    expressApp.getServices().notificationService.start();
+
+    // Post queued webhook deliveries, retrying the ones that failed
+    expressApp.getServices().webhookService.start();
+
+    // Start and stop programs on their dates, archive stopped ones, remind
+    // program teams of enrollment requests waiting too long and of programs
+    // nearing their end, refresh client engagement and purge deleted rows
+    expressApp.getServices().schedulerService.start();
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { User } from '../models/user.js';
+import { UserRole } from '../types/user.js';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors.js';
+import '../types/session.js';
+
+/**
+ * Role checks, reusing the User model helpers
+ */
+const roleChecks: Record<UserRole, (user: User) => boolean> = {
+  [UserRole.PRODUCT_PEOPLE]: user => user.isProductPeople(),
+  [UserRole.CLIENT_MANAGER]: user => user.isClientManager(),
+};
+
+/**
+ * Check whether a user holds one of the given roles.
+ * Product People are admins of the tool and pass every role check.
+ */
+export const hasRole = (user: User, roles: UserRole[]): boolean => {
+  return user.isProductPeople() || roles.some(role => roleChecks[role](user));
+};
+
+/**
+ * Middleware gating a route to session users holding one of the given roles.
+ * Anonymous requests get a 401, other roles a 403; both go through the
+ * global error handler so they share its `{ success, error, code }` envelope.
+ */
+export const requireRole = (...roles: UserRole[]): RequestHandler => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new UnauthorizedError('An active session is required', 'SESSION_REQUIRED'));
+      return;
+    }
+
+    if (!hasRole(req.user, roles)) {
+      next(new ForbiddenError(`This action requires one of the roles: ${roles.join(', ')}`));
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Program management and registration review
+ */
+export const requireProductPeople = requireRole(UserRole.PRODUCT_PEOPLE);
+
+/**
+ * Program browsing and enrollment filing
+ */
+export const requireClientManager = requireRole(UserRole.CLIENT_MANAGER);
@@ -0,0 +1,115 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { SessionService } from '../services/session-service.js';
+import { Session } from '../models/session.js';
+import { User } from '../models/user.js';
+import { UnauthorizedError } from '../utils/errors.js';
+import { runAsActor } from '../config/actor-context.js';
+import '../types/session.js';
+
+/**
+ * Name of the cookie holding the session ID
+ */
+export const SESSION_COOKIE_NAME = 'ab_eam_session';
+
+/**
+ * Read a cookie value from the raw Cookie header
+ */
+export const readCookie = (req: Request, name: string): string | undefined => {
+  const header = req.headers.cookie;
+  if (!header) {
+    return undefined;
+  }
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) continue;
+    if (part.slice(0, separator).trim() === name) {
+      return decodeURIComponent(part.slice(separator + 1).trim());
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Write the session cookie, its max age following the sliding expiry
+ */
+export const setSessionCookie = (res: Response, session: Session): void => {
+  res.cookie(SESSION_COOKIE_NAME, session.id, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env['NODE_ENV'] === 'production',
+    expires: session.expiresAt,
+  });
+};
+
+/**
+ * Remove the session cookie
+ */
+export const clearSessionCookie = (res: Response): void => {
+  res.clearCookie(SESSION_COOKIE_NAME);
+};
+
+/**
+ * Middleware resolving the session cookie into `req.session` and `req.user`.
+ * The rest of the request runs as that user for the audit log. Requests
+ * without a valid session simply continue anonymously.
+ */
+export const loadSession = (sessionService: SessionService): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const sessionId = readCookie(req, SESSION_COOKIE_NAME);
+    if (!sessionId) {
+      next();
+      return;
+    }
+
+    sessionService
+      .resolve(sessionId)
+      .then(active => {
+        if (active) {
+          req.session = active.session;
+          req.user = active.user;
+          setSessionCookie(res, active.session);
+          runAsActor(active.user.id, next);
+          return;
+        }
+        clearSessionCookie(res);
+        next();
+      })
+      .catch(next);
+  };
+};
+
+/**
+ * Middleware rejecting requests without a session user
+ */
+export const requireSession = (req: Request, _res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    next(new UnauthorizedError('An active session is required', 'SESSION_REQUIRED'));
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Get the session user of a request gated by requireSession / requireRole
+ */
+export const getSessionUser = (req: Request): User => {
+  if (!req.user) {
+    throw new UnauthorizedError('An active session is required', 'SESSION_REQUIRED');
+  }
+
+  return req.user;
+};
+
+/**
+ * Get the session of a request gated by requireSession / requireRole
+ */
+export const getSession = (req: Request): Session => {
+  if (!req.session) {
+    throw new UnauthorizedError('An active session is required', 'SESSION_REQUIRED');
+  }
+
+  return req.session;
+};
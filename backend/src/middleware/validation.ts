@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { validationResult, body, param } from 'express-validator';
+import { validationResult, body, param, query } from 'express-validator';
 
 /**
  * Middleware to handle validation errors
@@ -71,4 +71,42 @@ export const validateDate = (field: string) => {
  */
 export const validateStringArray = (field: string) => {
   return body(field).optional().isArray().withMessage(`${field} must be an array`);
-}; 
\ No newline at end of file
+};
+
+/**
+ * Validate enum values in query string
+ */
+export const validateQueryEnum = (field: string, allowedValues: string[]) => {
+  return query(field).optional().isIn(allowedValues).withMessage(`${field} must be one of: ${allowedValues.join(', ')}`);
+};
+
+/**
+ * Validate pagination query parameters
+ */
+export const validatePagination = () => {
+  return [
+    query('page').optional().isInt({ min: 1 }).withMessage('page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100'),
+    query('cursor').optional().matches(/^[A-Za-z0-9_-]*$/).withMessage('cursor is invalid'),
+  ];
+};
+
+/**
+ * Validate sorting query parameters (the sort key itself is checked by the repository)
+ */
+export const validateSorting = () => {
+  return [
+    query('sortBy').optional().isAlpha().withMessage('sortBy must be a field name'),
+    query('sortOrder').optional().isIn(['asc', 'desc', 'ASC', 'DESC']).withMessage('sortOrder must be one of: asc, desc'),
+  ];
+};
+
+/**
+ * Validate a `<prefix>From` / `<prefix>To` date range in the query string
+ */
+export const validateDateRange = (prefix: string) => {
+  return [
+    query(`${prefix}From`).optional().isISO8601().withMessage(`${prefix}From must be a valid date`),
+    query(`${prefix}To`).optional().isISO8601().withMessage(`${prefix}To must be a valid date`),
+  ];
+};
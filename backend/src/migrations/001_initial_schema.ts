@@ -1,4 +1,4 @@
-import { Migration } from '../src/config/migration';
+import { Migration } from '../config/migration.js';
 
 export const initialSchemaMigration: Migration = {
   version: 1,
@@ -0,0 +1,25 @@
+import { Migration } from '../config/migration.js';
+
+export const sessionsMigration: Migration = {
+  version: 2,
+  name: 'sessions',
+  up: `
+    -- Sessions table (email-only login, sliding expiry)
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expires_at DATETIME NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions (user_id);
+    CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions (expires_at);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_sessions_user_id;
+    DROP INDEX IF EXISTS idx_sessions_expires_at;
+    DROP TABLE IF EXISTS sessions;
+  `
+};
@@ -0,0 +1,17 @@
+import { Migration } from '../config/migration.js';
+
+export const enrollmentReviewMigration: Migration = {
+  version: 3,
+  name: 'enrollment_review',
+  up: `
+    -- Track who reviewed an enrollment request, when, and why it was rejected
+    ALTER TABLE enrollment_requests ADD COLUMN reviewed_by TEXT REFERENCES users (id);
+    ALTER TABLE enrollment_requests ADD COLUMN reviewed_at DATETIME;
+    ALTER TABLE enrollment_requests ADD COLUMN rejection_reason TEXT;
+  `,
+  down: `
+    ALTER TABLE enrollment_requests DROP COLUMN rejection_reason;
+    ALTER TABLE enrollment_requests DROP COLUMN reviewed_at;
+    ALTER TABLE enrollment_requests DROP COLUMN reviewed_by;
+  `
+};
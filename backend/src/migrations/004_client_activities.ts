@@ -0,0 +1,28 @@
+import { Migration } from '../config/migration.js';
+
+export const clientActivitiesMigration: Migration = {
+  version: 4,
+  name: 'client_activities',
+  up: `
+    -- Client engagement history (feedback, feature usage, calls, silence)
+    CREATE TABLE IF NOT EXISTS client_activities (
+      id TEXT PRIMARY KEY,
+      client_id TEXT NOT NULL,
+      type TEXT NOT NULL CHECK (type IN ('FEEDBACK_GIVEN', 'FEATURE_USED', 'CALL_HELD', 'WENT_SILENT')),
+      occurred_at DATETIME NOT NULL,
+      notes TEXT,
+      recorded_by TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (client_id) REFERENCES clients (id) ON DELETE CASCADE,
+      FOREIGN KEY (recorded_by) REFERENCES users (id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_client_activities_client_id ON client_activities (client_id);
+    CREATE INDEX IF NOT EXISTS idx_client_activities_occurred_at ON client_activities (occurred_at);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_client_activities_client_id;
+    DROP INDEX IF EXISTS idx_client_activities_occurred_at;
+    DROP TABLE IF EXISTS client_activities;
+  `
+};
@@ -0,0 +1,53 @@
+import { Migration } from '../config/migration.js';
+
+export const clientOrganizationsMigration: Migration = {
+  version: 5,
+  name: 'client_organizations',
+  up: `
+    -- Client organisations: one customer across programs, keyed by name and account IDs
+    CREATE TABLE IF NOT EXISTS client_organizations (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      account_ids TEXT, -- JSON array of account IDs
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_client_organizations_name ON client_organizations (name COLLATE NOCASE);
+
+    ALTER TABLE clients ADD COLUMN organization_id TEXT REFERENCES client_organizations (id);
+    CREATE INDEX IF NOT EXISTS idx_clients_organization_id ON clients (organization_id);
+
+    -- Backfill one organisation per client name already enrolled
+    INSERT INTO client_organizations (id, name, account_ids, created_at, updated_at)
+    SELECT
+      lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' ||
+        substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) ||
+        substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))),
+      MIN(er.client_name),
+      '[]',
+      MIN(c.enrolled_at),
+      MIN(c.enrolled_at)
+    FROM clients c
+    JOIN enrollment_requests er ON er.id = c.enrollment_request_id
+    GROUP BY er.client_name COLLATE NOCASE;
+
+    UPDATE clients SET organization_id = (
+      SELECT o.id FROM client_organizations o
+      JOIN enrollment_requests er ON er.client_name = o.name COLLATE NOCASE
+      WHERE er.id = clients.enrollment_request_id
+    );
+
+    UPDATE client_organizations SET account_ids = (
+      SELECT json_group_array(DISTINCT a.value)
+      FROM clients c, json_each(c.account_ids) a
+      WHERE c.organization_id = client_organizations.id
+    );
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_clients_organization_id;
+    ALTER TABLE clients DROP COLUMN organization_id;
+    DROP INDEX IF EXISTS idx_client_organizations_name;
+    DROP TABLE IF EXISTS client_organizations;
+  `
+};
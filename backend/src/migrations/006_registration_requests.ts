@@ -0,0 +1,31 @@
+import { Migration } from '../config/migration.js';
+
+export const registrationRequestsMigration: Migration = {
+  version: 6,
+  name: 'registration_requests',
+  up: `
+    -- Registration requests table (self-service sign-up, reviewed by Product People)
+    CREATE TABLE IF NOT EXISTS registration_requests (
+      id TEXT PRIMARY KEY,
+      email TEXT NOT NULL,
+      first_name TEXT NOT NULL,
+      last_name TEXT NOT NULL,
+      requested_role TEXT NOT NULL CHECK (requested_role IN ('PRODUCT_PEOPLE', 'CLIENT_MANAGER')),
+      status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      approved_by TEXT,
+      approved_at DATETIME,
+      rejection_reason TEXT,
+      FOREIGN KEY (approved_by) REFERENCES users (id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_registration_requests_email ON registration_requests (email);
+    CREATE INDEX IF NOT EXISTS idx_registration_requests_status ON registration_requests (status);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_registration_requests_email;
+    DROP INDEX IF EXISTS idx_registration_requests_status;
+    DROP TABLE IF EXISTS registration_requests;
+  `
+};
@@ -0,0 +1,80 @@
+import { Migration } from '../config/migration.js';
+
+export const searchIndexMigration: Migration = {
+  version: 7,
+  name: 'search_index',
+  up: `
+    -- Full-text indexes (FTS5), kept in sync with their source tables by triggers
+    CREATE VIRTUAL TABLE IF NOT EXISTS programs_fts USING fts5(
+      id UNINDEXED, title, description,
+      tokenize = 'unicode61 remove_diacritics 2', prefix = '2 3'
+    );
+    CREATE VIRTUAL TABLE IF NOT EXISTS client_organizations_fts USING fts5(
+      id UNINDEXED, name, account_ids,
+      tokenize = 'unicode61 remove_diacritics 2', prefix = '2 3'
+    );
+    CREATE VIRTUAL TABLE IF NOT EXISTS users_fts USING fts5(
+      id UNINDEXED, first_name, last_name, email,
+      tokenize = 'unicode61 remove_diacritics 2', prefix = '2 3'
+    );
+
+    -- Programs: title and description
+    CREATE TRIGGER IF NOT EXISTS programs_fts_insert AFTER INSERT ON programs BEGIN
+      INSERT INTO programs_fts (id, title, description) VALUES (new.id, new.title, new.description);
+    END;
+    CREATE TRIGGER IF NOT EXISTS programs_fts_update AFTER UPDATE OF title, description ON programs BEGIN
+      UPDATE programs_fts SET title = new.title, description = new.description WHERE id = old.id;
+    END;
+    CREATE TRIGGER IF NOT EXISTS programs_fts_delete AFTER DELETE ON programs BEGIN
+      DELETE FROM programs_fts WHERE id = old.id;
+    END;
+
+    -- Client organisations: name and account IDs (JSON array indexed as words)
+    CREATE TRIGGER IF NOT EXISTS client_organizations_fts_insert AFTER INSERT ON client_organizations BEGIN
+      INSERT INTO client_organizations_fts (id, name, account_ids) VALUES (
+        new.id, new.name, (SELECT group_concat(value, ' ') FROM json_each(COALESCE(new.account_ids, '[]')))
+      );
+    END;
+    CREATE TRIGGER IF NOT EXISTS client_organizations_fts_update AFTER UPDATE OF name, account_ids ON client_organizations BEGIN
+      UPDATE client_organizations_fts SET
+        name = new.name,
+        account_ids = (SELECT group_concat(value, ' ') FROM json_each(COALESCE(new.account_ids, '[]')))
+      WHERE id = old.id;
+    END;
+    CREATE TRIGGER IF NOT EXISTS client_organizations_fts_delete AFTER DELETE ON client_organizations BEGIN
+      DELETE FROM client_organizations_fts WHERE id = old.id;
+    END;
+
+    -- Users: names and email
+    CREATE TRIGGER IF NOT EXISTS users_fts_insert AFTER INSERT ON users BEGIN
+      INSERT INTO users_fts (id, first_name, last_name, email) VALUES (new.id, new.first_name, new.last_name, new.email);
+    END;
+    CREATE TRIGGER IF NOT EXISTS users_fts_update AFTER UPDATE OF first_name, last_name, email ON users BEGIN
+      UPDATE users_fts SET first_name = new.first_name, last_name = new.last_name, email = new.email WHERE id = old.id;
+    END;
+    CREATE TRIGGER IF NOT EXISTS users_fts_delete AFTER DELETE ON users BEGIN
+      DELETE FROM users_fts WHERE id = old.id;
+    END;
+
+    -- Index the rows that already exist
+    INSERT INTO programs_fts (id, title, description) SELECT id, title, description FROM programs;
+    INSERT INTO client_organizations_fts (id, name, account_ids)
+    SELECT id, name, (SELECT group_concat(value, ' ') FROM json_each(COALESCE(account_ids, '[]')))
+    FROM client_organizations;
+    INSERT INTO users_fts (id, first_name, last_name, email) SELECT id, first_name, last_name, email FROM users;
+  `,
+  down: `
+    DROP TRIGGER IF EXISTS programs_fts_insert;
+    DROP TRIGGER IF EXISTS programs_fts_update;
+    DROP TRIGGER IF EXISTS programs_fts_delete;
+    DROP TRIGGER IF EXISTS client_organizations_fts_insert;
+    DROP TRIGGER IF EXISTS client_organizations_fts_update;
+    DROP TRIGGER IF EXISTS client_organizations_fts_delete;
+    DROP TRIGGER IF EXISTS users_fts_insert;
+    DROP TRIGGER IF EXISTS users_fts_update;
+    DROP TRIGGER IF EXISTS users_fts_delete;
+    DROP TABLE IF EXISTS programs_fts;
+    DROP TABLE IF EXISTS client_organizations_fts;
+    DROP TABLE IF EXISTS users_fts;
+  `
+};
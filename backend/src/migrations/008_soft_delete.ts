@@ -0,0 +1,53 @@
+import { Migration } from '../config/migration.js';
+
+export const softDeleteMigration: Migration = {
+  version: 8,
+  name: 'soft_delete',
+  up: `
+    -- Deleted rows keep their data until the purge job removes them
+    ALTER TABLE users ADD COLUMN deleted_at DATETIME;
+    ALTER TABLE programs ADD COLUMN deleted_at DATETIME;
+    ALTER TABLE enrollment_requests ADD COLUMN deleted_at DATETIME;
+
+    CREATE INDEX IF NOT EXISTS idx_users_deleted_at ON users (deleted_at);
+    CREATE INDEX IF NOT EXISTS idx_programs_deleted_at ON programs (deleted_at);
+    CREATE INDEX IF NOT EXISTS idx_enrollment_requests_deleted_at ON enrollment_requests (deleted_at);
+
+    -- Deleted programs and users leave the search index and come back on restore
+    CREATE TRIGGER IF NOT EXISTS programs_fts_soft_delete AFTER UPDATE OF deleted_at ON programs
+    WHEN old.deleted_at IS NULL AND new.deleted_at IS NOT NULL BEGIN
+      DELETE FROM programs_fts WHERE id = old.id;
+    END;
+    CREATE TRIGGER IF NOT EXISTS programs_fts_restore AFTER UPDATE OF deleted_at ON programs
+    WHEN old.deleted_at IS NOT NULL AND new.deleted_at IS NULL BEGIN
+      INSERT INTO programs_fts (id, title, description) VALUES (new.id, new.title, new.description);
+    END;
+    CREATE TRIGGER IF NOT EXISTS users_fts_soft_delete AFTER UPDATE OF deleted_at ON users
+    WHEN old.deleted_at IS NULL AND new.deleted_at IS NOT NULL BEGIN
+      DELETE FROM users_fts WHERE id = old.id;
+    END;
+    CREATE TRIGGER IF NOT EXISTS users_fts_restore AFTER UPDATE OF deleted_at ON users
+    WHEN old.deleted_at IS NOT NULL AND new.deleted_at IS NULL BEGIN
+      INSERT INTO users_fts (id, first_name, last_name, email) VALUES (new.id, new.first_name, new.last_name, new.email);
+    END;
+  `,
+  down: `
+    DROP TRIGGER IF EXISTS programs_fts_soft_delete;
+    DROP TRIGGER IF EXISTS programs_fts_restore;
+    DROP TRIGGER IF EXISTS users_fts_soft_delete;
+    DROP TRIGGER IF EXISTS users_fts_restore;
+
+    -- Rows still in the bin come back (hard-deleting them here would cascade)
+    INSERT INTO programs_fts (id, title, description)
+    SELECT id, title, description FROM programs WHERE deleted_at IS NOT NULL;
+    INSERT INTO users_fts (id, first_name, last_name, email)
+    SELECT id, first_name, last_name, email FROM users WHERE deleted_at IS NOT NULL;
+
+    DROP INDEX IF EXISTS idx_users_deleted_at;
+    DROP INDEX IF EXISTS idx_programs_deleted_at;
+    DROP INDEX IF EXISTS idx_enrollment_requests_deleted_at;
+    ALTER TABLE users DROP COLUMN deleted_at;
+    ALTER TABLE programs DROP COLUMN deleted_at;
+    ALTER TABLE enrollment_requests DROP COLUMN deleted_at;
+  `
+};
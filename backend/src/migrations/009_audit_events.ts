@@ -0,0 +1,29 @@
+import { Migration } from '../config/migration.js';
+
+export const auditEventsMigration: Migration = {
+  version: 9,
+  name: 'audit_events',
+  up: `
+    -- Audit log: one row per write, with the fields it changed
+    CREATE TABLE IF NOT EXISTS audit_events (
+      id TEXT PRIMARY KEY,
+      entity_type TEXT NOT NULL,
+      entity_id TEXT NOT NULL,
+      action TEXT NOT NULL CHECK (action IN ('CREATE', 'UPDATE', 'DELETE', 'RESTORE', 'PURGE')),
+      actor_id TEXT, -- No foreign key: events outlive purged users; NULL for system jobs
+      before TEXT, -- JSON object
+      after TEXT, -- JSON object
+      created_at DATETIME NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events (entity_type, entity_id);
+    CREATE INDEX IF NOT EXISTS idx_audit_events_actor_id ON audit_events (actor_id);
+    CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events (created_at);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_audit_events_entity;
+    DROP INDEX IF EXISTS idx_audit_events_actor_id;
+    DROP INDEX IF EXISTS idx_audit_events_created_at;
+    DROP TABLE IF EXISTS audit_events;
+  `
+};
@@ -0,0 +1,20 @@
+import { Migration } from '../config/migration.js';
+
+export const rowVersionsMigration: Migration = {
+  version: 10,
+  name: 'row_versions',
+  up: `
+    -- Row versions for optimistic concurrency: every update bumps the version
+    -- and only applies to the version it was read at
+    ALTER TABLE users ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+    ALTER TABLE registration_requests ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+    ALTER TABLE programs ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+    ALTER TABLE enrollment_requests ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+  `,
+  down: `
+    ALTER TABLE users DROP COLUMN version;
+    ALTER TABLE registration_requests DROP COLUMN version;
+    ALTER TABLE programs DROP COLUMN version;
+    ALTER TABLE enrollment_requests DROP COLUMN version;
+  `
+};
@@ -0,0 +1,33 @@
+import { Migration } from '../config/migration.js';
+
+export const notificationOutboxMigration: Migration = {
+  version: 11,
+  name: 'notification_outbox',
+  up: `
+    -- Notification outbox: one row per message and recipient, kept until sent
+    -- so that failed sends are retried and survive a restart
+    CREATE TABLE IF NOT EXISTS notification_outbox (
+      id TEXT PRIMARY KEY,
+      event_id TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      recipient TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      body TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'SENT', 'FAILED')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at DATETIME NOT NULL,
+      sent_at DATETIME,
+      created_at DATETIME NOT NULL,
+      updated_at DATETIME NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_notification_outbox_due ON notification_outbox (status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_notification_outbox_event_id ON notification_outbox (event_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_notification_outbox_due;
+    DROP INDEX IF EXISTS idx_notification_outbox_event_id;
+    DROP TABLE IF EXISTS notification_outbox;
+  `
+};
@@ -0,0 +1,32 @@
+import { Migration } from '../config/migration.js';
+
+export const notificationsMigration: Migration = {
+  version: 12,
+  name: 'notifications',
+  up: `
+    -- In-app notifications: the inbox of each user
+    CREATE TABLE IF NOT EXISTS notifications (
+      id TEXT PRIMARY KEY,
+      recipient_id TEXT NOT NULL,
+      type TEXT NOT NULL CHECK (type IN (
+        'REGISTRATION_SUBMITTED', 'ENROLLMENT_SUBMITTED', 'ENROLLMENT_APPROVED',
+        'ENROLLMENT_REJECTED', 'PROGRAM_ENDING_SOON'
+      )),
+      entity_id TEXT NOT NULL, -- Registration request, enrollment request or program
+      message TEXT NOT NULL,
+      read_at DATETIME,
+      created_at DATETIME NOT NULL,
+      FOREIGN KEY (recipient_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_notifications_recipient_id ON notifications (recipient_id, read_at);
+    -- A program's end is announced once to each recipient
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_program_ending
+      ON notifications (recipient_id, entity_id) WHERE type = 'PROGRAM_ENDING_SOON';
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_notifications_recipient_id;
+    DROP INDEX IF EXISTS idx_notifications_program_ending;
+    DROP TABLE IF EXISTS notifications;
+  `
+};
@@ -0,0 +1,48 @@
+import { Migration } from '../config/migration.js';
+
+export const webhooksMigration: Migration = {
+  version: 13,
+  name: 'webhooks',
+  up: `
+    -- Outgoing webhooks: endpoints told about the domain events they subscribed to
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id TEXT PRIMARY KEY,
+      url TEXT NOT NULL,
+      description TEXT,
+      events TEXT NOT NULL, -- JSON array of domain event types
+      secret TEXT NOT NULL, -- HMAC-SHA256 key of the signatures
+      active INTEGER NOT NULL DEFAULT 1 CHECK (active IN (0, 1)),
+      creator_id TEXT NOT NULL,
+      created_at DATETIME NOT NULL,
+      updated_at DATETIME NOT NULL
+    );
+
+    -- Delivery log: one row per event and webhook, kept until the webhook is
+    -- deleted so that failed deliveries are retried and survive a restart
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      webhook_id TEXT NOT NULL,
+      event_id TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'SUCCEEDED', 'FAILED')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      response_status INTEGER,
+      last_error TEXT,
+      next_attempt_at DATETIME NOT NULL,
+      delivered_at DATETIME,
+      created_at DATETIME NOT NULL,
+      updated_at DATETIME NOT NULL,
+      FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries (webhook_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_webhook_deliveries_due;
+    DROP INDEX IF EXISTS idx_webhook_deliveries_webhook_id;
+    DROP TABLE IF EXISTS webhook_deliveries;
+    DROP TABLE IF EXISTS webhooks;
+  `
+};
@@ -0,0 +1,40 @@
+import { Migration } from '../config/migration.js';
+
+export const schedulerMigration: Migration = {
+  version: 14,
+  name: 'scheduler',
+  up: `
+    -- Schedule of the background jobs, kept across restarts
+    CREATE TABLE IF NOT EXISTS scheduled_jobs (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      interval_ms INTEGER NOT NULL CHECK (interval_ms > 0),
+      last_run_at DATETIME,
+      next_run_at DATETIME NOT NULL
+    );
+
+    -- Run history of the background jobs
+    CREATE TABLE IF NOT EXISTS job_runs (
+      id TEXT PRIMARY KEY,
+      job_name TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('RUNNING', 'SUCCEEDED', 'FAILED')),
+      processed INTEGER,
+      error TEXT,
+      started_at DATETIME NOT NULL,
+      finished_at DATETIME
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_job_runs_job_name ON job_runs (job_name);
+    CREATE INDEX IF NOT EXISTS idx_job_runs_status ON job_runs (status);
+
+    -- When the reviewers were reminded of a request left pending (once per request)
+    ALTER TABLE enrollment_requests ADD COLUMN reminded_at DATETIME;
+  `,
+  down: `
+    ALTER TABLE enrollment_requests DROP COLUMN reminded_at;
+    DROP INDEX IF EXISTS idx_job_runs_job_name;
+    DROP INDEX IF EXISTS idx_job_runs_status;
+    DROP TABLE IF EXISTS job_runs;
+    DROP TABLE IF EXISTS scheduled_jobs;
+  `
+};
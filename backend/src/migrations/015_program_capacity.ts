@@ -0,0 +1,20 @@
+import { Migration } from '../config/migration.js';
+
+export const programCapacityMigration: Migration = {
+  version: 15,
+  name: 'program_capacity',
+  up: `
+    -- Most clients a program enrolls at once; no limit when NULL
+    ALTER TABLE programs ADD COLUMN max_clients INTEGER CHECK (max_clients IS NULL OR max_clients > 0);
+
+    -- Approved clients waiting for a seat, in order; NULL once enrolled
+    ALTER TABLE clients ADD COLUMN waitlisted_at DATETIME;
+    CREATE INDEX IF NOT EXISTS idx_clients_waitlist ON clients (program_id, waitlisted_at)
+      WHERE waitlisted_at IS NOT NULL;
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_clients_waitlist;
+    ALTER TABLE clients DROP COLUMN waitlisted_at;
+    ALTER TABLE programs DROP COLUMN max_clients;
+  `
+};
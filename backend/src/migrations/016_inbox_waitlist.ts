@@ -0,0 +1,43 @@
+import { Migration } from '../config/migration.js';
+
+/**
+ * Notifications table with the given allowed types; SQLite cannot change a
+ * CHECK constraint in place, so the table is rebuilt
+ */
+const rebuildNotifications = (types: string[], keep: string): string => `
+    CREATE TABLE notifications_rebuilt (
+      id TEXT PRIMARY KEY,
+      recipient_id TEXT NOT NULL,
+      type TEXT NOT NULL CHECK (type IN (${types.map(type => `'${type}'`).join(', ')})),
+      entity_id TEXT NOT NULL, -- Registration request, enrollment request or program
+      message TEXT NOT NULL,
+      read_at DATETIME,
+      created_at DATETIME NOT NULL,
+      FOREIGN KEY (recipient_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+    INSERT INTO notifications_rebuilt (id, recipient_id, type, entity_id, message, read_at, created_at)
+    SELECT id, recipient_id, type, entity_id, message, read_at, created_at FROM notifications WHERE ${keep};
+
+    DROP INDEX IF EXISTS idx_notifications_recipient_id;
+    DROP INDEX IF EXISTS idx_notifications_program_ending;
+    DROP TABLE notifications;
+    ALTER TABLE notifications_rebuilt RENAME TO notifications;
+
+    CREATE INDEX IF NOT EXISTS idx_notifications_recipient_id ON notifications (recipient_id, read_at);
+    -- A program's end is announced once to each recipient
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_program_ending
+      ON notifications (recipient_id, entity_id) WHERE type = 'PROGRAM_ENDING_SOON';
+`;
+
+const TYPES = [
+  'REGISTRATION_SUBMITTED', 'ENROLLMENT_SUBMITTED', 'ENROLLMENT_APPROVED',
+  'ENROLLMENT_REJECTED', 'PROGRAM_ENDING_SOON'
+];
+
+export const inboxWaitlistMigration: Migration = {
+  version: 16,
+  name: 'inbox_waitlist',
+  // Client Managers hear about their clients put on a waitlist
+  up: rebuildNotifications([...TYPES, 'ENROLLMENT_WAITLISTED'], '1'),
+  down: rebuildNotifications(TYPES, "type <> 'ENROLLMENT_WAITLISTED'")
+};
@@ -0,0 +1,14 @@
+import { Migration } from '../config/migration.js';
+
+export const programStatusChangedAtMigration: Migration = {
+  version: 17,
+  name: 'program_status_changed_at',
+  up: `
+    -- When the program last changed status; edits to its content leave it alone
+    ALTER TABLE programs ADD COLUMN status_changed_at DATETIME;
+    UPDATE programs SET status_changed_at = updated_at;
+  `,
+  down: `
+    ALTER TABLE programs DROP COLUMN status_changed_at;
+  `
+};
@@ -0,0 +1,13 @@
+import { Migration } from '../config/migration.js';
+
+export const jobRunFailuresMigration: Migration = {
+  version: 18,
+  name: 'job_run_failures',
+  up: `
+    -- Items a run could not process; the run itself still succeeds
+    ALTER TABLE job_runs ADD COLUMN failed INTEGER;
+  `,
+  down: `
+    ALTER TABLE job_runs DROP COLUMN failed;
+  `
+};
@@ -0,0 +1,163 @@
+import { BaseModel } from './base.js';
+import {
+  AuditEvent as AuditEventInterface,
+  AuditEntityType,
+  AuditAction,
+  AuditEntry,
+  AuditEventDatabase,
+} from '../types/audit.js';
+
+/**
+ * Fields left out of update diffs: they change on every write
+ */
+const UNAUDITED_FIELDS = ['updatedAt', 'version'];
+
+/**
+ * Plain JSON copy of an entity (dates become ISO strings)
+ */
+const toPlain = (entity: object): Record<string, unknown> => JSON.parse(JSON.stringify(entity));
+
+/**
+ * Audit event model: who wrote what to which entity, and when
+ */
+export class AuditEvent extends BaseModel implements AuditEventInterface {
+  public id: string;
+  public entityType: AuditEntityType;
+  public entityId: string;
+  public action: AuditAction;
+  public actorId: string | undefined;
+  public before: Record<string, unknown> | null;
+  public after: Record<string, unknown> | null;
+  public createdAt: Date;
+
+  constructor(data: AuditEventInterface) {
+    super();
+    this.id = data.id;
+    this.entityType = data.entityType;
+    this.entityId = data.entityId;
+    this.action = data.action;
+    this.actorId = data.actorId;
+    this.before = data.before;
+    this.after = data.after;
+    this.createdAt = data.createdAt;
+  }
+
+  /**
+   * Validate audit event data
+   */
+  validate(): void {
+    // Validate IDs
+    this.validateUUID(this.id, 'id');
+    this.validateRequiredString(this.entityId, 'entityId');
+    this.validateOptional(this.actorId, (value) => this.validateUUID(value, 'actorId'));
+
+    // Validate enums
+    this.validateEnum(this.entityType, AuditEntityType, 'entityType');
+    this.validateEnum(this.action, AuditAction, 'action');
+
+    // Validate dates
+    this.validateDate(this.createdAt, 'createdAt');
+
+    // Validate business rules
+    if (this.before === null && this.after === null) {
+      throw new Error('An audit event needs a before or an after state');
+    }
+  }
+
+  /**
+   * Convert to JSON object
+   */
+  toJSON(): AuditEventInterface {
+    return {
+      id: this.id,
+      entityType: this.entityType,
+      entityId: this.entityId,
+      action: this.action,
+      actorId: this.actorId,
+      before: this.before,
+      after: this.after,
+      createdAt: this.createdAt,
+    };
+  }
+
+  /**
+   * Create AuditEvent from JSON data
+   */
+  fromJSON(data: Record<string, any>): AuditEvent {
+    return new AuditEvent({
+      id: data['id'],
+      entityType: data['entityType'] as AuditEntityType,
+      entityId: data['entityId'],
+      action: data['action'] as AuditAction,
+      actorId: data['actorId'],
+      before: data['before'] ?? null,
+      after: data['after'] ?? null,
+      createdAt: new Date(data['createdAt']),
+    });
+  }
+
+  /**
+   * Create AuditEvent from database record
+   */
+  static fromDatabase(data: AuditEventDatabase): AuditEvent {
+    return new AuditEvent({
+      id: data.id,
+      entityType: data.entity_type as AuditEntityType,
+      entityId: data.entity_id,
+      action: data.action as AuditAction,
+      actorId: data.actor_id ?? undefined,
+      before: data.before ? JSON.parse(data.before) : null,
+      after: data.after ? JSON.parse(data.after) : null,
+      createdAt: new Date(data.created_at),
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): AuditEventDatabase {
+    return {
+      id: this.id,
+      entity_type: this.entityType,
+      entity_id: this.entityId,
+      action: this.action,
+      actor_id: this.actorId,
+      before: this.before ? JSON.stringify(this.before) : null,
+      after: this.after ? JSON.stringify(this.after) : null,
+      created_at: this.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Create the event of a write. Updates keep only the fields that changed.
+   * @returns null when an update changed nothing worth recording
+   */
+  static record(entry: AuditEntry, actorId: string | undefined): AuditEvent | null {
+    let before = entry.before ? toPlain(entry.before) : null;
+    let after = entry.after ? toPlain(entry.after) : null;
+
+    if (before && after) {
+      const changed = Object.keys({ ...before, ...after }).filter(field =>
+        !UNAUDITED_FIELDS.includes(field) && JSON.stringify(before?.[field]) !== JSON.stringify(after?.[field])
+      );
+      if (changed.length === 0) {
+        return null;
+      }
+      before = Object.fromEntries(changed.map(field => [field, before?.[field] ?? null]));
+      after = Object.fromEntries(changed.map(field => [field, after?.[field] ?? null]));
+    }
+
+    const event = new AuditEvent({
+      id: crypto.randomUUID(),
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      action: entry.action,
+      actorId,
+      before,
+      after,
+      createdAt: new Date(),
+    });
+    event.validate();
+    return event;
+  }
+}
@@ -0,0 +1,178 @@
+import { BaseModel } from './base.js';
+import {
+  ClientActivity as ClientActivityInterface,
+  ClientActivityType,
+  CreateClientActivityRequest,
+  ClientActivityDatabase,
+} from '../types/client-activity.js';
+
+/**
+ * Engagement score contribution of each activity type
+ */
+export const ENGAGEMENT_WEIGHTS: Record<ClientActivityType, number> = {
+  [ClientActivityType.FEEDBACK_GIVEN]: 10,
+  [ClientActivityType.CALL_HELD]: 6,
+  [ClientActivityType.FEATURE_USED]: 4,
+  [ClientActivityType.WENT_SILENT]: -15,
+};
+
+/**
+ * Activities lose half of their weight every 90 days
+ */
+export const ENGAGEMENT_HALF_LIFE_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * Engagement scores are bounded to 0..100
+ */
+export const MAX_ENGAGEMENT_SCORE = 100;
+
+/**
+ * Client activity model: one dated engagement event of an enrolled client
+ */
+export class ClientActivity extends BaseModel implements ClientActivityInterface {
+  public id: string;
+  public clientId: string;
+  public type: ClientActivityType;
+  public occurredAt: Date;
+  public notes: string | undefined;
+  public recordedBy: string;
+  public createdAt: Date;
+
+  constructor(data: ClientActivityInterface) {
+    super();
+    this.id = data.id;
+    this.clientId = data.clientId;
+    this.type = data.type;
+    this.occurredAt = data.occurredAt;
+    this.notes = data.notes;
+    this.recordedBy = data.recordedBy;
+    this.createdAt = data.createdAt;
+  }
+
+  /**
+   * Validate client activity data
+   */
+  validate(): void {
+    // Validate IDs
+    this.validateUUID(this.id, 'id');
+    this.validateUUID(this.clientId, 'clientId');
+    this.validateUUID(this.recordedBy, 'recordedBy');
+
+    // Validate type
+    this.validateEnum(this.type, ClientActivityType, 'type');
+
+    // Validate notes
+    this.validateOptional(this.notes, (value) => this.validateStringLength(value, 'notes', 0, 2000));
+
+    // Validate dates
+    this.validateDate(this.occurredAt, 'occurredAt');
+    this.validateDate(this.createdAt, 'createdAt');
+
+    // Validate business rules
+    if (this.occurredAt.getTime() > this.createdAt.getTime()) {
+      throw new Error('occurredAt cannot be in the future');
+    }
+  }
+
+  /**
+   * Convert to JSON object
+   */
+  toJSON(): ClientActivityInterface {
+    return {
+      id: this.id,
+      clientId: this.clientId,
+      type: this.type,
+      occurredAt: this.occurredAt,
+      notes: this.notes,
+      recordedBy: this.recordedBy,
+      createdAt: this.createdAt,
+    };
+  }
+
+  /**
+   * Create ClientActivity from JSON data
+   */
+  fromJSON(data: Record<string, any>): ClientActivity {
+    return new ClientActivity({
+      id: data['id'],
+      clientId: data['clientId'],
+      type: data['type'] as ClientActivityType,
+      occurredAt: new Date(data['occurredAt']),
+      notes: data['notes'],
+      recordedBy: data['recordedBy'],
+      createdAt: new Date(data['createdAt']),
+    });
+  }
+
+  /**
+   * Create ClientActivity from database record
+   */
+  static fromDatabase(data: ClientActivityDatabase): ClientActivity {
+    return new ClientActivity({
+      id: data.id,
+      clientId: data.client_id,
+      type: data.type as ClientActivityType,
+      occurredAt: new Date(data.occurred_at),
+      notes: data.notes ?? undefined,
+      recordedBy: data.recorded_by,
+      createdAt: new Date(data.created_at),
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): ClientActivityDatabase {
+    return {
+      id: this.id,
+      client_id: this.clientId,
+      type: this.type,
+      occurred_at: this.occurredAt.toISOString(),
+      notes: this.notes,
+      recorded_by: this.recordedBy,
+      created_at: this.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Create new ClientActivity instance (defaults to now)
+   */
+  static create(clientId: string, data: CreateClientActivityRequest, recordedBy: string): ClientActivity {
+    const now = new Date();
+    const activity = new ClientActivity({
+      id: crypto.randomUUID(),
+      clientId,
+      type: data.type,
+      occurredAt: data.occurredAt ? new Date(data.occurredAt) : now,
+      notes: data.notes,
+      recordedBy,
+      createdAt: now,
+    });
+    activity.validate();
+    return activity;
+  }
+
+  /**
+   * Check if the event shows engagement (anything but going silent)
+   */
+  isEngagementSignal(): boolean {
+    return this.type !== ClientActivityType.WENT_SILENT;
+  }
+
+  /**
+   * Weight of the event in the engagement score, decayed by its age
+   */
+  weightAt(now: Date = new Date()): number {
+    const ageMs = Math.max(0, now.getTime() - this.occurredAt.getTime());
+    return ENGAGEMENT_WEIGHTS[this.type] * Math.pow(0.5, ageMs / ENGAGEMENT_HALF_LIFE_MS);
+  }
+
+  /**
+   * Engagement score (0..100) of a set of activities: recent feedback and
+   * calls weigh most, going silent counts against the client
+   */
+  static score(activities: ClientActivity[], now: Date = new Date()): number {
+    const total = activities.reduce((sum, activity) => sum + activity.weightAt(now), 0);
+    return Math.round(Math.min(MAX_ENGAGEMENT_SCORE, Math.max(0, total)));
+  }
+}
@@ -0,0 +1,129 @@
+import { BaseModel } from './base.js';
+import {
+  ClientOrganization as ClientOrganizationInterface,
+  ClientOrganizationDatabase,
+} from '../types/client-organization.js';
+
+/**
+ * Client organisation model: the customer behind every program enrollment
+ */
+export class ClientOrganization extends BaseModel implements ClientOrganizationInterface {
+  public id: string;
+  public name: string;
+  public accountIds: string[];
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(data: ClientOrganizationInterface) {
+    super();
+    this.id = data.id;
+    this.name = data.name;
+    this.accountIds = data.accountIds;
+    this.createdAt = data.createdAt;
+    this.updatedAt = data.updatedAt;
+  }
+
+  /**
+   * Validate client organisation data
+   */
+  validate(): void {
+    // Validate ID
+    this.validateUUID(this.id, 'id');
+
+    // Validate name
+    this.validateRequiredString(this.name, 'name');
+    this.validateStringLength(this.name, 'name', 1, 200);
+
+    // Validate account IDs
+    if (!Array.isArray(this.accountIds)) {
+      throw new Error('accountIds must be an array');
+    }
+    this.accountIds.forEach((accountId) => this.validateRequiredString(accountId, 'accountIds'));
+
+    // Validate dates
+    this.validateDate(this.createdAt, 'createdAt');
+    this.validateDate(this.updatedAt, 'updatedAt');
+  }
+
+  /**
+   * Convert to JSON object
+   */
+  toJSON(): ClientOrganizationInterface {
+    return {
+      id: this.id,
+      name: this.name,
+      accountIds: this.accountIds,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  /**
+   * Create ClientOrganization from JSON data
+   */
+  fromJSON(data: Record<string, any>): ClientOrganization {
+    return new ClientOrganization({
+      id: data['id'],
+      name: data['name'],
+      accountIds: data['accountIds'] || [],
+      createdAt: new Date(data['createdAt']),
+      updatedAt: new Date(data['updatedAt']),
+    });
+  }
+
+  /**
+   * Create ClientOrganization from database record
+   */
+  static fromDatabase(data: ClientOrganizationDatabase): ClientOrganization {
+    return new ClientOrganization({
+      id: data.id,
+      name: data.name,
+      accountIds: data.account_ids ? JSON.parse(data.account_ids) : [],
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at),
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): ClientOrganizationDatabase {
+    return {
+      id: this.id,
+      name: this.name,
+      account_ids: JSON.stringify(this.accountIds),
+      created_at: this.createdAt.toISOString(),
+      updated_at: this.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Create new ClientOrganization instance
+   */
+  static create(name: string, accountIds: string[]): ClientOrganization {
+    const now = new Date();
+    const organization = new ClientOrganization({
+      id: crypto.randomUUID(),
+      name: typeof name === 'string' ? name.trim() : name,
+      accountIds: Array.from(new Set(accountIds)),
+      createdAt: now,
+      updatedAt: now,
+    });
+    organization.validate();
+    return organization;
+  }
+
+  /**
+   * Add account IDs the organisation did not know yet, returning whether any was added
+   */
+  mergeAccountIds(accountIds: string[]): boolean {
+    const added = accountIds.filter(accountId => !this.accountIds.includes(accountId));
+    if (added.length === 0) {
+      return false;
+    }
+    this.accountIds = Array.from(new Set([...this.accountIds, ...added]));
+    this.updatedAt = new Date();
+    this.validate();
+    return true;
+  }
+}
@@ -0,0 +1,229 @@
+import { BaseModel } from './base.js';
+import { ClientActivity } from './client-activity.js';
+import { Client as ClientInterface, ClientDatabase } from '../types/client.js';
+
+/**
+ * Engagement derived from a client's activity history
+ */
+export interface ClientEngagement {
+  isActive: boolean;
+  lastEngagedAt: Date;
+  silentSince: Date | undefined;
+}
+
+/**
+ * Client model (a client enrolled in a program)
+ */
+export class Client extends BaseModel implements ClientInterface {
+  public id: string;
+  public programId: string;
+  public organizationId: string | undefined;
+  public enrollmentRequestId: string;
+  public accountIds: string[];
+  public isActive: boolean;
+  public enrolledAt: Date;
+  public waitlistedAt: Date | undefined;
+  public updatedAt: Date;
+
+  constructor(data: ClientInterface) {
+    super();
+    this.id = data.id;
+    this.programId = data.programId;
+    this.organizationId = data.organizationId;
+    this.enrollmentRequestId = data.enrollmentRequestId;
+    this.accountIds = data.accountIds;
+    this.isActive = data.isActive;
+    this.enrolledAt = data.enrolledAt;
+    this.waitlistedAt = data.waitlistedAt;
+    this.updatedAt = data.updatedAt;
+  }
+
+  /**
+   * Validate client data
+   */
+  validate(): void {
+    // Validate IDs
+    this.validateUUID(this.id, 'id');
+    this.validateUUID(this.programId, 'programId');
+    this.validateOptional(this.organizationId, (value) => this.validateUUID(value, 'organizationId'));
+    this.validateUUID(this.enrollmentRequestId, 'enrollmentRequestId');
+
+    // Validate account IDs
+    if (!Array.isArray(this.accountIds)) {
+      throw new Error('accountIds must be an array');
+    }
+    this.accountIds.forEach((accountId) => this.validateRequiredString(accountId, 'accountIds'));
+
+    // Validate dates
+    this.validateDate(this.enrolledAt, 'enrolledAt');
+    this.validateOptional(this.waitlistedAt, (value) => this.validateDate(value, 'waitlistedAt'));
+    this.validateDate(this.updatedAt, 'updatedAt');
+  }
+
+  /**
+   * Convert to JSON object
+   */
+  toJSON(): ClientInterface {
+    return {
+      id: this.id,
+      programId: this.programId,
+      organizationId: this.organizationId,
+      enrollmentRequestId: this.enrollmentRequestId,
+      accountIds: this.accountIds,
+      isActive: this.isActive,
+      enrolledAt: this.enrolledAt,
+      waitlistedAt: this.waitlistedAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  /**
+   * Create Client from JSON data
+   */
+  fromJSON(data: Record<string, any>): Client {
+    return new Client({
+      id: data['id'],
+      programId: data['programId'],
+      organizationId: data['organizationId'],
+      enrollmentRequestId: data['enrollmentRequestId'],
+      accountIds: data['accountIds'] || [],
+      isActive: Boolean(data['isActive']),
+      enrolledAt: new Date(data['enrolledAt']),
+      waitlistedAt: data['waitlistedAt'] ? new Date(data['waitlistedAt']) : undefined,
+      updatedAt: new Date(data['updatedAt']),
+    });
+  }
+
+  /**
+   * Create Client from database record
+   */
+  static fromDatabase(data: ClientDatabase): Client {
+    return new Client({
+      id: data.id,
+      programId: data.program_id,
+      organizationId: data.organization_id ?? undefined,
+      enrollmentRequestId: data.enrollment_request_id,
+      accountIds: data.account_ids ? JSON.parse(data.account_ids) : [],
+      isActive: Boolean(data.is_active),
+      enrolledAt: new Date(data.enrolled_at),
+      waitlistedAt: data.waitlisted_at ? new Date(data.waitlisted_at) : undefined,
+      updatedAt: new Date(data.updated_at),
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): ClientDatabase {
+    return {
+      id: this.id,
+      program_id: this.programId,
+      organization_id: this.organizationId,
+      enrollment_request_id: this.enrollmentRequestId,
+      account_ids: JSON.stringify(this.accountIds),
+      is_active: this.isActive ? 1 : 0,
+      enrolled_at: this.enrolledAt.toISOString(),
+      waitlisted_at: this.waitlistedAt?.toISOString(),
+      updated_at: this.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Enroll a client organisation from an approved enrollment request
+   */
+  static enroll(
+    programId: string,
+    enrollmentRequestId: string,
+    accountIds: string[],
+    organizationId?: string
+  ): Client {
+    const now = new Date();
+    const client = new Client({
+      id: crypto.randomUUID(),
+      programId,
+      organizationId,
+      enrollmentRequestId,
+      accountIds,
+      isActive: true,
+      enrolledAt: now,
+      updatedAt: now,
+    });
+    client.validate();
+    return client;
+  }
+
+  /**
+   * Check if the client is waiting for a seat
+   */
+  isWaitlisted(): boolean {
+    return this.waitlistedAt !== undefined;
+  }
+
+  /**
+   * Check if the client takes one of its program's seats: enrolled and active
+   */
+  holdsSeat(): boolean {
+    return !this.isWaitlisted() && this.isActive;
+  }
+
+  /**
+   * Put the client at the back of its program's waitlist
+   */
+  waitlist(now: Date = new Date()): void {
+    this.waitlistedAt = now;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Give a waitlisted client its seat; it counts as enrolled from now on
+   * @throws {Error} If the client is not waitlisted
+   */
+  promote(now: Date = new Date()): void {
+    if (!this.isWaitlisted()) {
+      throw new Error('Client is not waitlisted');
+    }
+    this.waitlistedAt = undefined;
+    this.enrolledAt = now;
+    this.isActive = true;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Derive engagement from activity history. Enrollment counts as the first
+   * signal; a client is active while its latest signal is within the window
+   * and it has not gone silent since.
+   */
+  deriveEngagement(activities: ClientActivity[], windowMs: number, now: Date = new Date()): ClientEngagement {
+    let lastEngagedAt = this.enrolledAt;
+    let silentSince: Date | undefined;
+
+    for (const activity of activities) {
+      if (activity.isEngagementSignal()) {
+        if (activity.occurredAt.getTime() > lastEngagedAt.getTime()) {
+          lastEngagedAt = activity.occurredAt;
+        }
+      } else if (!silentSince || activity.occurredAt.getTime() > silentSince.getTime()) {
+        silentSince = activity.occurredAt;
+      }
+    }
+
+    if (silentSince && silentSince.getTime() < lastEngagedAt.getTime()) {
+      silentSince = undefined;
+    }
+
+    const isActive = !silentSince && now.getTime() - lastEngagedAt.getTime() <= windowMs;
+    return { isActive, lastEngagedAt, silentSince };
+  }
+
+  /**
+   * Set the active flag, returning whether it changed
+   */
+  setActive(isActive: boolean): boolean {
+    if (this.isActive === isActive) {
+      return false;
+    }
+    this.isActive = isActive;
+    this.updatedAt = new Date();
+    return true;
+  }
+}
@@ -0,0 +1,120 @@
+import { BaseModel } from './base.js';
+import { ContactUser as ContactUserInterface, CreateContactUserRequest, ContactUserDatabase } from '../types/enrollment.js';
+
+/**
+ * Contact user model (a person to contact on the client side)
+ */
+export class ContactUser extends BaseModel implements ContactUserInterface {
+  public id: string;
+  public firstName: string;
+  public lastName: string;
+  public email: string;
+  public createdAt: Date;
+
+  constructor(data: ContactUserInterface) {
+    super();
+    this.id = data.id;
+    this.firstName = data.firstName;
+    this.lastName = data.lastName;
+    this.email = data.email;
+    this.createdAt = data.createdAt;
+  }
+
+  /**
+   * Validate contact user data
+   */
+  validate(): void {
+    // Validate ID
+    this.validateUUID(this.id, 'id');
+
+    // Validate names
+    this.validateRequiredString(this.firstName, 'firstName');
+    this.validateStringLength(this.firstName, 'firstName', 1, 100);
+    this.validateRequiredString(this.lastName, 'lastName');
+    this.validateStringLength(this.lastName, 'lastName', 1, 100);
+
+    // Validate email
+    this.validateRequiredString(this.email, 'email');
+    if (!this.validateEmail(this.email)) {
+      throw new Error('email must be a valid email address');
+    }
+    this.validateStringLength(this.email, 'email', 3, 255);
+
+    // Validate dates
+    this.validateDate(this.createdAt, 'createdAt');
+  }
+
+  /**
+   * Convert to JSON object
+   */
+  toJSON(): ContactUserInterface {
+    return {
+      id: this.id,
+      firstName: this.firstName,
+      lastName: this.lastName,
+      email: this.email,
+      createdAt: this.createdAt,
+    };
+  }
+
+  /**
+   * Create ContactUser from JSON data
+   */
+  fromJSON(data: Record<string, any>): ContactUser {
+    return new ContactUser({
+      id: data['id'],
+      firstName: data['firstName'],
+      lastName: data['lastName'],
+      email: data['email'],
+      createdAt: new Date(data['createdAt']),
+    });
+  }
+
+  /**
+   * Create ContactUser from database record
+   */
+  static fromDatabase(data: ContactUserDatabase): ContactUser {
+    return new ContactUser({
+      id: data.id,
+      firstName: data.first_name,
+      lastName: data.last_name,
+      email: data.email,
+      createdAt: new Date(data.created_at),
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): ContactUserDatabase {
+    return {
+      id: this.id,
+      first_name: this.firstName,
+      last_name: this.lastName,
+      email: this.email,
+      created_at: this.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Create new ContactUser instance
+   */
+  static create(data: CreateContactUserRequest): ContactUser {
+    const contact = new ContactUser({
+      id: crypto.randomUUID(),
+      firstName: data.firstName,
+      lastName: data.lastName,
+      email: data.email,
+      createdAt: new Date(),
+    });
+    contact.validate();
+    return contact;
+  }
+
+  /**
+   * Get full name
+   */
+  getFullName(): string {
+    return `${this.firstName} ${this.lastName}`;
+  }
+}
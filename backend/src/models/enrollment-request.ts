@@ -0,0 +1,229 @@
+import { BaseModel } from './base.js';
+import {
+  EnrollmentRequest as EnrollmentRequestInterface,
+  EnrollmentRequestStatus,
+  CreateEnrollmentRequestRequest,
+  ReviewEnrollmentRequestRequest,
+  EnrollmentRequestDatabase,
+} from '../types/enrollment.js';
+
+/**
+ * Enrollment request model: a Client Manager asks to enroll a client in a program
+ */
+export class EnrollmentRequest extends BaseModel implements EnrollmentRequestInterface {
+  public id: string;
+  public programId: string;
+  public clientName: string;
+  public accountIds: string[];
+  public motivation: string | undefined;
+  public status: EnrollmentRequestStatus;
+  public requestedBy: string;
+  public createdAt: Date;
+  public updatedAt: Date;
+  public version: number;
+  public reviewedBy: string | undefined;
+  public reviewedAt: Date | undefined;
+  public rejectionReason: string | undefined;
+
+  constructor(data: EnrollmentRequestInterface) {
+    super();
+    this.id = data.id;
+    this.programId = data.programId;
+    this.clientName = data.clientName;
+    this.accountIds = data.accountIds;
+    this.motivation = data.motivation;
+    this.status = data.status;
+    this.requestedBy = data.requestedBy;
+    this.createdAt = data.createdAt;
+    this.updatedAt = data.updatedAt;
+    this.version = data.version;
+    this.reviewedBy = data.reviewedBy;
+    this.reviewedAt = data.reviewedAt;
+    this.rejectionReason = data.rejectionReason;
+  }
+
+  /**
+   * Validate enrollment request data
+   */
+  validate(): void {
+    // Validate IDs
+    this.validateUUID(this.id, 'id');
+    this.validateUUID(this.programId, 'programId');
+    this.validateUUID(this.requestedBy, 'requestedBy');
+
+    // Validate clientName
+    this.validateRequiredString(this.clientName, 'clientName');
+    this.validateStringLength(this.clientName, 'clientName', 1, 200);
+
+    // Validate account IDs
+    if (!Array.isArray(this.accountIds)) {
+      throw new Error('accountIds must be an array');
+    }
+    this.accountIds.forEach((accountId) => this.validateRequiredString(accountId, 'accountIds'));
+
+    // Validate motivation
+    this.validateOptional(this.motivation, (value) => this.validateStringLength(value, 'motivation', 0, 2000));
+
+    // Validate status
+    this.validateEnum(this.status, EnrollmentRequestStatus, 'status');
+
+    // Validate dates
+    this.validateDate(this.createdAt, 'createdAt');
+    this.validateDate(this.updatedAt, 'updatedAt');
+
+    // Validate optional fields
+    this.validateOptional(this.reviewedBy, (value) => this.validateUUID(value, 'reviewedBy'));
+    this.validateOptional(this.reviewedAt, (value) => this.validateDate(value, 'reviewedAt'));
+    this.validateOptional(this.rejectionReason, (value) => {
+      this.validateRequiredString(value, 'rejectionReason');
+      this.validateStringLength(value, 'rejectionReason', 1, 500);
+    });
+
+    // Validate business rules
+    if (this.status !== EnrollmentRequestStatus.PENDING && !this.reviewedBy) {
+      throw new Error(`reviewedBy is required when status is ${this.status}`);
+    }
+
+    if (this.status === EnrollmentRequestStatus.REJECTED && !this.rejectionReason) {
+      throw new Error('rejectionReason is required when status is REJECTED');
+    }
+  }
+
+  /**
+   * Convert to JSON object
+   */
+  toJSON(): EnrollmentRequestInterface {
+    return {
+      id: this.id,
+      programId: this.programId,
+      clientName: this.clientName,
+      accountIds: this.accountIds,
+      motivation: this.motivation,
+      status: this.status,
+      requestedBy: this.requestedBy,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      version: this.version,
+      reviewedBy: this.reviewedBy,
+      reviewedAt: this.reviewedAt,
+      rejectionReason: this.rejectionReason,
+    };
+  }
+
+  /**
+   * Create EnrollmentRequest from JSON data
+   */
+  fromJSON(data: Record<string, any>): EnrollmentRequest {
+    return new EnrollmentRequest({
+      id: data['id'],
+      programId: data['programId'],
+      clientName: data['clientName'],
+      accountIds: data['accountIds'] || [],
+      motivation: data['motivation'],
+      status: data['status'] as EnrollmentRequestStatus,
+      requestedBy: data['requestedBy'],
+      createdAt: new Date(data['createdAt']),
+      updatedAt: new Date(data['updatedAt']),
+      version: data['version'] ?? 1,
+      reviewedBy: data['reviewedBy'],
+      reviewedAt: data['reviewedAt'] ? new Date(data['reviewedAt']) : undefined,
+      rejectionReason: data['rejectionReason'],
+    });
+  }
+
+  /**
+   * Create EnrollmentRequest from database record
+   */
+  static fromDatabase(data: EnrollmentRequestDatabase): EnrollmentRequest {
+    return new EnrollmentRequest({
+      id: data.id,
+      programId: data.program_id,
+      clientName: data.client_name,
+      accountIds: data.account_ids ? JSON.parse(data.account_ids) : [],
+      motivation: data.motivation ?? undefined,
+      status: data.status as EnrollmentRequestStatus,
+      requestedBy: data.requested_by,
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at),
+      version: data.version ?? 1,
+      reviewedBy: data.reviewed_by ?? undefined,
+      reviewedAt: data.reviewed_at ? new Date(data.reviewed_at) : undefined,
+      rejectionReason: data.rejection_reason ?? undefined,
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): EnrollmentRequestDatabase {
+    return {
+      id: this.id,
+      program_id: this.programId,
+      client_name: this.clientName,
+      account_ids: JSON.stringify(this.accountIds),
+      motivation: this.motivation,
+      status: this.status,
+      requested_by: this.requestedBy,
+      created_at: this.createdAt.toISOString(),
+      updated_at: this.updatedAt.toISOString(),
+      version: this.version,
+      reviewed_by: this.reviewedBy,
+      reviewed_at: this.reviewedAt?.toISOString(),
+      rejection_reason: this.rejectionReason,
+    };
+  }
+
+  /**
+   * Create new EnrollmentRequest instance
+   */
+  static create(data: CreateEnrollmentRequestRequest, requestedBy: string): EnrollmentRequest {
+    const now = new Date();
+    const request = new EnrollmentRequest({
+      id: crypto.randomUUID(),
+      programId: data.programId,
+      clientName: data.clientName,
+      accountIds: data.accountIds,
+      motivation: data.motivation,
+      status: EnrollmentRequestStatus.PENDING,
+      requestedBy,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+    });
+    request.validate();
+    return request;
+  }
+
+  /**
+   * Approve or reject the enrollment request
+   */
+  review(reviewData: ReviewEnrollmentRequestRequest, reviewedBy: string): void {
+    const now = new Date();
+    this.reviewedBy = reviewedBy;
+    this.reviewedAt = now;
+    this.updatedAt = now;
+
+    if (reviewData.approved) {
+      this.status = EnrollmentRequestStatus.APPROVED;
+    } else {
+      this.status = EnrollmentRequestStatus.REJECTED;
+      this.rejectionReason = reviewData.rejectionReason;
+    }
+
+    this.validate();
+  }
+
+  /**
+   * Check if request is pending
+   */
+  isPending(): boolean {
+    return this.status === EnrollmentRequestStatus.PENDING;
+  }
+
+  /**
+   * Check if request can be reviewed
+   */
+  canBeReviewed(): boolean {
+    return this.status === EnrollmentRequestStatus.PENDING;
+  }
+}
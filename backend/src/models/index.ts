@@ -3,4 +3,34 @@ export * from './base.js';
 
 // Export user models
 export * from './user.js';
-export * from './registration-request.js'; 
\ No newline at end of file
+export * from './registration-request.js'; 
+
+// Export session model
+export * from './session.js';
+
+// Export program model
+export * from './program.js';
+
+// Export enrollment models
+export * from './contact-user.js';
+export * from './enrollment-request.js';
+export * from './client.js';
+export * from './client-activity.js';
+export * from './client-organization.js';
+
+// Export audit model
+export * from './audit-event.js';
+
+// Export notification outbox model
+export * from './outbox-message.js';
+
+// Export in-app notification model
+export * from './notification.js';
+
+// Export webhook models
+export * from './webhook.js';
+export * from './webhook-delivery.js';
+
+// Export scheduler models
+export * from './scheduled-job.js';
+export * from './job-run.js';
@@ -0,0 +1,153 @@
+import { BaseModel } from './base.js';
+import {
+  JobRun as JobRunInterface,
+  JobRunDatabase,
+  JobName,
+  JobResult,
+  JobRunStatus,
+} from '../types/scheduler.js';
+
+/**
+ * Job run model: one execution of a scheduled job
+ */
+export class JobRun extends BaseModel implements JobRunInterface {
+  public id: string;
+  public jobName: JobName;
+  public status: JobRunStatus;
+  public processed: number | undefined;
+  public failed: number | undefined;
+  public error: string | undefined;
+  public startedAt: Date;
+  public finishedAt: Date | undefined;
+
+  constructor(data: JobRunInterface) {
+    super();
+    this.id = data.id;
+    this.jobName = data.jobName;
+    this.status = data.status;
+    this.processed = data.processed;
+    this.failed = data.failed;
+    this.error = data.error;
+    this.startedAt = data.startedAt;
+    this.finishedAt = data.finishedAt;
+  }
+
+  /**
+   * Validate job run data
+   */
+  validate(): void {
+    // Validate IDs
+    this.validateUUID(this.id, 'id');
+
+    // Validate enums
+    this.validateEnum(this.jobName, JobName, 'jobName');
+    this.validateEnum(this.status, JobRunStatus, 'status');
+
+    // Validate dates
+    this.validateDate(this.startedAt, 'startedAt');
+    this.validateOptional(this.finishedAt, (value) => this.validateDate(value, 'finishedAt'));
+  }
+
+  /**
+   * Convert to JSON object
+   */
+  toJSON(): JobRunInterface {
+    return {
+      id: this.id,
+      jobName: this.jobName,
+      status: this.status,
+      processed: this.processed,
+      failed: this.failed,
+      error: this.error,
+      startedAt: this.startedAt,
+      finishedAt: this.finishedAt,
+    };
+  }
+
+  /**
+   * Create JobRun from JSON data
+   */
+  fromJSON(data: Record<string, any>): JobRun {
+    return new JobRun({
+      id: data['id'],
+      jobName: data['jobName'] as JobName,
+      status: data['status'] as JobRunStatus,
+      processed: data['processed'],
+      failed: data['failed'],
+      error: data['error'],
+      startedAt: new Date(data['startedAt']),
+      finishedAt: data['finishedAt'] ? new Date(data['finishedAt']) : undefined,
+    });
+  }
+
+  /**
+   * Create JobRun from database record
+   */
+  static fromDatabase(data: JobRunDatabase): JobRun {
+    return new JobRun({
+      id: data.id,
+      jobName: data.job_name as JobName,
+      status: data.status as JobRunStatus,
+      processed: data.processed ?? undefined,
+      failed: data.failed ?? undefined,
+      error: data.error ?? undefined,
+      startedAt: new Date(data.started_at),
+      finishedAt: data.finished_at ? new Date(data.finished_at) : undefined,
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): JobRunDatabase {
+    return {
+      id: this.id,
+      job_name: this.jobName,
+      status: this.status,
+      processed: this.processed ?? null,
+      failed: this.failed ?? null,
+      error: this.error ?? null,
+      started_at: this.startedAt.toISOString(),
+      finished_at: this.finishedAt?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Start a run of a job
+   */
+  static start(jobName: JobName, now: Date = new Date()): JobRun {
+    const run = new JobRun({
+      id: crypto.randomUUID(),
+      jobName,
+      status: JobRunStatus.RUNNING,
+      startedAt: now,
+    });
+    run.validate();
+    return run;
+  }
+
+  /**
+   * Record a run that did its work. The items it could not process, if any,
+   * are counted and their errors kept.
+   */
+  succeed(result: number | JobResult, now: Date = new Date()): void {
+    this.status = JobRunStatus.SUCCEEDED;
+    if (typeof result === 'number') {
+      this.processed = result;
+    } else {
+      this.processed = result.processed;
+      this.failed = result.failures.length;
+      this.error = result.failures.length > 0 ? result.failures.join('\n') : undefined;
+    }
+    this.finishedAt = now;
+  }
+
+  /**
+   * Record a run that failed
+   */
+  fail(error: string, now: Date = new Date()): void {
+    this.status = JobRunStatus.FAILED;
+    this.error = error;
+    this.finishedAt = now;
+  }
+}
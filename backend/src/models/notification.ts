@@ -0,0 +1,141 @@
+import { BaseModel } from './base.js';
+import {
+  Notification as NotificationInterface,
+  NotificationDatabase,
+  NotificationType,
+} from '../types/notification.js';
+
+/**
+ * In-app notification model: an inbox entry, unread until its recipient opens it
+ */
+export class Notification extends BaseModel implements NotificationInterface {
+  public id: string;
+  public recipientId: string;
+  public type: NotificationType;
+  public entityId: string;
+  public message: string;
+  public readAt: Date | undefined;
+  public createdAt: Date;
+
+  constructor(data: NotificationInterface) {
+    super();
+    this.id = data.id;
+    this.recipientId = data.recipientId;
+    this.type = data.type;
+    this.entityId = data.entityId;
+    this.message = data.message;
+    this.readAt = data.readAt;
+    this.createdAt = data.createdAt;
+  }
+
+  /**
+   * Validate notification data
+   */
+  validate(): void {
+    // Validate IDs
+    this.validateUUID(this.id, 'id');
+    this.validateUUID(this.recipientId, 'recipientId');
+    this.validateUUID(this.entityId, 'entityId');
+
+    // Validate message
+    this.validateRequiredString(this.message, 'message');
+    this.validateStringLength(this.message, 'message', 1, 500);
+
+    // Validate enums
+    this.validateEnum(this.type, NotificationType, 'type');
+
+    // Validate dates
+    this.validateDate(this.createdAt, 'createdAt');
+    this.validateOptional(this.readAt, (value) => this.validateDate(value, 'readAt'));
+  }
+
+  /**
+   * Convert to JSON object
+   */
+  toJSON(): NotificationInterface {
+    return {
+      id: this.id,
+      recipientId: this.recipientId,
+      type: this.type,
+      entityId: this.entityId,
+      message: this.message,
+      readAt: this.readAt,
+      createdAt: this.createdAt,
+    };
+  }
+
+  /**
+   * Create Notification from JSON data
+   */
+  fromJSON(data: Record<string, any>): Notification {
+    return new Notification({
+      id: data['id'],
+      recipientId: data['recipientId'],
+      type: data['type'] as NotificationType,
+      entityId: data['entityId'],
+      message: data['message'],
+      readAt: data['readAt'] ? new Date(data['readAt']) : undefined,
+      createdAt: new Date(data['createdAt']),
+    });
+  }
+
+  /**
+   * Create Notification from database record
+   */
+  static fromDatabase(data: NotificationDatabase): Notification {
+    return new Notification({
+      id: data.id,
+      recipientId: data.recipient_id,
+      type: data.type as NotificationType,
+      entityId: data.entity_id,
+      message: data.message,
+      readAt: data.read_at ? new Date(data.read_at) : undefined,
+      createdAt: new Date(data.created_at),
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): NotificationDatabase {
+    return {
+      id: this.id,
+      recipient_id: this.recipientId,
+      type: this.type,
+      entity_id: this.entityId,
+      message: this.message,
+      read_at: this.readAt?.toISOString() ?? null,
+      created_at: this.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Create a new, unread notification
+   */
+  static create(recipientId: string, type: NotificationType, entityId: string, message: string): Notification {
+    const notification = new Notification({
+      id: crypto.randomUUID(),
+      recipientId,
+      type,
+      entityId,
+      message,
+      createdAt: new Date(),
+    });
+    notification.validate();
+    return notification;
+  }
+
+  /**
+   * Check if the recipient has read the notification
+   */
+  isRead(): boolean {
+    return this.readAt !== undefined;
+  }
+
+  /**
+   * Mark the notification read, keeping the first read time
+   */
+  markRead(now: Date = new Date()): void {
+    this.readAt ??= now;
+  }
+}
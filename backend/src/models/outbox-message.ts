@@ -0,0 +1,211 @@
+import { BaseModel } from './base.js';
+import {
+  OutboxMessage as OutboxMessageInterface,
+  OutboxMessageDatabase,
+  OutboxStatus,
+  NotificationMessage,
+} from '../types/notification.js';
+import { DomainEvent, DomainEventType } from '../types/events.js';
+
+/**
+ * Attempts made before a message is given up on
+ */
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+/**
+ * Wait before the first retry; it doubles with every failed attempt
+ */
+export const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+/**
+ * Outbox message model: one notification to one recipient, kept until sent
+ */
+export class OutboxMessage extends BaseModel implements OutboxMessageInterface {
+  public id: string;
+  public eventId: string;
+  public eventType: DomainEventType;
+  public to: string;
+  public subject: string;
+  public text: string;
+  public status: OutboxStatus;
+  public attempts: number;
+  public lastError: string | undefined;
+  public nextAttemptAt: Date;
+  public sentAt: Date | undefined;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(data: OutboxMessageInterface) {
+    super();
+    this.id = data.id;
+    this.eventId = data.eventId;
+    this.eventType = data.eventType;
+    this.to = data.to;
+    this.subject = data.subject;
+    this.text = data.text;
+    this.status = data.status;
+    this.attempts = data.attempts;
+    this.lastError = data.lastError;
+    this.nextAttemptAt = data.nextAttemptAt;
+    this.sentAt = data.sentAt;
+    this.createdAt = data.createdAt;
+    this.updatedAt = data.updatedAt;
+  }
+
+  /**
+   * Validate outbox message data
+   */
+  validate(): void {
+    // Validate IDs
+    this.validateUUID(this.id, 'id');
+    this.validateUUID(this.eventId, 'eventId');
+
+    // Validate message
+    if (!this.validateEmail(this.to)) {
+      throw new Error('to must be a valid email address');
+    }
+    this.validateRequiredString(this.subject, 'subject');
+    this.validateRequiredString(this.text, 'text');
+
+    // Validate enums
+    this.validateEnum(this.eventType, DomainEventType, 'eventType');
+    this.validateEnum(this.status, OutboxStatus, 'status');
+
+    // Validate dates
+    this.validateDate(this.nextAttemptAt, 'nextAttemptAt');
+    this.validateDate(this.createdAt, 'createdAt');
+    this.validateDate(this.updatedAt, 'updatedAt');
+  }
+
+  /**
+   * Convert to JSON object
+   */
+  toJSON(): OutboxMessageInterface {
+    return {
+      id: this.id,
+      eventId: this.eventId,
+      eventType: this.eventType,
+      to: this.to,
+      subject: this.subject,
+      text: this.text,
+      status: this.status,
+      attempts: this.attempts,
+      lastError: this.lastError,
+      nextAttemptAt: this.nextAttemptAt,
+      sentAt: this.sentAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  /**
+   * Create OutboxMessage from JSON data
+   */
+  fromJSON(data: Record<string, any>): OutboxMessage {
+    return new OutboxMessage({
+      id: data['id'],
+      eventId: data['eventId'],
+      eventType: data['eventType'] as DomainEventType,
+      to: data['to'],
+      subject: data['subject'],
+      text: data['text'],
+      status: data['status'] as OutboxStatus,
+      attempts: data['attempts'],
+      lastError: data['lastError'],
+      nextAttemptAt: new Date(data['nextAttemptAt']),
+      sentAt: data['sentAt'] ? new Date(data['sentAt']) : undefined,
+      createdAt: new Date(data['createdAt']),
+      updatedAt: new Date(data['updatedAt']),
+    });
+  }
+
+  /**
+   * Create OutboxMessage from database record
+   */
+  static fromDatabase(data: OutboxMessageDatabase): OutboxMessage {
+    return new OutboxMessage({
+      id: data.id,
+      eventId: data.event_id,
+      eventType: data.event_type as DomainEventType,
+      to: data.recipient,
+      subject: data.subject,
+      text: data.body,
+      status: data.status as OutboxStatus,
+      attempts: data.attempts,
+      lastError: data.last_error ?? undefined,
+      nextAttemptAt: new Date(data.next_attempt_at),
+      sentAt: data.sent_at ? new Date(data.sent_at) : undefined,
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at),
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): OutboxMessageDatabase {
+    return {
+      id: this.id,
+      event_id: this.eventId,
+      event_type: this.eventType,
+      recipient: this.to,
+      subject: this.subject,
+      body: this.text,
+      status: this.status,
+      attempts: this.attempts,
+      last_error: this.lastError ?? null,
+      next_attempt_at: this.nextAttemptAt.toISOString(),
+      sent_at: this.sentAt?.toISOString() ?? null,
+      created_at: this.createdAt.toISOString(),
+      updated_at: this.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Queue a message rendered for an event, due straight away
+   */
+  static create(message: NotificationMessage, event: DomainEvent): OutboxMessage {
+    const now = new Date();
+    const outboxMessage = new OutboxMessage({
+      id: crypto.randomUUID(),
+      eventId: event.id,
+      eventType: event.type,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      status: OutboxStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    outboxMessage.validate();
+    return outboxMessage;
+  }
+
+  /**
+   * Record a successful delivery
+   */
+  markSent(now: Date = new Date()): void {
+    this.attempts += 1;
+    this.status = OutboxStatus.SENT;
+    this.lastError = undefined;
+    this.sentAt = now;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Record a failed delivery: retry later with an exponential backoff, or
+   * give up after the last attempt
+   */
+  markFailed(error: string, now: Date = new Date()): void {
+    this.attempts += 1;
+    this.lastError = error;
+    this.updatedAt = now;
+    if (this.attempts >= MAX_DELIVERY_ATTEMPTS) {
+      this.status = OutboxStatus.FAILED;
+    } else {
+      this.nextAttemptAt = new Date(now.getTime() + RETRY_BASE_DELAY_MS * 2 ** (this.attempts - 1));
+    }
+  }
+}
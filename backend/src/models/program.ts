@@ -0,0 +1,288 @@
+import { BaseModel } from './base.js';
+import {
+  Program as ProgramInterface,
+  ProgramStatus,
+  CreateProgramRequest,
+  UpdateProgramRequest,
+  ProgramDatabase,
+} from '../types/program.js';
+
+/**
+ * Legal lifecycle transitions (staging -> run -> archived).
+ * A stopped program may be resumed; an archived program is final.
+ */
+export const PROGRAM_TRANSITIONS: Record<ProgramStatus, ProgramStatus[]> = {
+  [ProgramStatus.PENDING]: [ProgramStatus.LIVE, ProgramStatus.ARCHIVED],
+  [ProgramStatus.LIVE]: [ProgramStatus.STOPPED],
+  [ProgramStatus.STOPPED]: [ProgramStatus.LIVE, ProgramStatus.ARCHIVED],
+  [ProgramStatus.ARCHIVED]: [],
+};
+
+/**
+ * Early Adopter program model with lifecycle management
+ */
+export class Program extends BaseModel implements ProgramInterface {
+  public id: string;
+  public title: string;
+  public description: string | undefined;
+  public creatorId: string;
+  public stakeholders: string[];
+  public startDate: Date | undefined;
+  public endDate: Date | undefined;
+  public maxClients: number | undefined;
+  public status: ProgramStatus;
+  public statusChangedAt: Date;
+  public createdAt: Date;
+  public updatedAt: Date;
+  public version: number;
+
+  constructor(data: ProgramInterface) {
+    super();
+    this.id = data.id;
+    this.title = data.title;
+    this.description = data.description;
+    this.creatorId = data.creatorId;
+    this.stakeholders = data.stakeholders;
+    this.startDate = data.startDate;
+    this.endDate = data.endDate;
+    this.maxClients = data.maxClients;
+    this.status = data.status;
+    this.statusChangedAt = data.statusChangedAt;
+    this.createdAt = data.createdAt;
+    this.updatedAt = data.updatedAt;
+    this.version = data.version;
+  }
+
+  /**
+   * Validate program data
+   */
+  validate(): void {
+    // Validate IDs
+    this.validateUUID(this.id, 'id');
+    this.validateUUID(this.creatorId, 'creatorId');
+
+    // Validate title
+    this.validateRequiredString(this.title, 'title');
+    this.validateStringLength(this.title, 'title', 1, 200);
+
+    // Validate description
+    this.validateOptional(this.description, (value) => this.validateStringLength(value, 'description', 0, 5000));
+
+    // Validate stakeholders
+    if (!Array.isArray(this.stakeholders)) {
+      throw new Error('stakeholders must be an array');
+    }
+    this.stakeholders.forEach((stakeholder) => this.validateUUID(stakeholder, 'stakeholders'));
+
+    // Validate status
+    this.validateEnum(this.status, ProgramStatus, 'status');
+
+    // Validate dates
+    this.validateOptional(this.startDate, (value) => this.validateDate(value, 'startDate'));
+    this.validateOptional(this.endDate, (value) => this.validateDate(value, 'endDate'));
+    this.validateDate(this.statusChangedAt, 'statusChangedAt');
+    this.validateDate(this.createdAt, 'createdAt');
+    this.validateDate(this.updatedAt, 'updatedAt');
+
+    // Validate capacity
+    this.validateOptional(this.maxClients, (value) => {
+      if (!Number.isInteger(value) || value <= 0) {
+        throw new Error('maxClients must be a positive integer');
+      }
+    });
+
+    // Validate business rules
+    if (this.startDate && this.endDate && this.startDate.getTime() >= this.endDate.getTime()) {
+      throw new Error('startDate must be before endDate');
+    }
+  }
+
+  /**
+   * Convert to JSON object
+   */
+  toJSON(): ProgramInterface {
+    return {
+      id: this.id,
+      title: this.title,
+      description: this.description,
+      creatorId: this.creatorId,
+      stakeholders: this.stakeholders,
+      startDate: this.startDate,
+      endDate: this.endDate,
+      maxClients: this.maxClients,
+      status: this.status,
+      statusChangedAt: this.statusChangedAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      version: this.version,
+    };
+  }
+
+  /**
+   * Create Program from JSON data
+   */
+  fromJSON(data: Record<string, any>): Program {
+    return new Program({
+      id: data['id'],
+      title: data['title'],
+      description: data['description'],
+      creatorId: data['creatorId'],
+      stakeholders: data['stakeholders'] || [],
+      startDate: data['startDate'] ? new Date(data['startDate']) : undefined,
+      endDate: data['endDate'] ? new Date(data['endDate']) : undefined,
+      maxClients: data['maxClients'] ?? undefined,
+      status: data['status'] as ProgramStatus,
+      statusChangedAt: new Date(data['statusChangedAt'] ?? data['updatedAt']),
+      createdAt: new Date(data['createdAt']),
+      updatedAt: new Date(data['updatedAt']),
+      version: data['version'] ?? 1,
+    });
+  }
+
+  /**
+   * Create Program from database record
+   */
+  static fromDatabase(data: ProgramDatabase): Program {
+    return new Program({
+      id: data.id,
+      title: data.title,
+      description: data.description ?? undefined,
+      creatorId: data.creator_id,
+      stakeholders: data.stakeholders ? JSON.parse(data.stakeholders) : [],
+      startDate: data.start_date ? new Date(data.start_date) : undefined,
+      endDate: data.end_date ? new Date(data.end_date) : undefined,
+      maxClients: data.max_clients ?? undefined,
+      status: data.status as ProgramStatus,
+      statusChangedAt: new Date(data.status_changed_at ?? data.updated_at),
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at),
+      version: data.version ?? 1,
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): ProgramDatabase {
+    return {
+      id: this.id,
+      title: this.title,
+      description: this.description,
+      creator_id: this.creatorId,
+      stakeholders: JSON.stringify(this.stakeholders),
+      start_date: this.startDate?.toISOString(),
+      end_date: this.endDate?.toISOString(),
+      max_clients: this.maxClients,
+      status: this.status,
+      status_changed_at: this.statusChangedAt.toISOString(),
+      created_at: this.createdAt.toISOString(),
+      updated_at: this.updatedAt.toISOString(),
+      version: this.version,
+    };
+  }
+
+  /**
+   * Create new Program instance in staging (PENDING)
+   */
+  static create(data: CreateProgramRequest, creatorId: string): Program {
+    const now = new Date();
+    const program = new Program({
+      id: crypto.randomUUID(),
+      title: data.title,
+      description: data.description,
+      creatorId,
+      stakeholders: data.stakeholders || [],
+      startDate: data.startDate ? new Date(data.startDate) : undefined,
+      endDate: data.endDate ? new Date(data.endDate) : undefined,
+      maxClients: data.maxClients,
+      status: ProgramStatus.PENDING,
+      statusChangedAt: now,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+    });
+    program.validate();
+    return program;
+  }
+
+  /**
+   * Update program with new data
+   */
+  update(data: UpdateProgramRequest): void {
+    if (data.title !== undefined) {
+      this.title = data.title;
+    }
+    if (data.description !== undefined) {
+      this.description = data.description;
+    }
+    if (data.stakeholders !== undefined) {
+      this.stakeholders = data.stakeholders;
+    }
+    if (data.startDate !== undefined) {
+      this.startDate = new Date(data.startDate);
+    }
+    if (data.endDate !== undefined) {
+      this.endDate = new Date(data.endDate);
+    }
+    if (data.maxClients !== undefined) {
+      this.maxClients = data.maxClients ?? undefined;
+    }
+    this.updatedAt = new Date();
+    this.validate();
+  }
+
+  /**
+   * Check if the program may move to the given status
+   */
+  canTransitionTo(status: ProgramStatus): boolean {
+    return PROGRAM_TRANSITIONS[this.status].includes(status);
+  }
+
+  /**
+   * Move the program to a new lifecycle status
+   * @throws {Error} If the transition is not allowed
+   */
+  transitionTo(status: ProgramStatus): void {
+    if (!this.canTransitionTo(status)) {
+      throw new Error(`Cannot transition program from ${this.status} to ${status}`);
+    }
+    this.status = status;
+    this.updatedAt = new Date();
+    this.statusChangedAt = this.updatedAt;
+  }
+
+  /**
+   * Check if program is in staging
+   */
+  isPending(): boolean {
+    return this.status === ProgramStatus.PENDING;
+  }
+
+  /**
+   * Check if program is running
+   */
+  isLive(): boolean {
+    return this.status === ProgramStatus.LIVE;
+  }
+
+  /**
+   * Check if program is archived
+   */
+  isArchived(): boolean {
+    return this.status === ProgramStatus.ARCHIVED;
+  }
+
+  /**
+   * Check if another client can be enrolled next to the ones holding a seat
+   */
+  hasRoomFor(seatedClients: number): boolean {
+    return this.maxClients === undefined || seatedClients < this.maxClients;
+  }
+
+  /**
+   * Check if a user is the creator or a stakeholder
+   */
+  isOwnedBy(userId: string): boolean {
+    return this.creatorId === userId || this.stakeholders.includes(userId);
+  }
+}
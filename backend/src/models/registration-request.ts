@@ -20,6 +20,7 @@ export class RegistrationRequest extends BaseModel implements RegistrationReques
   public status: RegistrationRequestStatus;
   public createdAt: Date;
   public updatedAt: Date;
+  public version: number;
   public approvedBy: string | undefined;
   public approvedAt: Date | undefined;
   public rejectionReason: string | undefined;
@@ -34,6 +35,7 @@ export class RegistrationRequest extends BaseModel implements RegistrationReques
     this.status = data.status;
     this.createdAt = data.createdAt;
     this.updatedAt = data.updatedAt;
+    this.version = data.version;
     this.approvedBy = data.approvedBy;
     this.approvedAt = data.approvedAt;
     this.rejectionReason = data.rejectionReason;
@@ -106,6 +108,7 @@ export class RegistrationRequest extends BaseModel implements RegistrationReques
       status: this.status,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
+      version: this.version,
       approvedBy: this.approvedBy,
       approvedAt: this.approvedAt,
       rejectionReason: this.rejectionReason,
@@ -125,6 +128,7 @@ export class RegistrationRequest extends BaseModel implements RegistrationReques
       status: data['status'] as RegistrationRequestStatus,
       createdAt: new Date(data['createdAt']),
       updatedAt: new Date(data['updatedAt']),
+      version: data['version'] ?? 1,
       approvedBy: data['approvedBy'],
       approvedAt: data['approvedAt'] ? new Date(data['approvedAt']) : undefined,
       rejectionReason: data['rejectionReason'],
@@ -144,6 +148,7 @@ export class RegistrationRequest extends BaseModel implements RegistrationReques
       status: data.status as RegistrationRequestStatus,
       createdAt: new Date(data.created_at),
       updatedAt: new Date(data.updated_at),
+      version: data.version ?? 1,
       approvedBy: data.approved_by,
       approvedAt: data.approved_at ? new Date(data.approved_at) : undefined,
       rejectionReason: data.rejection_reason,
@@ -163,6 +168,7 @@ export class RegistrationRequest extends BaseModel implements RegistrationReques
       status: this.status,
       created_at: this.createdAt.toISOString(),
       updated_at: this.updatedAt.toISOString(),
+      version: this.version,
       approved_by: this.approvedBy,
       approved_at: this.approvedAt?.toISOString(),
       rejection_reason: this.rejectionReason,
@@ -183,6 +189,7 @@ export class RegistrationRequest extends BaseModel implements RegistrationReques
       status: RegistrationRequestStatus.PENDING,
       createdAt: now,
       updatedAt: now,
+      version: 1,
     });
     request.validate();
     return request;
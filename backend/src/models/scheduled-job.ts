@@ -0,0 +1,125 @@
+import { BaseModel } from './base.js';
+import {
+  ScheduledJob as ScheduledJobInterface,
+  ScheduledJobDatabase,
+  JobName,
+} from '../types/scheduler.js';
+
+/**
+ * Scheduled job model: the persisted schedule of one job
+ */
+export class ScheduledJob extends BaseModel implements ScheduledJobInterface {
+  public id: string;
+  public name: JobName;
+  public intervalMs: number;
+  public lastRunAt: Date | undefined;
+  public nextRunAt: Date;
+
+  constructor(data: ScheduledJobInterface) {
+    super();
+    this.id = data.id;
+    this.name = data.name;
+    this.intervalMs = data.intervalMs;
+    this.lastRunAt = data.lastRunAt;
+    this.nextRunAt = data.nextRunAt;
+  }
+
+  /**
+   * Validate scheduled job data
+   */
+  validate(): void {
+    // Validate IDs
+    this.validateUUID(this.id, 'id');
+
+    // Validate schedule
+    this.validateEnum(this.name, JobName, 'name');
+    if (!Number.isInteger(this.intervalMs) || this.intervalMs <= 0) {
+      throw new Error('intervalMs must be a positive integer');
+    }
+
+    // Validate dates
+    this.validateOptional(this.lastRunAt, (value) => this.validateDate(value, 'lastRunAt'));
+    this.validateDate(this.nextRunAt, 'nextRunAt');
+  }
+
+  /**
+   * Convert to JSON object
+   */
+  toJSON(): ScheduledJobInterface {
+    return {
+      id: this.id,
+      name: this.name,
+      intervalMs: this.intervalMs,
+      lastRunAt: this.lastRunAt,
+      nextRunAt: this.nextRunAt,
+    };
+  }
+
+  /**
+   * Create ScheduledJob from JSON data
+   */
+  fromJSON(data: Record<string, any>): ScheduledJob {
+    return new ScheduledJob({
+      id: data['id'],
+      name: data['name'] as JobName,
+      intervalMs: data['intervalMs'],
+      lastRunAt: data['lastRunAt'] ? new Date(data['lastRunAt']) : undefined,
+      nextRunAt: new Date(data['nextRunAt']),
+    });
+  }
+
+  /**
+   * Create ScheduledJob from database record
+   */
+  static fromDatabase(data: ScheduledJobDatabase): ScheduledJob {
+    return new ScheduledJob({
+      id: data.id,
+      name: data.name as JobName,
+      intervalMs: data.interval_ms,
+      lastRunAt: data.last_run_at ? new Date(data.last_run_at) : undefined,
+      nextRunAt: new Date(data.next_run_at),
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): ScheduledJobDatabase {
+    return {
+      id: this.id,
+      name: this.name,
+      interval_ms: this.intervalMs,
+      last_run_at: this.lastRunAt?.toISOString() ?? null,
+      next_run_at: this.nextRunAt.toISOString(),
+    };
+  }
+
+  /**
+   * Schedule a job for the first time, due straight away
+   */
+  static create(name: JobName, intervalMs: number, now: Date = new Date()): ScheduledJob {
+    const job = new ScheduledJob({
+      id: crypto.randomUUID(),
+      name,
+      intervalMs,
+      nextRunAt: now,
+    });
+    job.validate();
+    return job;
+  }
+
+  /**
+   * Check whether the job should run
+   */
+  isDue(now: Date = new Date()): boolean {
+    return this.nextRunAt.getTime() <= now.getTime();
+  }
+
+  /**
+   * Record a run and schedule the next one an interval later
+   */
+  recordRun(now: Date = new Date()): void {
+    this.lastRunAt = now;
+    this.nextRunAt = new Date(now.getTime() + this.intervalMs);
+  }
+}
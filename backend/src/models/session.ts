@@ -0,0 +1,124 @@
+import { BaseModel } from './base.js';
+import { Session as SessionInterface, SessionDatabase } from '../types/session.js';
+
+/**
+ * Session model with sliding expiry
+ */
+export class Session extends BaseModel implements SessionInterface {
+  public id: string;
+  public userId: string;
+  public createdAt: Date;
+  public lastSeenAt: Date;
+  public expiresAt: Date;
+
+  constructor(data: SessionInterface) {
+    super();
+    this.id = data.id;
+    this.userId = data.userId;
+    this.createdAt = data.createdAt;
+    this.lastSeenAt = data.lastSeenAt;
+    this.expiresAt = data.expiresAt;
+  }
+
+  /**
+   * Validate session data
+   */
+  validate(): void {
+    // Validate IDs
+    this.validateUUID(this.id, 'id');
+    this.validateUUID(this.userId, 'userId');
+
+    // Validate dates
+    this.validateDate(this.createdAt, 'createdAt');
+    this.validateDate(this.lastSeenAt, 'lastSeenAt');
+    this.validateDate(this.expiresAt, 'expiresAt');
+
+    // Validate business rules
+    if (this.expiresAt.getTime() <= this.createdAt.getTime()) {
+      throw new Error('expiresAt must be after createdAt');
+    }
+  }
+
+  /**
+   * Convert to JSON object
+   */
+  toJSON(): SessionInterface {
+    return {
+      id: this.id,
+      userId: this.userId,
+      createdAt: this.createdAt,
+      lastSeenAt: this.lastSeenAt,
+      expiresAt: this.expiresAt,
+    };
+  }
+
+  /**
+   * Create Session from JSON data
+   */
+  fromJSON(data: Record<string, any>): Session {
+    return new Session({
+      id: data['id'],
+      userId: data['userId'],
+      createdAt: new Date(data['createdAt']),
+      lastSeenAt: new Date(data['lastSeenAt']),
+      expiresAt: new Date(data['expiresAt']),
+    });
+  }
+
+  /**
+   * Create Session from database record
+   */
+  static fromDatabase(data: SessionDatabase): Session {
+    return new Session({
+      id: data.id,
+      userId: data.user_id,
+      createdAt: new Date(data.created_at),
+      lastSeenAt: new Date(data.last_seen_at),
+      expiresAt: new Date(data.expires_at),
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): SessionDatabase {
+    return {
+      id: this.id,
+      user_id: this.userId,
+      created_at: this.createdAt.toISOString(),
+      last_seen_at: this.lastSeenAt.toISOString(),
+      expires_at: this.expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Create new Session instance for a user
+   */
+  static create(userId: string, ttlMs: number): Session {
+    const now = new Date();
+    const session = new Session({
+      id: crypto.randomUUID(),
+      userId,
+      createdAt: now,
+      lastSeenAt: now,
+      expiresAt: new Date(now.getTime() + ttlMs),
+    });
+    session.validate();
+    return session;
+  }
+
+  /**
+   * Check if session has expired
+   */
+  isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime();
+  }
+
+  /**
+   * Slide the expiry window forward from now
+   */
+  touch(ttlMs: number, now: Date = new Date()): void {
+    this.lastSeenAt = now;
+    this.expiresAt = new Date(now.getTime() + ttlMs);
+  }
+}
@@ -13,6 +13,7 @@ export class User extends BaseModel implements UserInterface {
   public status: UserStatus;
   public createdAt: Date;
   public updatedAt: Date;
+  public version: number;
 
   constructor(data: UserInterface) {
     super();
@@ -24,6 +25,7 @@ export class User extends BaseModel implements UserInterface {
     this.status = data.status;
     this.createdAt = data.createdAt;
     this.updatedAt = data.updatedAt;
+    this.version = data.version;
   }
 
   /**
@@ -72,6 +74,7 @@ export class User extends BaseModel implements UserInterface {
       status: this.status,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
+      version: this.version,
     };
   }
 
@@ -88,6 +91,7 @@ export class User extends BaseModel implements UserInterface {
       status: data['status'] as UserStatus,
       createdAt: new Date(data['createdAt']),
       updatedAt: new Date(data['updatedAt']),
+      version: data['version'] ?? 1,
     });
   }
 
@@ -104,6 +108,7 @@ export class User extends BaseModel implements UserInterface {
       status: data.status as UserStatus,
       createdAt: new Date(data.created_at),
       updatedAt: new Date(data.updated_at),
+      version: data.version ?? 1,
     });
   }
 
@@ -120,6 +125,7 @@ export class User extends BaseModel implements UserInterface {
       status: this.status,
       created_at: this.createdAt.toISOString(),
       updated_at: this.updatedAt.toISOString(),
+      version: this.version,
     };
   }
 
@@ -137,6 +143,7 @@ export class User extends BaseModel implements UserInterface {
       status: UserStatus.PENDING,
       createdAt: now,
       updatedAt: now,
+      version: 1,
     });
     user.validate();
     return user;
@@ -0,0 +1,216 @@
+import { BaseModel } from './base.js';
+import {
+  WebhookDelivery as WebhookDeliveryInterface,
+  WebhookDeliveryDatabase,
+  WebhookDeliveryStatus,
+} from '../types/webhook.js';
+import { DomainEventType } from '../types/events.js';
+
+/**
+ * Attempts made before a delivery is given up on
+ */
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+
+/**
+ * Wait before the first retry; it doubles with every failed attempt
+ */
+export const WEBHOOK_RETRY_BASE_DELAY_MS = 60 * 1000;
+
+/**
+ * Webhook delivery model: one event posted to one webhook, kept as the
+ * delivery log
+ */
+export class WebhookDelivery extends BaseModel implements WebhookDeliveryInterface {
+  public id: string;
+  public webhookId: string;
+  public eventId: string;
+  public eventType: DomainEventType;
+  public payload: string;
+  public status: WebhookDeliveryStatus;
+  public attempts: number;
+  public responseStatus: number | undefined;
+  public lastError: string | undefined;
+  public nextAttemptAt: Date;
+  public deliveredAt: Date | undefined;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(data: WebhookDeliveryInterface) {
+    super();
+    this.id = data.id;
+    this.webhookId = data.webhookId;
+    this.eventId = data.eventId;
+    this.eventType = data.eventType;
+    this.payload = data.payload;
+    this.status = data.status;
+    this.attempts = data.attempts;
+    this.responseStatus = data.responseStatus;
+    this.lastError = data.lastError;
+    this.nextAttemptAt = data.nextAttemptAt;
+    this.deliveredAt = data.deliveredAt;
+    this.createdAt = data.createdAt;
+    this.updatedAt = data.updatedAt;
+  }
+
+  /**
+   * Validate webhook delivery data
+   */
+  validate(): void {
+    // Validate IDs
+    this.validateUUID(this.id, 'id');
+    this.validateUUID(this.webhookId, 'webhookId');
+    this.validateUUID(this.eventId, 'eventId');
+
+    // Validate payload
+    this.validateRequiredString(this.payload, 'payload');
+
+    // Validate enums
+    this.validateEnum(this.eventType, DomainEventType, 'eventType');
+    this.validateEnum(this.status, WebhookDeliveryStatus, 'status');
+
+    // Validate dates
+    this.validateDate(this.nextAttemptAt, 'nextAttemptAt');
+    this.validateDate(this.createdAt, 'createdAt');
+    this.validateDate(this.updatedAt, 'updatedAt');
+  }
+
+  /**
+   * Convert to JSON object
+   */
+  toJSON(): WebhookDeliveryInterface {
+    return {
+      id: this.id,
+      webhookId: this.webhookId,
+      eventId: this.eventId,
+      eventType: this.eventType,
+      payload: this.payload,
+      status: this.status,
+      attempts: this.attempts,
+      responseStatus: this.responseStatus,
+      lastError: this.lastError,
+      nextAttemptAt: this.nextAttemptAt,
+      deliveredAt: this.deliveredAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  /**
+   * Create WebhookDelivery from JSON data
+   */
+  fromJSON(data: Record<string, any>): WebhookDelivery {
+    return new WebhookDelivery({
+      id: data['id'],
+      webhookId: data['webhookId'],
+      eventId: data['eventId'],
+      eventType: data['eventType'] as DomainEventType,
+      payload: data['payload'],
+      status: data['status'] as WebhookDeliveryStatus,
+      attempts: data['attempts'],
+      responseStatus: data['responseStatus'],
+      lastError: data['lastError'],
+      nextAttemptAt: new Date(data['nextAttemptAt']),
+      deliveredAt: data['deliveredAt'] ? new Date(data['deliveredAt']) : undefined,
+      createdAt: new Date(data['createdAt']),
+      updatedAt: new Date(data['updatedAt']),
+    });
+  }
+
+  /**
+   * Create WebhookDelivery from database record
+   */
+  static fromDatabase(data: WebhookDeliveryDatabase): WebhookDelivery {
+    return new WebhookDelivery({
+      id: data.id,
+      webhookId: data.webhook_id,
+      eventId: data.event_id,
+      eventType: data.event_type as DomainEventType,
+      payload: data.payload,
+      status: data.status as WebhookDeliveryStatus,
+      attempts: data.attempts,
+      responseStatus: data.response_status ?? undefined,
+      lastError: data.last_error ?? undefined,
+      nextAttemptAt: new Date(data.next_attempt_at),
+      deliveredAt: data.delivered_at ? new Date(data.delivered_at) : undefined,
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at),
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): WebhookDeliveryDatabase {
+    return {
+      id: this.id,
+      webhook_id: this.webhookId,
+      event_id: this.eventId,
+      event_type: this.eventType,
+      payload: this.payload,
+      status: this.status,
+      attempts: this.attempts,
+      response_status: this.responseStatus ?? null,
+      last_error: this.lastError ?? null,
+      next_attempt_at: this.nextAttemptAt.toISOString(),
+      delivered_at: this.deliveredAt?.toISOString() ?? null,
+      created_at: this.createdAt.toISOString(),
+      updated_at: this.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Queue the delivery of an event's payload to a webhook, due straight away
+   */
+  static create(webhookId: string, eventId: string, eventType: DomainEventType, payload: string): WebhookDelivery {
+    const now = new Date();
+    const delivery = new WebhookDelivery({
+      id: crypto.randomUUID(),
+      webhookId,
+      eventId,
+      eventType,
+      payload,
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    delivery.validate();
+    return delivery;
+  }
+
+  /**
+   * Queue this delivery's payload again, as a new delivery
+   */
+  redeliver(): WebhookDelivery {
+    return WebhookDelivery.create(this.webhookId, this.eventId, this.eventType, this.payload);
+  }
+
+  /**
+   * Record an attempt the endpoint acknowledged
+   */
+  markSucceeded(responseStatus: number, now: Date = new Date()): void {
+    this.attempts += 1;
+    this.status = WebhookDeliveryStatus.SUCCEEDED;
+    this.responseStatus = responseStatus;
+    this.lastError = undefined;
+    this.deliveredAt = now;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Record a failed attempt: retry later with an exponential backoff, or
+   * give up after the last attempt
+   */
+  markFailed(error: string, responseStatus?: number, now: Date = new Date()): void {
+    this.attempts += 1;
+    this.responseStatus = responseStatus;
+    this.lastError = error;
+    this.updatedAt = now;
+    if (this.attempts >= MAX_WEBHOOK_ATTEMPTS) {
+      this.status = WebhookDeliveryStatus.FAILED;
+    } else {
+      this.nextAttemptAt = new Date(now.getTime() + WEBHOOK_RETRY_BASE_DELAY_MS * 2 ** (this.attempts - 1));
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { randomBytes } from 'crypto';
+import { BaseModel } from './base.js';
+import {
+  Webhook as WebhookInterface,
+  WebhookDatabase,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+} from '../types/webhook.js';
+import { DomainEventType } from '../types/events.js';
+
+/**
+ * Check that a string is an absolute http(s) URL
+ */
+const isHttpUrl = (value: string): boolean => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Webhook model: an HTTP endpoint subscribed to some domain event types
+ */
+export class Webhook extends BaseModel implements WebhookInterface {
+  public id: string;
+  public url: string;
+  public description: string | undefined;
+  public events: DomainEventType[];
+  public secret: string;
+  public active: boolean;
+  public creatorId: string;
+  public createdAt: Date;
+  public updatedAt: Date;
+
+  constructor(data: WebhookInterface) {
+    super();
+    this.id = data.id;
+    this.url = data.url;
+    this.description = data.description;
+    this.events = data.events;
+    this.secret = data.secret;
+    this.active = data.active;
+    this.creatorId = data.creatorId;
+    this.createdAt = data.createdAt;
+    this.updatedAt = data.updatedAt;
+  }
+
+  /**
+   * Validate webhook data
+   */
+  validate(): void {
+    // Validate IDs
+    this.validateUUID(this.id, 'id');
+    this.validateUUID(this.creatorId, 'creatorId');
+
+    // Validate endpoint
+    this.validateRequiredString(this.url, 'url');
+    this.validateStringLength(this.url, 'url', 1, 2000);
+    if (!isHttpUrl(this.url)) {
+      throw new Error('url must be an http or https URL');
+    }
+    this.validateOptional(this.description, (value) => this.validateStringLength(value, 'description', 0, 500));
+    this.validateRequiredString(this.secret, 'secret');
+
+    // Validate subscriptions
+    if (!Array.isArray(this.events) || this.events.length === 0) {
+      throw new Error('events must list at least one event type');
+    }
+    this.events.forEach((event) => this.validateEnum(event, DomainEventType, 'events'));
+
+    // Validate dates
+    this.validateDate(this.createdAt, 'createdAt');
+    this.validateDate(this.updatedAt, 'updatedAt');
+  }
+
+  /**
+   * Convert to JSON object; the secret is left out
+   */
+  toJSON(): Omit<WebhookInterface, 'secret'> {
+    return {
+      id: this.id,
+      url: this.url,
+      description: this.description,
+      events: this.events,
+      active: this.active,
+      creatorId: this.creatorId,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  /**
+   * Create Webhook from JSON data
+   */
+  fromJSON(data: Record<string, any>): Webhook {
+    return new Webhook({
+      id: data['id'],
+      url: data['url'],
+      description: data['description'],
+      events: data['events'] || [],
+      secret: data['secret'],
+      active: data['active'],
+      creatorId: data['creatorId'],
+      createdAt: new Date(data['createdAt']),
+      updatedAt: new Date(data['updatedAt']),
+    });
+  }
+
+  /**
+   * Create Webhook from database record
+   */
+  static fromDatabase(data: WebhookDatabase): Webhook {
+    return new Webhook({
+      id: data.id,
+      url: data.url,
+      description: data.description ?? undefined,
+      events: JSON.parse(data.events),
+      secret: data.secret,
+      active: data.active === 1,
+      creatorId: data.creator_id,
+      createdAt: new Date(data.created_at),
+      updatedAt: new Date(data.updated_at),
+    });
+  }
+
+  /**
+   * Convert to database record
+   */
+  toDatabase(): WebhookDatabase {
+    return {
+      id: this.id,
+      url: this.url,
+      description: this.description ?? null,
+      events: JSON.stringify(this.events),
+      secret: this.secret,
+      active: this.active ? 1 : 0,
+      creator_id: this.creatorId,
+      created_at: this.createdAt.toISOString(),
+      updated_at: this.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Register an active webhook with a fresh signing secret
+   */
+  static create(data: CreateWebhookRequest, creatorId: string): Webhook {
+    const now = new Date();
+    const webhook = new Webhook({
+      id: crypto.randomUUID(),
+      url: data.url,
+      description: data.description,
+      events: [...new Set(data.events)],
+      secret: randomBytes(32).toString('hex'),
+      active: true,
+      creatorId,
+      createdAt: now,
+      updatedAt: now,
+    });
+    webhook.validate();
+    return webhook;
+  }
+
+  /**
+   * Edit the endpoint, its subscriptions or whether it is active
+   */
+  update(data: UpdateWebhookRequest): void {
+    if (data.url !== undefined) {
+      this.url = data.url;
+    }
+    if (data.description !== undefined) {
+      this.description = data.description;
+    }
+    if (data.events !== undefined) {
+      this.events = [...new Set(data.events)];
+    }
+    if (data.active !== undefined) {
+      this.active = data.active;
+    }
+    this.updatedAt = new Date();
+    this.validate();
+  }
+
+  /**
+   * Check whether the webhook wants an event type
+   */
+  isSubscribedTo(type: DomainEventType): boolean {
+    return this.active && this.events.includes(type);
+  }
+}
@@ -0,0 +1,67 @@
+import { AuditLog, BaseRepository } from './base.js';
+import { Queryable } from '../config/transaction.js';
+import { getCurrentActor } from '../config/actor-context.js';
+import { AuditEntry, ListOptions, PaginatedResponse } from '../types/index.js';
+import { AuditEvent } from '../models/audit-event.js';
+import { AuditEventFilters } from '../types/audit.js';
+
+/**
+ * Audit event repository: the audit log of every audited repository
+ */
+export class AuditEventRepository extends BaseRepository<AuditEvent> implements AuditLog {
+  constructor(db: any) {
+    super(db, 'audit_events', [
+      'id', 'entity_type', 'entity_id', 'action', 'actor_id', 'before', 'after', 'created_at'
+    ], {
+      // Events are only ever appended: rowid orders them without the ties
+      // of writes recorded within the same millisecond
+      keys: { createdAt: 'rowid' },
+      defaultKey: 'createdAt',
+      defaultOrder: 'desc'
+    });
+  }
+
+  /**
+   * Record a write on the connection it happened on, attributed to the
+   * current actor. Updates that changed nothing are not recorded.
+   */
+  async record(db: Queryable, entry: AuditEntry): Promise<void> {
+    const event = AuditEvent.record(entry, getCurrentActor());
+    if (!event) {
+      return;
+    }
+
+    const data = event.toDatabase();
+    const columns = Object.keys(data);
+    const query = `INSERT INTO ${this.tableName} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`;
+    await db.run(query, Object.values(data));
+  }
+
+  /**
+   * Find audit events with filters, newest first by default
+   */
+  async findWithFilters(filters: AuditEventFilters, options?: ListOptions): Promise<PaginatedResponse<AuditEvent>> {
+    const query = this.query()
+      .equals('entity_type', filters.entityType)
+      .equals('entity_id', filters.entityId)
+      .equals('actor_id', filters.actorId)
+      .equals('action', filters.action)
+      .between('created_at', filters.createdAt);
+
+    return this.findPage(query, options);
+  }
+
+  /**
+   * Map database row to AuditEvent entity
+   */
+  protected mapToEntity(row: any): AuditEvent {
+    return AuditEvent.fromDatabase(row);
+  }
+
+  /**
+   * Map AuditEvent entity to database format (events are never updated)
+   */
+  protected mapToDatabase(entity: AuditEvent | Partial<AuditEvent>): Record<string, any> {
+    return entity instanceof AuditEvent ? entity.toDatabase() : {};
+  }
+}
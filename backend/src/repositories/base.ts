@@ -1,4 +1,16 @@
-import { PaginationOptions, PaginatedResponse } from '../types/index.js';
+import {
+  PaginatedResponse,
+  PaginationFor,
+  DateRange,
+  ListOptions,
+  SortOptions,
+  SortOrder,
+  AuditAction,
+  AuditEntityType,
+  AuditEntry,
+} from '../types/index.js';
+import { Queryable, Transaction } from '../config/transaction.js';
+import { ConflictError, ValidationError } from '../utils/errors.js';
 
 /**
  * Base repository interface for all data access operations
@@ -7,7 +19,7 @@ export interface Repository<T> {
   /**
    * Find all entities with optional pagination
    */
-  findAll(options?: PaginationOptions): Promise<PaginatedResponse<T>>;
+  findAll<O extends ListOptions = ListOptions>(options?: O): Promise<PaginatedResponse<T, PaginationFor<O>>>;
 
   /**
    * Find entity by ID
@@ -30,7 +42,7 @@ export interface Repository<T> {
   update(id: string, entity: Partial<T>): Promise<T | null>;
 
   /**
-   * Delete entity by ID
+   * Delete entity by ID (soft delete when the table has deleted_at)
    */
   delete(id: string): Promise<boolean>;
 
@@ -46,51 +58,276 @@ export interface Repository<T> {
 }
 
 /**
- * Base repository implementation with common SQLite operations
+ * Table and columns a repository reads and writes
+ */
+export interface RepositorySchema {
+  table: string;
+  columns: string[];
+}
+
+/**
+ * Column of another table pointing at a repository's rows. A deleted row
+ * is only purged once no row references it, so purging never cascades
+ * into data that is still in use.
+ */
+export interface Reference {
+  table: string;
+  column: string;
+}
+
+/**
+ * Receives every write of an audited repository. It writes on the
+ * repository's connection, so the event commits or rolls back with the write.
+ */
+export interface AuditLog {
+  record(db: Queryable, entry: AuditEntry): Promise<void>;
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must match, as a prefix.
+ * Quotes are dropped so user input cannot use the FTS5 query syntax.
+ * @returns null when no searchable word is left
+ */
+export const toMatchQuery = (text: string): string | null => {
+  const terms = text
+    .split(/\s+/)
+    .map(term => term.replace(/"/g, ''))
+    .filter(term => /[\p{L}\p{N}]/u.test(term));
+
+  return terms.length > 0 ? terms.map(term => `"${term}"*`).join(' ') : null;
+};
+
+/**
+ * Sort keys a repository accepts (mapped to the SQL they order by) and the
+ * order used when the caller picks none
+ */
+export interface SortConfig {
+  keys: Record<string, string>;
+  defaultKey: string;
+  defaultOrder: SortOrder;
+}
+
+/**
+ * Newest first, the order every list used before sorting was configurable
+ */
+export const DEFAULT_SORT: SortConfig = {
+  keys: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  defaultKey: 'createdAt',
+  defaultOrder: 'desc',
+};
+
+/**
+ * Position in a keyset-paginated list: the sort it was taken from, the
+ * boundary row (sort value and id) and which side of it to read
+ */
+interface Cursor {
+  sortBy: string;
+  sortOrder: SortOrder;
+  value: string | number | null;
+  id: string;
+  direction: 'next' | 'prev';
+}
+
+/**
+ * Cursors are handed out as opaque base64url tokens
+ */
+const encodeCursor = (cursor: Cursor): string => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const isCursor = (value: any): value is Cursor =>
+  typeof value?.sortBy === 'string'
+  && (value.sortOrder === 'asc' || value.sortOrder === 'desc')
+  && (value.value === null || typeof value.value === 'string' || typeof value.value === 'number')
+  && typeof value.id === 'string'
+  && (value.direction === 'next' || value.direction === 'prev');
+
+/**
+ * @throws {ValidationError} If the token was not issued by encodeCursor
+ */
+const decodeCursor = (token: string): Cursor => {
+  let cursor: unknown;
+  try {
+    cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    cursor = undefined;
+  }
+
+  if (!isCursor(cursor)) {
+    throw new ValidationError('cursor is invalid', 'INVALID_CURSOR');
+  }
+  return cursor;
+};
+
+/**
+ * WHERE clause builder that only accepts the repository's own columns.
+ * Filters given an undefined or empty value are skipped.
+ */
+export class QueryBuilder {
+  private columns: string[];
+  private conditions: string[] = [];
+  private params: unknown[] = [];
+
+  constructor(columns: string[]) {
+    this.columns = columns;
+  }
+
+  /**
+   * Column equals a value
+   */
+  equals(column: string, value: unknown): this {
+    if (value !== undefined) {
+      this.assertColumn(column);
+      this.conditions.push(`${column} = ?`);
+      this.params.push(value);
+    }
+    return this;
+  }
+
+  /**
+   * Any of the columns contains the term (LIKE, case-insensitive for ASCII)
+   */
+  contains(columns: string[], term: string | undefined): this {
+    if (term) {
+      columns.forEach(column => this.assertColumn(column));
+      this.conditions.push(`(${columns.map(column => `${column} LIKE ?`).join(' OR ')})`);
+      this.params.push(...columns.map(() => `%${term}%`));
+    }
+    return this;
+  }
+
+  /**
+   * Row matches free text in a full-text index keyed by the row id
+   */
+  matches(ftsTable: string, text: string | undefined): this {
+    if (text) {
+      const match = toMatchQuery(text);
+      if (match) {
+        this.conditions.push(`id IN (SELECT id FROM ${ftsTable} WHERE ${ftsTable} MATCH ?)`);
+        this.params.push(match);
+      } else {
+        this.conditions.push('0');
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Date column within an inclusive range. Compared as julian days so both
+   * ISO timestamps and SQLite CURRENT_TIMESTAMP values match.
+   */
+  between(column: string, range: DateRange | undefined): this {
+    if (range?.from) {
+      this.assertColumn(column);
+      this.conditions.push(`julianday(${column}) >= julianday(?)`);
+      this.params.push(range.from.toISOString());
+    }
+    if (range?.to) {
+      this.assertColumn(column);
+      this.conditions.push(`julianday(${column}) <= julianday(?)`);
+      this.params.push(range.to.toISOString());
+    }
+    return this;
+  }
+
+  /**
+   * Raw condition, for filters the helpers above cannot express
+   */
+  where(condition: string, params: unknown[] = []): this {
+    this.conditions.push(condition);
+    this.params.push(...params);
+    return this;
+  }
+
+  /**
+   * WHERE clause (empty without conditions) and its parameters
+   */
+  build(): { where: string; params: unknown[] } {
+    return {
+      where: this.conditions.length > 0 ? `WHERE ${this.conditions.join(' AND ')}` : '',
+      params: [...this.params],
+    };
+  }
+
+  private assertColumn(column: string): void {
+    if (!this.columns.includes(column)) {
+      throw new Error(`Unknown column ${column}`);
+    }
+  }
+}
+
+/**
+ * Base repository implementation with common SQLite operations. Tables
+ * with a deleted_at column are soft-deleted: their deleted rows are left
+ * out of every query below until they are restored or purged. Tables with
+ * a version column are updated optimistically (see update).
  */
 export abstract class BaseRepository<T> implements Repository<T> {
-  protected db: any; // SQLite database instance
+  protected db: Queryable; // Database or the transaction this copy is bound to
   protected tableName: string;
+  protected columns: string[];
+  protected sort: SortConfig;
+  protected softDeletes: boolean;
+  protected versioned: boolean;
+  protected references: Reference[] = []; // Rows that keep a deleted row from being purged
+  protected auditEntity: AuditEntityType | undefined = undefined; // Set to have writes audited
+  private auditLog: AuditLog | undefined;
 
-  constructor(db: any, tableName: string) {
+  constructor(db: Queryable, tableName: string, columns: string[], sort: SortConfig = DEFAULT_SORT) {
     this.db = db;
     this.tableName = tableName;
+    this.columns = columns;
+    this.sort = sort;
+    this.softDeletes = columns.includes('deleted_at');
+    this.versioned = columns.includes('version');
   }
 
   /**
-   * Find all entities with pagination
+   * Get the table and columns this repository expects (checked at startup)
    */
-  async findAll(options?: PaginationOptions): Promise<PaginatedResponse<T>> {
-    const { page = 1, limit = 10 } = options || {};
-    const offset = (page - 1) * limit;
-
-    const countQuery = `SELECT COUNT(*) as total FROM ${this.tableName}`;
-    const dataQuery = `SELECT * FROM ${this.tableName} ORDER BY created_at DESC LIMIT ? OFFSET ?`;
+  getSchema(): RepositorySchema {
+    return { table: this.tableName, columns: [...this.columns] };
+  }
 
-    const [countResult, dataResult] = await Promise.all([
-      this.db.get(countQuery),
-      this.db.all(dataQuery, [limit, offset])
-    ]);
+  /**
+   * Copy of this repository whose queries run inside a transaction
+   */
+  withTransaction(tx: Transaction): this {
+    return Object.assign(Object.create(Object.getPrototypeOf(this)), this, { db: tx });
+  }
 
-    const total = countResult.total;
-    const pages = Math.ceil(total / limit);
+  /**
+   * Record this repository's writes in an audit log (only repositories with
+   * an auditEntity are audited)
+   */
+  auditWith(auditLog: AuditLog): this {
+    if (this.auditEntity) {
+      this.auditLog = auditLog;
+    }
+    return this;
+  }
 
-    return {
-      data: dataResult.map((row: any) => this.mapToEntity(row)),
-      pagination: {
-        page,
-        limit,
-        total,
-        pages
-      }
-    };
+  /**
+   * Find all entities with pagination
+   */
+  async findAll<O extends ListOptions = ListOptions>(options?: O): Promise<PaginatedResponse<T, PaginationFor<O>>> {
+    return this.findPage(this.query(), options) as Promise<PaginatedResponse<T, PaginationFor<O>>>;
   }
 
   /**
    * Find entity by ID
    */
   async findById(id: string): Promise<T | null> {
-    const query = `SELECT * FROM ${this.tableName} WHERE id = ?`;
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live('id = ?')}`;
+    const result = await this.db.get(query, [id]);
+    return result ? this.mapToEntity(result) : null;
+  }
+
+  /**
+   * Find a soft-deleted entity by ID
+   */
+  async findDeletedById(id: string): Promise<T | null> {
+    this.assertSoftDeletes();
+
+    const query = `SELECT * FROM ${this.tableName} WHERE id = ? AND deleted_at IS NOT NULL`;
     const result = await this.db.get(query, [id]);
     return result ? this.mapToEntity(result) : null;
   }
@@ -106,42 +343,116 @@ export abstract class BaseRepository<T> implements Repository<T> {
 
     const query = `INSERT INTO ${this.tableName} (${columns}) VALUES (${placeholders})`;
     await this.db.run(query, values);
+    await this.audit(AuditAction.CREATE, data['id'], null, entity);
 
     return entity;
   }
 
   /**
-   * Update existing entity
+   * Update existing entity. On versioned tables every update bumps the
+   * version, and an entity carrying the version it was read at is only
+   * written if the row is still at that version; the entity then holds the
+   * new one.
+   * @throws {ConflictError} If the row changed since the entity was read
    */
   async update(id: string, entity: Partial<T>): Promise<T | null> {
-    const data = this.mapToDatabase(entity);
-    const setClause = Object.keys(data).map(key => `${key} = ?`).join(', ');
-    const values = [...Object.values(data), id];
+    const { version, ...data } = this.mapToDatabase(entity);
+    const expectedVersion = this.versioned && typeof version === 'number' ? version : undefined;
+    const assignments = Object.keys(data).map(key => `${key} = ?`);
+    if (this.versioned) {
+      assignments.push('version = version + 1');
+    }
+    const condition = expectedVersion === undefined ? this.live('id = ?') : this.live('id = ? AND version = ?');
+    const values = [...Object.values(data), id, ...(expectedVersion === undefined ? [] : [expectedVersion])];
+    const before = this.auditLog ? await this.findById(id) : null;
 
-    const query = `UPDATE ${this.tableName} SET ${setClause} WHERE id = ?`;
+    const query = `UPDATE ${this.tableName} SET ${assignments.join(', ')} WHERE ${condition}`;
     const result = await this.db.run(query, values);
 
     if (result.changes === 0) {
+      if (expectedVersion !== undefined && (await this.exists(id))) {
+        throw new ConflictError('The record was changed by someone else; reload it and try again', 'VERSION_CONFLICT');
+      }
       return null;
     }
 
-    return this.findById(id);
+    if (expectedVersion !== undefined) {
+      Object.assign(entity, { version: expectedVersion + 1 });
+    }
+    const after = await this.findById(id);
+    await this.audit(AuditAction.UPDATE, id, before, after);
+    return after;
   }
 
   /**
-   * Delete entity by ID
+   * Delete entity by ID: stamp deleted_at on soft-deleted tables, remove
+   * the row otherwise
    */
   async delete(id: string): Promise<boolean> {
-    const query = `DELETE FROM ${this.tableName} WHERE id = ?`;
-    const result = await this.db.run(query, [id]);
-    return result.changes > 0;
+    const before = this.auditLog ? await this.findById(id) : null;
+    let result;
+    if (this.softDeletes) {
+      const now = new Date().toISOString();
+      const query = `UPDATE ${this.tableName} SET deleted_at = ?, updated_at = ?${this.bumpVersion()} WHERE ${this.live('id = ?')}`;
+      result = await this.db.run(query, [now, now, id]);
+    } else {
+      result = await this.db.run(`DELETE FROM ${this.tableName} WHERE id = ?`, [id]);
+    }
+
+    if (result.changes === 0) {
+      return false;
+    }
+
+    await this.audit(AuditAction.DELETE, id, before, null);
+    return true;
+  }
+
+  /**
+   * Bring a soft-deleted entity back
+   * @returns The restored entity, or null if no deleted row has this ID
+   */
+  async restore(id: string): Promise<T | null> {
+    this.assertSoftDeletes();
+
+    const query = `UPDATE ${this.tableName} SET deleted_at = NULL, updated_at = ?${this.bumpVersion()} WHERE id = ? AND deleted_at IS NOT NULL`;
+    const result = await this.db.run(query, [new Date().toISOString(), id]);
+    if (result.changes === 0) {
+      return null;
+    }
+
+    const restored = await this.findById(id);
+    await this.audit(AuditAction.RESTORE, id, null, restored);
+    return restored;
+  }
+
+  /**
+   * Hard-delete the rows soft-deleted before a date that nothing references
+   * any more (see Reference)
+   * @returns The number of rows removed
+   */
+  async purgeDeleted(deletedBefore: Date): Promise<number> {
+    this.assertSoftDeletes();
+
+    const unreferenced = this.references.map(({ table, column }) =>
+      `NOT EXISTS (SELECT 1 FROM ${table} WHERE ${table}.${column} = ${this.tableName}.id)`
+    );
+    const conditions = ['deleted_at IS NOT NULL', 'julianday(deleted_at) <= julianday(?)', ...unreferenced];
+    const where = `WHERE ${conditions.join(' AND ')}`;
+    const params = [deletedBefore.toISOString()];
+    const purged = this.auditLog ? await this.db.all(`SELECT * FROM ${this.tableName} ${where}`, params) : [];
+
+    const result = await this.db.run(`DELETE FROM ${this.tableName} ${where}`, params);
+    for (const row of purged) {
+      await this.audit(AuditAction.PURGE, row.id, this.mapToEntity(row), null);
+    }
+    return result.changes;
   }
 
   /**
    * Count total entities
    */
   async count(): Promise<number> {
-    const query = `SELECT COUNT(*) as total FROM ${this.tableName}`;
+    const query = `SELECT COUNT(*) as total FROM ${this.tableName}${this.softDeletes ? ' WHERE deleted_at IS NULL' : ''}`;
     const result = await this.db.get(query);
     return result.total;
   }
@@ -150,11 +461,157 @@ export abstract class BaseRepository<T> implements Repository<T> {
    * Check if entity exists by ID
    */
   async exists(id: string): Promise<boolean> {
-    const query = `SELECT COUNT(*) as count FROM ${this.tableName} WHERE id = ?`;
+    const query = `SELECT COUNT(*) as count FROM ${this.tableName} WHERE ${this.live('id = ?')}`;
     const result = await this.db.get(query, [id]);
     return result.count > 0;
   }
 
+  /**
+   * Start a filter on this repository's columns, leaving deleted rows out
+   * unless asked otherwise
+   */
+  protected query(includeDeleted = false): QueryBuilder {
+    const query = new QueryBuilder(this.columns);
+    return this.softDeletes && !includeDeleted ? query.where('deleted_at IS NULL') : query;
+  }
+
+  /**
+   * Narrow a condition to rows that are not soft-deleted
+   */
+  protected live(condition: string): string {
+    return this.softDeletes ? `${condition} AND deleted_at IS NULL` : condition;
+  }
+
+  /**
+   * Extra assignment bumping the version of versioned tables
+   */
+  private bumpVersion(): string {
+    return this.versioned ? ', version = version + 1' : '';
+  }
+
+  /**
+   * Hand a write to the audit log, when this repository is audited
+   */
+  private async audit(action: AuditAction, entityId: string, before: T | null, after: T | null): Promise<void> {
+    if (!this.auditLog || !this.auditEntity || (!before && !after)) {
+      return;
+    }
+
+    await this.auditLog.record(this.db, {
+      entityType: this.auditEntity,
+      entityId,
+      action,
+      before: before as object | null,
+      after: after as object | null,
+    });
+  }
+
+  private assertSoftDeletes(): void {
+    if (!this.softDeletes) {
+      throw new Error(`${this.tableName} rows are not soft-deleted`);
+    }
+  }
+
+  /**
+   * Run a filter and return one sorted page of entities: by page number with
+   * the total count, or by keyset when the options carry a cursor
+   * @throws {ValidationError} If the sort key or the cursor is invalid
+   */
+  protected async findPage(query: QueryBuilder, options: ListOptions = {}): Promise<PaginatedResponse<T>> {
+    if (options.cursor !== undefined) {
+      return this.findKeysetPage(query, options);
+    }
+
+    const { page = 1, limit = 10 } = options;
+    const offset = (page - 1) * limit;
+    const { where, params } = query.build();
+    const { expression, order } = this.resolveSort(options);
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+
+    const countQuery = `SELECT COUNT(*) as total FROM ${this.tableName} ${where}`;
+    const dataQuery = `SELECT * FROM ${this.tableName} ${where} ORDER BY ${expression} ${direction}, id ${direction} LIMIT ? OFFSET ?`;
+
+    const [countResult, dataResult] = await Promise.all([
+      this.db.get(countQuery, params),
+      this.db.all(dataQuery, [...params, limit, offset])
+    ]);
+
+    const total = countResult.total;
+    const pages = Math.ceil(total / limit);
+
+    return {
+      data: dataResult.map((row: any) => this.mapToEntity(row)),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages
+      }
+    };
+  }
+
+  /**
+   * Keyset pagination: read the rows on one side of the cursor's boundary
+   * row (sort value, then id), without OFFSET or COUNT. A cursor keeps the
+   * sort it was issued with.
+   */
+  private async findKeysetPage(query: QueryBuilder, options: ListOptions): Promise<PaginatedResponse<T>> {
+    const { limit = 10 } = options;
+    const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+    const sort = this.resolveSort(cursor ?? options);
+    const backwards = cursor?.direction === 'prev';
+    const ascending = (sort.order === 'asc') !== backwards;
+    const direction = ascending ? 'ASC' : 'DESC';
+
+    if (cursor) {
+      query.where(`(${sort.expression}, id) ${ascending ? '>' : '<'} (?, ?)`, [cursor.value, cursor.id]);
+    }
+    const { where, params } = query.build();
+
+    // One extra row tells whether there is a page beyond this one
+    const rows = await this.db.all(
+      `SELECT *, ${sort.expression} AS cursor_value FROM ${this.tableName} ${where} ` +
+      `ORDER BY ${sort.expression} ${direction}, id ${direction} LIMIT ?`,
+      [...params, limit + 1]
+    );
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    if (backwards) {
+      pageRows.reverse();
+    }
+
+    const toCursor = (row: any, side: Cursor['direction']): string =>
+      encodeCursor({ sortBy: sort.key, sortOrder: sort.order, value: row.cursor_value, id: row.id, direction: side });
+    const first = pageRows[0];
+    const last = pageRows[pageRows.length - 1];
+    const hasNext = backwards ? cursor !== null : hasMore;
+    const hasPrev = backwards ? hasMore : cursor !== null;
+
+    return {
+      data: pageRows.map((row: any) => this.mapToEntity(row)),
+      pagination: {
+        limit,
+        nextCursor: last && hasNext ? toCursor(last, 'next') : null,
+        prevCursor: first && hasPrev ? toCursor(first, 'prev') : null
+      }
+    };
+  }
+
+  /**
+   * Sort key, SQL expression and order for the caller's options. Rows are
+   * also ordered by id so ties keep a stable order across pages.
+   * @throws {ValidationError} If the sort key is not one the repository accepts
+   */
+  protected resolveSort(options: SortOptions): { key: string; expression: string; order: SortOrder } {
+    const key = options.sortBy ?? this.sort.defaultKey;
+    const expression = this.sort.keys[key];
+    if (!expression) {
+      throw new ValidationError(`sortBy must be one of: ${Object.keys(this.sort.keys).join(', ')}`, 'INVALID_SORT');
+    }
+
+    return { key, expression, order: options.sortOrder ?? this.sort.defaultOrder };
+  }
+
   /**
    * Map database row to entity
    */
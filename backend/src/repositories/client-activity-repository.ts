@@ -0,0 +1,49 @@
+import { BaseRepository } from './base.js';
+import { AuditEntityType } from '../types/index.js';
+import { ClientActivity } from '../models/client-activity.js';
+
+/**
+ * Client activity repository for database operations
+ */
+export class ClientActivityRepository extends BaseRepository<ClientActivity> {
+  protected override auditEntity = AuditEntityType.CLIENT_ACTIVITY;
+  constructor(db: any) {
+    super(db, 'client_activities', [
+      'id', 'client_id', 'type', 'occurred_at', 'notes', 'recorded_by', 'created_at'
+    ]);
+  }
+
+  /**
+   * Find a client's activity history, most recent first
+   */
+  async findByClientId(clientId: string): Promise<ClientActivity[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE client_id = ? ORDER BY occurred_at DESC, created_at DESC`;
+    const result = await this.db.all(query, [clientId]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Map database row to ClientActivity entity
+   */
+  protected mapToEntity(row: any): ClientActivity {
+    return ClientActivity.fromDatabase(row);
+  }
+
+  /**
+   * Map ClientActivity entity to database format
+   */
+  protected mapToDatabase(entity: ClientActivity | Partial<ClientActivity>): Record<string, any> {
+    if (entity instanceof ClientActivity) {
+      return entity.toDatabase();
+    }
+
+    // Handle partial updates
+    const data: Record<string, any> = {};
+
+    if ('type' in entity) data['type'] = entity.type;
+    if ('occurredAt' in entity) data['occurred_at'] = entity.occurredAt?.toISOString();
+    if ('notes' in entity) data['notes'] = entity.notes;
+
+    return data;
+  }
+}
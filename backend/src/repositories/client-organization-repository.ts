@@ -0,0 +1,93 @@
+import { BaseRepository, DEFAULT_SORT } from './base.js';
+import { ListOptions, PaginatedResponse, AuditEntityType } from '../types/index.js';
+import { ClientOrganization } from '../models/client-organization.js';
+import { ClientOrganizationFilters } from '../types/client-organization.js';
+
+/**
+ * Client organisation repository for database operations
+ */
+export class ClientOrganizationRepository extends BaseRepository<ClientOrganization> {
+  protected override auditEntity = AuditEntityType.CLIENT_ORGANIZATION;
+  constructor(db: any) {
+    super(db, 'client_organizations', [
+      'id', 'name', 'account_ids', 'created_at', 'updated_at'
+    ], {
+      keys: { ...DEFAULT_SORT.keys, name: 'name COLLATE NOCASE' },
+      defaultKey: 'name',
+      defaultOrder: 'asc'
+    });
+  }
+
+  /**
+   * Find client organisations with filters, by name
+   */
+  async findWithFilters(filters: ClientOrganizationFilters, options?: ListOptions): Promise<PaginatedResponse<ClientOrganization>> {
+    const query = this.query()
+      .matches('client_organizations_fts', filters.search)
+      .between('created_at', filters.createdAt);
+
+    return this.findPage(query, options);
+  }
+
+  /**
+   * Find every client organisation, by name
+   */
+  async findAllByName(): Promise<ClientOrganization[]> {
+    const query = `SELECT * FROM ${this.tableName} ORDER BY name COLLATE NOCASE ASC`;
+    const result = await this.db.all(query);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find the organisation a client belongs to: same name (case-insensitive)
+   * first, otherwise any organisation sharing one of the account IDs
+   */
+  async findMatching(name: string, accountIds: string[]): Promise<ClientOrganization | null> {
+    const byName = await this.db.get(
+      `SELECT * FROM ${this.tableName} WHERE name = ? COLLATE NOCASE`,
+      [name.trim()]
+    );
+    if (byName) {
+      return this.mapToEntity(byName);
+    }
+
+    if (accountIds.length === 0) {
+      return null;
+    }
+
+    const placeholders = accountIds.map(() => '?').join(', ');
+    const query = `
+      SELECT o.* FROM ${this.tableName} o
+      WHERE EXISTS (SELECT 1 FROM json_each(o.account_ids) a WHERE a.value IN (${placeholders}))
+      ORDER BY o.created_at ASC
+      LIMIT 1
+    `;
+    const byAccount = await this.db.get(query, accountIds);
+    return byAccount ? this.mapToEntity(byAccount) : null;
+  }
+
+  /**
+   * Map database row to ClientOrganization entity
+   */
+  protected mapToEntity(row: any): ClientOrganization {
+    return ClientOrganization.fromDatabase(row);
+  }
+
+  /**
+   * Map ClientOrganization entity to database format
+   */
+  protected mapToDatabase(entity: ClientOrganization | Partial<ClientOrganization>): Record<string, any> {
+    if (entity instanceof ClientOrganization) {
+      return entity.toDatabase();
+    }
+
+    // Handle partial updates
+    const data: Record<string, any> = {};
+
+    if ('name' in entity) data['name'] = entity.name;
+    if ('accountIds' in entity) data['account_ids'] = JSON.stringify(entity.accountIds || []);
+    if ('updatedAt' in entity) data['updated_at'] = entity.updatedAt?.toISOString();
+
+    return data;
+  }
+}
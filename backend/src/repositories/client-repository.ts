@@ -0,0 +1,104 @@
+import { BaseRepository } from './base.js';
+import { AuditEntityType, ClientActivityType } from '../types/index.js';
+import { Client } from '../models/client.js';
+
+/**
+ * Client repository for database operations
+ */
+export class ClientRepository extends BaseRepository<Client> {
+  protected override auditEntity = AuditEntityType.CLIENT;
+  constructor(db: any) {
+    super(db, 'clients', [
+      'id', 'program_id', 'organization_id', 'enrollment_request_id', 'account_ids', 'is_active',
+      'enrolled_at', 'waitlisted_at', 'updated_at'
+    ]);
+  }
+
+  /**
+   * Find clients enrolled in a program
+   */
+  async findByProgramId(programId: string): Promise<Client[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE program_id = ? ORDER BY enrolled_at ASC`;
+    const result = await this.db.all(query, [programId]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Count the clients holding a seat in a program: enrolled and active
+   */
+  async countSeated(programId: string): Promise<number> {
+    const query = `SELECT COUNT(*) as count FROM ${this.tableName} WHERE program_id = ? AND waitlisted_at IS NULL AND is_active = 1`;
+    const result = await this.db.get(query, [programId]);
+    return result.count;
+  }
+
+  /**
+   * Find the clients waiting for a seat in a program, first come first
+   */
+  async findWaitlist(programId: string): Promise<Client[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE program_id = ? AND waitlisted_at IS NOT NULL ORDER BY waitlisted_at ASC, rowid ASC`;
+    const result = await this.db.all(query, [programId]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find the clients holding a seat without any signal (enrollment or
+   * activity other than going silent) since a date
+   */
+  async findSeatedUnheardSince(since: Date): Promise<Client[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE waitlisted_at IS NULL AND is_active = 1
+      AND julianday(enrolled_at) < julianday(?)
+      AND NOT EXISTS (
+        SELECT 1 FROM client_activities WHERE client_activities.client_id = ${this.tableName}.id
+          AND type <> ? AND julianday(occurred_at) >= julianday(?)
+      ) ORDER BY enrolled_at ASC`;
+    const result = await this.db.all(query, [since.toISOString(), ClientActivityType.WENT_SILENT, since.toISOString()]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find the enrollments of a client organisation, oldest first
+   */
+  async findByOrganizationId(organizationId: string): Promise<Client[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE organization_id = ? ORDER BY enrolled_at ASC`;
+    const result = await this.db.all(query, [organizationId]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find the client created from an enrollment request
+   */
+  async findByEnrollmentRequestId(enrollmentRequestId: string): Promise<Client | null> {
+    const query = `SELECT * FROM ${this.tableName} WHERE enrollment_request_id = ?`;
+    const result = await this.db.get(query, [enrollmentRequestId]);
+    return result ? this.mapToEntity(result) : null;
+  }
+
+  /**
+   * Map database row to Client entity
+   */
+  protected mapToEntity(row: any): Client {
+    return Client.fromDatabase(row);
+  }
+
+  /**
+   * Map Client entity to database format
+   */
+  protected mapToDatabase(entity: Client | Partial<Client>): Record<string, any> {
+    if (entity instanceof Client) {
+      return entity.toDatabase();
+    }
+
+    // Handle partial updates
+    const data: Record<string, any> = {};
+
+    if ('organizationId' in entity) data['organization_id'] = entity.organizationId;
+    if ('accountIds' in entity) data['account_ids'] = JSON.stringify(entity.accountIds || []);
+    if ('isActive' in entity) data['is_active'] = entity.isActive ? 1 : 0;
+    if ('enrolledAt' in entity) data['enrolled_at'] = entity.enrolledAt?.toISOString();
+    if ('waitlistedAt' in entity) data['waitlisted_at'] = entity.waitlistedAt?.toISOString();
+    if ('updatedAt' in entity) data['updated_at'] = entity.updatedAt?.toISOString();
+
+    return data;
+  }
+}
@@ -0,0 +1,76 @@
+import { BaseRepository } from './base.js';
+import { ContactUser } from '../models/contact-user.js';
+
+/**
+ * Contact user repository, including the enrollment request and client links
+ */
+export class ContactUserRepository extends BaseRepository<ContactUser> {
+  constructor(db: any) {
+    super(db, 'contact_users', [
+      'id', 'first_name', 'last_name', 'email', 'created_at'
+    ]);
+  }
+
+  /**
+   * Find contacts attached to an enrollment request
+   */
+  async findByEnrollmentRequestId(enrollmentRequestId: string): Promise<ContactUser[]> {
+    const query = `SELECT c.* FROM ${this.tableName} c
+      INNER JOIN enrollment_request_contact_users l ON l.contact_user_id = c.id
+      WHERE l.enrollment_request_id = ? ORDER BY c.last_name, c.first_name`;
+    const result = await this.db.all(query, [enrollmentRequestId]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find contacts attached to an enrolled client
+   */
+  async findByClientId(clientId: string): Promise<ContactUser[]> {
+    const query = `SELECT c.* FROM ${this.tableName} c
+      INNER JOIN client_contact_users l ON l.contact_user_id = c.id
+      WHERE l.client_id = ? ORDER BY c.last_name, c.first_name`;
+    const result = await this.db.all(query, [clientId]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Attach a contact to an enrollment request
+   */
+  async linkToEnrollmentRequest(enrollmentRequestId: string, contactUserId: string): Promise<void> {
+    const query = 'INSERT OR IGNORE INTO enrollment_request_contact_users (enrollment_request_id, contact_user_id) VALUES (?, ?)';
+    await this.db.run(query, [enrollmentRequestId, contactUserId]);
+  }
+
+  /**
+   * Attach a contact to an enrolled client
+   */
+  async linkToClient(clientId: string, contactUserId: string): Promise<void> {
+    const query = 'INSERT OR IGNORE INTO client_contact_users (client_id, contact_user_id) VALUES (?, ?)';
+    await this.db.run(query, [clientId, contactUserId]);
+  }
+
+  /**
+   * Map database row to ContactUser entity
+   */
+  protected mapToEntity(row: any): ContactUser {
+    return ContactUser.fromDatabase(row);
+  }
+
+  /**
+   * Map ContactUser entity to database format
+   */
+  protected mapToDatabase(entity: ContactUser | Partial<ContactUser>): Record<string, any> {
+    if (entity instanceof ContactUser) {
+      return entity.toDatabase();
+    }
+
+    // Handle partial updates
+    const data: Record<string, any> = {};
+
+    if ('firstName' in entity) data['first_name'] = entity.firstName;
+    if ('lastName' in entity) data['last_name'] = entity.lastName;
+    if ('email' in entity) data['email'] = entity.email;
+
+    return data;
+  }
+}
@@ -0,0 +1,122 @@
+import { BaseRepository, DEFAULT_SORT, Reference } from './base.js';
+import { ListOptions, PaginatedResponse, AuditEntityType } from '../types/index.js';
+import { EnrollmentRequest } from '../models/enrollment-request.js';
+import { EnrollmentRequestFilters, EnrollmentRequestStatus } from '../types/enrollment.js';
+
+/**
+ * Enrollment request repository for database operations
+ */
+export class EnrollmentRequestRepository extends BaseRepository<EnrollmentRequest> {
+  protected override auditEntity = AuditEntityType.ENROLLMENT_REQUEST;
+  protected override references: Reference[] = [
+    { table: 'clients', column: 'enrollment_request_id' },
+  ];
+
+  constructor(db: any) {
+    super(db, 'enrollment_requests', [
+      'id', 'program_id', 'client_name', 'account_ids', 'motivation', 'status', 'requested_by',
+      'created_at', 'updated_at', 'version', 'reviewed_by', 'reviewed_at', 'rejection_reason', 'deleted_at', 'reminded_at'
+    ], {
+      keys: {
+        ...DEFAULT_SORT.keys,
+        clientName: 'client_name COLLATE NOCASE',
+        reviewedAt: "IFNULL(reviewed_at, '')",
+        status: 'status'
+      },
+      defaultKey: 'createdAt',
+      defaultOrder: 'desc'
+    });
+  }
+
+  /**
+   * Find enrollment requests with filters
+   */
+  async findWithFilters(filters: EnrollmentRequestFilters, options?: ListOptions): Promise<PaginatedResponse<EnrollmentRequest>> {
+    const query = this.query()
+      .equals('status', filters.status)
+      .equals('program_id', filters.programId)
+      .equals('requested_by', filters.requestedBy)
+      .contains(['client_name'], filters.search)
+      .between('created_at', filters.createdAt)
+      .between('reviewed_at', filters.reviewedAt);
+
+    return this.findPage(query, options);
+  }
+
+  /**
+   * Find pending enrollment requests, oldest first
+   */
+  async findPendingRequests(): Promise<EnrollmentRequest[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live('status = ?')} ORDER BY created_at ASC`;
+    const result = await this.db.all(query, [EnrollmentRequestStatus.PENDING]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find pending requests filed before a date whose reviewers were not yet
+   * reminded of them, oldest first
+   */
+  async findAwaitingReminder(filedBefore: Date): Promise<EnrollmentRequest[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live(
+      'status = ? AND reminded_at IS NULL AND julianday(created_at) <= julianday(?)'
+    )} ORDER BY created_at ASC`;
+    const result = await this.db.all(query, [EnrollmentRequestStatus.PENDING, filedBefore.toISOString()]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Record that the reviewers were reminded of a request. Not a change of
+   * the request itself: neither versioned nor audited.
+   */
+  async markReminded(id: string, now: Date = new Date()): Promise<void> {
+    await this.db.run(`UPDATE ${this.tableName} SET reminded_at = ? WHERE id = ?`, [now.toISOString(), id]);
+  }
+
+  /**
+   * Find enrollment requests of a program
+   */
+  async findByProgramId(programId: string): Promise<EnrollmentRequest[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live('program_id = ?')} ORDER BY created_at DESC`;
+    const result = await this.db.all(query, [programId]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Check if a client already has a pending request for a program
+   */
+  async hasPendingRequest(programId: string, clientName: string): Promise<boolean> {
+    const query = `SELECT COUNT(*) as count FROM ${this.tableName} WHERE ${this.live('program_id = ? AND client_name = ? AND status = ?')}`;
+    const result = await this.db.get(query, [programId, clientName, EnrollmentRequestStatus.PENDING]);
+    return result.count > 0;
+  }
+
+  /**
+   * Map database row to EnrollmentRequest entity
+   */
+  protected mapToEntity(row: any): EnrollmentRequest {
+    return EnrollmentRequest.fromDatabase(row);
+  }
+
+  /**
+   * Map EnrollmentRequest entity to database format
+   */
+  protected mapToDatabase(entity: EnrollmentRequest | Partial<EnrollmentRequest>): Record<string, any> {
+    if (entity instanceof EnrollmentRequest) {
+      return entity.toDatabase();
+    }
+
+    // Handle partial updates
+    const data: Record<string, any> = {};
+
+    if ('clientName' in entity) data['client_name'] = entity.clientName;
+    if ('accountIds' in entity) data['account_ids'] = JSON.stringify(entity.accountIds || []);
+    if ('motivation' in entity) data['motivation'] = entity.motivation;
+    if ('status' in entity) data['status'] = entity.status;
+    if ('reviewedBy' in entity) data['reviewed_by'] = entity.reviewedBy;
+    if ('reviewedAt' in entity) data['reviewed_at'] = entity.reviewedAt?.toISOString();
+    if ('rejectionReason' in entity) data['rejection_reason'] = entity.rejectionReason;
+    if ('updatedAt' in entity) data['updated_at'] = entity.updatedAt?.toISOString();
+
+    return data;
+  }
+}
@@ -3,4 +3,18 @@ export * from './base.js';
 
 // Export specific repositories
 export * from './user-repository.js';
-export * from './registration-request-repository.js'; 
\ No newline at end of file
+export * from './registration-request-repository.js'; 
+export * from './session-repository.js';
+export * from './program-repository.js';
+export * from './enrollment-request-repository.js';
+export * from './contact-user-repository.js';
+export * from './client-repository.js';
+export * from './client-activity-repository.js';
+export * from './client-organization-repository.js';
+export * from './audit-event-repository.js';
+export * from './outbox-message-repository.js';
+export * from './notification-repository.js';
+export * from './webhook-repository.js';
+export * from './webhook-delivery-repository.js';
+export * from './scheduled-job-repository.js';
+export * from './job-run-repository.js';
@@ -0,0 +1,72 @@
+import { BaseRepository } from './base.js';
+import { JobRun } from '../models/job-run.js';
+import { ListOptions, PaginatedResponse } from '../types/index.js';
+import { JobRunFilters, JobRunStatus } from '../types/scheduler.js';
+
+/**
+ * Job run repository backed by the job_runs table
+ */
+export class JobRunRepository extends BaseRepository<JobRun> {
+  constructor(db: any) {
+    super(db, 'job_runs', ['id', 'job_name', 'status', 'processed', 'failed', 'error', 'started_at', 'finished_at'], {
+      // Runs are only ever appended: rowid orders them without the ties of
+      // runs started within the same millisecond
+      keys: { startedAt: 'rowid' },
+      defaultKey: 'startedAt',
+      defaultOrder: 'desc'
+    });
+  }
+
+  /**
+   * Find job runs with filters, newest first
+   */
+  async findWithFilters(filters: JobRunFilters, options?: ListOptions): Promise<PaginatedResponse<JobRun>> {
+    const query = this.query()
+      .equals('job_name', filters.jobName)
+      .equals('status', filters.status);
+
+    return this.findPage(query, options);
+  }
+
+  /**
+   * Mark the runs a stopped process left running as failed
+   * @returns The number of runs marked
+   */
+  async failInterrupted(now: Date = new Date()): Promise<number> {
+    const query = `UPDATE ${this.tableName} SET status = ?, error = ?, finished_at = ? WHERE status = ?`;
+    const result = await this.db.run(query, [
+      JobRunStatus.FAILED,
+      'Interrupted by a restart',
+      now.toISOString(),
+      JobRunStatus.RUNNING,
+    ]);
+    return result.changes;
+  }
+
+  /**
+   * Map database row to JobRun entity
+   */
+  protected mapToEntity(row: any): JobRun {
+    return JobRun.fromDatabase(row);
+  }
+
+  /**
+   * Map JobRun entity to database format
+   */
+  protected mapToDatabase(entity: JobRun | Partial<JobRun>): Record<string, any> {
+    if (entity instanceof JobRun) {
+      return entity.toDatabase();
+    }
+
+    // Handle partial updates
+    const data: Record<string, any> = {};
+
+    if ('status' in entity) data['status'] = entity.status;
+    if ('processed' in entity) data['processed'] = entity.processed ?? null;
+    if ('failed' in entity) data['failed'] = entity.failed ?? null;
+    if ('error' in entity) data['error'] = entity.error ?? null;
+    if ('finishedAt' in entity) data['finished_at'] = entity.finishedAt?.toISOString() ?? null;
+
+    return data;
+  }
+}
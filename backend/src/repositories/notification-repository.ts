@@ -0,0 +1,90 @@
+import { BaseRepository } from './base.js';
+import { Notification } from '../models/notification.js';
+import { ListOptions, PaginatedResponse } from '../types/index.js';
+import { NotificationFilters, NotificationType } from '../types/notification.js';
+
+/**
+ * In-app notification repository backed by the notifications table
+ */
+export class NotificationRepository extends BaseRepository<Notification> {
+  constructor(db: any) {
+    super(db, 'notifications', [
+      'id', 'recipient_id', 'type', 'entity_id', 'message', 'read_at', 'created_at'
+    ], {
+      // Notifications are only ever appended: rowid orders them without the
+      // ties of notifications created within the same millisecond
+      keys: { createdAt: 'rowid' },
+      defaultKey: 'createdAt',
+      defaultOrder: 'desc'
+    });
+  }
+
+  /**
+   * Find the notifications of a recipient, newest first
+   */
+  async findByRecipient(
+    recipientId: string,
+    filters: NotificationFilters,
+    options?: ListOptions
+  ): Promise<PaginatedResponse<Notification>> {
+    const query = this.query()
+      .equals('recipient_id', recipientId)
+      .equals('type', filters.type);
+    if (filters.unread !== undefined) {
+      query.where(filters.unread ? 'read_at IS NULL' : 'read_at IS NOT NULL');
+    }
+
+    return this.findPage(query, options);
+  }
+
+  /**
+   * Count the unread notifications of a recipient
+   */
+  async countUnread(recipientId: string): Promise<number> {
+    const query = `SELECT COUNT(*) as count FROM ${this.tableName} WHERE recipient_id = ? AND read_at IS NULL`;
+    const result = await this.db.get(query, [recipientId]);
+    return result.count;
+  }
+
+  /**
+   * Mark every unread notification of a recipient read
+   * @returns The number of notifications marked
+   */
+  async markAllRead(recipientId: string, now: Date = new Date()): Promise<number> {
+    const query = `UPDATE ${this.tableName} SET read_at = ? WHERE recipient_id = ? AND read_at IS NULL`;
+    const result = await this.db.run(query, [now.toISOString(), recipientId]);
+    return result.changes;
+  }
+
+  /**
+   * Check whether a recipient was already notified about an entity
+   */
+  async hasNotification(recipientId: string, type: NotificationType, entityId: string): Promise<boolean> {
+    const query = `SELECT COUNT(*) as count FROM ${this.tableName} WHERE recipient_id = ? AND type = ? AND entity_id = ?`;
+    const result = await this.db.get(query, [recipientId, type, entityId]);
+    return result.count > 0;
+  }
+
+  /**
+   * Map database row to Notification entity
+   */
+  protected mapToEntity(row: any): Notification {
+    return Notification.fromDatabase(row);
+  }
+
+  /**
+   * Map Notification entity to database format
+   */
+  protected mapToDatabase(entity: Notification | Partial<Notification>): Record<string, any> {
+    if (entity instanceof Notification) {
+      return entity.toDatabase();
+    }
+
+    // Handle partial updates
+    const data: Record<string, any> = {};
+
+    if ('readAt' in entity) data['read_at'] = entity.readAt?.toISOString() ?? null;
+
+    return data;
+  }
+}
@@ -0,0 +1,61 @@
+import { BaseRepository } from './base.js';
+import { OutboxMessage } from '../models/outbox-message.js';
+import { OutboxStatus } from '../types/notification.js';
+
+/**
+ * Outbox message repository backed by the notification_outbox table
+ */
+export class OutboxMessageRepository extends BaseRepository<OutboxMessage> {
+  constructor(db: any) {
+    super(db, 'notification_outbox', [
+      'id', 'event_id', 'event_type', 'recipient', 'subject', 'body', 'status', 'attempts',
+      'last_error', 'next_attempt_at', 'sent_at', 'created_at', 'updated_at'
+    ]);
+  }
+
+  /**
+   * Find pending messages whose next attempt is due, oldest first
+   */
+  async findDue(now: Date = new Date(), limit: number = 50): Promise<OutboxMessage[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE status = ? AND next_attempt_at <= ? ORDER BY next_attempt_at, rowid LIMIT ?`;
+    const result = await this.db.all(query, [OutboxStatus.PENDING, now.toISOString(), limit]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find the messages queued for an event
+   */
+  async findByEventId(eventId: string): Promise<OutboxMessage[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE event_id = ? ORDER BY rowid`;
+    const result = await this.db.all(query, [eventId]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Map database row to OutboxMessage entity
+   */
+  protected mapToEntity(row: any): OutboxMessage {
+    return OutboxMessage.fromDatabase(row);
+  }
+
+  /**
+   * Map OutboxMessage entity to database format
+   */
+  protected mapToDatabase(entity: OutboxMessage | Partial<OutboxMessage>): Record<string, any> {
+    if (entity instanceof OutboxMessage) {
+      return entity.toDatabase();
+    }
+
+    // Handle partial updates
+    const data: Record<string, any> = {};
+
+    if ('status' in entity) data['status'] = entity.status;
+    if ('attempts' in entity) data['attempts'] = entity.attempts;
+    if ('lastError' in entity) data['last_error'] = entity.lastError ?? null;
+    if ('nextAttemptAt' in entity) data['next_attempt_at'] = entity.nextAttemptAt?.toISOString();
+    if ('sentAt' in entity) data['sent_at'] = entity.sentAt?.toISOString() ?? null;
+    if ('updatedAt' in entity) data['updated_at'] = entity.updatedAt?.toISOString();
+
+    return data;
+  }
+}
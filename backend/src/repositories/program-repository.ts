@@ -0,0 +1,141 @@
+import { BaseRepository, DEFAULT_SORT, Reference } from './base.js';
+import { ListOptions, PaginatedResponse, AuditEntityType } from '../types/index.js';
+import { Program } from '../models/program.js';
+import { ProgramFilters, ProgramStatus } from '../types/program.js';
+
+/**
+ * Program repository for database operations
+ */
+export class ProgramRepository extends BaseRepository<Program> {
+  protected override auditEntity = AuditEntityType.PROGRAM;
+  protected override references: Reference[] = [
+    { table: 'enrollment_requests', column: 'program_id' },
+    { table: 'clients', column: 'program_id' },
+  ];
+
+  constructor(db: any) {
+    super(db, 'programs', [
+      'id', 'title', 'description', 'creator_id', 'stakeholders', 'start_date', 'end_date',
+      'max_clients', 'status', 'status_changed_at', 'created_at', 'updated_at', 'version', 'deleted_at'
+    ], {
+      keys: {
+        ...DEFAULT_SORT.keys,
+        title: 'title COLLATE NOCASE',
+        startDate: "IFNULL(start_date, '')",
+        endDate: "IFNULL(end_date, '')",
+        status: 'status'
+      },
+      defaultKey: 'createdAt',
+      defaultOrder: 'desc'
+    });
+  }
+
+  /**
+   * Find programs with filters
+   */
+  async findWithFilters(filters: ProgramFilters, options?: ListOptions): Promise<PaginatedResponse<Program>> {
+    const query = this.query()
+      .equals('status', filters.status)
+      .equals('creator_id', filters.creatorId)
+      .matches('programs_fts', filters.search)
+      .between('created_at', filters.createdAt)
+      .between('start_date', filters.startDate)
+      .between('end_date', filters.endDate);
+
+    return this.findPage(query, options);
+  }
+
+  /**
+   * Find programs by status
+   */
+  async findByStatus(status: ProgramStatus): Promise<Program[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live('status = ?')} ORDER BY start_date ASC`;
+    const result = await this.db.all(query, [status]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find live programs whose end date falls within a range, soonest first
+   */
+  async findLiveEndingBetween(from: Date, to: Date): Promise<Program[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live(
+      'status = ? AND julianday(end_date) > julianday(?) AND julianday(end_date) <= julianday(?)'
+    )} ORDER BY end_date ASC`;
+    const result = await this.db.all(query, [ProgramStatus.LIVE, from.toISOString(), to.toISOString()]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find pending programs whose start date has come, by start date
+   */
+  async findPendingStartedBy(now: Date): Promise<Program[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live(
+      'status = ? AND julianday(start_date) <= julianday(?)'
+    )} ORDER BY start_date ASC`;
+    const result = await this.db.all(query, [ProgramStatus.PENDING, now.toISOString()]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find live programs whose end date has come, by end date
+   */
+  async findLiveEndedBy(now: Date): Promise<Program[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live(
+      'status = ? AND julianday(end_date) <= julianday(?)'
+    )} ORDER BY end_date ASC`;
+    const result = await this.db.all(query, [ProgramStatus.LIVE, now.toISOString()]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find programs stopped since a date at the latest, whatever was edited since
+   */
+  async findStoppedSince(before: Date): Promise<Program[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live(
+      'status = ? AND julianday(status_changed_at) <= julianday(?)'
+    )} ORDER BY status_changed_at ASC`;
+    const result = await this.db.all(query, [ProgramStatus.STOPPED, before.toISOString()]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find programs created by a user
+   */
+  async findByCreator(creatorId: string): Promise<Program[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live('creator_id = ?')} ORDER BY created_at DESC`;
+    const result = await this.db.all(query, [creatorId]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Map database row to Program entity
+   */
+  protected mapToEntity(row: any): Program {
+    return Program.fromDatabase(row);
+  }
+
+  /**
+   * Map Program entity to database format
+   */
+  protected mapToDatabase(entity: Program | Partial<Program>): Record<string, any> {
+    if (entity instanceof Program) {
+      return entity.toDatabase();
+    }
+
+    // Handle partial updates
+    const data: Record<string, any> = {};
+
+    if ('title' in entity) data['title'] = entity.title;
+    if ('description' in entity) data['description'] = entity.description;
+    if ('creatorId' in entity) data['creator_id'] = entity.creatorId;
+    if ('stakeholders' in entity) data['stakeholders'] = JSON.stringify(entity.stakeholders || []);
+    if ('startDate' in entity) data['start_date'] = entity.startDate?.toISOString();
+    if ('endDate' in entity) data['end_date'] = entity.endDate?.toISOString();
+    if ('maxClients' in entity) data['max_clients'] = entity.maxClients;
+    if ('status' in entity) data['status'] = entity.status;
+    if ('statusChangedAt' in entity) data['status_changed_at'] = entity.statusChangedAt?.toISOString();
+    if ('updatedAt' in entity) data['updated_at'] = entity.updatedAt?.toISOString();
+
+    return data;
+  }
+}
@@ -1,4 +1,5 @@
-import { BaseRepository } from './base.js';
+import { BaseRepository, DEFAULT_SORT } from './base.js';
+import { ListOptions, PaginatedResponse, AuditEntityType } from '../types/index.js';
 import { RegistrationRequest } from '../models/registration-request.js';
 import { RegistrationRequestFilters, RegistrationRequestStatus } from '../types/user.js';
 
@@ -6,8 +7,21 @@ import { RegistrationRequestFilters, RegistrationRequestStatus } from '../types/
  * Registration request repository for database operations
  */
 export class RegistrationRequestRepository extends BaseRepository<RegistrationRequest> {
+  protected override auditEntity = AuditEntityType.REGISTRATION_REQUEST;
   constructor(db: any) {
-    super(db, 'registration_requests');
+    super(db, 'registration_requests', [
+      'id', 'email', 'first_name', 'last_name', 'requested_role', 'status', 'created_at',
+      'updated_at', 'version', 'approved_by', 'approved_at', 'rejection_reason'
+    ], {
+      keys: {
+        ...DEFAULT_SORT.keys,
+        email: 'email COLLATE NOCASE',
+        lastName: 'last_name COLLATE NOCASE',
+        status: 'status'
+      },
+      defaultKey: 'createdAt',
+      defaultOrder: 'desc'
+    });
   }
 
   /**
@@ -22,56 +36,15 @@ export class RegistrationRequestRepository extends BaseRepository<RegistrationRe
   /**
    * Find registration requests with filters
    */
-  async findWithFilters(filters: RegistrationRequestFilters, options?: { page?: number; limit?: number }): Promise<{ data: RegistrationRequest[]; pagination: { page: number; limit: number; total: number; pages: number } }> {
-    const { page = 1, limit = 10 } = options || {};
-    const offset = (page - 1) * limit;
-
-    let whereConditions: string[] = [];
-    let params: any[] = [];
-
-    if (filters.status) {
-      whereConditions.push('status = ?');
-      params.push(filters.status);
-    }
-
-    if (filters.requestedRole) {
-      whereConditions.push('requested_role = ?');
-      params.push(filters.requestedRole);
-    }
-
-    if (filters.email) {
-      whereConditions.push('email LIKE ?');
-      params.push(`%${filters.email}%`);
-    }
-
-    if (filters.search) {
-      whereConditions.push('(first_name LIKE ? OR last_name LIKE ? OR email LIKE ?)');
-      const searchTerm = `%${filters.search}%`;
-      params.push(searchTerm, searchTerm, searchTerm);
-    }
-
-    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
-
-    const countQuery = `SELECT COUNT(*) as total FROM ${this.tableName} ${whereClause}`;
-    const dataQuery = `SELECT * FROM ${this.tableName} ${whereClause} ORDER BY created_at DESC LIMIT ? OFFSET ?`;
-
-    const [countResult, dataResult] = await Promise.all([
-      this.db.get(countQuery, params),
-      this.db.all(dataQuery, [...params, limit, offset])
-    ]);
-
-    const total = countResult.total;
-    const pages = Math.ceil(total / limit);
-
-    return {
-      data: dataResult.map((row: any) => this.mapToEntity(row)),
-      pagination: {
-        page,
-        limit,
-        total,
-        pages
-      }
-    };
+  async findWithFilters(filters: RegistrationRequestFilters, options?: ListOptions): Promise<PaginatedResponse<RegistrationRequest>> {
+    const query = this.query()
+      .equals('status', filters.status)
+      .equals('requested_role', filters.requestedRole)
+      .contains(['email'], filters.email)
+      .contains(['first_name', 'last_name', 'email'], filters.search)
+      .between('created_at', filters.createdAt);
+
+    return this.findPage(query, options);
   }
 
   /**
@@ -0,0 +1,54 @@
+import { BaseRepository } from './base.js';
+import { ScheduledJob } from '../models/scheduled-job.js';
+import { JobName } from '../types/scheduler.js';
+
+/**
+ * Scheduled job repository backed by the scheduled_jobs table
+ */
+export class ScheduledJobRepository extends BaseRepository<ScheduledJob> {
+  constructor(db: any) {
+    super(db, 'scheduled_jobs', ['id', 'name', 'interval_ms', 'last_run_at', 'next_run_at']);
+  }
+
+  /**
+   * Find the schedule of a job
+   */
+  async findByName(name: JobName): Promise<ScheduledJob | null> {
+    const query = `SELECT * FROM ${this.tableName} WHERE name = ?`;
+    const result = await this.db.get(query, [name]);
+    return result ? this.mapToEntity(result) : null;
+  }
+
+  /**
+   * Find every schedule, by job name
+   */
+  async findAllSchedules(): Promise<ScheduledJob[]> {
+    const result = await this.db.all(`SELECT * FROM ${this.tableName} ORDER BY name`);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Map database row to ScheduledJob entity
+   */
+  protected mapToEntity(row: any): ScheduledJob {
+    return ScheduledJob.fromDatabase(row);
+  }
+
+  /**
+   * Map ScheduledJob entity to database format
+   */
+  protected mapToDatabase(entity: ScheduledJob | Partial<ScheduledJob>): Record<string, any> {
+    if (entity instanceof ScheduledJob) {
+      return entity.toDatabase();
+    }
+
+    // Handle partial updates
+    const data: Record<string, any> = {};
+
+    if ('intervalMs' in entity) data['interval_ms'] = entity.intervalMs;
+    if ('lastRunAt' in entity) data['last_run_at'] = entity.lastRunAt?.toISOString() ?? null;
+    if ('nextRunAt' in entity) data['next_run_at'] = entity.nextRunAt?.toISOString();
+
+    return data;
+  }
+}
@@ -0,0 +1,156 @@
+import { Queryable } from '../config/transaction.js';
+import { SearchEntityType, SearchHit } from '../types/index.js';
+import { RepositorySchema } from './base.js';
+
+// Markers FTS5 puts around matched words, swapped for <mark> once escaped
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+/**
+ * Field of a full-text index and how to excerpt it
+ */
+interface IndexedField {
+  name: string; // Field name in the API
+  column: string; // Column of the FTS table
+  snippet?: boolean; // Excerpt around the matches instead of the whole text
+}
+
+/**
+ * Full-text index of one entity type
+ */
+interface SearchIndex {
+  type: SearchEntityType;
+  table: string;
+  columns: string[]; // FTS columns, in order, the id first
+  title: string; // SQL expression for the hit title
+  fields: IndexedField[];
+  weights: number[]; // bm25 weight per FTS column, id included
+}
+
+const PROGRAM_INDEX: SearchIndex = {
+  type: SearchEntityType.PROGRAM,
+  table: 'programs_fts',
+  columns: ['id', 'title', 'description'],
+  title: 'title',
+  fields: [
+    { name: 'title', column: 'title' },
+    { name: 'description', column: 'description', snippet: true },
+  ],
+  weights: [0, 10, 1],
+};
+
+const CLIENT_INDEX: SearchIndex = {
+  type: SearchEntityType.CLIENT,
+  table: 'client_organizations_fts',
+  columns: ['id', 'name', 'account_ids'],
+  title: 'name',
+  fields: [
+    { name: 'name', column: 'name' },
+    { name: 'accountIds', column: 'account_ids' },
+  ],
+  weights: [0, 10, 5],
+};
+
+const USER_INDEX: SearchIndex = {
+  type: SearchEntityType.USER,
+  table: 'users_fts',
+  columns: ['id', 'first_name', 'last_name', 'email'],
+  title: "first_name || ' ' || last_name",
+  fields: [
+    { name: 'firstName', column: 'first_name' },
+    { name: 'lastName', column: 'last_name' },
+    { name: 'email', column: 'email' },
+  ],
+  weights: [0, 5, 5, 3],
+};
+
+const INDEXES = [PROGRAM_INDEX, CLIENT_INDEX, USER_INDEX];
+
+/**
+ * Escape text for HTML, then turn the FTS5 match markers into <mark> tags
+ */
+const toHighlight = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .split(MATCH_START).join('<mark>')
+    .split(MATCH_END).join('</mark>');
+
+/**
+ * Ranked queries over the FTS5 indexes (kept in sync by triggers, see the
+ * search_index migration). Queries must come from toMatchQuery.
+ */
+export class SearchRepository {
+  private db: Queryable;
+
+  constructor(db: Queryable) {
+    this.db = db;
+  }
+
+  /**
+   * FTS tables and columns the queries rely on (for the startup schema check)
+   */
+  getSchemas(): RepositorySchema[] {
+    return INDEXES.map(index => ({ table: index.table, columns: [...index.columns] }));
+  }
+
+  /**
+   * Programs matching in title or description
+   */
+  async searchPrograms(match: string, limit: number): Promise<SearchHit[]> {
+    return this.search(PROGRAM_INDEX, match, limit);
+  }
+
+  /**
+   * Client organisations matching in name or account IDs
+   */
+  async searchClients(match: string, limit: number): Promise<SearchHit[]> {
+    return this.search(CLIENT_INDEX, match, limit);
+  }
+
+  /**
+   * Users matching in names or email
+   */
+  async searchUsers(match: string, limit: number): Promise<SearchHit[]> {
+    return this.search(USER_INDEX, match, limit);
+  }
+
+  private async search(index: SearchIndex, match: string, limit: number): Promise<SearchHit[]> {
+    const excerpts = index.fields.map(field => {
+      // FTS5 auxiliary functions take the column's position
+      const column = index.columns.indexOf(field.column);
+      return field.snippet
+        ? `snippet(${index.table}, ${column}, '${MATCH_START}', '${MATCH_END}', '…', 16) AS ${field.name}`
+        : `highlight(${index.table}, ${column}, '${MATCH_START}', '${MATCH_END}') AS ${field.name}`;
+    });
+    const query = `
+      SELECT id, ${index.title} AS hit_title, ${excerpts.join(', ')}, bm25(${index.table}, ${index.weights.join(', ')}) AS rank
+      FROM ${index.table}
+      WHERE ${index.table} MATCH ?
+      ORDER BY rank
+      LIMIT ?
+    `;
+    const rows = await this.db.all(query, [match, limit]);
+
+    return rows.map((row: any) => {
+      const highlights: Record<string, string> = {};
+      for (const field of index.fields) {
+        const excerpt = row[field.name];
+        if (typeof excerpt === 'string' && excerpt.includes(MATCH_START)) {
+          highlights[field.name] = toHighlight(excerpt);
+        }
+      }
+
+      return {
+        id: row.id,
+        type: index.type,
+        title: row.hit_title,
+        highlights,
+        score: -row.rank,
+      };
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import { BaseRepository } from './base.js';
+import { Session } from '../models/session.js';
+
+/**
+ * Session repository backed by the sessions table
+ */
+export class SessionRepository extends BaseRepository<Session> {
+  constructor(db: any) {
+    super(db, 'sessions', [
+      'id', 'user_id', 'created_at', 'last_seen_at', 'expires_at'
+    ]);
+  }
+
+  /**
+   * Find sessions belonging to a user
+   */
+  async findByUserId(userId: string): Promise<Session[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE user_id = ? ORDER BY created_at DESC`;
+    const result = await this.db.all(query, [userId]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Delete every session belonging to a user
+   */
+  async deleteByUserId(userId: string): Promise<number> {
+    const query = `DELETE FROM ${this.tableName} WHERE user_id = ?`;
+    const result = await this.db.run(query, [userId]);
+    return result.changes;
+  }
+
+  /**
+   * Delete sessions that expired before the given date
+   */
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    const query = `DELETE FROM ${this.tableName} WHERE expires_at <= ?`;
+    const result = await this.db.run(query, [now.toISOString()]);
+    return result.changes;
+  }
+
+  /**
+   * Map database row to Session entity
+   */
+  protected mapToEntity(row: any): Session {
+    return Session.fromDatabase(row);
+  }
+
+  /**
+   * Map Session entity to database format
+   */
+  protected mapToDatabase(entity: Session | Partial<Session>): Record<string, any> {
+    if (entity instanceof Session) {
+      return entity.toDatabase();
+    }
+
+    // Handle partial updates
+    const data: Record<string, any> = {};
+
+    if ('lastSeenAt' in entity) data['last_seen_at'] = entity.lastSeenAt?.toISOString();
+    if ('expiresAt' in entity) data['expires_at'] = entity.expiresAt?.toISOString();
+
+    return data;
+  }
+}
@@ -1,20 +1,43 @@
-import { BaseRepository } from './base.js';
+import { BaseRepository, DEFAULT_SORT, Reference } from './base.js';
+import { ListOptions, PaginatedResponse, AuditEntityType } from '../types/index.js';
 import { User } from '../models/user.js';
-import { UserFilters } from '../types/user.js';
+import { UserFilters, UserStatus } from '../types/user.js';
 
 /**
  * User repository for database operations
  */
 export class UserRepository extends BaseRepository<User> {
+  protected override auditEntity = AuditEntityType.USER;
+  protected override references: Reference[] = [
+    { table: 'programs', column: 'creator_id' },
+    { table: 'enrollment_requests', column: 'requested_by' },
+    { table: 'enrollment_requests', column: 'reviewed_by' },
+    { table: 'client_activities', column: 'recorded_by' },
+    { table: 'registration_requests', column: 'approved_by' },
+  ];
+
   constructor(db: any) {
-    super(db, 'users');
+    super(db, 'users', [
+      'id', 'email', 'first_name', 'last_name', 'role', 'status', 'created_at', 'updated_at', 'version', 'deleted_at'
+    ], {
+      keys: {
+        ...DEFAULT_SORT.keys,
+        email: 'email COLLATE NOCASE',
+        firstName: 'first_name COLLATE NOCASE',
+        lastName: 'last_name COLLATE NOCASE',
+        role: 'role',
+        status: 'status'
+      },
+      defaultKey: 'createdAt',
+      defaultOrder: 'desc'
+    });
   }
 
   /**
    * Find user by email
    */
   async findByEmail(email: string): Promise<User | null> {
-    const query = `SELECT * FROM ${this.tableName} WHERE email = ?`;
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live('email = ?')}`;
     const result = await this.db.get(query, [email]);
     return result ? this.mapToEntity(result) : null;
   }
@@ -22,78 +45,61 @@ export class UserRepository extends BaseRepository<User> {
   /**
    * Find users with filters
    */
-  async findWithFilters(filters: UserFilters, options?: { page?: number; limit?: number }): Promise<{ data: User[]; pagination: { page: number; limit: number; total: number; pages: number } }> {
-    const { page = 1, limit = 10 } = options || {};
-    const offset = (page - 1) * limit;
-
-    let whereConditions: string[] = [];
-    let params: any[] = [];
-
-    if (filters.role) {
-      whereConditions.push('role = ?');
-      params.push(filters.role);
-    }
-
-    if (filters.status) {
-      whereConditions.push('status = ?');
-      params.push(filters.status);
-    }
-
-    if (filters.email) {
-      whereConditions.push('email LIKE ?');
-      params.push(`%${filters.email}%`);
-    }
-
-    if (filters.search) {
-      whereConditions.push('(first_name LIKE ? OR last_name LIKE ? OR email LIKE ?)');
-      const searchTerm = `%${filters.search}%`;
-      params.push(searchTerm, searchTerm, searchTerm);
-    }
-
-    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
-
-    const countQuery = `SELECT COUNT(*) as total FROM ${this.tableName} ${whereClause}`;
-    const dataQuery = `SELECT * FROM ${this.tableName} ${whereClause} ORDER BY created_at DESC LIMIT ? OFFSET ?`;
-
-    const [countResult, dataResult] = await Promise.all([
-      this.db.get(countQuery, params),
-      this.db.all(dataQuery, [...params, limit, offset])
-    ]);
-
-    const total = countResult.total;
-    const pages = Math.ceil(total / limit);
-
-    return {
-      data: dataResult.map((row: any) => this.mapToEntity(row)),
-      pagination: {
-        page,
-        limit,
-        total,
-        pages
-      }
-    };
+  async findWithFilters(filters: UserFilters, options?: ListOptions): Promise<PaginatedResponse<User>> {
+    const query = this.query()
+      .equals('role', filters.role)
+      .equals('status', filters.status)
+      .contains(['email'], filters.email)
+      .matches('users_fts', filters.search)
+      .between('created_at', filters.createdAt);
+
+    return this.findPage(query, options);
   }
 
   /**
    * Find active users
    */
   async findActiveUsers(): Promise<User[]> {
-    const query = `SELECT * FROM ${this.tableName} WHERE status = 'ACTIVE' ORDER BY created_at DESC`;
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live("status = 'ACTIVE'")} ORDER BY created_at DESC`;
     const result = await this.db.all(query);
     return result.map((row: any) => this.mapToEntity(row));
   }
 
+  /**
+   * Find the active users among some IDs (unknown, deleted and inactive
+   * users are left out)
+   */
+  async findActiveByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const placeholders = ids.map(() => '?').join(', ');
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live(`id IN (${placeholders}) AND status = ?`)} ORDER BY created_at`;
+    const result = await this.db.all(query, [...ids, UserStatus.ACTIVE]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
   /**
    * Find users by role
    */
   async findByRole(role: string): Promise<User[]> {
-    const query = `SELECT * FROM ${this.tableName} WHERE role = ? ORDER BY created_at DESC`;
+    const query = `SELECT * FROM ${this.tableName} WHERE ${this.live('role = ?')} ORDER BY created_at DESC`;
     const result = await this.db.all(query, [role]);
     return result.map((row: any) => this.mapToEntity(row));
   }
 
   /**
-   * Check if email exists
+   * Count active users holding a role
+   */
+  async countActiveByRole(role: string): Promise<number> {
+    const query = `SELECT COUNT(*) as count FROM ${this.tableName} WHERE ${this.live('role = ? AND status = ?')}`;
+    const result = await this.db.get(query, [role, UserStatus.ACTIVE]);
+    return result.count;
+  }
+
+  /**
+   * Check if email exists, deleted users included: their email stays taken
+   * until they are purged
    */
   async emailExists(email: string): Promise<boolean> {
     const query = `SELECT COUNT(*) as count FROM ${this.tableName} WHERE email = ?`;
@@ -0,0 +1,76 @@
+import { BaseRepository } from './base.js';
+import { WebhookDelivery } from '../models/webhook-delivery.js';
+import { ListOptions, PaginatedResponse } from '../types/index.js';
+import { WebhookDeliveryFilters, WebhookDeliveryStatus } from '../types/webhook.js';
+
+/**
+ * Webhook delivery repository backed by the webhook_deliveries table
+ */
+export class WebhookDeliveryRepository extends BaseRepository<WebhookDelivery> {
+  constructor(db: any) {
+    super(db, 'webhook_deliveries', [
+      'id', 'webhook_id', 'event_id', 'event_type', 'payload', 'status', 'attempts', 'response_status',
+      'last_error', 'next_attempt_at', 'delivered_at', 'created_at', 'updated_at'
+    ], {
+      // Deliveries are only ever appended: rowid orders them without the
+      // ties of deliveries queued within the same millisecond
+      keys: { createdAt: 'rowid' },
+      defaultKey: 'createdAt',
+      defaultOrder: 'desc'
+    });
+  }
+
+  /**
+   * Find pending deliveries whose next attempt is due, oldest first
+   */
+  async findDue(now: Date = new Date(), limit: number = 50): Promise<WebhookDelivery[]> {
+    const query = `SELECT * FROM ${this.tableName} WHERE status = ? AND next_attempt_at <= ? ORDER BY next_attempt_at, rowid LIMIT ?`;
+    const result = await this.db.all(query, [WebhookDeliveryStatus.PENDING, now.toISOString(), limit]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find the deliveries of a webhook, newest first
+   */
+  async findByWebhook(
+    webhookId: string,
+    filters: WebhookDeliveryFilters,
+    options?: ListOptions
+  ): Promise<PaginatedResponse<WebhookDelivery>> {
+    const query = this.query()
+      .equals('webhook_id', webhookId)
+      .equals('status', filters.status)
+      .equals('event_type', filters.eventType);
+
+    return this.findPage(query, options);
+  }
+
+  /**
+   * Map database row to WebhookDelivery entity
+   */
+  protected mapToEntity(row: any): WebhookDelivery {
+    return WebhookDelivery.fromDatabase(row);
+  }
+
+  /**
+   * Map WebhookDelivery entity to database format
+   */
+  protected mapToDatabase(entity: WebhookDelivery | Partial<WebhookDelivery>): Record<string, any> {
+    if (entity instanceof WebhookDelivery) {
+      return entity.toDatabase();
+    }
+
+    // Handle partial updates
+    const data: Record<string, any> = {};
+
+    if ('status' in entity) data['status'] = entity.status;
+    if ('attempts' in entity) data['attempts'] = entity.attempts;
+    if ('responseStatus' in entity) data['response_status'] = entity.responseStatus ?? null;
+    if ('lastError' in entity) data['last_error'] = entity.lastError ?? null;
+    if ('nextAttemptAt' in entity) data['next_attempt_at'] = entity.nextAttemptAt?.toISOString();
+    if ('deliveredAt' in entity) data['delivered_at'] = entity.deliveredAt?.toISOString() ?? null;
+    if ('updatedAt' in entity) data['updated_at'] = entity.updatedAt?.toISOString();
+
+    return data;
+  }
+}
@@ -0,0 +1,56 @@
+import { BaseRepository } from './base.js';
+import { Webhook } from '../models/webhook.js';
+import { AuditEntityType, DomainEventType } from '../types/index.js';
+
+/**
+ * Webhook repository backed by the webhooks table
+ */
+export class WebhookRepository extends BaseRepository<Webhook> {
+  protected override auditEntity = AuditEntityType.WEBHOOK;
+
+  constructor(db: any) {
+    super(db, 'webhooks', [
+      'id', 'url', 'description', 'events', 'secret', 'active', 'creator_id', 'created_at', 'updated_at'
+    ]);
+  }
+
+  /**
+   * Find the active webhooks subscribed to an event type
+   */
+  async findSubscribed(type: DomainEventType): Promise<Webhook[]> {
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE active = 1 AND EXISTS (SELECT 1 FROM json_each(events) WHERE value = ?)
+      ORDER BY rowid
+    `;
+    const result = await this.db.all(query, [type]);
+    return result.map((row: any) => this.mapToEntity(row));
+  }
+
+  /**
+   * Map database row to Webhook entity
+   */
+  protected mapToEntity(row: any): Webhook {
+    return Webhook.fromDatabase(row);
+  }
+
+  /**
+   * Map Webhook entity to database format
+   */
+  protected mapToDatabase(entity: Webhook | Partial<Webhook>): Record<string, any> {
+    if (entity instanceof Webhook) {
+      return entity.toDatabase();
+    }
+
+    // Handle partial updates
+    const data: Record<string, any> = {};
+
+    if ('url' in entity) data['url'] = entity.url;
+    if ('description' in entity) data['description'] = entity.description ?? null;
+    if ('events' in entity) data['events'] = JSON.stringify(entity.events);
+    if ('active' in entity) data['active'] = entity.active ? 1 : 0;
+    if ('updatedAt' in entity) data['updated_at'] = entity.updatedAt?.toISOString();
+
+    return data;
+  }
+}
@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+import { AuditController } from '../controllers/audit-controller.js';
+import { AuditService } from '../services/audit-service.js';
+import { requireProductPeople } from '../middleware/authorization.js';
+import {
+  handleValidationErrors,
+  validateQueryEnum,
+  validatePagination,
+  validateSorting,
+  validateDateRange,
+} from '../middleware/validation.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { AuditAction, AuditEntityType } from '../types/index.js';
+
+/**
+ * Create audit log routes (mounted on /api/audit)
+ */
+export const createAuditRoutes = (auditService: AuditService): Router => {
+  const router = Router();
+  const controller = new AuditController(auditService);
+
+  router.use(requireProductPeople);
+
+  router.get(
+    '/',
+    validateQueryEnum('entityType', Object.values(AuditEntityType)),
+    validateQueryEnum('action', Object.values(AuditAction)),
+    query('entityId').optional().isUUID().withMessage('entityId must be a valid UUID'),
+    query('actorId').optional().isUUID().withMessage('actorId must be a valid UUID'),
+    ...validatePagination(),
+    ...validateSorting(),
+    ...validateDateRange('created'),
+    handleValidationErrors,
+    asyncHandler(controller.list)
+  );
+
+  return router;
+};
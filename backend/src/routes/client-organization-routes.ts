@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+import { ClientOrganizationController } from '../controllers/client-organization-controller.js';
+import { ClientOrganizationService } from '../services/client-organization-service.js';
+import { requireClientManager, requireProductPeople } from '../middleware/authorization.js';
+import {
+  handleValidationErrors,
+  validateDateRange,
+  validatePagination,
+  validateSorting,
+  validateUUIDParam,
+} from '../middleware/validation.js';
+import { asyncHandler } from '../utils/async-handler.js';
+
+/**
+ * Create client organisation routes (mounted on /api/client-organizations)
+ */
+export const createClientOrganizationRoutes = (clientOrganizationService: ClientOrganizationService): Router => {
+  const router = Router();
+  const controller = new ClientOrganizationController(clientOrganizationService);
+
+  router.get(
+    '/',
+    requireClientManager,
+    ...validatePagination(),
+    ...validateSorting(),
+    ...validateDateRange('created'),
+    handleValidationErrors,
+    asyncHandler(controller.list)
+  );
+
+  // Candidate selection for the next program (Product People only)
+  router.get(
+    '/candidates',
+    requireProductPeople,
+    query('excludeProgramId').optional().isUUID().withMessage('excludeProgramId must be a valid UUID'),
+    ...validatePagination(),
+    handleValidationErrors,
+    asyncHandler(controller.candidates)
+  );
+
+  router.get(
+    '/:id',
+    requireClientManager,
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.getProfile)
+  );
+
+  return router;
+};
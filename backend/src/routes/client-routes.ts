@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { ClientController } from '../controllers/client-controller.js';
+import { ClientEngagementService } from '../services/client-engagement-service.js';
+import { requireClientManager, requireProductPeople } from '../middleware/authorization.js';
+import {
+  handleValidationErrors,
+  validateRequired,
+  validateEnum,
+  validateDate,
+  validateUUIDParam,
+} from '../middleware/validation.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { ClientActivityType } from '../types/index.js';
+
+/**
+ * Create client routes (mounted on /api/clients)
+ */
+export const createClientRoutes = (clientEngagementService: ClientEngagementService): Router => {
+  const router = Router();
+  const controller = new ClientController(clientEngagementService);
+
+  // Engagement tracking (Client Managers and Product People)
+  router.use(requireClientManager);
+
+  router.get(
+    '/:id/timeline',
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.getTimeline)
+  );
+  router.post(
+    '/:id/activities',
+    validateUUIDParam('id'),
+    validateRequired('type'),
+    validateEnum('type', Object.values(ClientActivityType)),
+    validateDate('occurredAt'),
+    handleValidationErrors,
+    asyncHandler(controller.recordActivity)
+  );
+
+  // Removal (Product People only)
+  router.delete(
+    '/:id',
+    requireProductPeople,
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.remove)
+  );
+
+  return router;
+};
@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { EnrollmentRequestController } from '../controllers/enrollment-request-controller.js';
+import { EnrollmentRequestService } from '../services/enrollment-request-service.js';
+import { requireClientManager, requireProductPeople } from '../middleware/authorization.js';
+import {
+  handleValidationErrors,
+  validateRequired,
+  validateEmail,
+  validateUUID,
+  validateStringArray,
+  validateQueryEnum,
+  validatePagination,
+  validateSorting,
+  validateDateRange,
+  validateUUIDParam,
+} from '../middleware/validation.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { EnrollmentRequestStatus } from '../types/index.js';
+
+/**
+ * Create enrollment request routes (mounted on /api/enrollment-requests)
+ */
+export const createEnrollmentRequestRoutes = (enrollmentRequestService: EnrollmentRequestService): Router => {
+  const router = Router();
+  const controller = new EnrollmentRequestController(enrollmentRequestService);
+
+  // Filing and tracking (Client Managers and Product People)
+  router.post(
+    '/',
+    requireClientManager,
+    validateRequired('programId'),
+    validateUUID('programId'),
+    validateRequired('clientName'),
+    validateStringArray('accountIds'),
+    body('contacts').isArray({ min: 1 }).withMessage('contacts must be a non-empty array'),
+    validateRequired('contacts.*.firstName'),
+    validateRequired('contacts.*.lastName'),
+    validateRequired('contacts.*.email'),
+    validateEmail('contacts.*.email'),
+    handleValidationErrors,
+    asyncHandler(controller.submit)
+  );
+  router.get(
+    '/',
+    requireClientManager,
+    validateQueryEnum('status', Object.values(EnrollmentRequestStatus)),
+    ...validatePagination(),
+    ...validateSorting(),
+    ...validateDateRange('created'),
+    ...validateDateRange('reviewed'),
+    handleValidationErrors,
+    asyncHandler(controller.list)
+  );
+  router.get(
+    '/:id',
+    requireClientManager,
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.getById)
+  );
+  router.delete(
+    '/:id',
+    requireClientManager,
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.delete)
+  );
+  router.post(
+    '/:id/restore',
+    requireClientManager,
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.restore)
+  );
+
+  // Review (Product People only)
+  router.post(
+    '/:id/approve',
+    requireProductPeople,
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.approve)
+  );
+  router.post(
+    '/:id/reject',
+    requireProductPeople,
+    validateUUIDParam('id'),
+    validateRequired('rejectionReason'),
+    handleValidationErrors,
+    asyncHandler(controller.reject)
+  );
+
+  return router;
+};
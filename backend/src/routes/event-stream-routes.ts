@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { header } from 'express-validator';
+import { EventStreamController } from '../controllers/event-stream-controller.js';
+import { EventStreamService } from '../services/event-stream-service.js';
+import { SessionService } from '../services/session-service.js';
+import { requireSession } from '../middleware/session.js';
+import { handleValidationErrors } from '../middleware/validation.js';
+
+/**
+ * Create live event stream routes (mounted on /api/events)
+ */
+export const createEventStreamRoutes = (
+  eventStreamService: EventStreamService,
+  sessionService: SessionService
+): Router => {
+  const router = Router();
+  const controller = new EventStreamController(eventStreamService, sessionService);
+
+  router.get(
+    '/',
+    requireSession,
+    header('Last-Event-ID').optional().isInt({ min: 0 }).withMessage('Last-Event-ID must be an event ID'),
+    handleValidationErrors,
+    controller.stream
+  );
+
+  return router;
+};
@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+import { InboxController } from '../controllers/inbox-controller.js';
+import { InboxService } from '../services/inbox-service.js';
+import { requireSession } from '../middleware/session.js';
+import {
+  handleValidationErrors,
+  validateQueryEnum,
+  validatePagination,
+  validateSorting,
+  validateUUIDParam,
+} from '../middleware/validation.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { NotificationType } from '../types/index.js';
+
+/**
+ * Create in-app notification routes (mounted on /api/notifications)
+ */
+export const createInboxRoutes = (inboxService: InboxService): Router => {
+  const router = Router();
+  const controller = new InboxController(inboxService);
+
+  router.use(requireSession);
+
+  router.get(
+    '/',
+    query('unread').optional().isBoolean({ strict: true }).withMessage('unread must be true or false'),
+    validateQueryEnum('type', Object.values(NotificationType)),
+    ...validatePagination(),
+    ...validateSorting(),
+    handleValidationErrors,
+    asyncHandler(controller.list)
+  );
+  router.get('/unread-count', asyncHandler(controller.unreadCount));
+  router.post('/read-all', asyncHandler(controller.markAllRead));
+  router.post('/:id/read', validateUUIDParam('id'), handleValidationErrors, asyncHandler(controller.markRead));
+
+  return router;
+};
@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { ProgramController } from '../controllers/program-controller.js';
+import { ProgramService } from '../services/program-service.js';
+import { requireClientManager, requireProductPeople } from '../middleware/authorization.js';
+import {
+  handleValidationErrors,
+  validateRequired,
+  validateEnum,
+  validateDate,
+  validateStringArray,
+  validateQueryEnum,
+  validatePagination,
+  validateSorting,
+  validateDateRange,
+  validateUUIDParam,
+} from '../middleware/validation.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { ProgramStatus } from '../types/index.js';
+
+/**
+ * Capacity: a positive integer, or null on updates to lift the limit
+ */
+const validateMaxClients = (allowNull: boolean) =>
+  body('maxClients')
+    .optional({ values: allowNull ? 'null' : 'undefined' })
+    .isInt({ min: 1 })
+    .withMessage('maxClients must be a positive integer');
+
+/**
+ * Create program routes (mounted on /api/programs)
+ */
+export const createProgramRoutes = (programService: ProgramService): Router => {
+  const router = Router();
+  const controller = new ProgramController(programService);
+
+  // Browsing (Client Managers and Product People)
+  router.get(
+    '/',
+    requireClientManager,
+    validateQueryEnum('status', Object.values(ProgramStatus)),
+    ...validatePagination(),
+    ...validateSorting(),
+    ...validateDateRange('created'),
+    ...validateDateRange('start'),
+    ...validateDateRange('end'),
+    handleValidationErrors,
+    asyncHandler(controller.list)
+  );
+  router.get(
+    '/:id',
+    requireClientManager,
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.getById)
+  );
+  router.get(
+    '/:id/waitlist',
+    requireClientManager,
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.getWaitlist)
+  );
+
+  // Management (Product People only)
+  router.post(
+    '/',
+    requireProductPeople,
+    validateRequired('title'),
+    validateStringArray('stakeholders'),
+    validateDate('startDate'),
+    validateDate('endDate'),
+    validateMaxClients(false),
+    handleValidationErrors,
+    asyncHandler(controller.create)
+  );
+  router.put(
+    '/:id',
+    requireProductPeople,
+    validateUUIDParam('id'),
+    validateStringArray('stakeholders'),
+    validateDate('startDate'),
+    validateDate('endDate'),
+    validateMaxClients(true),
+    handleValidationErrors,
+    asyncHandler(controller.update)
+  );
+  router.post(
+    '/:id/transition',
+    requireProductPeople,
+    validateUUIDParam('id'),
+    validateRequired('status'),
+    validateEnum('status', Object.values(ProgramStatus)),
+    handleValidationErrors,
+    asyncHandler(controller.transition)
+  );
+  router.delete(
+    '/:id',
+    requireProductPeople,
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.delete)
+  );
+  router.post(
+    '/:id/restore',
+    requireProductPeople,
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.restore)
+  );
+
+  return router;
+};
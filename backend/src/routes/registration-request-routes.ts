@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import { RegistrationRequestController } from '../controllers/registration-request-controller.js';
+import { RegistrationRequestService } from '../services/registration-request-service.js';
+import { requireProductPeople } from '../middleware/authorization.js';
+import {
+  handleValidationErrors,
+  validateRequired,
+  validateEmail,
+  validateEnum,
+  validateQueryEnum,
+  validatePagination,
+  validateSorting,
+  validateDateRange,
+  validateUUIDParam,
+} from '../middleware/validation.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { RegistrationRequestStatus, UserRole } from '../types/index.js';
+
+/**
+ * Create registration request routes (mounted on /api/registration-requests)
+ */
+export const createRegistrationRequestRoutes = (registrationRequestService: RegistrationRequestService): Router => {
+  const router = Router();
+  const controller = new RegistrationRequestController(registrationRequestService);
+
+  // Public submission
+  router.post(
+    '/',
+    validateRequired('email'),
+    validateEmail('email'),
+    validateRequired('firstName'),
+    validateRequired('lastName'),
+    validateRequired('requestedRole'),
+    validateEnum('requestedRole', Object.values(UserRole)),
+    handleValidationErrors,
+    asyncHandler(controller.submit)
+  );
+
+  // Review (Product People only)
+  router.get(
+    '/',
+    requireProductPeople,
+    validateQueryEnum('status', Object.values(RegistrationRequestStatus)),
+    validateQueryEnum('requestedRole', Object.values(UserRole)),
+    ...validatePagination(),
+    ...validateSorting(),
+    ...validateDateRange('created'),
+    handleValidationErrors,
+    asyncHandler(controller.list)
+  );
+  router.get(
+    '/:id',
+    requireProductPeople,
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.getById)
+  );
+  router.post(
+    '/:id/approve',
+    requireProductPeople,
+    validateUUIDParam('id'),
+    validateEnum('assignedRole', Object.values(UserRole)),
+    handleValidationErrors,
+    asyncHandler(controller.approve)
+  );
+  router.post(
+    '/:id/reject',
+    requireProductPeople,
+    validateUUIDParam('id'),
+    validateRequired('rejectionReason'),
+    handleValidationErrors,
+    asyncHandler(controller.reject)
+  );
+
+  return router;
+};
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { param } from 'express-validator';
+import { SchedulerController } from '../controllers/scheduler-controller.js';
+import { SchedulerService } from '../services/scheduler-service.js';
+import { requireProductPeople } from '../middleware/authorization.js';
+import {
+  handleValidationErrors,
+  validateQueryEnum,
+  validatePagination,
+  validateSorting,
+} from '../middleware/validation.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { JobName, JobRunStatus } from '../types/index.js';
+
+/**
+ * Create scheduler routes (mounted on /api/jobs, Product People only)
+ */
+export const createSchedulerRoutes = (schedulerService: SchedulerService): Router => {
+  const router = Router();
+  const controller = new SchedulerController(schedulerService);
+  const jobNames = Object.values(JobName);
+
+  router.use(requireProductPeople);
+
+  router.get('/', asyncHandler(controller.listJobs));
+  router.get(
+    '/runs',
+    validateQueryEnum('jobName', jobNames),
+    validateQueryEnum('status', Object.values(JobRunStatus)),
+    ...validatePagination(),
+    ...validateSorting(),
+    handleValidationErrors,
+    asyncHandler(controller.listRuns)
+  );
+  router.post(
+    '/:name/run',
+    param('name').isIn(jobNames).withMessage(`name must be one of: ${jobNames.join(', ')}`),
+    handleValidationErrors,
+    asyncHandler(controller.runNow)
+  );
+
+  return router;
+};
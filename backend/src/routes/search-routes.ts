@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+import { SearchController } from '../controllers/search-controller.js';
+import { SearchService } from '../services/search-service.js';
+import { requireClientManager } from '../middleware/authorization.js';
+import { handleValidationErrors } from '../middleware/validation.js';
+import { asyncHandler } from '../utils/async-handler.js';
+
+/**
+ * Create search routes (mounted on /api/search)
+ */
+export const createSearchRoutes = (searchService: SearchService): Router => {
+  const router = Router();
+  const controller = new SearchController(searchService);
+
+  // Client Managers and Product People
+  router.use(requireClientManager);
+
+  router.get(
+    '/',
+    query('q').isString().trim().notEmpty().withMessage('q is required'),
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('limit must be between 1 and 50'),
+    handleValidationErrors,
+    asyncHandler(controller.search)
+  );
+
+  return router;
+};
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { SessionController } from '../controllers/session-controller.js';
+import { SessionService } from '../services/session-service.js';
+import { handleValidationErrors, validateRequired, validateEmail } from '../middleware/validation.js';
+import { asyncHandler } from '../utils/async-handler.js';
+
+/**
+ * Create session routes (mounted on /api/session)
+ */
+export const createSessionRoutes = (sessionService: SessionService): Router => {
+  const router = Router();
+  const controller = new SessionController(sessionService);
+
+  router.post(
+    '/',
+    validateRequired('email'),
+    validateEmail('email'),
+    handleValidationErrors,
+    asyncHandler(controller.login)
+  );
+  router.delete('/', asyncHandler(controller.logout));
+  router.get('/me', asyncHandler(controller.me));
+
+  return router;
+};
@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { UserController } from '../controllers/user-controller.js';
+import { UserService } from '../services/user-service.js';
+import { requireProductPeople } from '../middleware/authorization.js';
+import {
+  handleValidationErrors,
+  validateEmail,
+  validateEnum,
+  validateQueryEnum,
+  validatePagination,
+  validateSorting,
+  validateDateRange,
+  validateUUIDParam,
+} from '../middleware/validation.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { UserRole, UserStatus } from '../types/index.js';
+
+/**
+ * Create user administration routes (mounted on /api/users)
+ */
+export const createUserRoutes = (userService: UserService): Router => {
+  const router = Router();
+  const controller = new UserController(userService);
+
+  router.use(requireProductPeople);
+
+  router.get(
+    '/',
+    validateQueryEnum('role', Object.values(UserRole)),
+    validateQueryEnum('status', Object.values(UserStatus)),
+    ...validatePagination(),
+    ...validateSorting(),
+    ...validateDateRange('created'),
+    handleValidationErrors,
+    asyncHandler(controller.list)
+  );
+  router.get('/:id', validateUUIDParam('id'), handleValidationErrors, asyncHandler(controller.getById));
+  router.put(
+    '/:id',
+    validateUUIDParam('id'),
+    validateEmail('email'),
+    validateEnum('role', Object.values(UserRole)),
+    handleValidationErrors,
+    asyncHandler(controller.update)
+  );
+  router.post('/:id/deactivate', validateUUIDParam('id'), handleValidationErrors, asyncHandler(controller.deactivate));
+  router.post('/:id/activate', validateUUIDParam('id'), handleValidationErrors, asyncHandler(controller.activate));
+  router.delete('/:id', validateUUIDParam('id'), handleValidationErrors, asyncHandler(controller.delete));
+  router.post('/:id/restore', validateUUIDParam('id'), handleValidationErrors, asyncHandler(controller.restore));
+
+  return router;
+};
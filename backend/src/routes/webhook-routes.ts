@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { WebhookController } from '../controllers/webhook-controller.js';
+import { WebhookService } from '../services/webhook-service.js';
+import { requireProductPeople } from '../middleware/authorization.js';
+import {
+  handleValidationErrors,
+  validateRequired,
+  validateQueryEnum,
+  validatePagination,
+  validateSorting,
+  validateUUIDParam,
+} from '../middleware/validation.js';
+import { asyncHandler } from '../utils/async-handler.js';
+import { DomainEventType, WebhookDeliveryStatus } from '../types/index.js';
+
+/**
+ * Validate the endpoint and subscriptions of a webhook body
+ */
+const validateWebhookFields = () => {
+  const eventTypes = Object.values(DomainEventType);
+  return [
+    body('url').optional().isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+      .withMessage('url must be an http or https URL'),
+    body('events').optional().isArray({ min: 1 }).withMessage('events must list at least one event type'),
+    body('events.*').isIn(eventTypes).withMessage(`events must be among: ${eventTypes.join(', ')}`),
+    body('active').optional().isBoolean({ strict: true }).withMessage('active must be true or false'),
+  ];
+};
+
+/**
+ * Create webhook routes (mounted on /api/webhooks, Product People only)
+ */
+export const createWebhookRoutes = (webhookService: WebhookService): Router => {
+  const router = Router();
+  const controller = new WebhookController(webhookService);
+
+  router.use(requireProductPeople);
+
+  router.get(
+    '/',
+    ...validatePagination(),
+    ...validateSorting(),
+    handleValidationErrors,
+    asyncHandler(controller.list)
+  );
+  router.get(
+    '/:id',
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.getById)
+  );
+  router.post(
+    '/',
+    validateRequired('url'),
+    validateRequired('events'),
+    ...validateWebhookFields(),
+    handleValidationErrors,
+    asyncHandler(controller.create)
+  );
+  router.put(
+    '/:id',
+    validateUUIDParam('id'),
+    ...validateWebhookFields(),
+    handleValidationErrors,
+    asyncHandler(controller.update)
+  );
+  router.delete(
+    '/:id',
+    validateUUIDParam('id'),
+    handleValidationErrors,
+    asyncHandler(controller.delete)
+  );
+
+  // Delivery log
+  router.get(
+    '/:id/deliveries',
+    validateUUIDParam('id'),
+    validateQueryEnum('status', Object.values(WebhookDeliveryStatus)),
+    validateQueryEnum('eventType', Object.values(DomainEventType)),
+    ...validatePagination(),
+    ...validateSorting(),
+    handleValidationErrors,
+    asyncHandler(controller.listDeliveries)
+  );
+  router.post(
+    '/:id/deliveries/:deliveryId/redeliver',
+    validateUUIDParam('id'),
+    validateUUIDParam('deliveryId'),
+    handleValidationErrors,
+    asyncHandler(controller.redeliver)
+  );
+
+  return router;
+};
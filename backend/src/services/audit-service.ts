@@ -0,0 +1,22 @@
+import { AuditEvent } from '../models/audit-event.js';
+import { AuditEventRepository } from '../repositories/audit-event-repository.js';
+import { AuditEventFilters, ListOptions, PaginatedResponse } from '../types/index.js';
+
+/**
+ * Read access to the audit log (Product People only). Events are written by
+ * the audited repositories themselves.
+ */
+export class AuditService {
+  private auditEventRepository: AuditEventRepository;
+
+  constructor(auditEventRepository: AuditEventRepository) {
+    this.auditEventRepository = auditEventRepository;
+  }
+
+  /**
+   * List audit events with filters and pagination
+   */
+  async list(filters: AuditEventFilters, options: ListOptions): Promise<PaginatedResponse<AuditEvent>> {
+    return this.auditEventRepository.findWithFilters(filters, options);
+  }
+}
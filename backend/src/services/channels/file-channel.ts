@@ -0,0 +1,36 @@
+import { appendFile } from 'fs/promises';
+import { NotificationChannel, NotificationMessage } from '../../types/index.js';
+
+/**
+ * Development stand-in for email: appends messages to a file, or prints
+ * them on the console when no file is given
+ */
+export class FileChannel implements NotificationChannel {
+  readonly name: string;
+  private path: string | undefined;
+
+  constructor(path?: string) {
+    this.name = path ? 'file' : 'console';
+    this.path = path;
+  }
+
+  /**
+   * Write a message out, separated from the previous one
+   */
+  async send(message: NotificationMessage): Promise<void> {
+    const entry = [
+      `--- ${new Date().toISOString()}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text,
+      '',
+    ].join('\n');
+
+    if (this.path) {
+      await appendFile(this.path, `${entry}\n`, 'utf8');
+    } else {
+      console.log(entry);
+    }
+  }
+}
@@ -0,0 +1,245 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { NotificationChannel, NotificationMessage } from '../../types/index.js';
+
+/**
+ * SMTP server settings
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 465); otherwise upgraded with STARTTLS when the server offers it
+  user?: string | undefined; // AUTH PLAIN when set, only ever over an encrypted connection
+  password?: string | undefined;
+  from: string; // Sender address, optionally with a display name: `AB-EAM <no-reply@example.com>`
+  ca?: string | undefined; // Certificate authority (PEM) trusted instead of the system ones
+  timeoutMs?: number | undefined;
+}
+
+/**
+ * Sender used when none is configured
+ */
+export const DEFAULT_MAIL_FROM = 'AB-EAM <no-reply@ab-eam.local>';
+
+/**
+ * Default time allowed for each exchange with the server
+ */
+export const DEFAULT_SMTP_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Reply of an SMTP server: a status code and its (possibly multi-line) text
+ */
+interface SmtpReply {
+  code: number;
+  text: string;
+  lines: string[];
+}
+
+/**
+ * One SMTP conversation on an open socket, reading replies as they arrive
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | undefined;
+  private failure: Error | undefined;
+
+  private onData = (chunk: string) => this.receive(chunk);
+  private onError = (error: Error) => this.fail(error);
+  private onClose = () => this.fail(new Error('SMTP connection closed'));
+  private onTimeout = () => this.socket.destroy(new Error('SMTP server timed out'));
+
+  constructor(socket: net.Socket, timeoutMs: number) {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(timeoutMs, this.onTimeout);
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  /**
+   * Stop reading the socket and hand it over as it is, e.g. to TLS
+   */
+  release(): net.Socket {
+    this.socket.setTimeout(0, this.onTimeout);
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+    return this.socket;
+  }
+
+  /**
+   * Send a command (if any) and check the status code of the reply
+   * @throws {Error} If the server answers with another code
+   */
+  async expect(
+    command: string | undefined,
+    codes: number[],
+    label: string = command?.split(' ')[0] ?? 'greeting'
+  ): Promise<SmtpReply> {
+    if (command !== undefined) {
+      this.socket.write(`${command}\r\n`);
+    }
+    const reply = await this.nextReply();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  // Lines of a multi-line reply carry a dash after the code, the last one a space
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line);
+      if (line.charAt(3) !== '-') {
+        const lines = this.lines.map(text => text.slice(4));
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), text: lines.join(' '), lines });
+        this.lines = [];
+      }
+    }
+
+    if (this.waiting && this.replies.length > 0) {
+      const waiting = this.waiting;
+      this.waiting = undefined;
+      waiting.resolve(this.replies.shift() as SmtpReply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.reject(this.failure);
+  }
+}
+
+/**
+ * Bare address of a sender that may carry a display name
+ */
+const toAddress = (sender: string): string => /<([^>]+)>/.exec(sender)?.[1] ?? sender.trim();
+
+/**
+ * RFC 2047 encoding of a header value that is not plain ASCII
+ */
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+/**
+ * Format a message as RFC 5322 text (base64 body, so any content is safe)
+ */
+export const formatMessage = (message: NotificationMessage, from: string, now: Date = new Date()): string => {
+  const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${toAddress(from).split('@')[1] ?? 'localhost'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+};
+
+/**
+ * Sends notifications by email through an SMTP server, one connection per
+ * message. A plain connection switches to TLS when the server offers
+ * STARTTLS; credentials are refused on one that stays in clear text.
+ */
+export class SmtpChannel implements NotificationChannel {
+  readonly name = 'smtp';
+  private config: SmtpConfig;
+
+  constructor(config: SmtpConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Deliver a message
+   * @throws {Error} If the server cannot be reached or refuses the message
+   */
+  async send(message: NotificationMessage): Promise<void> {
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS;
+    let socket = await this.connect();
+    let session = new SmtpSession(socket, timeoutMs);
+
+    try {
+      await session.expect(undefined, [220]);
+      const greeting = await session.expect(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+      if (!(socket instanceof tls.TLSSocket) && greeting.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await session.expect('STARTTLS', [220]);
+        socket = await this.startTls(session.release());
+        session = new SmtpSession(socket, timeoutMs);
+        // The server forgets what was said in clear text
+        await session.expect(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+      }
+
+      if (this.config.user) {
+        if (!(socket instanceof tls.TLSSocket)) {
+          throw new Error('SMTP server does not offer STARTTLS: credentials are never sent in clear text');
+        }
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.password ?? ''}`).toString('base64');
+        await session.expect(`AUTH PLAIN ${credentials}`, [235]);
+      }
+      await session.expect(`MAIL FROM:<${toAddress(this.config.from)}>`, [250]);
+      await session.expect(`RCPT TO:<${message.to}>`, [250, 251]);
+      await session.expect('DATA', [354]);
+      // Lines starting with a dot are doubled so that none ends the data early
+      const data = formatMessage(message, this.config.from).replace(/^\./gm, '..');
+      await session.expect(`${data}\r\n.`, [250], 'message');
+      await session.expect('QUIT', [221]);
+    } finally {
+      socket.destroy();
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.config;
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ port, ...this.tlsOptions() }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  private startTls(socket: net.Socket): Promise<tls.TLSSocket> {
+    return new Promise((resolve, reject) => {
+      const secured = tls.connect({ socket, ...this.tlsOptions() }, () => resolve(secured));
+      secured.once('error', reject);
+    });
+  }
+
+  // The server certificate is checked against the host name, or its IP address
+  private tlsOptions(): tls.ConnectionOptions {
+    const { host, ca } = this.config;
+    return {
+      host,
+      ...(net.isIP(host) ? {} : { servername: host }),
+      ...(ca ? { ca } : {}),
+    };
+  }
+}
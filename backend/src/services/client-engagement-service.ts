@@ -0,0 +1,149 @@
+import { Client, ClientEngagement } from '../models/client.js';
+import { ClientActivity } from '../models/client-activity.js';
+import { ClientRepository } from '../repositories/client-repository.js';
+import { ClientActivityRepository } from '../repositories/client-activity-repository.js';
+import { CreateClientActivityRequest } from '../types/index.js';
+import { NotFoundError, withModelValidation } from '../utils/errors.js';
+import { WaitlistService } from './waitlist-service.js';
+
+/**
+ * Default engagement window: a client without any signal for 30 days is inactive
+ */
+export const DEFAULT_ENGAGEMENT_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * A client's engagement state with its full activity history
+ */
+export interface ClientTimeline {
+  client: Client;
+  engagement: ClientEngagement;
+  activities: ClientActivity[];
+}
+
+/**
+ * Client engagement tracking: activity history and derived active state.
+ * A client leaving its seat, removed or gone inactive, lets the next
+ * waitlisted one in.
+ */
+export class ClientEngagementService {
+  private clientRepository: ClientRepository;
+  private clientActivityRepository: ClientActivityRepository;
+  private waitlistService: WaitlistService;
+  private windowMs: number;
+
+  constructor(
+    clientRepository: ClientRepository,
+    clientActivityRepository: ClientActivityRepository,
+    waitlistService: WaitlistService,
+    windowMs: number = DEFAULT_ENGAGEMENT_WINDOW_MS
+  ) {
+    this.clientRepository = clientRepository;
+    this.clientActivityRepository = clientActivityRepository;
+    this.waitlistService = waitlistService;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Record an engagement event and refresh the client's active state
+   * @throws {NotFoundError} If the client does not exist
+   */
+  async recordActivity(
+    clientId: string,
+    data: CreateClientActivityRequest,
+    recordedBy: string
+  ): Promise<ClientTimeline> {
+    const client = await this.getClient(clientId);
+    const activity = withModelValidation(() => ClientActivity.create(client.id, data, recordedBy));
+    await this.clientActivityRepository.create(activity);
+
+    return this.buildTimeline(client);
+  }
+
+  /**
+   * Get a client's activity timeline, most recent first. Reading it changes
+   * nothing: the engagement is derived as of now, while the stored active
+   * flag is only refreshed by new activities and the hourly job.
+   * @throws {NotFoundError} If the client does not exist
+   */
+  async getTimeline(clientId: string): Promise<ClientTimeline> {
+    const client = await this.getClient(clientId);
+    return this.deriveTimeline(client, new Date());
+  }
+
+  /**
+   * Remove a client from its program, with its activity history; its seat
+   * goes to the next waitlisted client in the same transaction
+   * @throws {NotFoundError} If the client does not exist
+   */
+  async remove(clientId: string): Promise<void> {
+    const client = await this.getClient(clientId);
+    await this.waitlistService.remove(client);
+  }
+
+  /**
+   * Flag inactive the seated clients left without any signal for the whole
+   * window, as no new activity will, and hand their seats to the waitlist. Waitlisted clients are left alone: they
+   * start afresh once promoted.
+   * @returns The number of clients gone inactive
+   */
+  async refreshEngagement(now: Date = new Date()): Promise<number> {
+    const unheard = await this.clientRepository.findSeatedUnheardSince(new Date(now.getTime() - this.windowMs));
+    let inactive = 0;
+    for (const client of unheard) {
+      const { engagement } = await this.buildTimeline(client, now);
+      if (!engagement.isActive) {
+        inactive += 1;
+      }
+    }
+    return inactive;
+  }
+
+  /**
+   * Get the engagement window in milliseconds
+   */
+  getWindowMs(): number {
+    return this.windowMs;
+  }
+
+  /**
+   * Derive engagement from the history and persist the active flag when it
+   * drifted. A seat freed by a client gone inactive goes to the waitlist; a
+   * client coming back only gets a seat if one is free.
+   */
+  private async buildTimeline(client: Client, now: Date = new Date()): Promise<ClientTimeline> {
+    const timeline = await this.deriveTimeline(client, now);
+    const { engagement } = timeline;
+
+    if (client.setActive(engagement.isActive)) {
+      if (client.isActive && !client.isWaitlisted()) {
+        await this.waitlistService.readmit(client, now);
+      } else {
+        await this.clientRepository.update(client.id, client);
+        if (!client.isActive && !client.isWaitlisted()) {
+          await this.waitlistService.fillOpenSeats(client.programId, now);
+        }
+      }
+    }
+
+    return timeline;
+  }
+
+  /**
+   * Derive engagement from the history, without writing anything
+   */
+  private async deriveTimeline(client: Client, now: Date): Promise<ClientTimeline> {
+    const activities = await this.clientActivityRepository.findByClientId(client.id);
+    return { client, engagement: client.deriveEngagement(activities, this.windowMs, now), activities };
+  }
+
+  /**
+   * Load a client
+   */
+  private async getClient(id: string): Promise<Client> {
+    const client = await this.clientRepository.findById(id);
+    if (!client) {
+      throw new NotFoundError('Client not found', 'CLIENT_NOT_FOUND');
+    }
+    return client;
+  }
+}
@@ -0,0 +1,140 @@
+import { Client, ClientEngagement } from '../models/client.js';
+import { ClientActivity } from '../models/client-activity.js';
+import { ClientOrganization } from '../models/client-organization.js';
+import { Program } from '../models/program.js';
+import { ClientOrganizationRepository } from '../repositories/client-organization-repository.js';
+import { ClientRepository } from '../repositories/client-repository.js';
+import { ClientActivityRepository } from '../repositories/client-activity-repository.js';
+import { ProgramRepository } from '../repositories/program-repository.js';
+import { ClientOrganizationFilters, ListOptions, PaginatedResponse } from '../types/index.js';
+import { NotFoundError } from '../utils/errors.js';
+import { DEFAULT_ENGAGEMENT_WINDOW_MS } from './client-engagement-service.js';
+
+/**
+ * How engaged an organisation was in one program
+ */
+export interface ProgramEngagement {
+  program: Program;
+  client: Client;
+  engagement: ClientEngagement;
+  activityCount: number;
+  engagementScore: number;
+}
+
+/**
+ * Cross-program profile of a client organisation
+ */
+export interface ClientProfile {
+  organization: ClientOrganization;
+  programs: ProgramEngagement[];
+  engagementScore: number;
+}
+
+/**
+ * Options for picking candidates for a program
+ */
+export interface CandidateOptions {
+  excludeProgramId?: string;
+  limit: number;
+}
+
+/**
+ * Client organisations: cross-program profiles and engagement scores
+ */
+export class ClientOrganizationService {
+  private clientOrganizationRepository: ClientOrganizationRepository;
+  private clientRepository: ClientRepository;
+  private clientActivityRepository: ClientActivityRepository;
+  private programRepository: ProgramRepository;
+  private windowMs: number;
+
+  constructor(
+    clientOrganizationRepository: ClientOrganizationRepository,
+    clientRepository: ClientRepository,
+    clientActivityRepository: ClientActivityRepository,
+    programRepository: ProgramRepository,
+    windowMs: number = DEFAULT_ENGAGEMENT_WINDOW_MS
+  ) {
+    this.clientOrganizationRepository = clientOrganizationRepository;
+    this.clientRepository = clientRepository;
+    this.clientActivityRepository = clientActivityRepository;
+    this.programRepository = programRepository;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * List client organisations with filters and pagination
+   */
+  async list(
+    filters: ClientOrganizationFilters,
+    options: ListOptions
+  ): Promise<PaginatedResponse<ClientOrganization>> {
+    return this.clientOrganizationRepository.findWithFilters(filters, options);
+  }
+
+  /**
+   * Get an organisation's profile: every program it joined and its engagement in each
+   * @throws {NotFoundError} If the organisation does not exist
+   */
+  async getProfile(id: string): Promise<ClientProfile> {
+    const organization = await this.clientOrganizationRepository.findById(id);
+    if (!organization) {
+      throw new NotFoundError('Client organisation not found', 'CLIENT_ORGANIZATION_NOT_FOUND');
+    }
+    return this.buildProfile(organization);
+  }
+
+  /**
+   * Rank organisations by engagement score to pick candidates for a program,
+   * leaving out those already enrolled in it
+   */
+  async getCandidates(options: CandidateOptions): Promise<ClientProfile[]> {
+    const organizations = await this.clientOrganizationRepository.findAllByName();
+    const profiles: ClientProfile[] = [];
+
+    for (const organization of organizations) {
+      const profile = await this.buildProfile(organization);
+      const alreadyEnrolled = profile.programs.some(({ program }) => program.id === options.excludeProgramId);
+      if (!alreadyEnrolled) {
+        profiles.push(profile);
+      }
+    }
+
+    return profiles
+      .sort((a, b) => b.engagementScore - a.engagementScore)
+      .slice(0, options.limit);
+  }
+
+  /**
+   * Collect the organisation's enrollments with their activity history
+   */
+  private async buildProfile(organization: ClientOrganization): Promise<ClientProfile> {
+    const now = new Date();
+    const clients = await this.clientRepository.findByOrganizationId(organization.id);
+    const programs: ProgramEngagement[] = [];
+    const allActivities: ClientActivity[] = [];
+
+    for (const client of clients) {
+      const program = await this.programRepository.findById(client.programId);
+      if (!program) {
+        continue;
+      }
+
+      const activities = await this.clientActivityRepository.findByClientId(client.id);
+      allActivities.push(...activities);
+      programs.push({
+        program,
+        client,
+        engagement: client.deriveEngagement(activities, this.windowMs, now),
+        activityCount: activities.length,
+        engagementScore: ClientActivity.score(activities, now),
+      });
+    }
+
+    return {
+      organization,
+      programs,
+      engagementScore: ClientActivity.score(allActivities, now),
+    };
+  }
+}
@@ -0,0 +1,307 @@
+import { Database } from '../config/database.js';
+import { DomainEventBus } from '../config/domain-events.js';
+import { EnrollmentRequest } from '../models/enrollment-request.js';
+import { ContactUser } from '../models/contact-user.js';
+import { Client } from '../models/client.js';
+import { ClientOrganization } from '../models/client-organization.js';
+import { Program } from '../models/program.js';
+import { User } from '../models/user.js';
+import { EnrollmentRequestRepository } from '../repositories/enrollment-request-repository.js';
+import { ContactUserRepository } from '../repositories/contact-user-repository.js';
+import { ClientRepository } from '../repositories/client-repository.js';
+import { ClientOrganizationRepository } from '../repositories/client-organization-repository.js';
+import { ProgramRepository } from '../repositories/program-repository.js';
+import {
+  CreateEnrollmentRequestRequest,
+  DomainEventType,
+  EnrollmentRequestFilters,
+  EnrollmentRequestStatus,
+  ProgramStatus,
+  ListOptions,
+  PaginatedResponse,
+} from '../types/index.js';
+import { assertVersion, ConflictError, NotFoundError, ValidationError, withModelValidation } from '../utils/errors.js';
+
+/**
+ * Program statuses that no longer accept enrollments
+ */
+export const CLOSED_PROGRAM_STATUSES: ProgramStatus[] = [ProgramStatus.STOPPED, ProgramStatus.ARCHIVED];
+
+/**
+ * Enrollment request with its contact people
+ */
+export interface EnrollmentRequestDetails {
+  request: EnrollmentRequest;
+  contacts: ContactUser[];
+}
+
+/**
+ * Outcome of an approval: the processed request, the enrolled (or
+ * waitlisted) client and the organisation it belongs to
+ */
+export interface EnrollmentApproval extends EnrollmentRequestDetails {
+  client: Client;
+  organization: ClientOrganization;
+}
+
+/**
+ * Client enrollment workflow: Client Managers file, Product People decide
+ */
+export class EnrollmentRequestService {
+  private db: Database;
+  private enrollmentRequestRepository: EnrollmentRequestRepository;
+  private contactUserRepository: ContactUserRepository;
+  private clientRepository: ClientRepository;
+  private clientOrganizationRepository: ClientOrganizationRepository;
+  private programRepository: ProgramRepository;
+  private events: DomainEventBus;
+
+  constructor(
+    db: Database,
+    enrollmentRequestRepository: EnrollmentRequestRepository,
+    contactUserRepository: ContactUserRepository,
+    clientRepository: ClientRepository,
+    clientOrganizationRepository: ClientOrganizationRepository,
+    programRepository: ProgramRepository,
+    events: DomainEventBus
+  ) {
+    this.db = db;
+    this.enrollmentRequestRepository = enrollmentRequestRepository;
+    this.contactUserRepository = contactUserRepository;
+    this.clientRepository = clientRepository;
+    this.clientOrganizationRepository = clientOrganizationRepository;
+    this.programRepository = programRepository;
+    this.events = events;
+  }
+
+  /**
+   * File an enrollment request for a client
+   * @throws {ConflictError} If the program is closed or the client already has a pending request
+   */
+  async submit(data: CreateEnrollmentRequestRequest, requestedBy: string): Promise<EnrollmentRequestDetails> {
+    if (!Array.isArray(data.contacts) || data.contacts.length === 0) {
+      throw new ValidationError('At least one contact is required');
+    }
+
+    const request = withModelValidation(() => EnrollmentRequest.create(data, requestedBy));
+    const contacts = data.contacts.map(contact => withModelValidation(() => ContactUser.create(contact)));
+
+    await this.getOpenProgram(this.programRepository, request.programId);
+
+    if (await this.enrollmentRequestRepository.hasPendingRequest(request.programId, request.clientName)) {
+      throw new ConflictError('This client already has a pending request for this program', 'ENROLLMENT_ALREADY_PENDING');
+    }
+
+    await this.db.transaction(async tx => {
+      const contactUsers = this.contactUserRepository.withTransaction(tx);
+      await this.enrollmentRequestRepository.withTransaction(tx).create(request);
+      for (const contact of contacts) {
+        await contactUsers.create(contact);
+        await contactUsers.linkToEnrollmentRequest(request.id, contact.id);
+      }
+    });
+
+    await this.events.publish(DomainEventType.ENROLLMENT_SUBMITTED, { request });
+    return { request, contacts };
+  }
+
+  /**
+   * List enrollment requests with filters and pagination
+   */
+  async list(
+    filters: EnrollmentRequestFilters,
+    options: ListOptions
+  ): Promise<PaginatedResponse<EnrollmentRequest>> {
+    return this.enrollmentRequestRepository.findWithFilters(filters, options);
+  }
+
+  /**
+   * Get an enrollment request with its contacts. Client Managers only see
+   * the requests they filed.
+   * @throws {NotFoundError} If the request does not exist or is not visible
+   */
+  async getById(id: string, viewer: User): Promise<EnrollmentRequestDetails> {
+    const request = await this.getVisibleRequest(id, viewer);
+    const contacts = await this.contactUserRepository.findByEnrollmentRequestId(request.id);
+    return { request, contacts };
+  }
+
+  /**
+   * Approve a request: enroll the client under its organisation (matched by
+   * name, then by account IDs) and link its contacts, atomically. A client
+   * approved into a full program joins the back of its waitlist.
+   * @throws {ConflictError} If the request was already reviewed or changed
+   * since the reviewer read it, or the program is closed
+   */
+  async approve(id: string, reviewedBy: string, expectedVersion?: number): Promise<EnrollmentApproval> {
+    const request = await this.getReviewableRequest(id, expectedVersion);
+    withModelValidation(() => request.review({ approved: true }, reviewedBy));
+    const contacts = await this.contactUserRepository.findByEnrollmentRequestId(request.id);
+
+    // The program rules and the organisation are read in the transaction that
+    // seats the client, so a concurrent change cannot slip in between
+    const { client, organization } = await this.db.transaction(async tx => {
+      const organizations = this.clientOrganizationRepository.withTransaction(tx);
+      const contactUsers = this.contactUserRepository.withTransaction(tx);
+      const clients = this.clientRepository.withTransaction(tx);
+      const program = await this.getOpenProgram(this.programRepository.withTransaction(tx), request.programId);
+
+      await this.enrollmentRequestRepository.withTransaction(tx).update(request.id, request);
+      const existing = await organizations.findMatching(request.clientName, request.accountIds);
+      const organization = existing
+        ?? withModelValidation(() => ClientOrganization.create(request.clientName, request.accountIds));
+      if (!existing) {
+        await organizations.create(organization);
+      } else if (organization.mergeAccountIds(request.accountIds)) {
+        await organizations.update(organization.id, organization);
+      }
+
+      const client = withModelValidation(() =>
+        Client.enroll(request.programId, request.id, request.accountIds, organization.id)
+      );
+      if (!program.hasRoomFor(await clients.countSeated(program.id))) {
+        client.waitlist();
+      }
+      await clients.create(client);
+      for (const contact of contacts) {
+        await contactUsers.linkToClient(client.id, contact.id);
+      }
+      return { client, organization };
+    });
+
+    await this.events.publish(
+      client.isWaitlisted() ? DomainEventType.ENROLLMENT_WAITLISTED : DomainEventType.ENROLLMENT_APPROVED,
+      { request, client }
+    );
+    return { request, contacts, client, organization };
+  }
+
+  /**
+   * Reject a request; a reason is mandatory
+   * @throws {ValidationError} If no reason is given
+   * @throws {ConflictError} If the request was already reviewed or changed since the reviewer read it
+   */
+  async reject(
+    id: string,
+    reviewedBy: string,
+    rejectionReason: string,
+    expectedVersion?: number
+  ): Promise<EnrollmentRequest> {
+    if (!rejectionReason || rejectionReason.trim().length === 0) {
+      throw new ValidationError('rejectionReason is required to reject a request');
+    }
+
+    const request = await this.getReviewableRequest(id, expectedVersion);
+    withModelValidation(() =>
+      request.review({ approved: false, rejectionReason: rejectionReason.trim() }, reviewedBy)
+    );
+    await this.enrollmentRequestRepository.update(request.id, request);
+
+    await this.events.publish(DomainEventType.ENROLLMENT_REJECTED, { request });
+    return request;
+  }
+
+  /**
+   * Delete a pending or rejected request (restorable until purged).
+   * Client Managers can only delete the requests they filed.
+   * @throws {ConflictError} If the request was approved: it records an enrollment
+   */
+  async delete(id: string, viewer: User): Promise<void> {
+    const request = await this.getVisibleRequest(id, viewer);
+    if (request.status === EnrollmentRequestStatus.APPROVED) {
+      throw new ConflictError('Approved enrollment requests cannot be deleted', 'ENROLLMENT_REQUEST_APPROVED');
+    }
+
+    await this.enrollmentRequestRepository.delete(request.id);
+  }
+
+  /**
+   * Bring back a deleted request
+   * @throws {ConflictError} If the request is not deleted, or the client filed
+   * another pending request in the meantime
+   */
+  async restore(id: string, viewer: User): Promise<EnrollmentRequest> {
+    const request = await this.enrollmentRequestRepository.findDeletedById(id);
+    if (!request) {
+      await this.getVisibleRequest(id, viewer);
+      throw new ConflictError('Enrollment request is not deleted', 'ENROLLMENT_REQUEST_NOT_DELETED');
+    }
+    if (!viewer.isProductPeople() && request.requestedBy !== viewer.id) {
+      throw new NotFoundError('Enrollment request not found', 'ENROLLMENT_REQUEST_NOT_FOUND');
+    }
+
+    if (request.isPending() && (await this.enrollmentRequestRepository.hasPendingRequest(request.programId, request.clientName))) {
+      throw new ConflictError('This client already has a pending request for this program', 'ENROLLMENT_ALREADY_PENDING');
+    }
+
+    return (await this.enrollmentRequestRepository.restore(request.id)) ?? request;
+  }
+
+  /**
+   * Remind the program team of each request pending for longer than
+   * `pendingForMs`, once per request
+   * @returns The number of requests reminded of
+   */
+  async remindOverdueRequests(now: Date, pendingForMs: number): Promise<number> {
+    const requests = await this.enrollmentRequestRepository.findAwaitingReminder(new Date(now.getTime() - pendingForMs));
+
+    for (const request of requests) {
+      await this.enrollmentRequestRepository.markReminded(request.id, now);
+      await this.events.publish(DomainEventType.ENROLLMENT_REVIEW_OVERDUE, { request });
+    }
+    return requests.length;
+  }
+
+  /**
+   * Load an enrollment request
+   */
+  private async getRequest(id: string): Promise<EnrollmentRequest> {
+    const request = await this.enrollmentRequestRepository.findById(id);
+    if (!request) {
+      throw new NotFoundError('Enrollment request not found', 'ENROLLMENT_REQUEST_NOT_FOUND');
+    }
+    return request;
+  }
+
+  /**
+   * Load an enrollment request the viewer may see: Client Managers only see
+   * the requests they filed
+   */
+  private async getVisibleRequest(id: string, viewer: User): Promise<EnrollmentRequest> {
+    const request = await this.getRequest(id);
+    if (!viewer.isProductPeople() && request.requestedBy !== viewer.id) {
+      throw new NotFoundError('Enrollment request not found', 'ENROLLMENT_REQUEST_NOT_FOUND');
+    }
+    return request;
+  }
+
+  /**
+   * Load an enrollment request that is still pending, at the version the
+   * reviewer read. Saving it later fails too if another reviewer decides in
+   * the meantime.
+   */
+  private async getReviewableRequest(id: string, expectedVersion?: number): Promise<EnrollmentRequest> {
+    const request = await this.getRequest(id);
+    if (!request.canBeReviewed()) {
+      throw new ConflictError(`Enrollment request has already been ${request.status.toLowerCase()}`, 'REQUEST_ALREADY_PROCESSED');
+    }
+    assertVersion(request, expectedVersion);
+    return request;
+  }
+
+  /**
+   * Load a program that still accepts enrollments
+   */
+  private async getOpenProgram(programs: ProgramRepository, programId: string): Promise<Program> {
+    const program = await programs.findById(programId);
+    if (!program) {
+      throw new NotFoundError('Program not found', 'PROGRAM_NOT_FOUND');
+    }
+
+    if (CLOSED_PROGRAM_STATUSES.includes(program.status)) {
+      throw new ConflictError(`Program is ${program.status} and no longer accepts enrollments`, 'PROGRAM_CLOSED');
+    }
+
+    return program;
+  }
+}
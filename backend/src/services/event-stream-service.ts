@@ -0,0 +1,129 @@
+import { User } from '../models/user.js';
+import { DomainEvent, DomainEventType, StreamedEvent } from '../types/index.js';
+
+/**
+ * Number of recent events kept for clients resuming with `Last-Event-ID`
+ */
+export const DEFAULT_REPLAY_BUFFER_SIZE = 100;
+
+/**
+ * How often an idle stream gets a comment, so proxies keep it open
+ */
+export const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Receiver of the events of one open stream
+ */
+export type EventStreamListener = (streamed: StreamedEvent) => void;
+
+/**
+ * Open stream, as held by the request serving it
+ */
+export interface EventStreamConnection {
+  /**
+   * Filter the next events for the user as they are now, e.g. after a role change
+   */
+  setUser(user: User): void;
+  /**
+   * Stop pushing events to the stream
+   */
+  close(): void;
+}
+
+interface EventStreamSubscriber {
+  user: User;
+  listener: EventStreamListener;
+}
+
+/**
+ * Live event stream: numbers each domain event, keeps the latest ones for
+ * reconnecting clients and fans them out to the open streams their user may
+ * see. Product People see every event; Client Managers see program status
+ * changes and the enrollment requests they filed.
+ */
+export class EventStreamService {
+  private bufferSize: number;
+  private buffer: StreamedEvent[] = [];
+  private sequence = 0;
+  private subscribers = new Set<EventStreamSubscriber>();
+
+  constructor(bufferSize: number = DEFAULT_REPLAY_BUFFER_SIZE) {
+    this.bufferSize = bufferSize;
+  }
+
+  /**
+   * Number an event, buffer it and push it to the streams allowed to see it
+   */
+  handle(event: DomainEvent): StreamedEvent {
+    this.sequence += 1;
+    const streamed: StreamedEvent = { sequence: this.sequence, event };
+
+    this.buffer.push(streamed);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+    }
+
+    for (const subscriber of this.subscribers) {
+      if (canSee(subscriber.user, event)) {
+        subscriber.listener(streamed);
+      }
+    }
+    return streamed;
+  }
+
+  /**
+   * Open a stream for a user. With the ID of the last event a client
+   * received, the buffered events it missed are replayed first; an ID this
+   * process never gave out (it restarted since) replays the whole buffer.
+   */
+  connect(user: User, listener: EventStreamListener, lastEventId?: number): EventStreamConnection {
+    if (lastEventId !== undefined) {
+      const after = lastEventId > this.sequence ? 0 : lastEventId;
+      for (const streamed of this.buffer) {
+        if (streamed.sequence > after && canSee(user, streamed.event)) {
+          listener(streamed);
+        }
+      }
+    }
+
+    const subscriber: EventStreamSubscriber = { user, listener };
+    this.subscribers.add(subscriber);
+    return {
+      setUser: (current: User) => {
+        subscriber.user = current;
+      },
+      close: () => {
+        this.subscribers.delete(subscriber);
+      },
+    };
+  }
+
+  /**
+   * Number of open streams
+   */
+  get connectionCount(): number {
+    return this.subscribers.size;
+  }
+}
+
+/**
+ * Whether an event concerns a user, following what the REST API lets them read
+ */
+const canSee = (user: User, event: DomainEvent): boolean => {
+  if (user.isProductPeople()) {
+    return true;
+  }
+
+  switch (event.type) {
+    case DomainEventType.ENROLLMENT_SUBMITTED:
+    case DomainEventType.ENROLLMENT_APPROVED:
+    case DomainEventType.ENROLLMENT_REJECTED:
+    case DomainEventType.ENROLLMENT_WAITLISTED:
+    case DomainEventType.ENROLLMENT_PROMOTED:
+      return event.data.request.requestedBy === user.id;
+    case DomainEventType.PROGRAM_STATUS_CHANGED:
+      return true;
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,217 @@
+import { Notification } from '../models/notification.js';
+import { NotificationRepository } from '../repositories/notification-repository.js';
+import { UserRepository } from '../repositories/user-repository.js';
+import { ProgramRepository } from '../repositories/program-repository.js';
+import {
+  DomainEvent,
+  DomainEventType,
+  ListOptions,
+  NotificationFilters,
+  NotificationType,
+  PaginatedResponse,
+  Program,
+  User,
+  UserRole,
+  UserStatus,
+} from '../types/index.js';
+import { NotFoundError } from '../utils/errors.js';
+import { INBOX_TEMPLATES, renderTemplate, ROLE_LABELS } from './notification-templates.js';
+
+/**
+ * Default notice: a program's team hears about its end a week ahead
+ */
+export const DEFAULT_ENDING_NOTICE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Inbox entry the Client Manager gets for each outcome of a request they
+ * filed; a client promoted off the waitlist is enrolled, like an approved one
+ */
+const DECISION_NOTIFICATION_TYPES = {
+  [DomainEventType.ENROLLMENT_APPROVED]: NotificationType.ENROLLMENT_APPROVED,
+  [DomainEventType.ENROLLMENT_PROMOTED]: NotificationType.ENROLLMENT_APPROVED,
+  [DomainEventType.ENROLLMENT_REJECTED]: NotificationType.ENROLLMENT_REJECTED,
+  [DomainEventType.ENROLLMENT_WAITLISTED]: NotificationType.ENROLLMENT_WAITLISTED,
+};
+
+/**
+ * Inbox entry to hand out: who gets it, what it is about and the values of
+ * its message
+ */
+interface InboxDelivery {
+  type: NotificationType;
+  entityId: string;
+  recipients: User[];
+  values: Record<string, string>;
+}
+
+/**
+ * In-app notifications: fills each user's inbox from domain events and
+ * from programs nearing their end date, and lets users read it
+ */
+export class InboxService {
+  private notificationRepository: NotificationRepository;
+  private userRepository: UserRepository;
+  private programRepository: ProgramRepository;
+  private endingNoticeMs: number;
+
+  constructor(
+    notificationRepository: NotificationRepository,
+    userRepository: UserRepository,
+    programRepository: ProgramRepository,
+    endingNoticeMs: number = DEFAULT_ENDING_NOTICE_MS
+  ) {
+    this.notificationRepository = notificationRepository;
+    this.userRepository = userRepository;
+    this.programRepository = programRepository;
+    this.endingNoticeMs = endingNoticeMs;
+  }
+
+  /**
+   * Notify the users concerned by an event. The user behind the event is
+   * not told about their own action.
+   */
+  async handle(event: DomainEvent): Promise<Notification[]> {
+    const delivery = await this.describe(event);
+    if (!delivery) {
+      return [];
+    }
+
+    const notifications: Notification[] = [];
+    for (const recipient of delivery.recipients) {
+      if (recipient.id !== event.actorId) {
+        notifications.push(await this.notify(recipient, delivery));
+      }
+    }
+    return notifications;
+  }
+
+  /**
+   * Tell the team of each live program ending within the notice period,
+   * once per program and team member
+   * @returns The number of notifications created
+   */
+  async notifyEndingPrograms(now: Date = new Date()): Promise<number> {
+    const programs = await this.programRepository.findLiveEndingBetween(
+      now,
+      new Date(now.getTime() + this.endingNoticeMs)
+    );
+
+    let created = 0;
+    for (const program of programs) {
+      const delivery: InboxDelivery = {
+        type: NotificationType.PROGRAM_ENDING_SOON,
+        entityId: program.id,
+        recipients: await this.getProgramTeam(program),
+        values: { programTitle: program.title, endDate: program.endDate?.toISOString().slice(0, 10) ?? '' },
+      };
+      for (const recipient of delivery.recipients) {
+        if (!(await this.notificationRepository.hasNotification(recipient.id, delivery.type, program.id))) {
+          await this.notify(recipient, delivery);
+          created += 1;
+        }
+      }
+    }
+    return created;
+  }
+
+  /**
+   * List a user's notifications, newest first
+   */
+  async list(
+    recipientId: string,
+    filters: NotificationFilters,
+    options: ListOptions
+  ): Promise<PaginatedResponse<Notification>> {
+    return this.notificationRepository.findByRecipient(recipientId, filters, options);
+  }
+
+  /**
+   * Count a user's unread notifications
+   */
+  async countUnread(recipientId: string): Promise<number> {
+    return this.notificationRepository.countUnread(recipientId);
+  }
+
+  /**
+   * Mark one of a user's notifications read
+   * @throws {NotFoundError} If the notification does not exist or belongs to someone else
+   */
+  async markRead(id: string, recipientId: string): Promise<Notification> {
+    const notification = await this.notificationRepository.findById(id);
+    if (!notification || notification.recipientId !== recipientId) {
+      throw new NotFoundError('Notification not found', 'NOTIFICATION_NOT_FOUND');
+    }
+
+    if (!notification.isRead()) {
+      notification.markRead();
+      await this.notificationRepository.update(notification.id, { readAt: notification.readAt });
+    }
+    return notification;
+  }
+
+  /**
+   * Mark all of a user's notifications read
+   * @returns The number of notifications that were unread
+   */
+  async markAllRead(recipientId: string): Promise<number> {
+    return this.notificationRepository.markAllRead(recipientId);
+  }
+
+  private async notify(recipient: User, delivery: InboxDelivery): Promise<Notification> {
+    const message = renderTemplate(INBOX_TEMPLATES[delivery.type], delivery.values);
+    return this.notificationRepository.create(
+      Notification.create(recipient.id, delivery.type, delivery.entityId, message)
+    );
+  }
+
+  /**
+   * Which inbox entry an event makes, if any: Product People hear about new
+   * requests, Client Managers about decisions on the requests they filed
+   */
+  private async describe(event: DomainEvent): Promise<InboxDelivery | null> {
+    switch (event.type) {
+      case DomainEventType.REGISTRATION_SUBMITTED: {
+        const { request } = event.data;
+        const productPeople = await this.userRepository.findByRole(UserRole.PRODUCT_PEOPLE);
+        return {
+          type: NotificationType.REGISTRATION_SUBMITTED,
+          entityId: request.id,
+          recipients: productPeople.filter(user => user.status === UserStatus.ACTIVE),
+          values: { name: `${request.firstName} ${request.lastName}`, role: ROLE_LABELS[request.requestedRole] },
+        };
+      }
+      case DomainEventType.ENROLLMENT_SUBMITTED: {
+        const { request } = event.data;
+        const program = await this.programRepository.findById(request.programId);
+        return program && {
+          type: NotificationType.ENROLLMENT_SUBMITTED,
+          entityId: request.id,
+          recipients: await this.getProgramTeam(program),
+          values: { clientName: request.clientName, programTitle: program.title },
+        };
+      }
+      case DomainEventType.ENROLLMENT_APPROVED:
+      case DomainEventType.ENROLLMENT_PROMOTED:
+      case DomainEventType.ENROLLMENT_REJECTED:
+      case DomainEventType.ENROLLMENT_WAITLISTED: {
+        const { request } = event.data;
+        const program = await this.programRepository.findById(request.programId);
+        return program && {
+          type: DECISION_NOTIFICATION_TYPES[event.type],
+          entityId: request.id,
+          recipients: await this.userRepository.findActiveByIds([request.requestedBy]),
+          values: { clientName: request.clientName, programTitle: program.title, reason: request.rejectionReason ?? '' },
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Active creator and stakeholders of a program
+   */
+  private async getProgramTeam(program: Program): Promise<User[]> {
+    return this.userRepository.findActiveByIds([program.creatorId, ...program.stakeholders]);
+  }
+}
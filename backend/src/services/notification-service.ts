@@ -0,0 +1,228 @@
+import { OutboxMessage } from '../models/outbox-message.js';
+import { OutboxMessageRepository } from '../repositories/outbox-message-repository.js';
+import { UserRepository } from '../repositories/user-repository.js';
+import { ProgramRepository } from '../repositories/program-repository.js';
+import {
+  DomainEvent,
+  DomainEventType,
+  NotificationChannel,
+  OutboxStatus,
+  Program,
+  ProgramStatus,
+  UserRole,
+  UserStatus,
+} from '../types/index.js';
+import { renderMessage, ROLE_LABELS } from './notification-templates.js';
+
+/**
+ * How often the outbox is flushed
+ */
+export const DISPATCH_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Messages handled by one flush of the outbox
+ */
+export interface DispatchReport {
+  sent: number;
+  retrying: number; // Failed, to be retried later
+  failed: number; // Failed for the last time
+}
+
+/**
+ * Someone to notify, with the name the message greets them by
+ */
+interface Recipient {
+  id?: string | undefined;
+  email: string;
+  firstName: string;
+}
+
+/**
+ * Turns domain events into templated messages, queues them in the outbox
+ * and delivers them through a channel, retrying failed sends
+ */
+export class NotificationService {
+  private outboxMessageRepository: OutboxMessageRepository;
+  private userRepository: UserRepository;
+  private programRepository: ProgramRepository;
+  private channel: NotificationChannel;
+  private timer: NodeJS.Timeout | undefined;
+  private dispatching: Promise<DispatchReport> | undefined;
+
+  constructor(
+    outboxMessageRepository: OutboxMessageRepository,
+    userRepository: UserRepository,
+    programRepository: ProgramRepository,
+    channel: NotificationChannel
+  ) {
+    this.outboxMessageRepository = outboxMessageRepository;
+    this.userRepository = userRepository;
+    this.programRepository = programRepository;
+    this.channel = channel;
+  }
+
+  /**
+   * Queue the messages of an event, one per recipient. The user behind the
+   * event is not told about their own action.
+   */
+  async handle(event: DomainEvent): Promise<OutboxMessage[]> {
+    const { recipients, values } = await this.describe(event);
+    const seen = new Set<string>();
+    const messages: OutboxMessage[] = [];
+
+    for (const recipient of recipients) {
+      if (recipient.id === event.actorId || seen.has(recipient.email)) {
+        continue;
+      }
+      seen.add(recipient.email);
+      const message = renderMessage(event.type, recipient.email, { ...values, firstName: recipient.firstName });
+      messages.push(await this.outboxMessageRepository.create(OutboxMessage.create(message, event)));
+    }
+
+    if (messages.length > 0 && this.timer) {
+      this.run();
+    }
+    return messages;
+  }
+
+  /**
+   * Send the due messages of the outbox. Runs one at a time: a call made
+   * while a flush is under way gets that flush's report.
+   */
+  async dispatch(now: Date = new Date()): Promise<DispatchReport> {
+    this.dispatching ??= this.flush(now).finally(() => {
+      this.dispatching = undefined;
+    });
+    return this.dispatching;
+  }
+
+  /**
+   * Flush the outbox now, then every interval until stopped
+   */
+  start(intervalMs: number = DISPATCH_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.run(), intervalMs);
+    this.timer.unref(); // Never keeps the process alive on its own
+    this.run();
+  }
+
+  /**
+   * Stop the periodic flush
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private run(): void {
+    this.dispatch().catch(error => console.error('Notification dispatch failed:', error));
+  }
+
+  private async flush(now: Date): Promise<DispatchReport> {
+    const report: DispatchReport = { sent: 0, retrying: 0, failed: 0 };
+
+    for (const message of await this.outboxMessageRepository.findDue(now)) {
+      try {
+        await this.channel.send(message);
+        message.markSent(now);
+        report.sent += 1;
+      } catch (error) {
+        message.markFailed(error instanceof Error ? error.message : String(error), now);
+        if (message.status === OutboxStatus.FAILED) {
+          report.failed += 1;
+          console.error(`Giving up on notification ${message.id} to ${message.to}:`, message.lastError);
+        } else {
+          report.retrying += 1;
+        }
+      }
+      await this.outboxMessageRepository.update(message.id, message);
+    }
+
+    return report;
+  }
+
+  /**
+   * Who to tell about an event, and the values its template needs
+   */
+  private async describe(event: DomainEvent): Promise<{ recipients: Recipient[]; values: Record<string, string> }> {
+    switch (event.type) {
+      case DomainEventType.REGISTRATION_SUBMITTED: {
+        const { request } = event.data;
+        return {
+          recipients: await this.getActiveProductPeople(),
+          values: { name: `${request.firstName} ${request.lastName}`, role: ROLE_LABELS[request.requestedRole] },
+        };
+      }
+      case DomainEventType.REGISTRATION_APPROVED: {
+        const { user } = event.data;
+        return {
+          recipients: [user],
+          values: { email: user.email, role: ROLE_LABELS[user.role] },
+        };
+      }
+      case DomainEventType.REGISTRATION_REJECTED: {
+        const { request } = event.data;
+        return {
+          recipients: [request],
+          values: { reason: request.rejectionReason ?? '' },
+        };
+      }
+      case DomainEventType.ENROLLMENT_SUBMITTED:
+      case DomainEventType.ENROLLMENT_REVIEW_OVERDUE: {
+        const { request } = event.data;
+        const program = await this.programRepository.findById(request.programId);
+        return {
+          recipients: program ? await this.getProgramTeam(program) : [],
+          values: {
+            clientName: request.clientName,
+            programTitle: program?.title ?? 'a program',
+            filedOn: request.createdAt.toISOString().slice(0, 10),
+          },
+        };
+      }
+      case DomainEventType.ENROLLMENT_APPROVED:
+      case DomainEventType.ENROLLMENT_REJECTED:
+      case DomainEventType.ENROLLMENT_WAITLISTED:
+      case DomainEventType.ENROLLMENT_PROMOTED: {
+        const { request } = event.data;
+        const program = await this.programRepository.findById(request.programId);
+        return {
+          recipients: await this.userRepository.findActiveByIds([request.requestedBy]),
+          values: {
+            clientName: request.clientName,
+            programTitle: program?.title ?? 'a program',
+            reason: request.rejectionReason ?? '',
+          },
+        };
+      }
+      case DomainEventType.PROGRAM_STATUS_CHANGED: {
+        const { program, previousStatus } = event.data;
+        const recipients = await this.getProgramTeam(program);
+        // Client Managers can start enrolling their clients
+        if (program.status === ProgramStatus.LIVE) {
+          const managers = await this.userRepository.findByRole(UserRole.CLIENT_MANAGER);
+          recipients.push(...managers.filter(user => user.status === UserStatus.ACTIVE));
+        }
+        return {
+          recipients,
+          values: { programTitle: program.title, status: program.status, previousStatus },
+        };
+      }
+    }
+  }
+
+  /**
+   * Active creator and stakeholders of a program
+   */
+  private async getProgramTeam(program: Program): Promise<Recipient[]> {
+    return this.userRepository.findActiveByIds([program.creatorId, ...program.stakeholders]);
+  }
+
+  private async getActiveProductPeople(): Promise<Recipient[]> {
+    const users = await this.userRepository.findByRole(UserRole.PRODUCT_PEOPLE);
+    return users.filter(user => user.status === UserStatus.ACTIVE);
+  }
+}
@@ -0,0 +1,116 @@
+import { DomainEventType, NotificationMessage, NotificationType, UserRole } from '../types/index.js';
+
+/**
+ * Message template: `{{name}}` placeholders are replaced when rendered
+ */
+export interface MessageTemplate {
+  subject: string;
+  text: string;
+}
+
+/**
+ * Email sent to each recipient of a domain event. Every template gets the
+ * recipient's `firstName` on top of the event's own values.
+ */
+export const NOTIFICATION_TEMPLATES: Record<DomainEventType, MessageTemplate> = {
+  [DomainEventType.REGISTRATION_SUBMITTED]: {
+    subject: 'New registration request from {{name}}',
+    text: 'Hello {{firstName}},\n\n'
+      + '{{name}} asked to join AB-EAM as {{role}} and is waiting for a review.\n',
+  },
+  [DomainEventType.REGISTRATION_APPROVED]: {
+    subject: 'Your AB-EAM account is ready',
+    text: 'Hello {{firstName}},\n\n'
+      + 'Your registration request was approved. You can now sign in to AB-EAM with {{email}} as {{role}}.\n',
+  },
+  [DomainEventType.REGISTRATION_REJECTED]: {
+    subject: 'Your AB-EAM registration request',
+    text: 'Hello {{firstName}},\n\n'
+      + 'Your registration request was declined: {{reason}}\n',
+  },
+  [DomainEventType.ENROLLMENT_SUBMITTED]: {
+    subject: 'New enrollment request for {{programTitle}}',
+    text: 'Hello {{firstName}},\n\n'
+      + '{{clientName}} was proposed for {{programTitle}} and is waiting for a review.\n',
+  },
+  [DomainEventType.ENROLLMENT_APPROVED]: {
+    subject: '{{clientName}} joined {{programTitle}}',
+    text: 'Hello {{firstName}},\n\n'
+      + 'Your request to enroll {{clientName}} in {{programTitle}} was approved.\n',
+  },
+  [DomainEventType.ENROLLMENT_REJECTED]: {
+    subject: '{{clientName}} was not enrolled in {{programTitle}}',
+    text: 'Hello {{firstName}},\n\n'
+      + 'Your request to enroll {{clientName}} in {{programTitle}} was declined: {{reason}}\n',
+  },
+  [DomainEventType.ENROLLMENT_WAITLISTED]: {
+    subject: '{{clientName}} is on the waitlist of {{programTitle}}',
+    text: 'Hello {{firstName}},\n\n'
+      + 'Your request to enroll {{clientName}} in {{programTitle}} was approved, but the program is full: '
+      + '{{clientName}} will be enrolled as soon as a seat frees up.\n',
+  },
+  [DomainEventType.ENROLLMENT_PROMOTED]: {
+    subject: '{{clientName}} joined {{programTitle}}',
+    text: 'Hello {{firstName}},\n\n'
+      + 'A seat freed up in {{programTitle}}: {{clientName}} left the waitlist and is now enrolled.\n',
+  },
+  [DomainEventType.ENROLLMENT_REVIEW_OVERDUE]: {
+    subject: '{{clientName}} is still waiting for a review',
+    text: 'Hello {{firstName}},\n\n'
+      + '{{clientName}} was proposed for {{programTitle}} on {{filedOn}} and is still waiting for a review.\n',
+  },
+  [DomainEventType.PROGRAM_STATUS_CHANGED]: {
+    subject: '{{programTitle}} is now {{status}}',
+    text: 'Hello {{firstName}},\n\n'
+      + 'The program {{programTitle}} moved from {{previousStatus}} to {{status}}.\n',
+  },
+};
+
+/**
+ * One-line message of each in-app notification type
+ */
+export const INBOX_TEMPLATES: Record<NotificationType, string> = {
+  [NotificationType.REGISTRATION_SUBMITTED]: '{{name}} asked to join as {{role}}',
+  [NotificationType.ENROLLMENT_SUBMITTED]: '{{clientName}} was proposed for {{programTitle}}',
+  [NotificationType.ENROLLMENT_APPROVED]: '{{clientName}} was enrolled in {{programTitle}}',
+  [NotificationType.ENROLLMENT_REJECTED]: '{{clientName}} was not enrolled in {{programTitle}}: {{reason}}',
+  [NotificationType.ENROLLMENT_WAITLISTED]: '{{clientName}} is on the waitlist of {{programTitle}}',
+  [NotificationType.PROGRAM_ENDING_SOON]: '{{programTitle}} ends on {{endDate}}',
+};
+
+/**
+ * Names of the roles as users know them
+ */
+export const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.PRODUCT_PEOPLE]: 'Product People',
+  [UserRole.CLIENT_MANAGER]: 'Client Manager',
+};
+
+/**
+ * Replace the `{{name}}` placeholders of a template
+ * @throws {Error} If a placeholder has no value
+ */
+export const renderTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (_placeholder, name: string) => {
+    const value = values[name];
+    if (value === undefined) {
+      throw new Error(`No value for template placeholder ${name}`);
+    }
+    return value;
+  });
+
+/**
+ * Render the message of an event type for one recipient
+ */
+export const renderMessage = (
+  type: DomainEventType,
+  to: string,
+  values: Record<string, string>
+): NotificationMessage => {
+  const template = NOTIFICATION_TEMPLATES[type];
+  return {
+    to,
+    subject: renderTemplate(template.subject, values),
+    text: renderTemplate(template.text, values),
+  };
+};
@@ -0,0 +1,208 @@
+import { DomainEventBus } from '../config/domain-events.js';
+import { Client } from '../models/client.js';
+import { Program } from '../models/program.js';
+import { ProgramRepository } from '../repositories/program-repository.js';
+import { UserRepository } from '../repositories/user-repository.js';
+import {
+  CreateProgramRequest,
+  DomainEventType,
+  JobResult,
+  UpdateProgramRequest,
+  ProgramFilters,
+  ProgramStatus,
+  ListOptions,
+  PaginatedResponse,
+} from '../types/index.js';
+import { assertVersion, ConflictError, NotFoundError, ValidationError, withModelValidation } from '../utils/errors.js';
+import { WaitlistService } from './waitlist-service.js';
+
+/**
+ * Program management and lifecycle
+ */
+export class ProgramService {
+  private programRepository: ProgramRepository;
+  private userRepository: UserRepository;
+  private waitlistService: WaitlistService;
+  private events: DomainEventBus;
+
+  constructor(
+    programRepository: ProgramRepository,
+    userRepository: UserRepository,
+    waitlistService: WaitlistService,
+    events: DomainEventBus
+  ) {
+    this.programRepository = programRepository;
+    this.userRepository = userRepository;
+    this.waitlistService = waitlistService;
+    this.events = events;
+  }
+
+  /**
+   * List programs with filters and pagination
+   */
+  async list(filters: ProgramFilters, options: ListOptions): Promise<PaginatedResponse<Program>> {
+    return this.programRepository.findWithFilters(filters, options);
+  }
+
+  /**
+   * Get a program by ID
+   * @throws {NotFoundError} If the program does not exist
+   */
+  async getById(id: string): Promise<Program> {
+    const program = await this.programRepository.findById(id);
+    if (!program) {
+      throw new NotFoundError('Program not found', 'PROGRAM_NOT_FOUND');
+    }
+    return program;
+  }
+
+  /**
+   * Declare a new program in staging
+   */
+  async create(data: CreateProgramRequest, creatorId: string): Promise<Program> {
+    const program = withModelValidation(() => Program.create(data, creatorId));
+    await this.ensureStakeholdersAreProductPeople(program.stakeholders);
+
+    return this.programRepository.create(program);
+  }
+
+  /**
+   * Edit a program's description, stakeholders, window or capacity; a raised
+   * (or lifted) capacity lets waitlisted clients in
+   * @throws {ConflictError} If the program is archived or changed since the editor read it
+   */
+  async update(id: string, data: UpdateProgramRequest, expectedVersion?: number): Promise<Program> {
+    const program = await this.getById(id);
+    assertVersion(program, expectedVersion);
+    if (program.isArchived()) {
+      throw new ConflictError('Archived programs cannot be edited', 'PROGRAM_ARCHIVED');
+    }
+
+    withModelValidation(() => program.update(data));
+    if (data.stakeholders !== undefined) {
+      await this.ensureStakeholdersAreProductPeople(program.stakeholders);
+    }
+
+    await this.programRepository.update(program.id, program);
+    if (data.maxClients !== undefined) {
+      await this.waitlistService.fillOpenSeats(program.id);
+    }
+    return program;
+  }
+
+  /**
+   * List the clients waiting for a seat in a program, next in line first
+   * @throws {NotFoundError} If the program does not exist
+   */
+  async getWaitlist(id: string): Promise<Client[]> {
+    const program = await this.getById(id);
+    return this.waitlistService.list(program.id);
+  }
+
+  /**
+   * Move a program along its lifecycle
+   * @throws {ConflictError} If the transition is not allowed or the program changed since the caller read it
+   */
+  async transition(id: string, status: ProgramStatus, expectedVersion?: number): Promise<Program> {
+    const program = await this.getById(id);
+    assertVersion(program, expectedVersion);
+    if (!program.canTransitionTo(status)) {
+      throw new ConflictError(
+        `Cannot transition program from ${program.status} to ${status}`,
+        'INVALID_STATUS_TRANSITION'
+      );
+    }
+
+    const previousStatus = program.status;
+    program.transitionTo(status);
+    await this.programRepository.update(program.id, program);
+
+    await this.events.publish(DomainEventType.PROGRAM_STATUS_CHANGED, { program, previousStatus });
+    return program;
+  }
+
+  /**
+   * Delete a program that never left staging (restorable until purged)
+   * @throws {ConflictError} If the program already started or changed since the caller read it
+   */
+  async delete(id: string, expectedVersion?: number): Promise<void> {
+    const program = await this.getById(id);
+    assertVersion(program, expectedVersion);
+    if (!program.isPending()) {
+      throw new ConflictError('Only pending programs can be deleted; archive it instead', 'PROGRAM_NOT_PENDING');
+    }
+
+    await this.programRepository.delete(program.id);
+  }
+
+  /**
+   * Bring back a deleted program
+   * @throws {ConflictError} If the program is not deleted
+   */
+  async restore(id: string): Promise<Program> {
+    const program = await this.programRepository.restore(id);
+    if (program) {
+      return program;
+    }
+
+    if (await this.programRepository.exists(id)) {
+      throw new ConflictError('Program is not deleted', 'PROGRAM_NOT_DELETED');
+    }
+    throw new NotFoundError('Program not found', 'PROGRAM_NOT_FOUND');
+  }
+
+  /**
+   * Take live the pending programs whose start date has come
+   * @returns The programs started, and why the others were not
+   */
+  async startDuePrograms(now: Date): Promise<JobResult> {
+    return this.transitionAll(await this.programRepository.findPendingStartedBy(now), ProgramStatus.LIVE);
+  }
+
+  /**
+   * Stop the live programs whose end date has come
+   * @returns The programs stopped, and why the others were not
+   */
+  async stopEndedPrograms(now: Date): Promise<JobResult> {
+    return this.transitionAll(await this.programRepository.findLiveEndedBy(now), ProgramStatus.STOPPED);
+  }
+
+  /**
+   * Archive the programs stopped for `stoppedForMs`, whatever was edited since
+   * @returns The programs archived, and why the others were not
+   */
+  async archiveStoppedPrograms(now: Date, stoppedForMs: number): Promise<JobResult> {
+    const programs = await this.programRepository.findStoppedSince(new Date(now.getTime() - stoppedForMs));
+    return this.transitionAll(programs, ProgramStatus.ARCHIVED);
+  }
+
+  /**
+   * Apply a scheduled transition to each program, through the same path as
+   * manual transitions. A program that fails, e.g. changed by hand in the
+   * meantime, is reported and skipped: the others still go through.
+   */
+  private async transitionAll(programs: Program[], status: ProgramStatus): Promise<JobResult> {
+    const result: JobResult = { processed: 0, failures: [] };
+    for (const program of programs) {
+      try {
+        await this.transition(program.id, status);
+        result.processed += 1;
+      } catch (error) {
+        result.failures.push(`Program ${program.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Stakeholders must be existing Product People
+   */
+  private async ensureStakeholdersAreProductPeople(stakeholders: string[]): Promise<void> {
+    for (const stakeholderId of stakeholders) {
+      const user = await this.userRepository.findById(stakeholderId);
+      if (!user || !user.isProductPeople()) {
+        throw new ValidationError(`Stakeholder ${stakeholderId} is not a Product People user`);
+      }
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { Database } from '../config/database.js';
+import { UserRepository } from '../repositories/user-repository.js';
+import { ProgramRepository } from '../repositories/program-repository.js';
+import { EnrollmentRequestRepository } from '../repositories/enrollment-request-repository.js';
+
+/**
+ * Default retention: deleted rows can be restored for 30 days
+ */
+export const DEFAULT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Rows removed by one purge
+ */
+export interface PurgeReport {
+  enrollmentRequests: number;
+  programs: number;
+  users: number;
+}
+
+/**
+ * Hard-deletes soft-deleted rows once their retention period is over
+ */
+export class PurgeService {
+  private db: Database;
+  private enrollmentRequestRepository: EnrollmentRequestRepository;
+  private programRepository: ProgramRepository;
+  private userRepository: UserRepository;
+  private retentionMs: number;
+
+  constructor(
+    db: Database,
+    enrollmentRequestRepository: EnrollmentRequestRepository,
+    programRepository: ProgramRepository,
+    userRepository: UserRepository,
+    retentionMs: number = DEFAULT_RETENTION_MS
+  ) {
+    this.db = db;
+    this.enrollmentRequestRepository = enrollmentRequestRepository;
+    this.programRepository = programRepository;
+    this.userRepository = userRepository;
+    this.retentionMs = retentionMs;
+  }
+
+  /**
+   * Purge the rows deleted more than the retention period ago. Dependents
+   * go first so that a program and its creator can expire in the same run;
+   * rows still referenced stay in the bin (see Reference).
+   */
+  async purge(now: Date = new Date()): Promise<PurgeReport> {
+    const deletedBefore = new Date(now.getTime() - this.retentionMs);
+
+    return this.db.transaction(async tx => ({
+      enrollmentRequests: await this.enrollmentRequestRepository.withTransaction(tx).purgeDeleted(deletedBefore),
+      programs: await this.programRepository.withTransaction(tx).purgeDeleted(deletedBefore),
+      users: await this.userRepository.withTransaction(tx).purgeDeleted(deletedBefore),
+    }));
+  }
+}
@@ -0,0 +1,164 @@
+import { Database } from '../config/database.js';
+import { DomainEventBus } from '../config/domain-events.js';
+import { RegistrationRequest } from '../models/registration-request.js';
+import { User } from '../models/user.js';
+import { RegistrationRequestRepository } from '../repositories/registration-request-repository.js';
+import { UserRepository } from '../repositories/user-repository.js';
+import {
+  CreateRegistrationRequestRequest,
+  DomainEventType,
+  RegistrationRequestFilters,
+  ListOptions,
+  PaginatedResponse,
+  UserRole,
+} from '../types/index.js';
+import { assertVersion, ConflictError, NotFoundError, ValidationError, withModelValidation } from '../utils/errors.js';
+
+/**
+ * Outcome of an approval: the processed request and the account it created
+ */
+export interface RegistrationApproval {
+  request: RegistrationRequest;
+  user: User;
+}
+
+/**
+ * Registration request workflow: submission and review by Product People
+ */
+export class RegistrationRequestService {
+  private db: Database;
+  private registrationRequestRepository: RegistrationRequestRepository;
+  private userRepository: UserRepository;
+  private events: DomainEventBus;
+
+  constructor(
+    db: Database,
+    registrationRequestRepository: RegistrationRequestRepository,
+    userRepository: UserRepository,
+    events: DomainEventBus
+  ) {
+    this.db = db;
+    this.registrationRequestRepository = registrationRequestRepository;
+    this.userRepository = userRepository;
+    this.events = events;
+  }
+
+  /**
+   * Submit a new registration request (public)
+   * @throws {ConflictError} If the email already has an account or a pending request
+   */
+  async submit(data: CreateRegistrationRequestRequest): Promise<RegistrationRequest> {
+    const request = withModelValidation(() => RegistrationRequest.create(data));
+
+    if (await this.userRepository.emailExists(request.email)) {
+      throw new ConflictError('A user with this email already exists', 'EMAIL_ALREADY_REGISTERED');
+    }
+
+    if (await this.registrationRequestRepository.hasPendingRequest(request.email)) {
+      throw new ConflictError('A registration request is already pending for this email', 'REQUEST_ALREADY_PENDING');
+    }
+
+    await this.registrationRequestRepository.create(request);
+
+    await this.events.publish(DomainEventType.REGISTRATION_SUBMITTED, { request });
+    return request;
+  }
+
+  /**
+   * List registration requests with filters and pagination
+   */
+  async list(
+    filters: RegistrationRequestFilters,
+    options: ListOptions
+  ): Promise<PaginatedResponse<RegistrationRequest>> {
+    return this.registrationRequestRepository.findWithFilters(filters, options);
+  }
+
+  /**
+   * Get a registration request by ID
+   * @throws {NotFoundError} If the request does not exist
+   */
+  async getById(id: string): Promise<RegistrationRequest> {
+    const request = await this.registrationRequestRepository.findById(id);
+    if (!request) {
+      throw new NotFoundError('Registration request not found', 'REGISTRATION_REQUEST_NOT_FOUND');
+    }
+    return request;
+  }
+
+  /**
+   * Approve a request and create the matching active user, atomically
+   * @throws {ConflictError} If the request was already processed or changed
+   * since the reviewer read it, or the email is taken
+   */
+  async approve(
+    id: string,
+    approvedBy: string,
+    assignedRole?: UserRole,
+    expectedVersion?: number
+  ): Promise<RegistrationApproval> {
+    const request = await this.getProcessableRequest(id, expectedVersion);
+    const role = assignedRole ?? request.requestedRole;
+
+    if (await this.userRepository.emailExists(request.email)) {
+      throw new ConflictError('A user with this email already exists', 'EMAIL_ALREADY_REGISTERED');
+    }
+
+    withModelValidation(() => request.process({ approved: true, assignedRole: role }, approvedBy));
+    const user = withModelValidation(() =>
+      User.create({
+        email: request.email,
+        firstName: request.firstName,
+        lastName: request.lastName,
+        role,
+      })
+    );
+    user.activate();
+
+    await this.db.transaction(async tx => {
+      await this.registrationRequestRepository.withTransaction(tx).update(request.id, request);
+      await this.userRepository.withTransaction(tx).create(user);
+    });
+
+    await this.events.publish(DomainEventType.REGISTRATION_APPROVED, { request, user });
+    return { request, user };
+  }
+
+  /**
+   * Reject a request; a reason is mandatory
+   * @throws {ValidationError} If no reason is given
+   * @throws {ConflictError} If the request was already processed or changed since the reviewer read it
+   */
+  async reject(
+    id: string,
+    approvedBy: string,
+    rejectionReason: string,
+    expectedVersion?: number
+  ): Promise<RegistrationRequest> {
+    if (!rejectionReason || rejectionReason.trim().length === 0) {
+      throw new ValidationError('rejectionReason is required to reject a request');
+    }
+
+    const request = await this.getProcessableRequest(id, expectedVersion);
+    withModelValidation(() =>
+      request.process({ approved: false, rejectionReason: rejectionReason.trim() }, approvedBy)
+    );
+    await this.registrationRequestRepository.update(request.id, request);
+
+    await this.events.publish(DomainEventType.REGISTRATION_REJECTED, { request });
+    return request;
+  }
+
+  /**
+   * Load a request that is still pending, at the version the reviewer read.
+   * Saving it later fails too if another reviewer decides in the meantime.
+   */
+  private async getProcessableRequest(id: string, expectedVersion?: number): Promise<RegistrationRequest> {
+    const request = await this.getById(id);
+    if (!request.canBeProcessed()) {
+      throw new ConflictError(`Registration request has already been ${request.status.toLowerCase()}`, 'REQUEST_ALREADY_PROCESSED');
+    }
+    assertVersion(request, expectedVersion);
+    return request;
+  }
+}
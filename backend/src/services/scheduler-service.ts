@@ -0,0 +1,167 @@
+import { JobRun } from '../models/job-run.js';
+import { ScheduledJob } from '../models/scheduled-job.js';
+import { ScheduledJobRepository } from '../repositories/scheduled-job-repository.js';
+import { JobRunRepository } from '../repositories/job-run-repository.js';
+import { JobDefinition, JobName, JobRunFilters, ListOptions, PaginatedResponse } from '../types/index.js';
+import { NotFoundError } from '../utils/errors.js';
+
+/**
+ * How often the scheduler looks for due jobs
+ */
+export const SCHEDULER_TICK_MS = 60 * 1000;
+
+/**
+ * In-process job scheduler. Each job's next run is kept in the database, so
+ * a restart neither skips an overdue job nor reruns one early; runs a stopped
+ * process left unfinished are recorded as failed and simply run again, as
+ * jobs are idempotent.
+ */
+export class SchedulerService {
+  private scheduledJobRepository: ScheduledJobRepository;
+  private jobRunRepository: JobRunRepository;
+  private definitions = new Map<JobName, JobDefinition>();
+  private initializing: Promise<void> | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  private running: Promise<JobRun[]> | undefined;
+
+  constructor(scheduledJobRepository: ScheduledJobRepository, jobRunRepository: JobRunRepository) {
+    this.scheduledJobRepository = scheduledJobRepository;
+    this.jobRunRepository = jobRunRepository;
+  }
+
+  /**
+   * Add a job to the schedule
+   */
+  register(definition: JobDefinition): void {
+    this.definitions.set(definition.name, definition);
+  }
+
+  /**
+   * Run the jobs that are due, one after the other. Runs one pass at a time:
+   * a call made while a pass is under way gets that pass's runs.
+   */
+  async runDue(now: Date = new Date()): Promise<JobRun[]> {
+    this.running ??= this.runDueJobs(now).finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  /**
+   * Run a job straight away, leaving its schedule as it is
+   * @throws {NotFoundError} If no such job is registered
+   */
+  async runNow(name: JobName, now: Date = new Date()): Promise<JobRun> {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new NotFoundError('Job not found', 'JOB_NOT_FOUND');
+    }
+
+    await this.initialize(now);
+    return this.execute(definition, now);
+  }
+
+  /**
+   * List the schedule of every registered job
+   */
+  async listJobs(): Promise<ScheduledJob[]> {
+    await this.initialize();
+    const schedules = await this.scheduledJobRepository.findAllSchedules();
+    return schedules.filter(schedule => this.definitions.has(schedule.name));
+  }
+
+  /**
+   * List job runs, newest first
+   */
+  async listRuns(filters: JobRunFilters, options: ListOptions): Promise<PaginatedResponse<JobRun>> {
+    return this.jobRunRepository.findWithFilters(filters, options);
+  }
+
+  /**
+   * Look for due jobs now, then every tick until stopped
+   */
+  start(tickMs: number = SCHEDULER_TICK_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.run(), tickMs);
+    this.timer.unref(); // Never keeps the process alive on its own
+    this.run();
+  }
+
+  /**
+   * Stop the periodic check
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private run(): void {
+    this.runDue().catch(error => console.error('Scheduled jobs failed:', error));
+  }
+
+  /**
+   * Once per process: fail the runs left unfinished by the previous one and
+   * schedule the jobs seen for the first time, due at `now`
+   */
+  private async initialize(now: Date = new Date()): Promise<void> {
+    this.initializing ??= (async () => {
+      const interrupted = await this.jobRunRepository.failInterrupted(now);
+      if (interrupted > 0) {
+        console.warn(`Marked ${interrupted} interrupted job runs as failed`);
+      }
+
+      for (const definition of this.definitions.values()) {
+        const schedule = await this.scheduledJobRepository.findByName(definition.name);
+        if (!schedule) {
+          await this.scheduledJobRepository.create(ScheduledJob.create(definition.name, definition.intervalMs, now));
+        } else if (schedule.intervalMs !== definition.intervalMs) {
+          await this.scheduledJobRepository.update(schedule.id, { intervalMs: definition.intervalMs });
+        }
+      }
+    })().catch(error => {
+      this.initializing = undefined; // Tried again on the next call
+      throw error;
+    });
+    return this.initializing;
+  }
+
+  private async runDueJobs(now: Date): Promise<JobRun[]> {
+    await this.initialize(now);
+
+    const runs: JobRun[] = [];
+    for (const definition of this.definitions.values()) {
+      const schedule = await this.scheduledJobRepository.findByName(definition.name);
+      if (!schedule || !schedule.isDue(now)) {
+        continue;
+      }
+
+      runs.push(await this.execute(definition, now));
+      schedule.recordRun(now);
+      await this.scheduledJobRepository.update(schedule.id, schedule);
+    }
+    return runs;
+  }
+
+  /**
+   * Run a job once and record the run in the history
+   */
+  private async execute(definition: JobDefinition, now: Date): Promise<JobRun> {
+    const run = await this.jobRunRepository.create(JobRun.start(definition.name, now));
+
+    try {
+      run.succeed(await definition.run(now));
+      if (run.failed) {
+        console.warn(`Job ${definition.name} could not process ${run.failed} items:\n${run.error}`);
+      }
+    } catch (error) {
+      run.fail(error instanceof Error ? error.message : String(error));
+      console.error(`Job ${definition.name} failed:`, error);
+    }
+
+    await this.jobRunRepository.update(run.id, run);
+    return run;
+  }
+}
@@ -0,0 +1,41 @@
+import { User } from '../models/user.js';
+import { toMatchQuery } from '../repositories/base.js';
+import { SearchRepository } from '../repositories/search-repository.js';
+import { SearchResults } from '../types/index.js';
+import { ValidationError } from '../utils/errors.js';
+
+/**
+ * Hits returned per entity type unless the caller asks otherwise
+ */
+export const DEFAULT_SEARCH_LIMIT = 10;
+
+/**
+ * Unified full-text search over programs, clients and users
+ */
+export class SearchService {
+  private searchRepository: SearchRepository;
+
+  constructor(searchRepository: SearchRepository) {
+    this.searchRepository = searchRepository;
+  }
+
+  /**
+   * Search every entity type the viewer may browse. Users are only searched
+   * for Product People, who administer them.
+   * @throws {ValidationError} If the text holds no searchable word
+   */
+  async search(text: string, viewer: User, limit: number = DEFAULT_SEARCH_LIMIT): Promise<SearchResults> {
+    const match = toMatchQuery(text);
+    if (!match) {
+      throw new ValidationError('q must contain at least one letter or digit', 'INVALID_SEARCH_QUERY');
+    }
+
+    const [programs, clients, users] = await Promise.all([
+      this.searchRepository.searchPrograms(match, limit),
+      this.searchRepository.searchClients(match, limit),
+      viewer.isProductPeople() ? this.searchRepository.searchUsers(match, limit) : Promise.resolve([]),
+    ]);
+
+    return { query: text.trim(), programs, clients, users };
+  }
+}
@@ -0,0 +1,121 @@
+import { Session } from '../models/session.js';
+import { User } from '../models/user.js';
+import { UserRepository } from '../repositories/user-repository.js';
+import { SessionRepository } from '../repositories/session-repository.js';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors.js';
+
+/**
+ * Default session lifetime: 8 hours of inactivity
+ */
+export const DEFAULT_SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Session resolved together with its user
+ */
+export interface ActiveSession {
+  session: Session;
+  user: User;
+}
+
+/**
+ * Email-only session management (no passwords, see Pitch.md)
+ */
+export class SessionService {
+  private userRepository: UserRepository;
+  private sessionRepository: SessionRepository;
+  private ttlMs: number;
+
+  constructor(
+    userRepository: UserRepository,
+    sessionRepository: SessionRepository,
+    ttlMs: number = DEFAULT_SESSION_TTL_MS
+  ) {
+    this.userRepository = userRepository;
+    this.sessionRepository = sessionRepository;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Session lifetime in milliseconds
+   */
+  getTtlMs(): number {
+    return this.ttlMs;
+  }
+
+  /**
+   * Start a session for an approved user
+   * @throws {UnauthorizedError} If no user has this email
+   * @throws {ForbiddenError} If the user is not active
+   */
+  async login(email: string): Promise<ActiveSession> {
+    const user = await this.userRepository.findByEmail(email.trim());
+    if (!user) {
+      throw new UnauthorizedError('No user is registered with this email', 'UNKNOWN_EMAIL');
+    }
+
+    if (!user.isActive()) {
+      throw new ForbiddenError('User account is not active', 'USER_NOT_ACTIVE');
+    }
+
+    // Opportunistic cleanup of stale sessions
+    await this.sessionRepository.deleteExpired();
+
+    const session = Session.create(user.id, this.ttlMs);
+    await this.sessionRepository.create(session);
+
+    return { session, user };
+  }
+
+  /**
+   * End a session
+   */
+  async logout(sessionId: string): Promise<boolean> {
+    return this.sessionRepository.delete(sessionId);
+  }
+
+  /**
+   * Resolve a session ID to its session and user, sliding its expiry.
+   * Returns null (and drops the session) if it expired or its user is no
+   * longer active.
+   */
+  async resolve(sessionId: string): Promise<ActiveSession | null> {
+    const active = await this.check(sessionId);
+    if (!active) {
+      return null;
+    }
+
+    const { session } = active;
+    session.touch(this.ttlMs);
+    await this.sessionRepository.update(session.id, {
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+    });
+
+    return active;
+  }
+
+  /**
+   * Resolve a session ID like resolve, without counting it as activity:
+   * long-lived connections re-check their session this way and still let it
+   * expire
+   */
+  async check(sessionId: string): Promise<ActiveSession | null> {
+    const session = await this.sessionRepository.findById(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    if (session.isExpired()) {
+      await this.sessionRepository.delete(session.id);
+      return null;
+    }
+
+    const user = await this.userRepository.findById(session.userId);
+    if (!user || !user.isActive()) {
+      await this.sessionRepository.delete(session.id);
+      return null;
+    }
+
+    return { session, user };
+  }
+}
@@ -0,0 +1,172 @@
+import { Database } from '../config/database.js';
+import { Transaction } from '../config/transaction.js';
+import { User } from '../models/user.js';
+import { UserRepository } from '../repositories/user-repository.js';
+import { SessionRepository } from '../repositories/session-repository.js';
+import {
+  UpdateUserRequest,
+  UserFilters,
+  UserRole,
+  UserStatus,
+  ListOptions,
+  PaginatedResponse,
+} from '../types/index.js';
+import { assertVersion, ConflictError, NotFoundError, withModelValidation } from '../utils/errors.js';
+
+/**
+ * User administration (Product People only)
+ */
+export class UserService {
+  private db: Database;
+  private userRepository: UserRepository;
+  private sessionRepository: SessionRepository;
+
+  constructor(db: Database, userRepository: UserRepository, sessionRepository: SessionRepository) {
+    this.db = db;
+    this.userRepository = userRepository;
+    this.sessionRepository = sessionRepository;
+  }
+
+  /**
+   * List users with filters and pagination
+   */
+  async list(filters: UserFilters, options: ListOptions): Promise<PaginatedResponse<User>> {
+    return this.userRepository.findWithFilters(filters, options);
+  }
+
+  /**
+   * Get a user by ID
+   * @throws {NotFoundError} If the user does not exist
+   */
+  async getById(id: string): Promise<User> {
+    return this.getUser(this.userRepository, id);
+  }
+
+  /**
+   * Edit a user's profile, role or status
+   * @throws {ConflictError} If the email is taken, the last admin would be
+   * lost or the user changed since the editor read it
+   */
+  async update(id: string, data: UpdateUserRequest, expectedVersion?: number): Promise<User> {
+    return this.db.transaction(async tx => {
+      const users = this.userRepository.withTransaction(tx);
+      const user = await this.getUser(users, id);
+      assertVersion(user, expectedVersion);
+
+      if (data.email !== undefined && data.email !== user.email && (await users.emailExists(data.email))) {
+        throw new ConflictError('A user with this email already exists', 'EMAIL_ALREADY_REGISTERED');
+      }
+
+      const demoted = data.role !== undefined && data.role !== UserRole.PRODUCT_PEOPLE;
+      const deactivated = data.status !== undefined && data.status !== UserStatus.ACTIVE;
+      if (demoted || deactivated) {
+        await this.ensureNotLastAdmin(users, user);
+      }
+
+      withModelValidation(() => user.update(data));
+      return this.save(tx, user);
+    });
+  }
+
+  /**
+   * Deactivate a user and end their sessions
+   * @throws {ConflictError} If the user is the last active Product People or changed since the caller read it
+   */
+  async deactivate(id: string, expectedVersion?: number): Promise<User> {
+    return this.db.transaction(async tx => {
+      const users = this.userRepository.withTransaction(tx);
+      const user = await this.getUser(users, id);
+      assertVersion(user, expectedVersion);
+      await this.ensureNotLastAdmin(users, user);
+
+      user.deactivate();
+      return this.save(tx, user);
+    });
+  }
+
+  /**
+   * Reactivate a user
+   * @throws {ConflictError} If the user changed since the caller read it
+   */
+  async activate(id: string, expectedVersion?: number): Promise<User> {
+    return this.db.transaction(async tx => {
+      const user = await this.getUser(this.userRepository.withTransaction(tx), id);
+      assertVersion(user, expectedVersion);
+
+      user.activate();
+      return this.save(tx, user);
+    });
+  }
+
+  /**
+   * Soft-delete a user and end their sessions. What they created stays.
+   * @throws {ConflictError} If the user is the last active Product People or changed since the caller read it
+   */
+  async delete(id: string, expectedVersion?: number): Promise<void> {
+    await this.db.transaction(async tx => {
+      const users = this.userRepository.withTransaction(tx);
+      const user = await this.getUser(users, id);
+      assertVersion(user, expectedVersion);
+      await this.ensureNotLastAdmin(users, user);
+
+      await users.delete(user.id);
+      await this.sessionRepository.withTransaction(tx).deleteByUserId(user.id);
+    });
+  }
+
+  /**
+   * Bring back a deleted user
+   * @throws {ConflictError} If the user is not deleted
+   */
+  async restore(id: string): Promise<User> {
+    const user = await this.userRepository.restore(id);
+    if (user) {
+      return user;
+    }
+
+    if (await this.userRepository.exists(id)) {
+      throw new ConflictError('User is not deleted', 'USER_NOT_DELETED');
+    }
+    throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+  }
+
+  /**
+   * Load a user
+   */
+  private async getUser(users: UserRepository, id: string): Promise<User> {
+    const user = await users.findById(id);
+    if (!user) {
+      throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+    }
+    return user;
+  }
+
+  /**
+   * Persist a user, dropping their sessions once they are no longer active
+   */
+  private async save(tx: Transaction, user: User): Promise<User> {
+    await this.userRepository.withTransaction(tx).update(user.id, user);
+
+    if (!user.isActive()) {
+      await this.sessionRepository.withTransaction(tx).deleteByUserId(user.id);
+    }
+
+    return user;
+  }
+
+  /**
+   * Refuse to demote or deactivate the last active Product People, so the
+   * tool always keeps an admin. Run in the transaction of the change: two
+   * admins stepping down together cannot both see the other still active.
+   */
+  private async ensureNotLastAdmin(users: UserRepository, user: User): Promise<void> {
+    if (!user.isProductPeople() || !user.isActive()) {
+      return;
+    }
+
+    const activeAdmins = await users.countActiveByRole(UserRole.PRODUCT_PEOPLE);
+    if (activeAdmins <= 1) {
+      throw new ConflictError('The last active Product People cannot be demoted or deactivated', 'LAST_ACTIVE_ADMIN');
+    }
+  }
+}
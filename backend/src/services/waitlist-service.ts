@@ -0,0 +1,127 @@
+import { Database } from '../config/database.js';
+import { DomainEventBus } from '../config/domain-events.js';
+import { Transaction } from '../config/transaction.js';
+import { Client } from '../models/client.js';
+import { ClientRepository } from '../repositories/client-repository.js';
+import { EnrollmentRequestRepository } from '../repositories/enrollment-request-repository.js';
+import { ProgramRepository } from '../repositories/program-repository.js';
+import { DomainEventType } from '../types/index.js';
+
+/**
+ * Program seats: approved clients wait in line while their program is full
+ * and take the seats that free up, first come first served
+ */
+export class WaitlistService {
+  private db: Database;
+  private clientRepository: ClientRepository;
+  private programRepository: ProgramRepository;
+  private enrollmentRequestRepository: EnrollmentRequestRepository;
+  private events: DomainEventBus;
+
+  constructor(
+    db: Database,
+    clientRepository: ClientRepository,
+    programRepository: ProgramRepository,
+    enrollmentRequestRepository: EnrollmentRequestRepository,
+    events: DomainEventBus
+  ) {
+    this.db = db;
+    this.clientRepository = clientRepository;
+    this.programRepository = programRepository;
+    this.enrollmentRequestRepository = enrollmentRequestRepository;
+    this.events = events;
+  }
+
+  /**
+   * List the clients waiting for a seat in a program, next in line first
+   */
+  async list(programId: string): Promise<Client[]> {
+    return this.clientRepository.findWaitlist(programId);
+  }
+
+  /**
+   * Save an enrolled client coming back to life: it takes its seat again if
+   * the program has room, or else goes to the back of the waitlist, as its
+   * seat may have been given away while it was inactive
+   */
+  async readmit(client: Client, now: Date = new Date()): Promise<void> {
+    await this.db.transaction(async tx => {
+      const clients = this.clientRepository.withTransaction(tx);
+      const program = await this.programRepository.withTransaction(tx).findById(client.programId);
+      if (program && !program.hasRoomFor(await clients.countSeated(program.id))) {
+        client.waitlist(now);
+      }
+      await clients.update(client.id, client);
+    });
+
+    if (client.isWaitlisted()) {
+      const request = await this.enrollmentRequestRepository.findById(client.enrollmentRequestId);
+      if (request) {
+        await this.events.publish(DomainEventType.ENROLLMENT_WAITLISTED, { request, client });
+      }
+    }
+  }
+
+  /**
+   * Delete a client and, if it held a seat, hand the seat to the next in line
+   * in the same transaction
+   * @returns The promoted clients
+   */
+  async remove(client: Client, now: Date = new Date()): Promise<Client[]> {
+    const promoted = await this.db.transaction(async tx => {
+      await this.clientRepository.withTransaction(tx).delete(client.id);
+      return client.holdsSeat() ? this.promoteWaitlisted(tx, client.programId, now) : [];
+    });
+
+    await this.publishPromotions(promoted);
+    return promoted;
+  }
+
+  /**
+   * Promote waitlisted clients, in order, while the program has room
+   * @returns The promoted clients
+   */
+  async fillOpenSeats(programId: string, now: Date = new Date()): Promise<Client[]> {
+    const promoted = await this.db.transaction(tx => this.promoteWaitlisted(tx, programId, now));
+
+    await this.publishPromotions(promoted);
+    return promoted;
+  }
+
+  /**
+   * Seat the waitlisted clients of a program, in order, within a transaction
+   */
+  private async promoteWaitlisted(tx: Transaction, programId: string, now: Date): Promise<Client[]> {
+    const clients = this.clientRepository.withTransaction(tx);
+    const program = await this.programRepository.withTransaction(tx).findById(programId);
+    if (!program) {
+      return [];
+    }
+
+    const waitlist = await clients.findWaitlist(program.id);
+    let seated = await clients.countSeated(program.id);
+    const seatedNow: Client[] = [];
+    for (const client of waitlist) {
+      if (!program.hasRoomFor(seated)) {
+        break;
+      }
+      client.promote(now);
+      await clients.update(client.id, client);
+      seatedNow.push(client);
+      seated += 1;
+    }
+    return seatedNow;
+  }
+
+  /**
+   * Announce the promotions once committed
+   */
+  private async publishPromotions(promoted: Client[]): Promise<void> {
+    for (const client of promoted) {
+      const request = await this.enrollmentRequestRepository.findById(client.enrollmentRequestId);
+      if (request) {
+        await this.events.publish(DomainEventType.ENROLLMENT_PROMOTED, { request, client });
+      }
+    }
+  }
+}
@@ -0,0 +1,273 @@
+import { createHmac } from 'crypto';
+import http from 'http';
+import https from 'https';
+import { Webhook } from '../models/webhook.js';
+import { WebhookDelivery } from '../models/webhook-delivery.js';
+import { WebhookRepository } from '../repositories/webhook-repository.js';
+import { WebhookDeliveryRepository } from '../repositories/webhook-delivery-repository.js';
+import {
+  CreateWebhookRequest,
+  DomainEvent,
+  ListOptions,
+  PaginatedResponse,
+  UpdateWebhookRequest,
+  WebhookDeliveryFilters,
+  WebhookDeliveryStatus,
+} from '../types/index.js';
+import { NotFoundError, withModelValidation } from '../utils/errors.js';
+import { DispatchReport } from './notification-service.js';
+
+/**
+ * How often due deliveries are posted
+ */
+export const WEBHOOK_DISPATCH_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Time an endpoint has to answer a delivery
+ */
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Header carrying the delivery's signature: `sha256=` and the hex HMAC-SHA256
+ * of the raw body, keyed with the webhook's secret
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-AB-EAM-Signature';
+
+/**
+ * Signature of a delivery body, as sent in the signature header
+ */
+export const signWebhookPayload = (secret: string, payload: string): string =>
+  `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+
+/**
+ * POST a JSON body and resolve with the response status
+ */
+const postJson = (url: string, body: string, headers: Record<string, string>, timeoutMs: number): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const client = new URL(url).protocol === 'https:' ? https : http;
+    const request = client.request(url, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body).toString(),
+      },
+      timeout: timeoutMs,
+    }, response => {
+      response.resume(); // The response body is not used
+      resolve(response.statusCode ?? 0);
+    });
+    request.on('timeout', () => request.destroy(new Error(`No response within ${timeoutMs} ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+
+/**
+ * Outgoing webhooks: lets Product People register endpoints, queues a
+ * delivery per subscribed webhook for each domain event and posts them
+ * signed, retrying failed ones
+ */
+export class WebhookService {
+  private webhookRepository: WebhookRepository;
+  private webhookDeliveryRepository: WebhookDeliveryRepository;
+  private timeoutMs: number;
+  private timer: NodeJS.Timeout | undefined;
+  private dispatching: Promise<DispatchReport> | undefined;
+
+  constructor(
+    webhookRepository: WebhookRepository,
+    webhookDeliveryRepository: WebhookDeliveryRepository,
+    timeoutMs: number = DEFAULT_WEBHOOK_TIMEOUT_MS
+  ) {
+    this.webhookRepository = webhookRepository;
+    this.webhookDeliveryRepository = webhookDeliveryRepository;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * List webhooks with pagination
+   */
+  async list(options: ListOptions): Promise<PaginatedResponse<Webhook>> {
+    return this.webhookRepository.findAll(options);
+  }
+
+  /**
+   * Get a webhook by ID
+   * @throws {NotFoundError} If the webhook does not exist
+   */
+  async getById(id: string): Promise<Webhook> {
+    const webhook = await this.webhookRepository.findById(id);
+    if (!webhook) {
+      throw new NotFoundError('Webhook not found', 'WEBHOOK_NOT_FOUND');
+    }
+    return webhook;
+  }
+
+  /**
+   * Register a webhook; its signing secret is generated here
+   */
+  async create(data: CreateWebhookRequest, creatorId: string): Promise<Webhook> {
+    const webhook = withModelValidation(() => Webhook.create(data, creatorId));
+    return this.webhookRepository.create(webhook);
+  }
+
+  /**
+   * Edit a webhook's endpoint or subscriptions, or pause it
+   */
+  async update(id: string, data: UpdateWebhookRequest): Promise<Webhook> {
+    const webhook = await this.getById(id);
+    withModelValidation(() => webhook.update(data));
+
+    await this.webhookRepository.update(webhook.id, webhook);
+    return webhook;
+  }
+
+  /**
+   * Delete a webhook along with its delivery log
+   */
+  async delete(id: string): Promise<void> {
+    const webhook = await this.getById(id);
+    await this.webhookRepository.delete(webhook.id);
+  }
+
+  /**
+   * List the deliveries of a webhook, newest first
+   */
+  async listDeliveries(
+    webhookId: string,
+    filters: WebhookDeliveryFilters,
+    options: ListOptions
+  ): Promise<PaginatedResponse<WebhookDelivery>> {
+    const webhook = await this.getById(webhookId);
+    return this.webhookDeliveryRepository.findByWebhook(webhook.id, filters, options);
+  }
+
+  /**
+   * Queue a delivery's payload again, as a new delivery due straight away
+   * @throws {NotFoundError} If the delivery does not belong to the webhook
+   */
+  async redeliver(webhookId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await this.webhookDeliveryRepository.findById(deliveryId);
+    if (!delivery || delivery.webhookId !== webhookId) {
+      throw new NotFoundError('Webhook delivery not found', 'WEBHOOK_DELIVERY_NOT_FOUND');
+    }
+
+    const redelivery = await this.webhookDeliveryRepository.create(delivery.redeliver());
+    if (this.timer) {
+      this.run();
+    }
+    return redelivery;
+  }
+
+  /**
+   * Queue the deliveries of an event, one per webhook subscribed to its type
+   */
+  async handle(event: DomainEvent): Promise<WebhookDelivery[]> {
+    const webhooks = await this.webhookRepository.findSubscribed(event.type);
+    const payload = JSON.stringify(event);
+    const deliveries: WebhookDelivery[] = [];
+
+    for (const webhook of webhooks) {
+      deliveries.push(
+        await this.webhookDeliveryRepository.create(WebhookDelivery.create(webhook.id, event.id, event.type, payload))
+      );
+    }
+
+    if (deliveries.length > 0 && this.timer) {
+      this.run();
+    }
+    return deliveries;
+  }
+
+  /**
+   * Post the due deliveries. Runs one at a time: a call made while a flush
+   * is under way gets that flush's report.
+   */
+  async dispatch(now: Date = new Date()): Promise<DispatchReport> {
+    this.dispatching ??= this.flush(now).finally(() => {
+      this.dispatching = undefined;
+    });
+    return this.dispatching;
+  }
+
+  /**
+   * Post due deliveries now, then every interval until stopped
+   */
+  start(intervalMs: number = WEBHOOK_DISPATCH_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.run(), intervalMs);
+    this.timer.unref(); // Never keeps the process alive on its own
+    this.run();
+  }
+
+  /**
+   * Stop the periodic dispatch
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private run(): void {
+    this.dispatch().catch(error => console.error('Webhook dispatch failed:', error));
+  }
+
+  private async flush(now: Date): Promise<DispatchReport> {
+    const report: DispatchReport = { sent: 0, retrying: 0, failed: 0 };
+    const webhooks = new Map<string, Webhook | null>();
+
+    for (const delivery of await this.webhookDeliveryRepository.findDue(now)) {
+      if (!webhooks.has(delivery.webhookId)) {
+        webhooks.set(delivery.webhookId, await this.webhookRepository.findById(delivery.webhookId));
+      }
+      const webhook = webhooks.get(delivery.webhookId);
+      if (!webhook) {
+        continue; // Deleted during the flush; its deliveries went with it
+      }
+
+      await this.attempt(webhook, delivery, now);
+      if (delivery.status === WebhookDeliveryStatus.SUCCEEDED) {
+        report.sent += 1;
+      } else if (delivery.status === WebhookDeliveryStatus.FAILED) {
+        report.failed += 1;
+        console.error(`Giving up on webhook delivery ${delivery.id} to ${webhook.url}:`, delivery.lastError);
+      } else {
+        report.retrying += 1;
+      }
+      await this.webhookDeliveryRepository.update(delivery.id, delivery);
+    }
+
+    return report;
+  }
+
+  /**
+   * Post a delivery once and record the outcome; a paused webhook counts as
+   * a failed attempt, so its deliveries go out if it is resumed in time
+   */
+  private async attempt(webhook: Webhook, delivery: WebhookDelivery, now: Date): Promise<void> {
+    if (!webhook.active) {
+      delivery.markFailed('Webhook is inactive', undefined, now);
+      return;
+    }
+
+    try {
+      const status = await postJson(webhook.url, delivery.payload, {
+        'User-Agent': 'AB-EAM-Webhooks',
+        'X-AB-EAM-Event': delivery.eventType,
+        'X-AB-EAM-Delivery': delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, delivery.payload),
+      }, this.timeoutMs);
+
+      if (status >= 200 && status < 300) {
+        delivery.markSucceeded(status, now);
+      } else {
+        delivery.markFailed(`Endpoint answered HTTP ${status}`, status, now);
+      }
+    } catch (error) {
+      delivery.markFailed(error instanceof Error ? error.message : String(error), undefined, now);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import type { DateRange } from './query.js';
+
+/**
+ * Audited entity type enumeration
+ */
+export enum AuditEntityType {
+  USER = 'USER',
+  REGISTRATION_REQUEST = 'REGISTRATION_REQUEST',
+  PROGRAM = 'PROGRAM',
+  ENROLLMENT_REQUEST = 'ENROLLMENT_REQUEST',
+  CLIENT = 'CLIENT',
+  CLIENT_ACTIVITY = 'CLIENT_ACTIVITY',
+  CLIENT_ORGANIZATION = 'CLIENT_ORGANIZATION',
+  WEBHOOK = 'WEBHOOK'
+}
+
+/**
+ * Audited write enumeration
+ */
+export enum AuditAction {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+  RESTORE = 'RESTORE',
+  PURGE = 'PURGE'
+}
+
+/**
+ * Audit event interface: one write to an entity
+ */
+export interface AuditEvent {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  actorId?: string | undefined; // User behind the write; none for system jobs
+  before: Record<string, unknown> | null; // Changed fields before the write (null on create)
+  after: Record<string, unknown> | null; // Changed fields after the write (null on delete)
+  createdAt: Date;
+}
+
+/**
+ * Write handed to the audit log by a repository, with the entity as it was
+ * before and after
+ */
+export interface AuditEntry {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  before: object | null;
+  after: object | null;
+}
+
+/**
+ * Audit event filters interface
+ */
+export interface AuditEventFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  createdAt?: DateRange;
+}
+
+/**
+ * Audit event database interface
+ */
+export interface AuditEventDatabase {
+  id: string;
+  entity_type: string;
+  entity_id: string;
+  action: string;
+  actor_id?: string | null | undefined;
+  before?: string | null | undefined; // JSON object
+  after?: string | null | undefined; // JSON object
+  created_at: string;
+}
@@ -0,0 +1,44 @@
+/**
+ * Client engagement activity type enumeration
+ */
+export enum ClientActivityType {
+  FEEDBACK_GIVEN = 'FEEDBACK_GIVEN',
+  FEATURE_USED = 'FEATURE_USED',
+  CALL_HELD = 'CALL_HELD',
+  WENT_SILENT = 'WENT_SILENT'
+}
+
+/**
+ * Client activity interface (one engagement event)
+ */
+export interface ClientActivity {
+  id: string;
+  clientId: string;
+  type: ClientActivityType;
+  occurredAt: Date;
+  notes?: string | undefined;
+  recordedBy: string; // Product People user ID
+  createdAt: Date;
+}
+
+/**
+ * Client activity creation interface
+ */
+export interface CreateClientActivityRequest {
+  type: ClientActivityType;
+  occurredAt?: string | Date;
+  notes?: string;
+}
+
+/**
+ * Client activity database interface
+ */
+export interface ClientActivityDatabase {
+  id: string;
+  client_id: string;
+  type: string;
+  occurred_at: string;
+  notes?: string | null | undefined;
+  recorded_by: string;
+  created_at: string;
+}
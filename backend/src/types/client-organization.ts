@@ -0,0 +1,32 @@
+import type { DateRange } from './query.js';
+
+/**
+ * Client organisation interface: one customer across all programs,
+ * identified by its name and account IDs
+ */
+export interface ClientOrganization {
+  id: string;
+  name: string;
+  accountIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Client organisation database interface
+ */
+export interface ClientOrganizationDatabase {
+  id: string;
+  name: string;
+  account_ids?: string | null | undefined; // JSON array of account IDs
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Client organisation filters interface
+ */
+export interface ClientOrganizationFilters {
+  search?: string; // Full-text search in name, account IDs
+  createdAt?: DateRange;
+}
@@ -0,0 +1,29 @@
+/**
+ * Client interface (a client enrolled in a program)
+ */
+export interface Client {
+  id: string;
+  programId: string;
+  organizationId?: string | undefined;
+  enrollmentRequestId: string;
+  accountIds: string[];
+  isActive: boolean;
+  enrolledAt: Date; // When it took its seat
+  waitlistedAt?: Date | undefined; // Set while it waits for a seat
+  updatedAt: Date;
+}
+
+/**
+ * Client database interface
+ */
+export interface ClientDatabase {
+  id: string;
+  program_id: string;
+  organization_id?: string | null | undefined;
+  enrollment_request_id: string;
+  account_ids?: string | null | undefined; // JSON array of account IDs
+  is_active: number | boolean;
+  enrolled_at: string;
+  waitlisted_at?: string | null | undefined;
+  updated_at: string;
+}
@@ -0,0 +1,110 @@
+import type { DateRange } from './query.js';
+
+/**
+ * Enrollment request status enumeration
+ */
+export enum EnrollmentRequestStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED'
+}
+
+/**
+ * Contact user interface (client-side person to contact)
+ */
+export interface ContactUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  createdAt: Date;
+}
+
+/**
+ * Contact user creation interface
+ */
+export interface CreateContactUserRequest {
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+/**
+ * Enrollment request interface
+ */
+export interface EnrollmentRequest {
+  id: string;
+  programId: string;
+  clientName: string;
+  accountIds: string[];
+  motivation?: string | undefined;
+  status: EnrollmentRequestStatus;
+  requestedBy: string; // Client Manager user ID
+  createdAt: Date;
+  updatedAt: Date;
+  version: number; // Bumped by every update (optimistic concurrency)
+  reviewedBy?: string | undefined; // Product People user ID who approved/rejected
+  reviewedAt?: Date | undefined;
+  rejectionReason?: string | undefined;
+}
+
+/**
+ * Enrollment request creation interface
+ */
+export interface CreateEnrollmentRequestRequest {
+  programId: string;
+  clientName: string;
+  accountIds: string[];
+  contacts: CreateContactUserRequest[];
+  motivation?: string;
+}
+
+/**
+ * Enrollment request review interface
+ */
+export interface ReviewEnrollmentRequestRequest {
+  approved: boolean;
+  rejectionReason?: string;
+}
+
+/**
+ * Contact user database interface
+ */
+export interface ContactUserDatabase {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  created_at: string;
+}
+
+/**
+ * Enrollment request database interface
+ */
+export interface EnrollmentRequestDatabase {
+  id: string;
+  program_id: string;
+  client_name: string;
+  account_ids?: string | null | undefined; // JSON array of account IDs
+  motivation?: string | null | undefined;
+  status: string;
+  requested_by: string;
+  created_at: string;
+  updated_at: string;
+  version?: number | undefined;
+  reviewed_by?: string | null | undefined;
+  reviewed_at?: string | null | undefined;
+  rejection_reason?: string | null | undefined;
+}
+
+/**
+ * Enrollment request query filters
+ */
+export interface EnrollmentRequestFilters {
+  status?: EnrollmentRequestStatus;
+  programId?: string;
+  requestedBy?: string;
+  search?: string; // Search in client name
+  createdAt?: DateRange;
+  reviewedAt?: DateRange;
+}
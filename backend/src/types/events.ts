@@ -0,0 +1,59 @@
+import type { RegistrationRequest, User } from './user.js';
+import type { Program, ProgramStatus } from './program.js';
+import type { EnrollmentRequest } from './enrollment.js';
+import type { Client } from './client.js';
+
+/**
+ * Domain event type enumeration: what happened in a workflow
+ */
+export enum DomainEventType {
+  REGISTRATION_SUBMITTED = 'REGISTRATION_SUBMITTED',
+  REGISTRATION_APPROVED = 'REGISTRATION_APPROVED',
+  REGISTRATION_REJECTED = 'REGISTRATION_REJECTED',
+  ENROLLMENT_SUBMITTED = 'ENROLLMENT_SUBMITTED',
+  ENROLLMENT_APPROVED = 'ENROLLMENT_APPROVED',
+  ENROLLMENT_REJECTED = 'ENROLLMENT_REJECTED',
+  ENROLLMENT_WAITLISTED = 'ENROLLMENT_WAITLISTED',
+  ENROLLMENT_PROMOTED = 'ENROLLMENT_PROMOTED',
+  ENROLLMENT_REVIEW_OVERDUE = 'ENROLLMENT_REVIEW_OVERDUE',
+  PROGRAM_STATUS_CHANGED = 'PROGRAM_STATUS_CHANGED'
+}
+
+/**
+ * Data carried by each domain event type
+ */
+export interface DomainEventData {
+  [DomainEventType.REGISTRATION_SUBMITTED]: { request: RegistrationRequest };
+  [DomainEventType.REGISTRATION_APPROVED]: { request: RegistrationRequest; user: User };
+  [DomainEventType.REGISTRATION_REJECTED]: { request: RegistrationRequest };
+  [DomainEventType.ENROLLMENT_SUBMITTED]: { request: EnrollmentRequest };
+  [DomainEventType.ENROLLMENT_APPROVED]: { request: EnrollmentRequest; client: Client };
+  [DomainEventType.ENROLLMENT_REJECTED]: { request: EnrollmentRequest };
+  [DomainEventType.ENROLLMENT_WAITLISTED]: { request: EnrollmentRequest; client: Client };
+  [DomainEventType.ENROLLMENT_PROMOTED]: { request: EnrollmentRequest; client: Client };
+  [DomainEventType.ENROLLMENT_REVIEW_OVERDUE]: { request: EnrollmentRequest };
+  [DomainEventType.PROGRAM_STATUS_CHANGED]: { program: Program; previousStatus: ProgramStatus };
+}
+
+/**
+ * Domain event interface, published once the workflow's writes are committed.
+ * Narrowing on `type` gives the matching `data`.
+ */
+export type DomainEvent = {
+  [K in DomainEventType]: {
+    id: string;
+    type: K;
+    actorId?: string | undefined; // User behind the workflow; none for system jobs
+    occurredAt: Date;
+    data: DomainEventData[K];
+  };
+}[DomainEventType];
+
+/**
+ * Domain event as sent on the live event stream: the sequence number is the
+ * stream's event ID, which clients send back as `Last-Event-ID` to resume
+ */
+export interface StreamedEvent {
+  sequence: number;
+  event: DomainEvent;
+}
@@ -1,2 +1,35 @@
 // Export all user-related types
-export * from './user'; 
\ No newline at end of file
+export * from './user';
+
+// Export session types
+export * from './session';
+
+// Export program types
+export * from './program';
+
+// Export enrollment and client types
+export * from './enrollment';
+export * from './client';
+export * from './client-activity';
+export * from './client-organization';
+
+// Export list query types (sorting, date ranges)
+export * from './query';
+
+// Export full-text search types
+export * from './search';
+
+// Export audit log types
+export * from './audit';
+
+// Export domain event types
+export * from './events';
+
+// Export notification types
+export * from './notification';
+
+// Export webhook types
+export * from './webhook';
+
+// Export scheduler types
+export * from './scheduler';
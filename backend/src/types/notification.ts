@@ -0,0 +1,111 @@
+import type { DomainEventType } from './events.js';
+
+/**
+ * Outbox message status enumeration
+ */
+export enum OutboxStatus {
+  PENDING = 'PENDING', // Waiting for its first or next attempt
+  SENT = 'SENT',
+  FAILED = 'FAILED' // Gave up after the last attempt
+}
+
+/**
+ * Message handed to a notification channel
+ */
+export interface NotificationMessage {
+  to: string; // Email address
+  subject: string;
+  text: string;
+}
+
+/**
+ * Way of delivering notifications (SMTP, file, ...)
+ */
+export interface NotificationChannel {
+  readonly name: string;
+  /**
+   * Deliver a message, or throw so that it is retried later
+   */
+  send(message: NotificationMessage): Promise<void>;
+}
+
+/**
+ * Outbox message interface: a notification waiting to be, or already, sent
+ */
+export interface OutboxMessage extends NotificationMessage {
+  id: string;
+  eventId: string;
+  eventType: DomainEventType;
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string | undefined;
+  nextAttemptAt: Date;
+  sentAt?: Date | undefined;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Outbox message database interface
+ */
+export interface OutboxMessageDatabase {
+  id: string;
+  event_id: string;
+  event_type: string;
+  recipient: string;
+  subject: string;
+  body: string;
+  status: string;
+  attempts: number;
+  last_error?: string | null | undefined;
+  next_attempt_at: string;
+  sent_at?: string | null | undefined;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * In-app notification type enumeration
+ */
+export enum NotificationType {
+  REGISTRATION_SUBMITTED = 'REGISTRATION_SUBMITTED',
+  ENROLLMENT_SUBMITTED = 'ENROLLMENT_SUBMITTED',
+  ENROLLMENT_APPROVED = 'ENROLLMENT_APPROVED',
+  ENROLLMENT_REJECTED = 'ENROLLMENT_REJECTED',
+  ENROLLMENT_WAITLISTED = 'ENROLLMENT_WAITLISTED',
+  PROGRAM_ENDING_SOON = 'PROGRAM_ENDING_SOON'
+}
+
+/**
+ * In-app notification interface: an inbox entry of one user
+ */
+export interface Notification {
+  id: string;
+  recipientId: string;
+  type: NotificationType;
+  entityId: string; // Registration request, enrollment request or program it is about
+  message: string;
+  readAt?: Date | undefined;
+  createdAt: Date;
+}
+
+/**
+ * In-app notification filters interface
+ */
+export interface NotificationFilters {
+  unread?: boolean;
+  type?: NotificationType;
+}
+
+/**
+ * In-app notification database interface
+ */
+export interface NotificationDatabase {
+  id: string;
+  recipient_id: string;
+  type: string;
+  entity_id: string;
+  message: string;
+  read_at?: string | null | undefined;
+  created_at: string;
+}
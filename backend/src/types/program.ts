@@ -0,0 +1,92 @@
+import type { DateRange } from './query.js';
+
+/**
+ * Program status enumeration
+ */
+export enum ProgramStatus {
+  PENDING = 'PENDING',
+  LIVE = 'LIVE',
+  STOPPED = 'STOPPED',
+  ARCHIVED = 'ARCHIVED'
+}
+
+/**
+ * Program interface
+ */
+export interface Program {
+  id: string;
+  title: string;
+  description?: string | undefined;
+  creatorId: string;
+  stakeholders: string[]; // Product People user IDs
+  startDate?: Date | undefined;
+  endDate?: Date | undefined;
+  maxClients?: number | undefined; // Most clients enrolled at once; no limit when unset
+  status: ProgramStatus;
+  statusChangedAt: Date; // Entered its current status
+  createdAt: Date;
+  updatedAt: Date;
+  version: number; // Bumped by every update (optimistic concurrency)
+}
+
+/**
+ * Program creation interface
+ */
+export interface CreateProgramRequest {
+  title: string;
+  description?: string;
+  stakeholders?: string[];
+  startDate?: string | Date;
+  endDate?: string | Date;
+  maxClients?: number;
+}
+
+/**
+ * Program update interface (status changes go through transitions)
+ */
+export interface UpdateProgramRequest {
+  title?: string;
+  description?: string;
+  stakeholders?: string[];
+  startDate?: string | Date;
+  endDate?: string | Date;
+  maxClients?: number | null; // null lifts the limit
+}
+
+/**
+ * Program status transition interface
+ */
+export interface TransitionProgramRequest {
+  status: ProgramStatus;
+}
+
+/**
+ * Program database interface
+ */
+export interface ProgramDatabase {
+  id: string;
+  title: string;
+  description?: string | null | undefined;
+  creator_id: string;
+  stakeholders?: string | null | undefined; // JSON array of user IDs
+  start_date?: string | null | undefined;
+  end_date?: string | null | undefined;
+  max_clients?: number | null | undefined;
+  status: string;
+  status_changed_at?: string | null | undefined; // Filled in from updated_at by the migration adding it
+  created_at: string;
+  updated_at: string;
+  version?: number | undefined;
+}
+
+/**
+ * Program query filters
+ */
+export interface ProgramFilters {
+  status?: ProgramStatus;
+  creatorId?: string;
+  search?: string; // Full-text search in title, description
+  createdAt?: DateRange;
+  startDate?: DateRange;
+  endDate?: DateRange;
+}
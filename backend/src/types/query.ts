@@ -0,0 +1,30 @@
+import type { PaginationOptions } from './user.js';
+
+/**
+ * Sort direction of a list
+ */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Caller-chosen sorting: `sortBy` is one of the repository's sort keys
+ */
+export interface SortOptions {
+  sortBy?: string;
+  sortOrder?: SortOrder;
+}
+
+/**
+ * Inclusive date range; either bound may be left open
+ */
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Pagination and sorting of a list query. Setting `cursor` (empty for the
+ * first page) switches from page numbers to keyset pagination.
+ */
+export interface ListOptions extends Partial<PaginationOptions>, SortOptions {
+  cursor?: string;
+}
@@ -0,0 +1,103 @@
+/**
+ * Scheduled job enumeration: the time-driven work of the scheduler
+ */
+export enum JobName {
+  START_PROGRAMS = 'START_PROGRAMS', // PENDING programs go LIVE on their start date
+  STOP_PROGRAMS = 'STOP_PROGRAMS', // LIVE programs are STOPPED on their end date
+  ARCHIVE_PROGRAMS = 'ARCHIVE_PROGRAMS', // Programs left STOPPED long enough are ARCHIVED
+  REMIND_PENDING_ENROLLMENTS = 'REMIND_PENDING_ENROLLMENTS', // Reviewers hear about requests left pending
+  REFRESH_CLIENT_ENGAGEMENT = 'REFRESH_CLIENT_ENGAGEMENT', // Clients unheard of for the engagement window go inactive
+  NOTIFY_ENDING_PROGRAMS = 'NOTIFY_ENDING_PROGRAMS', // Program teams hear about programs nearing their end date
+  PURGE_DELETED_ROWS = 'PURGE_DELETED_ROWS' // Soft-deleted rows past their retention period are hard-deleted
+}
+
+/**
+ * Job run status enumeration
+ */
+export enum JobRunStatus {
+  RUNNING = 'RUNNING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED'
+}
+
+/**
+ * Outcome of a job working through several items: how many it processed,
+ * and why each of the others failed. Failed items do not fail the run.
+ */
+export interface JobResult {
+  processed: number;
+  failures: string[];
+}
+
+/**
+ * Work of a job. It must be idempotent: a run interrupted by a restart is
+ * simply run again.
+ */
+export interface JobDefinition {
+  name: JobName;
+  intervalMs: number;
+  /**
+   * Do the work due at `now`
+   * @returns The number of items processed, or the outcome item by item
+   */
+  run(now: Date): Promise<number | JobResult>;
+}
+
+/**
+ * Scheduled job interface: when a job last ran and runs next, persisted so
+ * that the schedule survives restarts
+ */
+export interface ScheduledJob {
+  id: string;
+  name: JobName;
+  intervalMs: number;
+  lastRunAt?: Date | undefined;
+  nextRunAt: Date;
+}
+
+/**
+ * Scheduled job database interface
+ */
+export interface ScheduledJobDatabase {
+  id: string;
+  name: string;
+  interval_ms: number;
+  last_run_at?: string | null | undefined;
+  next_run_at: string;
+}
+
+/**
+ * Job run interface: one execution of a job, kept as the run history
+ */
+export interface JobRun {
+  id: string;
+  jobName: JobName;
+  status: JobRunStatus;
+  processed?: number | undefined; // Items processed by a successful run
+  failed?: number | undefined; // Items a successful run could not process, listed in error
+  error?: string | undefined;
+  startedAt: Date;
+  finishedAt?: Date | undefined;
+}
+
+/**
+ * Job run database interface
+ */
+export interface JobRunDatabase {
+  id: string;
+  job_name: string;
+  status: string;
+  processed?: number | null | undefined;
+  failed?: number | null | undefined;
+  error?: string | null | undefined;
+  started_at: string;
+  finished_at?: string | null | undefined;
+}
+
+/**
+ * Job run filters interface
+ */
+export interface JobRunFilters {
+  jobName?: JobName;
+  status?: JobRunStatus;
+}
@@ -0,0 +1,30 @@
+/**
+ * Kinds of records the unified search returns
+ */
+export enum SearchEntityType {
+  PROGRAM = 'PROGRAM',
+  CLIENT = 'CLIENT',
+  USER = 'USER',
+}
+
+/**
+ * One search result. `highlights` maps each matching field to an
+ * HTML-escaped excerpt with the matched words wrapped in `<mark>`.
+ */
+export interface SearchHit {
+  id: string;
+  type: SearchEntityType;
+  title: string;
+  highlights: Record<string, string>;
+  score: number; // Higher is more relevant
+}
+
+/**
+ * Search results grouped by entity type, best match first in each group
+ */
+export interface SearchResults {
+  query: string;
+  programs: SearchHit[];
+  clients: SearchHit[];
+  users: SearchHit[];
+}
@@ -0,0 +1,41 @@
+import type { User } from '../models/user.js';
+import type { Session as SessionModel } from '../models/session.js';
+
+/**
+ * Session interface
+ */
+export interface Session {
+  id: string;
+  userId: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Session creation interface (email-only, no password)
+ */
+export interface CreateSessionRequest {
+  email: string;
+}
+
+/**
+ * Session database interface
+ */
+export interface SessionDatabase {
+  id: string;
+  user_id: string;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+}
+
+/**
+ * Requests carry the current session and its user once resolved
+ */
+declare module 'express-serve-static-core' {
+  interface Request {
+    session?: SessionModel;
+    user?: User;
+  }
+}
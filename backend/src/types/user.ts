@@ -1,3 +1,5 @@
+import type { DateRange, ListOptions } from './query.js';
+
 /**
  * User role enumeration
  */
@@ -36,6 +38,7 @@ export interface User {
   status: UserStatus;
   createdAt: Date;
   updatedAt: Date;
+  version: number; // Bumped by every update (optimistic concurrency)
 }
 
 /**
@@ -71,6 +74,7 @@ export interface RegistrationRequest {
   status: RegistrationRequestStatus;
   createdAt: Date;
   updatedAt: Date;
+  version: number; // Bumped by every update (optimistic concurrency)
   approvedBy?: string | undefined; // User ID who approved/rejected
   approvedAt?: Date | undefined;
   rejectionReason?: string | undefined;
@@ -107,6 +111,7 @@ export interface UserDatabase {
   status: string;
   created_at: string;
   updated_at: string;
+  version?: number | undefined;
 }
 
 /**
@@ -121,6 +126,7 @@ export interface RegistrationRequestDatabase {
   status: string;
   created_at: string;
   updated_at: string;
+  version?: number | undefined;
   approved_by?: string | undefined;
   approved_at?: string | undefined;
   rejection_reason?: string | undefined;
@@ -133,7 +139,8 @@ export interface UserFilters {
   role?: UserRole;
   status?: UserStatus;
   email?: string;
-  search?: string; // Search in firstName, lastName, email
+  search?: string; // Full-text search in firstName, lastName, email
+  createdAt?: DateRange;
 }
 
 /**
@@ -144,6 +151,7 @@ export interface RegistrationRequestFilters {
   requestedRole?: UserRole;
   email?: string;
   search?: string;
+  createdAt?: DateRange;
 }
 
 /**
@@ -154,15 +162,39 @@ export interface PaginationOptions {
   limit: number;
 }
 
+/**
+ * Page-number pagination: position and totals
+ */
+export interface OffsetPagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+/**
+ * Keyset pagination: opaque tokens for the neighbouring pages (null at either end)
+ */
+export interface CursorPagination {
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+/**
+ * Pagination a listing answers with for its options: page numbers, unless
+ * they carry a cursor; either one when that is only known at run time
+ */
+export type PaginationFor<O extends ListOptions> = O extends { cursor: string }
+  ? CursorPagination
+  : 'cursor' extends keyof O
+    ? OffsetPagination | CursorPagination
+    : OffsetPagination;
+
 /**
  * Paginated response interface
  */
-export interface PaginatedResponse<T> {
+export interface PaginatedResponse<T, P extends OffsetPagination | CursorPagination = OffsetPagination | CursorPagination> {
   data: T[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    pages: number;
-  };
+  pagination: P;
 } 
\ No newline at end of file
@@ -0,0 +1,105 @@
+import type { DomainEventType } from './events.js';
+
+/**
+ * Webhook delivery status enumeration
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING', // Waiting for its first or next attempt
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED' // Gave up after the last attempt
+}
+
+/**
+ * Webhook interface: an endpoint told about the events it subscribed to
+ */
+export interface Webhook {
+  id: string;
+  url: string;
+  description?: string | undefined;
+  events: DomainEventType[];
+  secret: string; // Signs the deliveries; only shown when the webhook is created
+  active: boolean;
+  creatorId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Webhook creation interface
+ */
+export interface CreateWebhookRequest {
+  url: string;
+  description?: string;
+  events: DomainEventType[];
+}
+
+/**
+ * Webhook update interface
+ */
+export interface UpdateWebhookRequest {
+  url?: string;
+  description?: string;
+  events?: DomainEventType[];
+  active?: boolean;
+}
+
+/**
+ * Webhook database interface
+ */
+export interface WebhookDatabase {
+  id: string;
+  url: string;
+  description?: string | null | undefined;
+  events: string; // JSON array of event types
+  secret: string;
+  active: number;
+  creator_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Webhook delivery interface: one event posted to one webhook
+ */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  eventType: DomainEventType;
+  payload: string; // JSON body, sent as is on every attempt
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number | undefined; // HTTP status of the last attempt
+  lastError?: string | undefined;
+  nextAttemptAt: Date;
+  deliveredAt?: Date | undefined;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Webhook delivery database interface
+ */
+export interface WebhookDeliveryDatabase {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event_type: string;
+  payload: string;
+  status: string;
+  attempts: number;
+  response_status?: number | null | undefined;
+  last_error?: string | null | undefined;
+  next_attempt_at: string;
+  delivered_at?: string | null | undefined;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Webhook delivery filters interface
+ */
+export interface WebhookDeliveryFilters {
+  status?: WebhookDeliveryStatus;
+  eventType?: DomainEventType;
+}
@@ -0,0 +1,12 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+/**
+ * Wrap an async route handler so rejected promises reach the error handler
+ */
+export const asyncHandler = (
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res, next).catch(next);
+  };
+};
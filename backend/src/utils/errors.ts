@@ -0,0 +1,89 @@
+/**
+ * Base application error carrying an HTTP status and an error code.
+ * Errors of this type are rendered by the global error handler using the
+ * standard `{ success, error, code }` envelope.
+ */
+export class AppError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+
+  constructor(message: string, statusCode = 500, code = 'INTERNAL_SERVER_ERROR') {
+    super(message);
+    this.name = this.constructor.name;
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+/**
+ * 400 - Request data is invalid
+ */
+export class ValidationError extends AppError {
+  constructor(message: string, code = 'VALIDATION_ERROR') {
+    super(message, 400, code);
+  }
+}
+
+/**
+ * 401 - No valid session
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message = 'Authentication required', code = 'UNAUTHORIZED') {
+    super(message, 401, code);
+  }
+}
+
+/**
+ * 403 - Session user is not allowed to perform the operation
+ */
+export class ForbiddenError extends AppError {
+  constructor(message = 'Access forbidden', code = 'FORBIDDEN') {
+    super(message, 403, code);
+  }
+}
+
+/**
+ * 404 - Resource does not exist
+ */
+export class NotFoundError extends AppError {
+  constructor(message = 'Resource not found', code = 'NOT_FOUND') {
+    super(message, 404, code);
+  }
+}
+
+/**
+ * 409 - Operation conflicts with the current state of the resource
+ */
+export class ConflictError extends AppError {
+  constructor(message: string, code = 'CONFLICT') {
+    super(message, 409, code);
+  }
+}
+
+/**
+ * Run model code, turning its plain validation errors into ValidationError
+ */
+export function withModelValidation<T>(fn: () => T): T {
+  try {
+    return fn();
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new ValidationError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Refuse to act on an entity that moved on since the client read it (the
+ * version it sent in If-Match)
+ * @throws {ConflictError} If the versions differ
+ */
+export function assertVersion(entity: { version: number }, expectedVersion: number | undefined): void {
+  if (expectedVersion !== undefined && entity.version !== expectedVersion) {
+    throw new ConflictError(
+      `The record is at version ${entity.version}, not ${expectedVersion}; reload it and try again`,
+      'VERSION_CONFLICT'
+    );
+  }
+}
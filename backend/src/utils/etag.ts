@@ -0,0 +1,27 @@
+import { Request, Response } from 'express';
+import { ValidationError } from './errors.js';
+
+/**
+ * Send a versioned entity's version as its ETag
+ */
+export const setETag = (res: Response, entity: { version: number }): void => {
+  res.set('ETag', `"${entity.version}"`);
+};
+
+/**
+ * Version the client expects, from its If-Match header
+ * @returns undefined when the header is absent or `*`
+ * @throws {ValidationError} If the header is not an ETag sent by setETag
+ */
+export const getIfMatchVersion = (req: Request): number | undefined => {
+  const header = req.get('If-Match')?.trim();
+  if (header === undefined || header === '*') {
+    return undefined;
+  }
+
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header);
+  if (!match) {
+    throw new ValidationError('If-Match must be an ETag returned by the API', 'INVALID_IF_MATCH');
+  }
+  return Number(match[1]);
+};
@@ -0,0 +1,64 @@
+import { Request } from 'express';
+import { DateRange, ListOptions, PaginationOptions, SortOrder } from '../types/index.js';
+
+/**
+ * Read `page` and `limit` from the query string (validated upstream)
+ */
+export const getPaginationOptions = (req: Request): PaginationOptions => {
+  const page = parseInt(String(req.query['page'] ?? '1'), 10);
+  const limit = parseInt(String(req.query['limit'] ?? '10'), 10);
+
+  return {
+    page: page > 0 ? page : 1,
+    limit: limit > 0 ? limit : 10,
+  };
+};
+
+/**
+ * Read `page`, `limit`, `cursor`, `sortBy` and `sortOrder` from the query
+ * string (validated upstream; the repository checks `sortBy` against its sort
+ * keys). An empty `cursor` asks for the first page of a keyset listing.
+ */
+export const getListOptions = (req: Request): ListOptions => {
+  const options: ListOptions = getPaginationOptions(req);
+  const cursor = req.query['cursor'];
+  const sortBy = getQueryString(req, 'sortBy');
+  const sortOrder = getQueryString(req, 'sortOrder');
+
+  if (typeof cursor === 'string') options.cursor = cursor;
+  if (sortBy) options.sortBy = sortBy;
+  if (sortOrder) options.sortOrder = sortOrder.toLowerCase() as SortOrder;
+
+  return options;
+};
+
+/**
+ * Read an inclusive date range from `<prefix>From` and `<prefix>To`
+ * (validated upstream). A date-only `To` covers that whole day.
+ */
+export const getDateRange = (req: Request, prefix: string): DateRange | undefined => {
+  const from = getQueryString(req, `${prefix}From`);
+  const to = getQueryString(req, `${prefix}To`);
+  if (!from && !to) {
+    return undefined;
+  }
+
+  const range: DateRange = {};
+  if (from) range.from = new Date(from);
+  if (to) {
+    range.to = new Date(to);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      range.to.setUTCDate(range.to.getUTCDate() + 1);
+      range.to.setUTCMilliseconds(-1);
+    }
+  }
+  return range;
+};
+
+/**
+ * Read an optional string parameter from the query string
+ */
+export const getQueryString = (req: Request, field: string): string | undefined => {
+  const value = req.query[field];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+};
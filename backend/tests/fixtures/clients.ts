@@ -0,0 +1,28 @@
+import { Client } from '../../src/models/client';
+import { ClientActivity } from '../../src/models/client-activity';
+import { ClientActivityType } from '../../src/types/client-activity';
+import { buildEnrollmentRequest, buildProgram, CLIENT_MANAGER_ID } from './programs';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Build a client enrolled the given number of days ago
+ */
+export const buildClient = (enrolledDaysAgo = 0): Client => {
+  const program = buildProgram();
+  const request = buildEnrollmentRequest(program.id);
+  const client = Client.enroll(program.id, request.id, request.accountIds);
+  client.enrolledAt = new Date(Date.now() - enrolledDaysAgo * DAY_MS);
+  return client;
+};
+
+/**
+ * Build an activity that occurred the given number of days ago
+ */
+export const buildActivity = (clientId: string, type: ClientActivityType, daysAgo = 0): ClientActivity => {
+  return ClientActivity.create(
+    clientId,
+    { type, occurredAt: new Date(Date.now() - daysAgo * DAY_MS) },
+    CLIENT_MANAGER_ID
+  );
+};
@@ -0,0 +1,28 @@
+/**
+ * Database double whose transaction() runs the work against the double
+ * itself and records whether it committed or rolled back
+ */
+export const buildFakeDatabase = <T extends object>(methods: T = {} as T) => {
+  const db = {
+    ...methods,
+    committed: jest.fn(),
+    rolledBack: jest.fn(),
+    transaction: jest.fn(async (work: (tx: any) => Promise<unknown>) => {
+      try {
+        const result = await work(db);
+        db.committed();
+        return result;
+      } catch (error) {
+        db.rolledBack();
+        throw error;
+      }
+    })
+  };
+  return db;
+};
+
+/**
+ * Let a repository mock hand itself out when bound to a transaction
+ */
+export const bindable = <T extends object>(repository: T): T & { withTransaction: jest.Mock } =>
+  Object.assign(repository, { withTransaction: jest.fn(() => repository) });
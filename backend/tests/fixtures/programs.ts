@@ -0,0 +1,34 @@
+import { Program } from '../../src/models/program';
+import { EnrollmentRequest } from '../../src/models/enrollment-request';
+import { ProgramStatus } from '../../src/types/program';
+
+export const CREATOR_ID = '123e4567-e89b-12d3-a456-426614174000';
+export const CLIENT_MANAGER_ID = '223e4567-e89b-12d3-a456-426614174000';
+
+/**
+ * Build a program, walking the lifecycle up to the given status
+ */
+export const buildProgram = (status: ProgramStatus = ProgramStatus.LIVE): Program => {
+  const program = Program.create({ title: 'Smart Alerts' }, CREATOR_ID);
+  const path: Record<ProgramStatus, ProgramStatus[]> = {
+    [ProgramStatus.PENDING]: [],
+    [ProgramStatus.LIVE]: [ProgramStatus.LIVE],
+    [ProgramStatus.STOPPED]: [ProgramStatus.LIVE, ProgramStatus.STOPPED],
+    [ProgramStatus.ARCHIVED]: [ProgramStatus.ARCHIVED],
+  };
+  path[status].forEach(next => program.transitionTo(next));
+  return program;
+};
+
+/**
+ * Build a pending enrollment request for a program
+ */
+export const buildEnrollmentRequest = (programId: string, clientName = 'Acme Corp'): EnrollmentRequest => {
+  return EnrollmentRequest.create({
+    programId,
+    clientName,
+    accountIds: ['ACC-1', 'ACC-2'],
+    contacts: [{ firstName: 'Jane', lastName: 'Roe', email: 'jane@acme.test' }],
+    motivation: 'They asked for it'
+  }, CLIENT_MANAGER_ID);
+};
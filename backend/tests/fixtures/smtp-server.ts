@@ -0,0 +1,142 @@
+import net from 'net';
+import tls from 'tls';
+import { FAKE_SMTP_CERT, FAKE_SMTP_KEY } from './smtp-tls.js';
+
+/**
+ * Message accepted by the fake SMTP server
+ */
+export interface ReceivedMail {
+  credentials: string | undefined; // Decoded AUTH PLAIN, `\0user\0password`
+  encrypted: boolean; // Received after STARTTLS
+  from: string;
+  to: string[];
+  headers: Record<string, string>;
+  text: string; // Decoded body
+}
+
+/**
+ * SMTP server on a random local port that keeps what it receives
+ */
+export interface FakeSmtpServer {
+  port: number;
+  received: ReceivedMail[];
+  commands: string[]; // Verbs received, in order
+  refuseRecipients: string | undefined; // Reply given to RCPT TO while set, e.g. `450 Mailbox busy`
+  close(): Promise<void>;
+}
+
+const parseMail = (data: string, envelope: Omit<ReceivedMail, 'headers' | 'text'>): ReceivedMail => {
+  const [head = '', body = ''] = data.split(/\r\n\r\n/, 2);
+  const headers = Object.fromEntries(head.split('\r\n').map(line => {
+    const separator = line.indexOf(': ');
+    return [line.slice(0, separator), line.slice(separator + 2)];
+  }));
+  return { ...envelope, headers, text: Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8') };
+};
+
+/**
+ * Start a fake SMTP server speaking just enough of the protocol for
+ * SmtpChannel. It offers STARTTLS with its self-signed certificate unless
+ * told not to.
+ */
+export const startFakeSmtpServer = async ({ startTls = true }: { startTls?: boolean } = {}): Promise<FakeSmtpServer> => {
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+
+    let stream: net.Socket = socket;
+    let buffer = '';
+    let data: string[] | undefined;
+    let envelope: Omit<ReceivedMail, 'headers' | 'text'> = { credentials: undefined, encrypted: false, from: '', to: [] };
+    const reply = (...lines: string[]) => stream.write(lines.map(line => `${line}\r\n`).join(''));
+
+    const receive = (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (data) {
+          if (line === '.') {
+            fake.received.push(parseMail(data.join('\r\n'), envelope));
+            envelope = { ...envelope, from: '', to: [] };
+            data = undefined;
+            reply('250 OK queued');
+          } else {
+            data.push(line.startsWith('..') ? line.slice(1) : line);
+          }
+          continue;
+        }
+
+        const [verb = '', ...rest] = line.split(' ');
+        const argument = rest.join(' ');
+        fake.commands.push(verb.toUpperCase());
+        switch (verb.toUpperCase()) {
+          case 'EHLO':
+            reply('250-fake.smtp greets you', ...(startTls && !envelope.encrypted ? ['250-STARTTLS'] : []), '250 AUTH PLAIN');
+            break;
+          case 'STARTTLS':
+            reply('220 Ready to start TLS');
+            // Everything said in clear text is forgotten
+            socket.off('data', receive);
+            stream = new tls.TLSSocket(socket, {
+              isServer: true,
+              secureContext: tls.createSecureContext({ key: FAKE_SMTP_KEY, cert: FAKE_SMTP_CERT }),
+            });
+            stream.setEncoding('utf8');
+            stream.on('data', receive);
+            stream.on('error', () => socket.destroy());
+            buffer = '';
+            envelope = { credentials: undefined, encrypted: true, from: '', to: [] };
+            return;
+          case 'AUTH':
+            envelope.credentials = Buffer.from(argument.replace(/^PLAIN /, ''), 'base64').toString('utf8');
+            reply('235 Authenticated');
+            break;
+          case 'MAIL':
+            envelope.from = /<(.*)>/.exec(argument)?.[1] ?? '';
+            reply('250 OK');
+            break;
+          case 'RCPT':
+            if (fake.refuseRecipients) {
+              reply(fake.refuseRecipients);
+            } else {
+              envelope.to.push(/<(.*)>/.exec(argument)?.[1] ?? '');
+              reply('250 OK');
+            }
+            break;
+          case 'DATA':
+            data = [];
+            reply('354 End data with <CR><LF>.<CR><LF>');
+            break;
+          case 'QUIT':
+            reply('221 Bye');
+            stream.end();
+            break;
+          default:
+            reply('502 Command not implemented');
+        }
+      }
+    };
+
+    socket.setEncoding('utf8');
+    socket.on('data', receive);
+    reply('220 fake.smtp ESMTP');
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const fake: FakeSmtpServer = {
+    port: (server.address() as net.AddressInfo).port,
+    received: [],
+    commands: [],
+    refuseRecipients: undefined,
+    close: () => new Promise(resolve => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(() => resolve());
+    }),
+  };
+  return fake;
+};
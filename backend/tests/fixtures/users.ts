@@ -0,0 +1,32 @@
+import { User } from '../../src/models/user';
+import { Session } from '../../src/models/session';
+import { Services } from '../../src/config/services';
+import { UserRole, UserStatus } from '../../src/types/user';
+
+/**
+ * Build a valid user with the given role and status
+ */
+export const buildUser = (
+  role: UserRole = UserRole.PRODUCT_PEOPLE,
+  status: UserStatus = UserStatus.ACTIVE,
+  email = `${role.toLowerCase()}@example.com`
+): User => {
+  const user = User.create({
+    email,
+    firstName: 'Test',
+    lastName: 'User',
+    role
+  });
+  user.status = status;
+  return user;
+};
+
+/**
+ * Make every request carrying a session cookie resolve to the given user.
+ * Returns the cookie header to send.
+ */
+export const authenticateAs = (services: Services, user: User): string => {
+  const session = Session.create(user.id, 60 * 60 * 1000);
+  jest.spyOn(services.sessionService, 'resolve').mockResolvedValue({ session, user });
+  return `ab_eam_session=${session.id}`;
+};
@@ -0,0 +1,52 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Request accepted by the webhook receiver
+ */
+export interface ReceivedWebhook {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string; // Raw body, as signed
+}
+
+/**
+ * HTTP server on a random local port that keeps the webhooks posted to it
+ */
+export interface WebhookReceiver {
+  url: string;
+  received: ReceivedWebhook[];
+  status: number; // Status answered to every request, 204 unless changed
+  close(): Promise<void>;
+}
+
+/**
+ * Start a local HTTP receiver for webhook deliveries
+ */
+export const startWebhookReceiver = async (): Promise<WebhookReceiver> => {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      receiver.received.push({ path: req.url ?? '/', headers: req.headers, body });
+      res.writeHead(receiver.status).end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const receiver: WebhookReceiver = {
+    url: `http://127.0.0.1:${port}/hooks`,
+    received: [],
+    status: 204,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+  return receiver;
+};
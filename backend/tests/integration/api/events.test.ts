@@ -0,0 +1,174 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { ExpressApp } from '../../../src/config/express';
+import { createServices, Services } from '../../../src/config/services';
+import { EnrollmentRequest } from '../../../src/models/enrollment-request';
+import { Program } from '../../../src/models/program';
+import { RegistrationRequest } from '../../../src/models/registration-request';
+import { HEARTBEAT_INTERVAL_MS } from '../../../src/services/event-stream-service';
+import { Session } from '../../../src/models/session';
+import { User } from '../../../src/models/user';
+import { DomainEvent, DomainEventData, DomainEventType } from '../../../src/types/events';
+import { ProgramStatus } from '../../../src/types/program';
+import { UserRole } from '../../../src/types/user';
+
+const buildEvent = <K extends DomainEventType>(type: K, data: DomainEventData[K]): DomainEvent =>
+  ({ id: crypto.randomUUID(), type, occurredAt: new Date(), data }) as DomainEvent;
+
+/**
+ * Open the event stream and collect its frames until `done` accepts them
+ */
+const readStream = (
+  server: http.Server,
+  headers: http.OutgoingHttpHeaders,
+  done: (body: string) => boolean,
+  onOpen: () => void = () => undefined
+): Promise<{ status: number | undefined; contentType: string | undefined; body: string }> =>
+  new Promise((resolve, reject) => {
+    const { port } = server.address() as AddressInfo;
+    const req = http.get({ port, path: '/api/events', headers }, res => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => {
+        if (!body) onOpen();
+        body += chunk;
+        if (done(body)) {
+          req.destroy();
+          resolve({ status: res.statusCode, contentType: res.headers['content-type'], body });
+        }
+      });
+    });
+    req.on('error', reject);
+  });
+
+const eventIds = (body: string): string[] => [...body.matchAll(/^id: (\d+)$/gm)].map(match => match[1] as string);
+
+describe('Events API', () => {
+  let services: Services;
+  let app: any;
+  let server: http.Server;
+  let db: any;
+  let manager: User;
+  let session: Session;
+
+  beforeEach(async () => {
+    db = {
+      get: jest.fn(),
+      all: jest.fn(async () => []),
+      run: jest.fn(async () => ({ changes: 1 }))
+    };
+    services = createServices(db);
+    app = new ExpressApp({ port: 0, corsOrigin: '*', logLevel: 'none' }, services).getApp();
+    server = await new Promise<http.Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+
+    manager = User.create({
+      email: 'manager@example.com',
+      firstName: 'Client',
+      lastName: 'Manager',
+      role: UserRole.CLIENT_MANAGER
+    });
+    manager.activate();
+    session = Session.create(manager.id, 60 * 1000);
+    db.get
+      .mockResolvedValueOnce(session.toDatabase())
+      .mockResolvedValueOnce(manager.toDatabase())
+      .mockResolvedValueOnce(session.toDatabase());
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('should require a session', async () => {
+    db.get.mockReset();
+
+    const response = await request(app).get('/api/events');
+
+    expect(response.status).toBe(401);
+    expect(response.body).toHaveProperty('code', 'SESSION_REQUIRED');
+  });
+
+  test('should replay the missed events the user may see, then push new ones', async () => {
+    const program = Program.create({ title: 'Smart Alerts' }, crypto.randomUUID());
+    const enrollment = (requestedBy: string) => EnrollmentRequest.create({
+      programId: program.id,
+      clientName: 'Acme Corp',
+      accountIds: ['ACC-1'],
+      contacts: []
+    }, requestedBy);
+    const registration = RegistrationRequest.create({
+      email: 'newcomer@example.com',
+      firstName: 'New',
+      lastName: 'Comer',
+      requestedRole: UserRole.CLIENT_MANAGER
+    });
+    const stream = services.eventStreamService;
+
+    stream.handle(buildEvent(DomainEventType.ENROLLMENT_SUBMITTED, { request: enrollment(manager.id) }));
+    stream.handle(buildEvent(DomainEventType.ENROLLMENT_SUBMITTED, { request: enrollment(manager.id) }));
+    stream.handle(buildEvent(DomainEventType.ENROLLMENT_SUBMITTED, { request: enrollment(crypto.randomUUID()) }));
+    stream.handle(buildEvent(DomainEventType.REGISTRATION_SUBMITTED, { request: registration }));
+
+    const response = await readStream(
+      server,
+      { Cookie: `ab_eam_session=${session.id}`, 'Last-Event-ID': '1' },
+      body => eventIds(body).length === 2,
+      () => {
+        program.transitionTo(ProgramStatus.LIVE);
+        stream.handle(buildEvent(DomainEventType.PROGRAM_STATUS_CHANGED, { program, previousStatus: ProgramStatus.PENDING }));
+      }
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.contentType).toBe('text/event-stream');
+    expect(eventIds(response.body)).toEqual(['2', '5']);
+    expect(response.body).toContain('event: PROGRAM_STATUS_CHANGED\n');
+    expect(response.body).toContain(`"requestedBy":"${manager.id}"`);
+
+    // The stream is released once the server sees the client hang up
+    for (let attempt = 0; attempt < 50 && stream.connectionCount > 0; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(stream.connectionCount).toBe(0);
+  });
+
+  test('should end the stream at the next heartbeat once the session is gone', async () => {
+    jest.useFakeTimers({ doNotFake: ['Date', 'nextTick', 'setImmediate', 'setTimeout', 'queueMicrotask'] });
+    try {
+      const { port } = server.address() as AddressInfo;
+      const ended = new Promise<string>((resolve, reject) => {
+        const req = http.get({ port, path: '/api/events', headers: { Cookie: `ab_eam_session=${session.id}` } }, res => {
+          let body = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => {
+            body += chunk;
+            // Logged out elsewhere: the session row is gone
+            db.get.mockResolvedValue(undefined);
+            jest.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+          });
+          res.on('end', () => resolve(body));
+        });
+        req.on('error', reject);
+      });
+
+      expect(await ended).not.toContain('heartbeat');
+      expect(services.eventStreamService.connectionCount).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should reject a malformed Last-Event-ID', async () => {
+    const response = await request(app)
+      .get('/api/events')
+      .set('Cookie', `ab_eam_session=${session.id}`)
+      .set('Last-Event-ID', 'abc');
+
+    expect(response.status).toBe(400);
+    expect(response.body).toHaveProperty('code', 'VALIDATION_ERROR');
+  });
+});
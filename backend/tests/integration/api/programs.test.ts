@@ -0,0 +1,131 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import { ExpressApp } from '../../../src/config/express';
+import { createServices, Services } from '../../../src/config/services';
+import { Program } from '../../../src/models/program';
+import { ProgramStatus } from '../../../src/types/program';
+import { UserRole } from '../../../src/types/user';
+import { authenticateAs, buildUser } from '../../fixtures/users';
+
+describe('Programs API', () => {
+  let app: any;
+  let services: Services;
+  let db: any;
+
+  beforeEach(() => {
+    db = {
+      get: jest.fn(),
+      all: jest.fn(async () => []),
+      run: jest.fn(async () => ({ changes: 1 }))
+    };
+    services = createServices(db);
+    app = new ExpressApp({ port: 0, corsOrigin: '*', logLevel: 'none' }, services).getApp();
+  });
+
+  test('should let Client Managers browse programs', async () => {
+    const cookie = authenticateAs(services, buildUser(UserRole.CLIENT_MANAGER));
+    const program = Program.create({ title: 'Smart Alerts' }, buildUser().id);
+    db.get.mockResolvedValueOnce({ total: 1 });
+    db.all.mockResolvedValueOnce([program.toDatabase()]);
+
+    const response = await request(app).get('/api/programs?status=PENDING').set('Cookie', cookie);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data[0]).toHaveProperty('title', 'Smart Alerts');
+  });
+
+  test('should sort and filter programs by start date', async () => {
+    const cookie = authenticateAs(services, buildUser(UserRole.CLIENT_MANAGER));
+    db.get.mockResolvedValueOnce({ total: 0 });
+    db.all.mockResolvedValueOnce([]);
+
+    const response = await request(app)
+      .get('/api/programs?sortBy=startDate&sortOrder=asc&startFrom=2024-01-01&startTo=2024-01-31')
+      .set('Cookie', cookie);
+
+    expect(response.status).toBe(200);
+    expect(db.all).toHaveBeenCalledWith(
+      expect.stringContaining("ORDER BY IFNULL(start_date, '') ASC, id ASC"),
+      ['2024-01-01T00:00:00.000Z', '2024-01-31T23:59:59.999Z', 10, 0]
+    );
+  });
+
+  test('should reject an unknown sort key', async () => {
+    const cookie = authenticateAs(services, buildUser(UserRole.CLIENT_MANAGER));
+
+    const response = await request(app).get('/api/programs?sortBy=creatorSecret').set('Cookie', cookie);
+
+    expect(response.status).toBe(400);
+    expect(response.body).toHaveProperty('code', 'INVALID_SORT');
+  });
+
+  test('should forbid Client Managers from creating programs', async () => {
+    const cookie = authenticateAs(services, buildUser(UserRole.CLIENT_MANAGER));
+
+    const response = await request(app).post('/api/programs').set('Cookie', cookie).send({ title: 'Nope' });
+
+    expect(response.status).toBe(403);
+  });
+
+  test('should create a program owned by the session user', async () => {
+    const creator = buildUser(UserRole.PRODUCT_PEOPLE);
+    const cookie = authenticateAs(services, creator);
+
+    const response = await request(app).post('/api/programs').set('Cookie', cookie).send({
+      title: 'Smart Alerts',
+      startDate: '2024-01-01',
+      endDate: '2024-03-01'
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toHaveProperty('creatorId', creator.id);
+    expect(response.body.data).toHaveProperty('status', ProgramStatus.PENDING);
+    expect(db.run).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO audit_events'),
+      expect.arrayContaining(['PROGRAM', response.body.data.id, 'CREATE', creator.id])
+    );
+  });
+
+  test('should reject a window ending before it starts', async () => {
+    const cookie = authenticateAs(services, buildUser(UserRole.PRODUCT_PEOPLE));
+
+    const response = await request(app).post('/api/programs').set('Cookie', cookie).send({
+      title: 'Smart Alerts',
+      startDate: '2024-03-01',
+      endDate: '2024-01-01'
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toHaveProperty('error', 'startDate must be before endDate');
+  });
+
+  test('should return 409 for an illegal transition', async () => {
+    const cookie = authenticateAs(services, buildUser(UserRole.PRODUCT_PEOPLE));
+    const program = Program.create({ title: 'Smart Alerts' }, buildUser().id);
+    program.transitionTo(ProgramStatus.ARCHIVED);
+    db.get.mockResolvedValueOnce(program.toDatabase());
+
+    const response = await request(app)
+      .post(`/api/programs/${program.id}/transition`)
+      .set('Cookie', cookie)
+      .send({ status: ProgramStatus.LIVE });
+
+    expect(response.status).toBe(409);
+    expect(response.body).toHaveProperty('code', 'INVALID_STATUS_TRANSITION');
+  });
+
+  test('should soft-delete a pending program and restore it', async () => {
+    const cookie = authenticateAs(services, buildUser(UserRole.PRODUCT_PEOPLE));
+    const program = Program.create({ title: 'Smart Alerts' }, buildUser().id);
+    db.get.mockResolvedValue(program.toDatabase());
+
+    const deleted = await request(app).delete(`/api/programs/${program.id}`).set('Cookie', cookie);
+    expect(deleted.status).toBe(204);
+    expect(db.run).toHaveBeenCalledWith(expect.stringContaining('SET deleted_at = ?'), expect.arrayContaining([program.id]));
+
+    const restored = await request(app).post(`/api/programs/${program.id}/restore`).set('Cookie', cookie);
+    expect(restored.status).toBe(200);
+    expect(restored.body.data).toHaveProperty('id', program.id);
+    expect(db.run).toHaveBeenCalledWith(expect.stringContaining('SET deleted_at = NULL'), [expect.any(String), program.id]);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import { ExpressApp } from '../../../src/config/express';
+import { createServices, Services } from '../../../src/config/services';
+import { RegistrationRequest } from '../../../src/models/registration-request';
+import { UserRole } from '../../../src/types/user';
+import { authenticateAs, buildUser } from '../../fixtures/users';
+import { buildFakeDatabase } from '../../fixtures/database';
+
+describe('Registration Requests API', () => {
+  let app: any;
+  let services: Services;
+  let db: any;
+
+  beforeEach(() => {
+    db = buildFakeDatabase({
+      get: jest.fn(),
+      all: jest.fn(async () => []),
+      run: jest.fn(async () => ({ changes: 1 }))
+    });
+    services = createServices(db);
+    app = new ExpressApp({ port: 0, corsOrigin: '*', logLevel: 'none' }, services).getApp();
+  });
+
+  test('should accept a public submission', async () => {
+    db.get
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    const response = await request(app).post('/api/registration-requests').send({
+      email: 'newcomer@example.com',
+      firstName: 'New',
+      lastName: 'Comer',
+      requestedRole: UserRole.CLIENT_MANAGER
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toHaveProperty('status', 'PENDING');
+  });
+
+  test('should validate submissions', async () => {
+    const response = await request(app).post('/api/registration-requests').send({
+      email: 'newcomer@example.com',
+      requestedRole: 'ADMIN'
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toHaveProperty('code', 'VALIDATION_ERROR');
+  });
+
+  test('should require a session to list requests', async () => {
+    const response = await request(app).get('/api/registration-requests');
+
+    expect(response.status).toBe(401);
+  });
+
+  test('should forbid Client Managers from reviewing', async () => {
+    const cookie = authenticateAs(services, buildUser(UserRole.CLIENT_MANAGER));
+
+    const response = await request(app).get('/api/registration-requests').set('Cookie', cookie);
+
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual(expect.objectContaining({ success: false, code: 'FORBIDDEN' }));
+  });
+
+  test('should list requests with filters and pagination for Product People', async () => {
+    const cookie = authenticateAs(services, buildUser(UserRole.PRODUCT_PEOPLE));
+    const pending = RegistrationRequest.create({
+      email: 'newcomer@example.com',
+      firstName: 'New',
+      lastName: 'Comer',
+      requestedRole: UserRole.CLIENT_MANAGER
+    });
+    db.get.mockResolvedValueOnce({ total: 1 });
+    db.all.mockResolvedValueOnce([pending.toDatabase()]);
+
+    const response = await request(app)
+      .get('/api/registration-requests?status=PENDING&page=1&limit=5')
+      .set('Cookie', cookie);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(1);
+    expect(response.body.pagination).toEqual({ page: 1, limit: 5, total: 1, pages: 1 });
+    expect(db.all.mock.calls[0][1]).toEqual(['PENDING', 5, 0]);
+  });
+
+  test('should require a reason to reject', async () => {
+    const cookie = authenticateAs(services, buildUser(UserRole.PRODUCT_PEOPLE));
+
+    const response = await request(app)
+      .post('/api/registration-requests/123e4567-e89b-42d3-a456-426614174000/reject')
+      .set('Cookie', cookie)
+      .send({});
+
+    expect(response.status).toBe(400);
+  });
+
+  test('should approve a request and create the user', async () => {
+    const reviewer = buildUser(UserRole.PRODUCT_PEOPLE);
+    const cookie = authenticateAs(services, reviewer);
+    const pending = RegistrationRequest.create({
+      email: 'newcomer@example.com',
+      firstName: 'New',
+      lastName: 'Comer',
+      requestedRole: UserRole.CLIENT_MANAGER
+    });
+    db.get
+      .mockResolvedValueOnce(pending.toDatabase())
+      .mockResolvedValueOnce({ count: 0 });
+
+    const response = await request(app)
+      .post(`/api/registration-requests/${pending.id}/approve`)
+      .set('Cookie', cookie)
+      .send({ assignedRole: UserRole.CLIENT_MANAGER });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.request).toHaveProperty('status', 'APPROVED');
+    expect(response.body.data.user).toHaveProperty('status', 'ACTIVE');
+    expect(db.committed).toHaveBeenCalled();
+  });
+
+  test('should send the version as an ETag and refuse a stale If-Match', async () => {
+    const cookie = authenticateAs(services, buildUser(UserRole.PRODUCT_PEOPLE));
+    const pending = RegistrationRequest.create({
+      email: 'newcomer@example.com',
+      firstName: 'New',
+      lastName: 'Comer',
+      requestedRole: UserRole.CLIENT_MANAGER
+    });
+    pending.version = 2;
+    db.get.mockResolvedValue(pending.toDatabase());
+
+    const read = await request(app).get(`/api/registration-requests/${pending.id}`).set('Cookie', cookie);
+    expect(read.headers['etag']).toBe('"2"');
+
+    const stale = await request(app)
+      .post(`/api/registration-requests/${pending.id}/reject`)
+      .set('Cookie', cookie)
+      .set('If-Match', '"1"')
+      .send({ rejectionReason: 'Duplicate' });
+    expect(stale.status).toBe(409);
+    expect(stale.body).toHaveProperty('code', 'VERSION_CONFLICT');
+
+    const malformed = await request(app)
+      .post(`/api/registration-requests/${pending.id}/reject`)
+      .set('Cookie', cookie)
+      .set('If-Match', 'v1')
+      .send({ rejectionReason: 'Duplicate' });
+    expect(malformed.status).toBe(400);
+    expect(malformed.body).toHaveProperty('code', 'INVALID_IF_MATCH');
+    expect(db.run).not.toHaveBeenCalledWith(expect.stringContaining('UPDATE registration_requests'), expect.anything());
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import { ExpressApp } from '../../../src/config/express';
+import { createServices } from '../../../src/config/services';
+import { User } from '../../../src/models/user';
+import { Session } from '../../../src/models/session';
+import { UserRole, UserStatus } from '../../../src/types/user';
+
+describe('Session API', () => {
+  let app: any;
+  let db: any;
+  let user: User;
+
+  beforeEach(() => {
+    db = {
+      get: jest.fn(),
+      all: jest.fn(async () => []),
+      run: jest.fn(async () => ({ changes: 1 }))
+    };
+    app = new ExpressApp({ port: 0, corsOrigin: '*', logLevel: 'none' }, createServices(db)).getApp();
+
+    user = User.create({
+      email: 'active@example.com',
+      firstName: 'Active',
+      lastName: 'User',
+      role: UserRole.CLIENT_MANAGER
+    });
+    user.activate();
+  });
+
+  test('should log in an active user and set the session cookie', async () => {
+    db.get.mockResolvedValueOnce(user.toDatabase());
+
+    const response = await request(app).post('/api/session').send({ email: user.email });
+
+    expect(response.status).toBe(201);
+    expect(response.body).toHaveProperty('success', true);
+    expect(response.body.data.user).toHaveProperty('email', user.email);
+    expect(response.headers['set-cookie']?.[0]).toMatch(/^ab_eam_session=/);
+  });
+
+  test('should refuse a user that is not active', async () => {
+    user.status = UserStatus.PENDING;
+    db.get.mockResolvedValueOnce(user.toDatabase());
+
+    const response = await request(app).post('/api/session').send({ email: user.email });
+
+    expect(response.status).toBe(403);
+    expect(response.body).toHaveProperty('success', false);
+    expect(response.body).toHaveProperty('code', 'USER_NOT_ACTIVE');
+  });
+
+  test('should refuse an unknown email', async () => {
+    db.get.mockResolvedValueOnce(undefined);
+
+    const response = await request(app).post('/api/session').send({ email: 'nobody@example.com' });
+
+    expect(response.status).toBe(401);
+    expect(response.body).toHaveProperty('code', 'UNKNOWN_EMAIL');
+  });
+
+  test('should validate the email', async () => {
+    const response = await request(app).post('/api/session').send({ email: 'not-an-email' });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toHaveProperty('code', 'VALIDATION_ERROR');
+  });
+
+  test('should return the session user', async () => {
+    const session = Session.create(user.id, 60 * 1000);
+    db.get
+      .mockResolvedValueOnce(session.toDatabase())
+      .mockResolvedValueOnce(user.toDatabase())
+      .mockResolvedValueOnce(session.toDatabase());
+
+    const response = await request(app)
+      .get('/api/session/me')
+      .set('Cookie', `ab_eam_session=${session.id}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.user).toHaveProperty('id', user.id);
+  });
+
+  test('should return 401 without a session', async () => {
+    const response = await request(app).get('/api/session/me');
+
+    expect(response.status).toBe(401);
+    expect(response.body).toHaveProperty('code', 'SESSION_REQUIRED');
+  });
+
+  test('should log out and clear the cookie', async () => {
+    const session = Session.create(user.id, 60 * 1000);
+    db.get
+      .mockResolvedValueOnce(session.toDatabase())
+      .mockResolvedValueOnce(user.toDatabase())
+      .mockResolvedValueOnce(session.toDatabase());
+
+    const response = await request(app)
+      .delete('/api/session')
+      .set('Cookie', `ab_eam_session=${session.id}`);
+
+    expect(response.status).toBe(204);
+    expect(db.run).toHaveBeenCalledWith('DELETE FROM sessions WHERE id = ?', [session.id]);
+  });
+});
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import { Database } from '../../../src/config/database.js';
+import { MigrationManager } from '../../../src/config/migration.js';
+import { checkSchema } from '../../../src/config/schema-check.js';
+import { createServices, getRepositorySchemas } from '../../../src/config/services.js';
+
+describe('Database schema', () => {
+  let db: Database;
+  let manager: MigrationManager;
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+    manager = new MigrationManager(db);
+    await manager.loadMigrations('./src/migrations');
+    await manager.migrate();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should load every numbered file of the migrations directory', async () => {
+    const status = await manager.getStatus();
+
+    expect(status.totalMigrations).toBeGreaterThanOrEqual(6);
+    expect(status.currentVersion).toBe(status.totalMigrations);
+    expect(status.pendingCount).toBe(0);
+  });
+
+  it('should create every table and index the migrations declare', async () => {
+    const declared = new Map<string, string>();
+    const files = fs.readdirSync('./src/migrations').filter(file => /^\d+_\w+\.ts$/.test(file)).sort();
+    for (const file of files) {
+      const sql = fs.readFileSync(path.join('./src/migrations', file), 'utf8');
+      const up = sql.slice(sql.indexOf('up:'), sql.indexOf('down:'));
+      for (const [, type, name] of up.matchAll(/CREATE\s+(?:UNIQUE\s+)?(TABLE|INDEX)\s+IF\s+NOT\s+EXISTS\s+(\w+)/gi)) {
+        declared.set(name as string, (type as string).toLowerCase());
+      }
+    }
+
+    const objects = await db.all("SELECT type, name FROM sqlite_master WHERE type IN ('table', 'index')");
+    const existing = new Map(objects.map((row: any) => [row.name, row.type]));
+
+    expect(declared.size).toBeGreaterThan(20);
+    for (const [name, type] of declared) {
+      expect({ name, type: existing.get(name) }).toEqual({ name, type });
+    }
+  });
+
+  it('should match every repository once all migrations are applied', async () => {
+    const schemas = getRepositorySchemas(createServices(db));
+
+    expect(schemas.map(schema => schema.table)).toEqual(expect.arrayContaining([
+      'registration_requests',
+      'programs_fts',
+      'client_organizations_fts',
+      'users_fts'
+    ]));
+    await expect(checkSchema(db, schemas)).resolves.toEqual([]);
+  });
+
+  it('should detect a table dropped behind the repositories back', async () => {
+    await db.exec('DROP TABLE registration_requests;');
+
+    const drifts = await checkSchema(db, getRepositorySchemas(createServices(db)));
+
+    expect(drifts.map(drift => drift.table)).toEqual(['registration_requests']);
+  });
+
+  it('should detect a full-text index gone out of shape', async () => {
+    await db.exec(`
+      DROP TABLE users_fts;
+      CREATE VIRTUAL TABLE users_fts USING fts5(id UNINDEXED, full_name, email);
+    `);
+
+    const drifts = await checkSchema(db, getRepositorySchemas(createServices(db)));
+
+    expect(drifts).toEqual([
+      { table: 'users_fts', missingTable: false, missingColumns: ['first_name', 'last_name'], unexpectedColumns: [] }
+    ]);
+  });
+});
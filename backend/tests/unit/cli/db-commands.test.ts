@@ -0,0 +1,105 @@
+import { Database } from '../../../src/config/database.js';
+import { MigrationManager } from '../../../src/config/migration.js';
+import { runDbCommand } from '../../../src/cli/db-commands.js';
+
+describe('db CLI', () => {
+  let db: Database;
+  let manager: MigrationManager;
+  let lines: string[];
+  let errors: string[];
+  const output = {
+    log: (message: string) => lines.push(message),
+    error: (message: string) => errors.push(message)
+  };
+
+  const tables = async (): Promise<string[]> => {
+    const rows = await db.all("SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 't_%' ORDER BY name");
+    return rows.map((row: any) => row.name);
+  };
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+    manager = new MigrationManager(db);
+    [1, 2, 3].forEach(version => manager.addMigration({
+      version,
+      name: `table_${version}`,
+      up: `CREATE TABLE t_${version} (id TEXT PRIMARY KEY);`,
+      down: `DROP TABLE t_${version};`
+    }));
+    lines = [];
+    errors = [];
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should list applied and pending migrations', async () => {
+    await manager.migrateTo(1);
+
+    expect(await runDbCommand(['status'], manager, output)).toBe(0);
+    expect(lines[0]).toBe('Current version: 1 (3 migrations, 2 pending)');
+    expect(lines[1]).toMatch(/^ {2}applied {2}1 table_1 \(\d{4}-/);
+    expect(lines.slice(2)).toEqual(['  pending  2 table_2', '  pending  3 table_3']);
+  });
+
+  it('should migrate up to a version', async () => {
+    expect(await runDbCommand(['up', '--to', '2'], manager, output)).toBe(0);
+
+    expect(await tables()).toEqual(['t_1', 't_2']);
+    expect(lines).toContain('Database at version 2');
+  });
+
+  it('should roll back several migrations down to a version', async () => {
+    await manager.migrate();
+
+    expect(await runDbCommand(['down', '--to', '1'], manager, output)).toBe(0);
+
+    expect(await tables()).toEqual(['t_1']);
+    expect(lines).toEqual(['-- down 3 table_3', '-- down 2 table_2', 'Database at version 1']);
+  });
+
+  it('should print the SQL of a dry run without running it', async () => {
+    expect(await runDbCommand(['dry-run'], manager, output)).toBe(0);
+    expect(await runDbCommand(['down', '--to=0', '--dry-run'], manager, output)).toBe(0);
+
+    expect(await tables()).toEqual([]);
+    expect(lines).toContain('CREATE TABLE t_3 (id TEXT PRIMARY KEY);');
+    expect(lines).not.toContain('DROP TABLE t_1;');
+  });
+
+  it('should redo the latest migration', async () => {
+    await manager.migrateTo(2);
+    await db.exec("INSERT INTO t_2 (id) VALUES ('row');");
+
+    expect(await runDbCommand(['redo'], manager, output)).toBe(0);
+
+    expect(await tables()).toEqual(['t_1', 't_2']);
+    expect(await db.all('SELECT * FROM t_2')).toEqual([]);
+    expect(lines.slice(0, 2)).toEqual(['-- down 2 table_2', '-- up 2 table_2']);
+  });
+
+  it('should refuse to roll back a migration without down SQL', async () => {
+    manager = new MigrationManager(db);
+    manager.addMigration({ version: 1, name: 'one_way', up: 'CREATE TABLE t_one (id TEXT);' });
+    await manager.migrate();
+
+    expect(await runDbCommand(['down', '--to', '0'], manager, output)).toBe(1);
+    expect(errors).toEqual(['Error: Migration 1 (one_way) cannot be rolled back: it has no down migration']);
+  });
+
+  it('should report usage errors', async () => {
+    expect(await runDbCommand(['down'], manager, output)).toBe(1);
+    expect(await runDbCommand(['up', '--to', 'latest'], manager, output)).toBe(1);
+    expect(await runDbCommand(['up', '--to', '9'], manager, output)).toBe(1);
+    expect(await runDbCommand(['explode'], manager, output)).toBe(1);
+
+    expect(errors.slice(0, 3)).toEqual([
+      'Error: down requires --to <version>',
+      'Error: --to expects a version number',
+      'Error: Cannot migrate to version 9: latest migration is 3'
+    ]);
+    expect(errors[3]).toContain('Usage: npm run db -- <command>');
+  });
+});
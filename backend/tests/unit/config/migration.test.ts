@@ -0,0 +1,93 @@
+import { Database } from '../../../src/config/database.js';
+import { MigrationManager, MigrationError } from '../../../src/config/migration.js';
+
+describe('MigrationManager', () => {
+  let db: Database;
+
+  const widgets = {
+    version: 1,
+    name: 'widgets',
+    up: 'CREATE TABLE widgets (id TEXT PRIMARY KEY); CREATE INDEX idx_widgets_id ON widgets (id);',
+    down: 'DROP TABLE widgets;'
+  };
+  const gadgets = {
+    version: 2,
+    name: 'gadgets',
+    up: 'CREATE TABLE gadgets (id TEXT PRIMARY KEY);',
+    down: 'DROP TABLE gadgets;'
+  };
+
+  const managerWith = (...migrations: Array<typeof widgets>): MigrationManager => {
+    const manager = new MigrationManager(db);
+    migrations.forEach(migration => manager.addMigration(migration));
+    return manager;
+  };
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should apply every statement and record a checksum', async () => {
+    await managerWith(widgets, gadgets).migrate();
+
+    const index = await db.get("SELECT name FROM sqlite_master WHERE type = 'index' AND name = 'idx_widgets_id'");
+    const applied = await db.all('SELECT version, checksum FROM migrations ORDER BY version');
+
+    expect(index).toBeDefined();
+    expect(applied).toHaveLength(2);
+    expect(applied[0].checksum).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should name the failing statement and roll the migration back', async () => {
+    const broken = { ...gadgets, up: 'CREATE TABLE gadgets (id TEXT PRIMARY KEY); CREATE INDEX idx_parts ON parts (id);' };
+
+    await expect(managerWith(widgets, broken).migrate())
+      .rejects.toThrow('Migration 2 (gadgets) failed at statement 2: SQLITE_ERROR: no such table: main.parts');
+    expect(await db.get("SELECT name FROM sqlite_master WHERE name = 'gadgets'")).toBeUndefined();
+  });
+
+  it('should refuse duplicate versions', async () => {
+    const manager = managerWith(widgets, { ...gadgets, version: 1 });
+
+    expect(() => manager.validateVersions()).toThrow(MigrationError);
+    await expect(manager.migrate()).rejects.toThrow('Duplicate migration version 1');
+  });
+
+  it('should refuse gapped versions', async () => {
+    await expect(managerWith(widgets, { ...gadgets, version: 3 }).migrate())
+      .rejects.toThrow('expected 2, found 3');
+  });
+
+  it('should refuse an applied migration that was edited', async () => {
+    await managerWith(widgets).migrate();
+
+    const edited = { ...widgets, up: 'CREATE TABLE widgets (id TEXT PRIMARY KEY, name TEXT);' };
+    await expect(managerWith(edited, gadgets).migrate()).rejects.toThrow('was edited after being applied');
+    expect(await db.get("SELECT name FROM sqlite_master WHERE name = 'gadgets'")).toBeUndefined();
+  });
+
+  it('should refuse an applied migration that is no longer registered', async () => {
+    await managerWith(widgets, gadgets).migrate();
+
+    await expect(managerWith(widgets).migrate()).rejects.toThrow('Applied migration 2 (gadgets) is not registered');
+  });
+
+  it('should adopt the checksum of migrations applied before checksums existed', async () => {
+    await db.exec(`
+      CREATE TABLE migrations (id INTEGER PRIMARY KEY AUTOINCREMENT, version INTEGER NOT NULL, name TEXT NOT NULL, applied_at DATETIME);
+      CREATE TABLE widgets (id TEXT PRIMARY KEY);
+      INSERT INTO migrations (version, name) VALUES (1, 'widgets');
+    `);
+
+    await managerWith(widgets, gadgets).migrate();
+
+    const applied = await db.all('SELECT version, checksum FROM migrations ORDER BY version');
+    expect(applied.map((row: any) => row.version)).toEqual([1, 2]);
+    expect(applied.every((row: any) => typeof row.checksum === 'string')).toBe(true);
+  });
+});
@@ -0,0 +1,50 @@
+import { Database } from '../../../src/config/database.js';
+import { checkSchema, verifySchema, SchemaDriftError } from '../../../src/config/schema-check.js';
+
+describe('Schema check', () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+    await db.exec(`
+      CREATE TABLE widgets (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        color TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should accept a repository matching its table', async () => {
+    await expect(checkSchema(db, [{ table: 'widgets', columns: ['id', 'name', 'created_at'] }])).resolves.toEqual([]);
+  });
+
+  it('should report missing tables', async () => {
+    const drifts = await checkSchema(db, [{ table: 'gadgets', columns: ['id'] }]);
+
+    expect(drifts).toEqual([{ table: 'gadgets', missingTable: true, missingColumns: ['id'], unexpectedColumns: [] }]);
+  });
+
+  it('should report missing columns', async () => {
+    const drifts = await checkSchema(db, [{ table: 'widgets', columns: ['id', 'name', 'size'] }]);
+
+    expect(drifts).toEqual([{ table: 'widgets', missingTable: false, missingColumns: ['size'], unexpectedColumns: [] }]);
+  });
+
+  it('should report required columns the repository never writes', async () => {
+    const drifts = await checkSchema(db, [{ table: 'widgets', columns: ['id', 'color'] }]);
+
+    expect(drifts).toEqual([{ table: 'widgets', missingTable: false, missingColumns: [], unexpectedColumns: ['name'] }]);
+  });
+
+  it('should refuse to continue on drift', async () => {
+    await expect(verifySchema(db, [{ table: 'gadgets', columns: ['id'] }])).rejects.toThrow(SchemaDriftError);
+    await expect(verifySchema(db, [{ table: 'gadgets', columns: ['id'] }])).rejects.toThrow('table gadgets is missing');
+  });
+});
@@ -0,0 +1,87 @@
+import { Database } from '../../../src/config/database.js';
+import { splitStatements, SqlStatementError } from '../../../src/config/sql.js';
+
+describe('SQL scripts', () => {
+  describe('splitStatements', () => {
+    it('should split statements and drop comment-only chunks', () => {
+      const statements = splitStatements(`
+        -- Widgets table
+        CREATE TABLE widgets (id TEXT PRIMARY KEY);
+        CREATE INDEX idx_widgets_id ON widgets (id);
+        -- trailing comment
+      `);
+
+      expect(statements).toEqual([
+        '-- Widgets table\n        CREATE TABLE widgets (id TEXT PRIMARY KEY);',
+        'CREATE INDEX idx_widgets_id ON widgets (id);'
+      ]);
+    });
+
+    it('should keep semicolons inside strings, identifiers and comments', () => {
+      const statements = splitStatements(`
+        INSERT INTO notes (body) VALUES ('a; b'), ('it''s; fine');
+        /* block; comment */ SELECT "odd;name", [other;name] FROM notes; -- note; here
+      `);
+
+      expect(statements).toHaveLength(2);
+      expect(statements[0]).toContain("'it''s; fine'");
+      expect(statements[1]).toContain('[other;name]');
+    });
+
+    it('should keep trigger bodies in one statement', () => {
+      const statements = splitStatements(`
+        CREATE TRIGGER widgets_touch AFTER UPDATE ON widgets BEGIN
+          UPDATE widgets SET updated_at = CURRENT_TIMESTAMP WHERE id = new.id;
+          INSERT INTO audit (id) VALUES (new.id);
+        END;
+        DROP TABLE legacy;
+      `);
+
+      expect(statements).toHaveLength(2);
+      expect(statements[0]).toMatch(/^CREATE TRIGGER[\s\S]*END;$/);
+      expect(statements[1]).toBe('DROP TABLE legacy;');
+    });
+  });
+
+  describe('Database.exec', () => {
+    let db: Database;
+
+    beforeEach(async () => {
+      db = new Database({ dbPath: ':memory:' });
+      await db.connect();
+    });
+
+    afterEach(async () => {
+      await db.close();
+    });
+
+    it('should run every statement of a script', async () => {
+      const count = await db.exec(`
+        CREATE TABLE widgets (id TEXT PRIMARY KEY, updated_at TEXT);
+        CREATE INDEX idx_widgets_id ON widgets (id);
+        CREATE TRIGGER widgets_touch AFTER INSERT ON widgets BEGIN
+          UPDATE widgets SET updated_at = 'now' WHERE id = new.id;
+        END;
+        INSERT INTO widgets (id) VALUES ('w1');
+      `);
+
+      expect(count).toBe(4);
+      expect(await db.get("SELECT name FROM sqlite_master WHERE name = 'idx_widgets_id'")).toBeDefined();
+      expect(await db.get('SELECT updated_at FROM widgets')).toEqual({ updated_at: 'now' });
+    });
+
+    it('should report the statement that failed', async () => {
+      const failure = db.exec(`
+        CREATE TABLE widgets (id TEXT PRIMARY KEY);
+        CREATE INDEX idx_gadgets_id ON gadgets (id);
+      `);
+
+      await expect(failure).rejects.toBeInstanceOf(SqlStatementError);
+      await expect(failure).rejects.toMatchObject({
+        statementIndex: 2,
+        statement: 'CREATE INDEX idx_gadgets_id ON gadgets (id);',
+        message: expect.stringContaining('no such table: main.gadgets')
+      });
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { Database } from '../../../src/config/database.js';
+import { Transaction, TransactionClosedError } from '../../../src/config/transaction.js';
+
+describe('Database.transaction', () => {
+  let db: Database;
+
+  const counter = async (): Promise<number> => (await db.get('SELECT value FROM counters')).value;
+  const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+    await db.exec(`
+      CREATE TABLE counters (value INTEGER NOT NULL);
+      INSERT INTO counters (value) VALUES (0);
+    `);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should commit the work and return its result', async () => {
+    const result = await db.transaction(async tx => {
+      await tx.run('UPDATE counters SET value = 1');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(await counter()).toBe(1);
+  });
+
+  it('should roll back when the work throws', async () => {
+    await expect(db.transaction(async tx => {
+      await tx.run('UPDATE counters SET value = 1');
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(await counter()).toBe(0);
+  });
+
+  it('should run concurrent transactions one after the other', async () => {
+    const increment = () => db.transaction(async tx => {
+      const { value } = await tx.get('SELECT value FROM counters');
+      await sleep(5);
+      await tx.run('UPDATE counters SET value = ?', [value + 1]);
+    });
+
+    await Promise.all([increment(), increment(), increment()]);
+
+    expect(await counter()).toBe(3);
+  });
+
+  it('should keep statements from outside the transaction out of it', async () => {
+    const failing = db.transaction(async tx => {
+      await tx.run('UPDATE counters SET value = 10');
+      await sleep(50);
+      throw new Error('boom');
+    });
+    await sleep(10);
+    const outside = db.run('UPDATE counters SET value = value + 1');
+
+    await expect(failing).rejects.toThrow('boom');
+    await outside;
+
+    expect(await counter()).toBe(1);
+  });
+
+  it('should roll back only the nested work that failed', async () => {
+    await db.transaction(async tx => {
+      await tx.run('UPDATE counters SET value = 1');
+      await expect(tx.transaction(async nested => {
+        expect(nested.depth).toBe(1);
+        await nested.run('UPDATE counters SET value = 2');
+        throw new Error('nested failure');
+      })).rejects.toThrow('nested failure');
+    });
+
+    expect(await counter()).toBe(1);
+  });
+
+  it('should nest through a savepoint when called again from within the work', async () => {
+    await db.transaction(async () => {
+      await db.run('UPDATE counters SET value = 1');
+      await db.transaction(async nested => {
+        expect(nested.depth).toBe(1);
+        await db.run('UPDATE counters SET value = 2');
+      });
+    });
+
+    expect(await counter()).toBe(2);
+  });
+
+  it('should refuse a handle used after the transaction finished', async () => {
+    let handle: Transaction | undefined;
+    await db.transaction(async tx => {
+      handle = tx;
+    });
+
+    await expect(handle?.run('UPDATE counters SET value = 1')).rejects.toBeInstanceOf(TransactionClosedError);
+  });
+});
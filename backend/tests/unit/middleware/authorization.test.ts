@@ -0,0 +1,57 @@
+import { requireRole, requireProductPeople, requireClientManager } from '../../../src/middleware/authorization.js';
+import { User } from '../../../src/models/user.js';
+import { UserRole } from '../../../src/types/user.js';
+import { ForbiddenError, UnauthorizedError } from '../../../src/utils/errors.js';
+
+describe('Authorization middleware', () => {
+  const buildUser = (role: UserRole): User => {
+    const user = User.create({
+      email: 'test@example.com',
+      firstName: 'John',
+      lastName: 'Doe',
+      role
+    });
+    user.activate();
+    return user;
+  };
+
+  const run = (middleware: any, user?: User): any => {
+    const req: any = { user };
+    const next = jest.fn();
+    middleware(req, {}, next);
+    return next.mock.calls[0]?.[0];
+  };
+
+  it('should reject anonymous requests with a 401', () => {
+    const error = run(requireProductPeople);
+
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect(error.statusCode).toBe(401);
+  });
+
+  it('should let Product People manage programs', () => {
+    expect(run(requireProductPeople, buildUser(UserRole.PRODUCT_PEOPLE))).toBeUndefined();
+  });
+
+  it('should forbid Client Managers from Product People routes', () => {
+    const error = run(requireProductPeople, buildUser(UserRole.CLIENT_MANAGER));
+
+    expect(error).toBeInstanceOf(ForbiddenError);
+    expect(error.statusCode).toBe(403);
+    expect(error.code).toBe('FORBIDDEN');
+  });
+
+  it('should let Client Managers browse programs and file enrollments', () => {
+    expect(run(requireClientManager, buildUser(UserRole.CLIENT_MANAGER))).toBeUndefined();
+  });
+
+  it('should let Product People through Client Manager routes as admins', () => {
+    expect(run(requireClientManager, buildUser(UserRole.PRODUCT_PEOPLE))).toBeUndefined();
+  });
+
+  it('should accept any of several roles', () => {
+    const middleware = requireRole(UserRole.CLIENT_MANAGER, UserRole.PRODUCT_PEOPLE);
+
+    expect(run(middleware, buildUser(UserRole.CLIENT_MANAGER))).toBeUndefined();
+  });
+});
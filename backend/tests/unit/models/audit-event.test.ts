@@ -0,0 +1,43 @@
+import { AuditEvent } from '../../../src/models/audit-event.js';
+import { AuditAction, AuditEntityType } from '../../../src/types/audit.js';
+import { buildProgram, CREATOR_ID } from '../../fixtures/programs.js';
+import { ProgramStatus } from '../../../src/types/program.js';
+
+describe('AuditEvent Model', () => {
+  const entry = (action: AuditAction, before: object | null, after: object | null) => ({
+    entityType: AuditEntityType.PROGRAM,
+    entityId: '323e4567-e89b-12d3-a456-426614174000',
+    action,
+    before,
+    after,
+  });
+
+  it('should keep only the fields an update changed', () => {
+    const before = buildProgram(ProgramStatus.LIVE);
+    const after = Object.assign(Object.create(Object.getPrototypeOf(before)), before);
+    after.transitionTo(ProgramStatus.STOPPED);
+
+    const event = AuditEvent.record(entry(AuditAction.UPDATE, before, after), CREATOR_ID);
+
+    expect(event?.before).toEqual({ status: 'LIVE' });
+    expect(event?.after).toEqual({ status: 'STOPPED' });
+    expect(event?.actorId).toBe(CREATOR_ID);
+  });
+
+  it('should skip updates that only touched updatedAt', () => {
+    const program = buildProgram();
+
+    expect(AuditEvent.record(entry(AuditAction.UPDATE, program, { ...program.toJSON(), updatedAt: new Date(0) }), undefined))
+      .toBeNull();
+  });
+
+  it('should keep the whole entity on create and delete, dates as ISO strings', () => {
+    const program = buildProgram();
+
+    const created = AuditEvent.record(entry(AuditAction.CREATE, null, program), undefined);
+
+    expect(created?.before).toBeNull();
+    expect(created?.after).toMatchObject({ title: 'Smart Alerts', createdAt: program.createdAt.toISOString() });
+    expect(AuditEvent.fromDatabase(created!.toDatabase())).toEqual(created);
+  });
+});
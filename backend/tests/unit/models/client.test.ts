@@ -0,0 +1,155 @@
+import { ClientActivity, ENGAGEMENT_HALF_LIFE_MS } from '../../../src/models/client-activity.js';
+import { ClientOrganization } from '../../../src/models/client-organization.js';
+import { ClientActivityType } from '../../../src/types/client-activity.js';
+import { buildActivity, buildClient, DAY_MS } from '../../fixtures/clients.js';
+import { CLIENT_MANAGER_ID } from '../../fixtures/programs.js';
+
+describe('Client Model', () => {
+  const windowMs = 30 * DAY_MS;
+
+  describe('ClientActivity.create', () => {
+    it('should default the occurrence to now', () => {
+      const client = buildClient();
+      const activity = ClientActivity.create(client.id, { type: ClientActivityType.CALL_HELD, notes: 'Kickoff' }, CLIENT_MANAGER_ID);
+
+      expect(activity.occurredAt).toEqual(activity.createdAt);
+      expect(activity.notes).toBe('Kickoff');
+      expect(activity.isEngagementSignal()).toBe(true);
+    });
+
+    it('should refuse activities in the future', () => {
+      const client = buildClient();
+
+      expect(() => buildActivity(client.id, ClientActivityType.FEATURE_USED, -1))
+        .toThrow('occurredAt cannot be in the future');
+    });
+
+    it('should refuse unknown activity types', () => {
+      const client = buildClient();
+
+      expect(() => ClientActivity.create(client.id, { type: 'EMAILED' as ClientActivityType }, CLIENT_MANAGER_ID))
+        .toThrow();
+    });
+  });
+
+  describe('deriveEngagement', () => {
+    it('should treat a fresh enrollment as engagement', () => {
+      const client = buildClient(3);
+
+      const engagement = client.deriveEngagement([], windowMs);
+
+      expect(engagement.isActive).toBe(true);
+      expect(engagement.lastEngagedAt).toEqual(client.enrolledAt);
+    });
+
+    it('should become inactive once the last signal leaves the window', () => {
+      const client = buildClient(90);
+      const activities = [buildActivity(client.id, ClientActivityType.FEEDBACK_GIVEN, 45)];
+
+      expect(client.deriveEngagement(activities, windowMs).isActive).toBe(false);
+    });
+
+    it('should stay active while recent signals keep coming', () => {
+      const client = buildClient(90);
+      const activities = [
+        buildActivity(client.id, ClientActivityType.FEATURE_USED, 2),
+        buildActivity(client.id, ClientActivityType.FEEDBACK_GIVEN, 45),
+      ];
+
+      const engagement = client.deriveEngagement(activities, windowMs);
+
+      expect(engagement.isActive).toBe(true);
+      expect(engagement.lastEngagedAt).toEqual(activities[0]?.occurredAt);
+    });
+
+    it('should be inactive when the client went silent after its last signal', () => {
+      const client = buildClient(10);
+      const silence = buildActivity(client.id, ClientActivityType.WENT_SILENT, 1);
+      const activities = [silence, buildActivity(client.id, ClientActivityType.CALL_HELD, 5)];
+
+      const engagement = client.deriveEngagement(activities, windowMs);
+
+      expect(engagement.isActive).toBe(false);
+      expect(engagement.silentSince).toEqual(silence.occurredAt);
+    });
+
+    it('should reactivate a silent client on a newer signal', () => {
+      const client = buildClient(10);
+      const activities = [
+        buildActivity(client.id, ClientActivityType.CALL_HELD, 1),
+        buildActivity(client.id, ClientActivityType.WENT_SILENT, 5),
+      ];
+
+      const engagement = client.deriveEngagement(activities, windowMs);
+
+      expect(engagement.isActive).toBe(true);
+      expect(engagement.silentSince).toBeUndefined();
+    });
+  });
+
+  describe('setActive', () => {
+    it('should report whether the flag changed', () => {
+      const client = buildClient();
+
+      expect(client.setActive(true)).toBe(false);
+      expect(client.setActive(false)).toBe(true);
+      expect(client.isActive).toBe(false);
+    });
+  });
+
+  describe('waitlist', () => {
+    it('should hold no seat while waitlisted and count as enrolled once promoted', () => {
+      const client = buildClient(10);
+      const waitlistedAt = new Date(Date.now() - DAY_MS);
+      client.waitlist(waitlistedAt);
+      expect(client.holdsSeat()).toBe(false);
+
+      const now = new Date();
+      client.isActive = false;
+      client.promote(now);
+
+      expect(client.isWaitlisted()).toBe(false);
+      expect(client.holdsSeat()).toBe(true);
+      expect(client.enrolledAt).toEqual(now);
+      expect(() => client.promote()).toThrow('Client is not waitlisted');
+    });
+  });
+
+  describe('ClientActivity.score', () => {
+    it('should weigh recent activities more than old ones', () => {
+      const client = buildClient(400);
+      const recent = [buildActivity(client.id, ClientActivityType.FEEDBACK_GIVEN, 0)];
+      const old = [buildActivity(client.id, ClientActivityType.FEEDBACK_GIVEN, ENGAGEMENT_HALF_LIFE_MS / DAY_MS)];
+
+      expect(ClientActivity.score(recent)).toBe(10);
+      expect(ClientActivity.score(old)).toBe(5);
+    });
+
+    it('should stay within 0..100', () => {
+      const client = buildClient(10);
+      const silent = [buildActivity(client.id, ClientActivityType.WENT_SILENT, 1)];
+      const busy = Array.from({ length: 20 }, () => buildActivity(client.id, ClientActivityType.FEEDBACK_GIVEN, 1));
+
+      expect(ClientActivity.score([])).toBe(0);
+      expect(ClientActivity.score(silent)).toBe(0);
+      expect(ClientActivity.score(busy)).toBe(100);
+    });
+  });
+
+  describe('ClientOrganization', () => {
+    it('should trim the name and drop duplicate account IDs', () => {
+      const organization = ClientOrganization.create('  Acme Corp ', ['ACC-1', 'ACC-1']);
+
+      expect(organization.name).toBe('Acme Corp');
+      expect(organization.accountIds).toEqual(['ACC-1']);
+    });
+
+    it('should only report merges that add account IDs', () => {
+      const organization = ClientOrganization.create('Acme Corp', ['ACC-1']);
+
+      expect(organization.mergeAccountIds(['ACC-1'])).toBe(false);
+      expect(organization.mergeAccountIds(['ACC-2', 'ACC-1'])).toBe(true);
+      expect(organization.accountIds).toEqual(['ACC-1', 'ACC-2']);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { EnrollmentRequest } from '../../../src/models/enrollment-request.js';
+import { EnrollmentRequestStatus } from '../../../src/types/enrollment.js';
+import { buildEnrollmentRequest, CREATOR_ID } from '../../fixtures/programs.js';
+
+describe('EnrollmentRequest Model', () => {
+  const programId = '323e4567-e89b-12d3-a456-426614174000';
+
+  describe('Static create method', () => {
+    it('should create a pending request', () => {
+      const request = buildEnrollmentRequest(programId);
+
+      expect(request.status).toBe(EnrollmentRequestStatus.PENDING);
+      expect(request.accountIds).toEqual(['ACC-1', 'ACC-2']);
+      expect(request.canBeReviewed()).toBe(true);
+    });
+
+    it('should require a client name', () => {
+      expect(() => buildEnrollmentRequest(programId, '')).toThrow('clientName is required and must be a non-empty string');
+    });
+  });
+
+  describe('Review', () => {
+    it('should approve a request', () => {
+      const request = buildEnrollmentRequest(programId);
+
+      request.review({ approved: true }, CREATOR_ID);
+
+      expect(request.status).toBe(EnrollmentRequestStatus.APPROVED);
+      expect(request.reviewedBy).toBe(CREATOR_ID);
+      expect(request.reviewedAt).toBeInstanceOf(Date);
+      expect(request.canBeReviewed()).toBe(false);
+    });
+
+    it('should require a reason to reject', () => {
+      const request = buildEnrollmentRequest(programId);
+
+      expect(() => request.review({ approved: false }, CREATOR_ID)).toThrow('rejectionReason is required when status is REJECTED');
+    });
+  });
+
+  describe('Database conversion', () => {
+    it('should round-trip through database format', () => {
+      const request = buildEnrollmentRequest(programId);
+      const restored = EnrollmentRequest.fromDatabase(request.toDatabase());
+
+      expect(restored.toJSON()).toEqual(request.toJSON());
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { Program } from '../../../src/models/program.js';
+import { ProgramStatus } from '../../../src/types/program.js';
+
+describe('Program Model', () => {
+  const creatorId = '123e4567-e89b-12d3-a456-426614174000';
+  const validCreateData = {
+    title: 'Smart Alerts',
+    description: 'Early access to smart alerting',
+    startDate: '2024-01-01T00:00:00.000Z',
+    endDate: '2024-03-01T00:00:00.000Z',
+  };
+
+  describe('Static create method', () => {
+    it('should create a pending program', () => {
+      const program = Program.create(validCreateData, creatorId);
+
+      expect(program.status).toBe(ProgramStatus.PENDING);
+      expect(program.creatorId).toBe(creatorId);
+      expect(program.stakeholders).toEqual([]);
+      expect(program.startDate).toEqual(new Date(validCreateData.startDate));
+    });
+
+    it('should require a title', () => {
+      expect(() => Program.create({ ...validCreateData, title: '' }, creatorId))
+        .toThrow('title is required and must be a non-empty string');
+    });
+
+    it('should require the start date to come before the end date', () => {
+      expect(() => Program.create({
+        ...validCreateData,
+        startDate: '2024-03-01T00:00:00.000Z',
+        endDate: '2024-01-01T00:00:00.000Z',
+      }, creatorId)).toThrow('startDate must be before endDate');
+    });
+
+    it('should reject invalid stakeholder IDs', () => {
+      expect(() => Program.create({ ...validCreateData, stakeholders: ['nope'] }, creatorId))
+        .toThrow('stakeholders must be a valid UUID');
+    });
+
+    it('should only take a positive whole capacity', () => {
+      expect(() => Program.create({ ...validCreateData, maxClients: 0 }, creatorId))
+        .toThrow('maxClients must be a positive integer');
+      expect(() => Program.create({ ...validCreateData, maxClients: 2.5 }, creatorId))
+        .toThrow('maxClients must be a positive integer');
+
+      const program = Program.create({ ...validCreateData, maxClients: 2 }, creatorId);
+      expect(program.hasRoomFor(1)).toBe(true);
+      expect(program.hasRoomFor(2)).toBe(false);
+      expect(Program.create(validCreateData, creatorId).hasRoomFor(1000)).toBe(true);
+    });
+  });
+
+  describe('Lifecycle', () => {
+    it('should follow PENDING -> LIVE -> STOPPED -> ARCHIVED', () => {
+      const program = Program.create(validCreateData, creatorId);
+
+      program.transitionTo(ProgramStatus.LIVE);
+      program.transitionTo(ProgramStatus.STOPPED);
+      program.transitionTo(ProgramStatus.ARCHIVED);
+
+      expect(program.isArchived()).toBe(true);
+    });
+
+    it('should allow resuming a stopped program', () => {
+      const program = Program.create(validCreateData, creatorId);
+      program.transitionTo(ProgramStatus.LIVE);
+      program.transitionTo(ProgramStatus.STOPPED);
+
+      expect(program.canTransitionTo(ProgramStatus.LIVE)).toBe(true);
+    });
+
+    it('should never leave ARCHIVED', () => {
+      const program = Program.create(validCreateData, creatorId);
+      program.transitionTo(ProgramStatus.ARCHIVED);
+
+      expect(program.canTransitionTo(ProgramStatus.LIVE)).toBe(false);
+      expect(() => program.transitionTo(ProgramStatus.LIVE))
+        .toThrow('Cannot transition program from ARCHIVED to LIVE');
+    });
+
+    it('should not skip from PENDING to STOPPED', () => {
+      const program = Program.create(validCreateData, creatorId);
+
+      expect(() => program.transitionTo(ProgramStatus.STOPPED)).toThrow();
+      expect(program.status).toBe(ProgramStatus.PENDING);
+    });
+  });
+
+  describe('Database conversion', () => {
+    it('should round-trip through database format', () => {
+      const program = Program.create({ ...validCreateData, stakeholders: [creatorId] }, creatorId);
+      const restored = Program.fromDatabase(program.toDatabase());
+
+      expect(restored.toJSON()).toEqual(program.toJSON());
+    });
+
+    it('should map NULL columns to undefined', () => {
+      const program = Program.create({ title: 'Minimal' }, creatorId);
+      const restored = Program.fromDatabase({
+        ...program.toDatabase(),
+        description: null,
+        stakeholders: null,
+        start_date: null,
+        end_date: null,
+      });
+
+      expect(restored.description).toBeUndefined();
+      expect(restored.stakeholders).toEqual([]);
+      expect(restored.startDate).toBeUndefined();
+    });
+  });
+});
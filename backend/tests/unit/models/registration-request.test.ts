@@ -11,6 +11,7 @@ describe('RegistrationRequest Model', () => {
     status: RegistrationRequestStatus.PENDING,
     createdAt: new Date('2023-01-01T00:00:00Z'),
     updatedAt: new Date('2023-01-01T00:00:00Z'),
+    version: 1,
     approvedBy: undefined,
     approvedAt: undefined,
     rejectionReason: undefined,
@@ -172,6 +173,7 @@ describe('RegistrationRequest Model', () => {
         status: 'PENDING',
         createdAt: '2023-01-01T00:00:00.000Z',
         updatedAt: '2023-01-01T00:00:00.000Z',
+        version: 1,
       };
       const req = new RegistrationRequest({
         ...jsonData,
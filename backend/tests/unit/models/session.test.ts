@@ -0,0 +1,50 @@
+import { Session } from '../../../src/models/session.js';
+
+describe('Session Model', () => {
+  const ttlMs = 60 * 60 * 1000;
+  const userId = '123e4567-e89b-12d3-a456-426614174000';
+
+  describe('Static create method', () => {
+    it('should create a session expiring after the TTL', () => {
+      const session = Session.create(userId, ttlMs);
+
+      expect(session.id).toBeDefined();
+      expect(session.userId).toBe(userId);
+      expect(session.expiresAt.getTime() - session.createdAt.getTime()).toBe(ttlMs);
+      expect(session.isExpired()).toBe(false);
+    });
+
+    it('should throw error for invalid userId', () => {
+      expect(() => Session.create('not-a-uuid', ttlMs)).toThrow('userId must be a valid UUID');
+    });
+  });
+
+  describe('Sliding expiry', () => {
+    it('should be expired once expiresAt has passed', () => {
+      const session = Session.create(userId, ttlMs);
+      const later = new Date(session.expiresAt.getTime() + 1);
+
+      expect(session.isExpired(later)).toBe(true);
+    });
+
+    it('should push expiry forward when touched', () => {
+      const session = Session.create(userId, ttlMs);
+      const later = new Date(session.createdAt.getTime() + ttlMs / 2);
+
+      session.touch(ttlMs, later);
+
+      expect(session.lastSeenAt).toEqual(later);
+      expect(session.expiresAt.getTime()).toBe(later.getTime() + ttlMs);
+      expect(session.isExpired(new Date(session.createdAt.getTime() + ttlMs))).toBe(false);
+    });
+  });
+
+  describe('Database conversion', () => {
+    it('should round-trip through database format', () => {
+      const session = Session.create(userId, ttlMs);
+      const restored = Session.fromDatabase(session.toDatabase());
+
+      expect(restored.toJSON()).toEqual(session.toJSON());
+    });
+  });
+});
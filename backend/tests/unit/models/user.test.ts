@@ -11,6 +11,7 @@ describe('User Model', () => {
     status: UserStatus.ACTIVE,
     createdAt: new Date('2023-01-01T00:00:00Z'),
     updatedAt: new Date('2023-01-01T00:00:00Z'),
+    version: 1,
   };
 
   describe('Constructor', () => {
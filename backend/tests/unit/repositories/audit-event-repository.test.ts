@@ -0,0 +1,74 @@
+import { Database } from '../../../src/config/database.js';
+import { MigrationManager } from '../../../src/config/migration.js';
+import { runAsActor } from '../../../src/config/actor-context.js';
+import { AuditEventRepository } from '../../../src/repositories/audit-event-repository.js';
+import { ProgramRepository } from '../../../src/repositories/program-repository.js';
+import { UserRepository } from '../../../src/repositories/user-repository.js';
+import { Program } from '../../../src/models/program.js';
+import { User } from '../../../src/models/user.js';
+import { AuditAction, AuditEntityType } from '../../../src/types/audit.js';
+import { ProgramStatus } from '../../../src/types/program.js';
+import { UserRole } from '../../../src/types/user.js';
+import { buildUser } from '../../fixtures/users.js';
+
+describe('AuditEventRepository', () => {
+  let db: Database;
+  let auditEvents: AuditEventRepository;
+  let programs: ProgramRepository;
+  let admin: User;
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+    const manager = new MigrationManager(db);
+    await manager.loadMigrations('./src/migrations');
+    await manager.migrate();
+
+    auditEvents = new AuditEventRepository(db);
+    programs = new ProgramRepository(db).auditWith(auditEvents);
+    admin = await new UserRepository(db).create(buildUser(UserRole.PRODUCT_PEOPLE));
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should record who changed what on each write', async () => {
+    const program = Program.create({ title: 'Smart Alerts' }, admin.id);
+    await runAsActor(admin.id, async () => {
+      await programs.create(program);
+      program.transitionTo(ProgramStatus.ARCHIVED);
+      await programs.update(program.id, program);
+    });
+    await programs.delete(program.id);
+
+    const { data } = await auditEvents.findWithFilters({ entityType: AuditEntityType.PROGRAM, entityId: program.id });
+
+    expect(data.map(event => [event.action, event.actorId])).toEqual([
+      [AuditAction.DELETE, undefined],
+      [AuditAction.UPDATE, admin.id],
+      [AuditAction.CREATE, admin.id],
+    ]);
+    expect(data[1]).toMatchObject({ before: { status: 'PENDING' }, after: { status: 'ARCHIVED' } });
+  });
+
+  it('should filter by actor, action and date', async () => {
+    await runAsActor(admin.id, () => programs.create(Program.create({ title: 'Smart Alerts' }, admin.id)));
+    await programs.create(Program.create({ title: 'Nightly Reports' }, admin.id));
+
+    expect((await auditEvents.findWithFilters({ actorId: admin.id })).data).toHaveLength(1);
+    expect((await auditEvents.findWithFilters({ action: AuditAction.UPDATE })).data).toHaveLength(0);
+    expect((await auditEvents.findWithFilters({ createdAt: { to: new Date('2020-01-01') } })).data).toHaveLength(0);
+  });
+
+  it('should roll the event back with the write', async () => {
+    const program = Program.create({ title: 'Smart Alerts' }, admin.id);
+
+    await expect(db.transaction(async tx => {
+      await programs.withTransaction(tx).create(program);
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(await auditEvents.count()).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+import { Database } from '../../../src/config/database.js';
+import { MigrationManager } from '../../../src/config/migration.js';
+import { QueryBuilder } from '../../../src/repositories/base.js';
+import { UserRepository } from '../../../src/repositories/user-repository.js';
+import { ValidationError } from '../../../src/utils/errors.js';
+import { CursorPagination, UserRole } from '../../../src/types/user.js';
+import { User } from '../../../src/models/user.js';
+import { buildUser } from '../../fixtures/users.js';
+
+describe('BaseRepository list queries', () => {
+  let db: Database;
+  let repository: UserRepository;
+
+  const lastNames = async (promise: ReturnType<UserRepository['findWithFilters']>) =>
+    (await promise).data.map(user => user.lastName);
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+    const manager = new MigrationManager(db);
+    await manager.loadMigrations('./src/migrations');
+    await manager.migrate();
+    repository = new UserRepository(db);
+
+    const people: Array<[string, UserRole, string]> = [
+      ['baker', UserRole.PRODUCT_PEOPLE, '2024-01-10T09:00:00.000Z'],
+      ['adams', UserRole.CLIENT_MANAGER, '2024-02-10T09:00:00.000Z'],
+      ['Carter', UserRole.CLIENT_MANAGER, '2024-03-10T09:00:00.000Z'],
+    ];
+    for (const [lastName, role, createdAt] of people) {
+      const user = buildUser(role, undefined, `${lastName.toLowerCase()}@example.com`);
+      user.lastName = lastName;
+      user.createdAt = new Date(createdAt);
+      await repository.create(user);
+    }
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should list newest first by default', async () => {
+    expect(await lastNames(repository.findWithFilters({}))).toEqual(['Carter', 'adams', 'baker']);
+  });
+
+  it('should sort by a caller-chosen key and order, ignoring case', async () => {
+    expect(await lastNames(repository.findWithFilters({}, { sortBy: 'lastName', sortOrder: 'asc' })))
+      .toEqual(['adams', 'baker', 'Carter']);
+    expect(await lastNames(repository.findWithFilters({}, { sortBy: 'lastName', sortOrder: 'desc' })))
+      .toEqual(['Carter', 'baker', 'adams']);
+  });
+
+  it('should combine filters with an inclusive date range', async () => {
+    const result = await repository.findWithFilters({
+      role: UserRole.CLIENT_MANAGER,
+      createdAt: { from: new Date('2024-02-10T09:00:00.000Z') }
+    }, { page: 1, limit: 1 });
+
+    expect(result.data.map(user => user.lastName)).toEqual(['Carter']);
+    expect(result.pagination).toEqual({ page: 1, limit: 1, total: 2, pages: 2 });
+    expect(await lastNames(repository.findWithFilters({ createdAt: { to: new Date('2024-02-01') } })))
+      .toEqual(['baker']);
+  });
+
+  it('should search through the full-text index by word prefix', async () => {
+    expect(await lastNames(repository.findWithFilters({ search: 'bak' }))).toEqual(['baker']);
+    expect(await lastNames(repository.findWithFilters({ search: 'aker' }))).toEqual([]);
+  });
+
+  describe('soft delete', () => {
+    const findBaker = async () => (await repository.findByEmail('baker@example.com')) as User;
+
+    it('should hide deleted rows from every query until restored', async () => {
+      const baker = await findBaker();
+      expect(await repository.delete(baker.id)).toBe(true);
+
+      expect(await repository.findById(baker.id)).toBeNull();
+      expect(await repository.findByEmail(baker.email)).toBeNull();
+      expect(await repository.count()).toBe(2);
+      expect(await lastNames(repository.findWithFilters({}))).toEqual(['Carter', 'adams']);
+      expect(await lastNames(repository.findWithFilters({ search: 'baker' }))).toEqual([]);
+      expect(await repository.update(baker.id, { firstName: 'Ghost' })).toBeNull();
+      expect(await repository.emailExists(baker.email)).toBe(true);
+      expect(await repository.delete(baker.id)).toBe(false);
+
+      expect((await repository.restore(baker.id))?.lastName).toBe('baker');
+      expect(await repository.restore(baker.id)).toBeNull();
+      expect(await lastNames(repository.findWithFilters({ search: 'baker' }))).toEqual(['baker']);
+    });
+
+    it('should purge only rows deleted before the cut-off', async () => {
+      const baker = await findBaker();
+      await repository.delete(baker.id);
+
+      expect(await repository.purgeDeleted(new Date(Date.now() - 60 * 1000))).toBe(0);
+      expect(await repository.purgeDeleted(new Date(Date.now() + 60 * 1000))).toBe(1);
+      expect(await repository.findDeletedById(baker.id)).toBeNull();
+      expect(await repository.emailExists(baker.email)).toBe(false);
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    it('should bump the version on every write and refuse a stale one', async () => {
+      const mine = (await repository.findByEmail('baker@example.com')) as User;
+      const theirs = (await repository.findById(mine.id)) as User;
+
+      mine.firstName = 'Mine';
+      expect((await repository.update(mine.id, mine))?.version).toBe(2);
+      expect(mine.version).toBe(2);
+
+      theirs.firstName = 'Theirs';
+      await expect(repository.update(theirs.id, theirs)).rejects.toMatchObject({ code: 'VERSION_CONFLICT' });
+      expect((await repository.findById(mine.id))?.firstName).toBe('Mine');
+
+      // Writes that carry no version always go through
+      expect((await repository.update(mine.id, { lastName: 'Baker' }))?.version).toBe(3);
+      await repository.delete(mine.id);
+      expect((await repository.restore(mine.id))?.version).toBe(5);
+    });
+  });
+
+  it('should refuse a sort key the repository does not allow', async () => {
+    await expect(repository.findWithFilters({}, { sortBy: 'password' })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should refuse filters on unknown columns', () => {
+    expect(() => new QueryBuilder(['id', 'email']).equals('password', 'x')).toThrow('Unknown column password');
+    expect(new QueryBuilder(['id', 'email']).equals('email', undefined).contains(['email'], '').build())
+      .toEqual({ where: '', params: [] });
+  });
+
+  describe('keyset pagination', () => {
+    const page = async (options: { cursor: string; sortBy?: string; sortOrder?: 'asc' | 'desc' }) => {
+      const result = await repository.findWithFilters({}, { limit: 2, ...options });
+      return { names: result.data.map(user => user.lastName), ...(result.pagination as CursorPagination) };
+    };
+
+    it('should walk forward and back with opaque cursors', async () => {
+      const first = await page({ cursor: '', sortBy: 'lastName', sortOrder: 'asc' });
+      expect(first).toMatchObject({ names: ['adams', 'baker'], limit: 2, prevCursor: null });
+
+      const second = await page({ cursor: first.nextCursor as string });
+      expect(second).toMatchObject({ names: ['Carter'], nextCursor: null });
+
+      const back = await page({ cursor: second.prevCursor as string });
+      expect(back).toMatchObject({ names: ['adams', 'baker'], prevCursor: null });
+      expect(back.nextCursor).toEqual(expect.any(String));
+    });
+
+    it('should neither skip nor repeat rows added between pages', async () => {
+      const first = await page({ cursor: '' });
+      expect(first.names).toEqual(['Carter', 'adams']);
+
+      const newcomer = buildUser(UserRole.CLIENT_MANAGER, undefined, 'newcomer@example.com');
+      newcomer.lastName = 'Newcomer';
+      await repository.create(newcomer);
+
+      expect((await page({ cursor: first.nextCursor as string })).names).toEqual(['baker']);
+    });
+
+    it('should refuse a cursor it did not issue', async () => {
+      await expect(page({ cursor: 'bm90LWEtY3Vyc29y' })).rejects.toMatchObject({ code: 'INVALID_CURSOR' });
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { Database } from '../../../src/config/database.js';
+import { MigrationManager } from '../../../src/config/migration.js';
+import { toMatchQuery } from '../../../src/repositories/base.js';
+import { SearchRepository } from '../../../src/repositories/search-repository.js';
+import { ProgramRepository } from '../../../src/repositories/program-repository.js';
+import { UserRepository } from '../../../src/repositories/user-repository.js';
+import { ClientOrganizationRepository } from '../../../src/repositories/client-organization-repository.js';
+import { Program } from '../../../src/models/program.js';
+import { ClientOrganization } from '../../../src/models/client-organization.js';
+import { SearchEntityType } from '../../../src/types/search.js';
+import { buildUser } from '../../fixtures/users.js';
+
+describe('SearchRepository', () => {
+  let db: Database;
+  let search: SearchRepository;
+  let programs: ProgramRepository;
+  let organizations: ClientOrganizationRepository;
+  let creatorId: string;
+
+  const match = (text: string): string => toMatchQuery(text) as string;
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+    const manager = new MigrationManager(db);
+    await manager.loadMigrations('./src/migrations');
+    await manager.migrate();
+
+    search = new SearchRepository(db);
+    programs = new ProgramRepository(db);
+    organizations = new ClientOrganizationRepository(db);
+    const creator = buildUser();
+    creator.firstName = 'Zoé';
+    creator.lastName = 'Durand';
+    await new UserRepository(db).create(creator);
+    creatorId = creator.id;
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should rank title matches above description matches and highlight them', async () => {
+    const inDescription = Program.create({ title: 'Billing revamp', description: 'Route every alert to the owner' }, creatorId);
+    const inTitle = Program.create({ title: 'Smart <Alerts>', description: 'Fewer pages at night' }, creatorId);
+    await programs.create(inDescription);
+    await programs.create(inTitle);
+
+    const hits = await search.searchPrograms(match('alert'), 10);
+
+    expect(hits.map(hit => hit.id)).toEqual([inTitle.id, inDescription.id]);
+    expect(hits[0]).toMatchObject({
+      type: SearchEntityType.PROGRAM,
+      title: 'Smart <Alerts>',
+      highlights: { title: 'Smart &lt;<mark>Alerts</mark>&gt;' }
+    });
+    expect(hits[1]?.highlights).toEqual({ description: 'Route every <mark>alert</mark> to the owner' });
+    expect(hits[0]?.score).toBeGreaterThan(hits[1]?.score as number);
+  });
+
+  it('should follow updates and deletions through the triggers', async () => {
+    const program = Program.create({ title: 'Smart Alerts' }, creatorId);
+    await programs.create(program);
+    await programs.update(program.id, { title: 'Quiet Hours' });
+
+    expect(await search.searchPrograms(match('smart'), 10)).toHaveLength(0);
+    expect(await search.searchPrograms(match('quiet'), 10)).toHaveLength(1);
+
+    await programs.delete(program.id);
+    expect(await search.searchPrograms(match('quiet'), 10)).toHaveLength(0);
+  });
+
+  it('should find client organisations by account ID', async () => {
+    const acme = ClientOrganization.create('Acme Corp', ['ACC-1042']);
+    await organizations.create(acme);
+    acme.mergeAccountIds(['ZX-77']);
+    await organizations.update(acme.id, acme);
+
+    const hits = await search.searchClients(match('zx-77'), 10);
+
+    expect(hits).toEqual([expect.objectContaining({
+      id: acme.id,
+      type: SearchEntityType.CLIENT,
+      title: 'Acme Corp',
+      highlights: { accountIds: 'ACC-1042 <mark>ZX-77</mark>' }
+    })]);
+  });
+
+  it('should match users by name prefix, ignoring accents', async () => {
+    const hits = await search.searchUsers(match('zoe dur'), 10);
+
+    expect(hits).toEqual([expect.objectContaining({ id: creatorId, type: SearchEntityType.USER, title: 'Zoé Durand' })]);
+  });
+
+  it('should keep user input out of the FTS5 query syntax', () => {
+    expect(toMatchQuery('title:"smart" OR *')).toBe('"title:smart"* "OR"*');
+    expect(toMatchQuery(' !! ')).toBeNull();
+  });
+});
@@ -111,6 +111,15 @@ describe('UserRepository', () => {
       expect(exists).toBe(true);
     });
 
+    it('should count active users by role', async () => {
+      db.get.mockResolvedValue({ count: 2 });
+
+      const count = await repository.countActiveByRole(UserRole.PRODUCT_PEOPLE);
+
+      expect(count).toBe(2);
+      expect(db.get).toHaveBeenCalledWith(expect.stringContaining('role = ? AND status = ?'), [UserRole.PRODUCT_PEOPLE, UserStatus.ACTIVE]);
+    });
+
     it('should count users', async () => {
       // Mock the database response
       db.get.mockResolvedValue({ total: 5 });
@@ -166,6 +175,23 @@ describe('UserRepository', () => {
       expect(result.pagination.pages).toBe(2);
     });
 
+    it('should find all users by cursor, without counting them', async () => {
+      db.all.mockResolvedValueOnce([
+        {
+          id: '1', email: 'a@a.com', first_name: 'A', last_name: 'A', role: UserRole.PRODUCT_PEOPLE, status: UserStatus.ACTIVE, created_at: new Date().toISOString(), updated_at: new Date().toISOString(), cursor_value: new Date().toISOString()
+        },
+        {
+          id: '2', email: 'b@b.com', first_name: 'B', last_name: 'B', role: UserRole.CLIENT_MANAGER, status: UserStatus.PENDING, created_at: new Date().toISOString(), updated_at: new Date().toISOString(), cursor_value: new Date().toISOString()
+        }
+      ]);
+      const result = await repository.findAll({ cursor: '', limit: 1 });
+      expect(result.data).toHaveLength(1);
+      expect(result.pagination.nextCursor).toEqual(expect.any(String));
+      expect(result.pagination.prevCursor).toBeNull();
+      expect(result.pagination).not.toHaveProperty('total');
+      expect(db.get).not.toHaveBeenCalled();
+    });
+
     it('should find users by role', async () => {
       db.all.mockResolvedValueOnce([
         {
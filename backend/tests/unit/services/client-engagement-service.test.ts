@@ -0,0 +1,116 @@
+import { ClientEngagementService } from '../../../src/services/client-engagement-service.js';
+import { ClientActivityType } from '../../../src/types/client-activity.js';
+import { NotFoundError } from '../../../src/utils/errors.js';
+import { buildActivity, buildClient, DAY_MS } from '../../fixtures/clients.js';
+import { CLIENT_MANAGER_ID } from '../../fixtures/programs.js';
+
+describe('ClientEngagementService', () => {
+  let clientRepository: any;
+  let clientActivityRepository: any;
+  let waitlistService: any;
+  let service: ClientEngagementService;
+
+  beforeEach(() => {
+    clientRepository = {
+      findById: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(async () => true)
+    };
+    clientActivityRepository = {
+      create: jest.fn(),
+      findByClientId: jest.fn(async () => [])
+    };
+    waitlistService = {
+      fillOpenSeats: jest.fn(async () => []),
+      readmit: jest.fn(),
+      remove: jest.fn(async () => [])
+    };
+    service = new ClientEngagementService(clientRepository, clientActivityRepository, waitlistService, 30 * DAY_MS);
+  });
+
+  describe('recordActivity', () => {
+    it('should store the activity and return the refreshed timeline', async () => {
+      const client = buildClient(60);
+      client.isActive = false;
+      clientRepository.findById.mockResolvedValue(client);
+      clientActivityRepository.create.mockImplementation(async (activity: any) => {
+        clientActivityRepository.findByClientId.mockResolvedValue([activity]);
+        return activity;
+      });
+
+      const timeline = await service.recordActivity(
+        client.id,
+        { type: ClientActivityType.FEEDBACK_GIVEN, notes: 'Loves the digest' },
+        CLIENT_MANAGER_ID
+      );
+
+      expect(timeline.activities).toHaveLength(1);
+      expect(timeline.activities[0]?.recordedBy).toBe(CLIENT_MANAGER_ID);
+      expect(timeline.engagement.isActive).toBe(true);
+      // Back to life: saved through the waitlist, which checks for a free seat
+      expect(waitlistService.readmit).toHaveBeenCalledWith(expect.objectContaining({ id: client.id, isActive: true }), expect.any(Date));
+    });
+
+    it('should reject invalid activities', async () => {
+      clientRepository.findById.mockResolvedValue(buildClient());
+
+      await expect(service.recordActivity(buildClient().id, { type: 'EMAILED' as ClientActivityType }, CLIENT_MANAGER_ID))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(clientActivityRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should fail for unknown clients', async () => {
+      clientRepository.findById.mockResolvedValue(null);
+
+      await expect(service.recordActivity(buildClient().id, { type: ClientActivityType.CALL_HELD }, CLIENT_MANAGER_ID))
+        .rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getTimeline', () => {
+    it('should derive the engagement without writing when the client drifted out of the window', async () => {
+      const client = buildClient(90);
+      clientRepository.findById.mockResolvedValue(client);
+      clientActivityRepository.findByClientId.mockResolvedValue([
+        buildActivity(client.id, ClientActivityType.FEATURE_USED, 40)
+      ]);
+
+      const timeline = await service.getTimeline(client.id);
+
+      expect(timeline.engagement.isActive).toBe(false);
+      expect(timeline.client.isActive).toBe(true);
+      expect(clientRepository.update).not.toHaveBeenCalled();
+      expect(waitlistService.fillOpenSeats).not.toHaveBeenCalled();
+    });
+
+    it('should not write when the active flag is unchanged', async () => {
+      const client = buildClient(1);
+      clientRepository.findById.mockResolvedValue(client);
+
+      const timeline = await service.getTimeline(client.id);
+
+      expect(timeline.engagement.isActive).toBe(true);
+      expect(clientRepository.update).not.toHaveBeenCalled();
+      expect(waitlistService.fillOpenSeats).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the client and give its seat to the waitlist in one go', async () => {
+      const client = buildClient();
+      clientRepository.findById.mockResolvedValue(client);
+
+      await service.remove(client.id);
+
+      expect(waitlistService.remove).toHaveBeenCalledWith(client);
+      expect(clientRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should return not found for unknown clients', async () => {
+      clientRepository.findById.mockResolvedValue(null);
+
+      await expect(service.remove('missing')).rejects.toBeInstanceOf(NotFoundError);
+      expect(waitlistService.remove).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { ClientOrganizationService } from '../../../src/services/client-organization-service.js';
+import { ClientOrganization } from '../../../src/models/client-organization.js';
+import { ClientActivityType } from '../../../src/types/client-activity.js';
+import { NotFoundError } from '../../../src/utils/errors.js';
+import { buildActivity, buildClient, DAY_MS } from '../../fixtures/clients.js';
+import { buildProgram } from '../../fixtures/programs.js';
+
+describe('ClientOrganizationService', () => {
+  let clientOrganizationRepository: any;
+  let clientRepository: any;
+  let clientActivityRepository: any;
+  let programRepository: any;
+  let service: ClientOrganizationService;
+
+  beforeEach(() => {
+    clientOrganizationRepository = {
+      findById: jest.fn(),
+      findAllByName: jest.fn(async () => [])
+    };
+    clientRepository = {
+      findByOrganizationId: jest.fn(async () => [])
+    };
+    clientActivityRepository = {
+      findByClientId: jest.fn(async () => [])
+    };
+    programRepository = {
+      findById: jest.fn(async () => buildProgram())
+    };
+    service = new ClientOrganizationService(
+      clientOrganizationRepository,
+      clientRepository,
+      clientActivityRepository,
+      programRepository,
+      30 * DAY_MS
+    );
+  });
+
+  describe('getProfile', () => {
+    it('should list every program the organisation joined with its engagement', async () => {
+      const organization = ClientOrganization.create('Acme Corp', ['ACC-1']);
+      const engaged = buildClient(60);
+      const dormant = buildClient(200);
+      const activities: Record<string, any[]> = {
+        [engaged.id]: [
+          buildActivity(engaged.id, ClientActivityType.FEEDBACK_GIVEN, 1),
+          buildActivity(engaged.id, ClientActivityType.CALL_HELD, 10)
+        ],
+        [dormant.id]: [buildActivity(dormant.id, ClientActivityType.WENT_SILENT, 150)]
+      };
+      clientOrganizationRepository.findById.mockResolvedValue(organization);
+      clientRepository.findByOrganizationId.mockResolvedValue([engaged, dormant]);
+      clientActivityRepository.findByClientId.mockImplementation(async (clientId: string) => activities[clientId]);
+
+      const profile = await service.getProfile(organization.id);
+
+      expect(profile.organization).toBe(organization);
+      expect(profile.programs).toHaveLength(2);
+      expect(profile.programs[0]).toMatchObject({ activityCount: 2, engagement: { isActive: true } });
+      expect(profile.programs[0]?.engagementScore).toBeGreaterThan(0);
+      expect(profile.programs[1]).toMatchObject({ activityCount: 1, engagementScore: 0, engagement: { isActive: false } });
+      expect(profile.engagementScore).toBeLessThanOrEqual(profile.programs[0]?.engagementScore ?? 0);
+    });
+
+    it('should fail for unknown organisations', async () => {
+      clientOrganizationRepository.findById.mockResolvedValue(null);
+
+      await expect(service.getProfile(buildClient().id)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getCandidates', () => {
+    it('should rank organisations by score and leave out those already in the program', async () => {
+      const quiet = ClientOrganization.create('Quiet Ltd', []);
+      const eager = ClientOrganization.create('Eager Inc', []);
+      const enrolled = ClientOrganization.create('Enrolled SA', []);
+      const target = buildProgram();
+      const eagerClient = buildClient(30);
+      const enrolledClient = buildClient(30);
+      clientOrganizationRepository.findAllByName.mockResolvedValue([eager, enrolled, quiet]);
+      clientRepository.findByOrganizationId.mockImplementation(async (id: string) => {
+        if (id === eager.id) return [eagerClient];
+        if (id === enrolled.id) return [enrolledClient];
+        return [];
+      });
+      programRepository.findById.mockImplementation(async (id: string) => (id === enrolledClient.programId ? target : buildProgram()));
+      clientActivityRepository.findByClientId.mockImplementation(async (clientId: string) =>
+        clientId === eagerClient.id ? [buildActivity(clientId, ClientActivityType.FEEDBACK_GIVEN, 2)] : []
+      );
+
+      const candidates = await service.getCandidates({ excludeProgramId: target.id, limit: 10 });
+
+      expect(candidates.map(profile => profile.organization.name)).toEqual(['Eager Inc', 'Quiet Ltd']);
+      expect(candidates[0]?.engagementScore).toBeGreaterThan(candidates[1]?.engagementScore ?? 0);
+    });
+  });
+});
@@ -0,0 +1,300 @@
+import { EnrollmentRequestService } from '../../../src/services/enrollment-request-service.js';
+import { Database } from '../../../src/config/database.js';
+import { DomainEventBus } from '../../../src/config/domain-events.js';
+import { MigrationManager } from '../../../src/config/migration.js';
+import { createServices } from '../../../src/config/services.js';
+import { ContactUser } from '../../../src/models/contact-user.js';
+import { ClientOrganization } from '../../../src/models/client-organization.js';
+import { EnrollmentRequestStatus } from '../../../src/types/enrollment.js';
+import { ProgramStatus } from '../../../src/types/program.js';
+import { UserRole, UserStatus } from '../../../src/types/user.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../../src/utils/errors.js';
+import { buildEnrollmentRequest, buildProgram, CREATOR_ID, CLIENT_MANAGER_ID } from '../../fixtures/programs.js';
+import { buildUser } from '../../fixtures/users.js';
+import { bindable, buildFakeDatabase } from '../../fixtures/database.js';
+
+describe('EnrollmentRequestService', () => {
+  let db: any;
+  let enrollmentRequestRepository: any;
+  let contactUserRepository: any;
+  let clientRepository: any;
+  let clientOrganizationRepository: any;
+  let programRepository: any;
+  let service: EnrollmentRequestService;
+
+  const submission = (programId: string) => ({
+    programId,
+    clientName: 'Acme Corp',
+    accountIds: ['ACC-1'],
+    contacts: [{ firstName: 'Jane', lastName: 'Roe', email: 'jane@acme.test' }],
+    motivation: 'Heavy alerting user'
+  });
+
+  beforeEach(() => {
+    db = buildFakeDatabase();
+    enrollmentRequestRepository = bindable({
+      create: jest.fn(),
+      findById: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(async () => true),
+      findDeletedById: jest.fn(async () => null),
+      restore: jest.fn(async (id: string) => ({ id })),
+      hasPendingRequest: jest.fn(async () => false)
+    });
+    contactUserRepository = bindable({
+      create: jest.fn(),
+      linkToEnrollmentRequest: jest.fn(),
+      linkToClient: jest.fn(),
+      findByEnrollmentRequestId: jest.fn(async () => [])
+    });
+    clientRepository = bindable({
+      create: jest.fn(),
+      countSeated: jest.fn(async () => 0)
+    });
+    clientOrganizationRepository = bindable({
+      findMatching: jest.fn(async () => null),
+      create: jest.fn(),
+      update: jest.fn()
+    });
+    programRepository = bindable({
+      findById: jest.fn()
+    });
+    service = new EnrollmentRequestService(
+      db,
+      enrollmentRequestRepository,
+      contactUserRepository,
+      clientRepository,
+      clientOrganizationRepository,
+      programRepository,
+      new DomainEventBus()
+    );
+  });
+
+  describe('submit', () => {
+    it('should file a request with its contacts in one transaction', async () => {
+      const program = buildProgram(ProgramStatus.LIVE);
+      programRepository.findById.mockResolvedValue(program);
+
+      const { request, contacts } = await service.submit(submission(program.id), CLIENT_MANAGER_ID);
+
+      expect(request.status).toBe(EnrollmentRequestStatus.PENDING);
+      expect(request.requestedBy).toBe(CLIENT_MANAGER_ID);
+      expect(contacts).toHaveLength(1);
+      expect(contactUserRepository.linkToEnrollmentRequest).toHaveBeenCalledWith(request.id, contacts[0]?.id);
+      expect(db.committed).toHaveBeenCalled();
+    });
+
+    it.each([ProgramStatus.STOPPED, ProgramStatus.ARCHIVED])('should refuse enrollments into %s programs', async status => {
+      const program = buildProgram(status);
+      programRepository.findById.mockResolvedValue(program);
+
+      await expect(service.submit(submission(program.id), CLIENT_MANAGER_ID)).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'PROGRAM_CLOSED'
+      });
+      expect(enrollmentRequestRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should accept enrollments into programs still in staging', async () => {
+      const program = buildProgram(ProgramStatus.PENDING);
+      programRepository.findById.mockResolvedValue(program);
+
+      await expect(service.submit(submission(program.id), CLIENT_MANAGER_ID)).resolves.toBeDefined();
+    });
+
+    it('should require at least one contact', async () => {
+      const program = buildProgram();
+
+      await expect(service.submit({ ...submission(program.id), contacts: [] }, CLIENT_MANAGER_ID))
+        .rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should refuse a duplicate pending request', async () => {
+      const program = buildProgram();
+      programRepository.findById.mockResolvedValue(program);
+      enrollmentRequestRepository.hasPendingRequest.mockResolvedValue(true);
+
+      await expect(service.submit(submission(program.id), CLIENT_MANAGER_ID)).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+
+  describe('approve', () => {
+    it('should enroll the client and link its contacts', async () => {
+      const program = buildProgram();
+      const request = buildEnrollmentRequest(program.id);
+      const contact = ContactUser.create({ firstName: 'Jane', lastName: 'Roe', email: 'jane@acme.test' });
+      programRepository.findById.mockResolvedValue(program);
+      enrollmentRequestRepository.findById.mockResolvedValue(request);
+      contactUserRepository.findByEnrollmentRequestId.mockResolvedValue([contact]);
+
+      const { client } = await service.approve(request.id, CREATOR_ID);
+
+      expect(request.status).toBe(EnrollmentRequestStatus.APPROVED);
+      expect(client.programId).toBe(program.id);
+      expect(client.enrollmentRequestId).toBe(request.id);
+      expect(client.accountIds).toEqual(request.accountIds);
+      expect(clientRepository.create).toHaveBeenCalledWith(client);
+      expect(contactUserRepository.linkToClient).toHaveBeenCalledWith(client.id, contact.id);
+      expect(db.committed).toHaveBeenCalled();
+    });
+
+    it('should waitlist the client when the program is full', async () => {
+      const program = buildProgram();
+      program.maxClients = 2;
+      const request = buildEnrollmentRequest(program.id);
+      programRepository.findById.mockResolvedValue(program);
+      enrollmentRequestRepository.findById.mockResolvedValue(request);
+      clientRepository.countSeated.mockResolvedValue(2);
+
+      const { client } = await service.approve(request.id, CREATOR_ID);
+
+      expect(request.status).toBe(EnrollmentRequestStatus.APPROVED);
+      expect(client.isWaitlisted()).toBe(true);
+      expect(clientRepository.countSeated).toHaveBeenCalledWith(program.id);
+      expect(clientRepository.create).toHaveBeenCalledWith(client);
+    });
+
+    it('should create the client organisation on its first enrollment', async () => {
+      const program = buildProgram();
+      const request = buildEnrollmentRequest(program.id);
+      programRepository.findById.mockResolvedValue(program);
+      enrollmentRequestRepository.findById.mockResolvedValue(request);
+
+      const { client, organization } = await service.approve(request.id, CREATOR_ID);
+
+      expect(organization.name).toBe(request.clientName);
+      expect(organization.accountIds).toEqual(request.accountIds);
+      expect(client.organizationId).toBe(organization.id);
+      expect(clientOrganizationRepository.create).toHaveBeenCalledWith(organization);
+    });
+
+    it('should reuse a known organisation and merge new account IDs', async () => {
+      const program = buildProgram();
+      const request = buildEnrollmentRequest(program.id);
+      const known = ClientOrganization.create('ACME CORP', ['ACC-1']);
+      programRepository.findById.mockResolvedValue(program);
+      enrollmentRequestRepository.findById.mockResolvedValue(request);
+      clientOrganizationRepository.findMatching.mockResolvedValue(known);
+
+      const { client, organization } = await service.approve(request.id, CREATOR_ID);
+
+      expect(clientOrganizationRepository.findMatching).toHaveBeenCalledWith(request.clientName, request.accountIds);
+      expect(organization).toBe(known);
+      expect(organization.accountIds).toEqual(['ACC-1', 'ACC-2']);
+      expect(client.organizationId).toBe(known.id);
+      expect(clientOrganizationRepository.create).not.toHaveBeenCalled();
+      expect(clientOrganizationRepository.update).toHaveBeenCalledWith(known.id, known);
+    });
+
+    it('should roll back if the client cannot be created', async () => {
+      const program = buildProgram();
+      const request = buildEnrollmentRequest(program.id);
+      programRepository.findById.mockResolvedValue(program);
+      enrollmentRequestRepository.findById.mockResolvedValue(request);
+      clientRepository.create.mockRejectedValue(new Error('constraint failed'));
+
+      await expect(service.approve(request.id, CREATOR_ID)).rejects.toThrow('constraint failed');
+      expect(clientRepository.withTransaction).toHaveBeenCalledWith(db);
+      expect(db.rolledBack).toHaveBeenCalled();
+    });
+
+    it('should refuse approval once the program is archived', async () => {
+      const program = buildProgram(ProgramStatus.ARCHIVED);
+      const request = buildEnrollmentRequest(program.id);
+      programRepository.findById.mockResolvedValue(program);
+      enrollmentRequestRepository.findById.mockResolvedValue(request);
+
+      await expect(service.approve(request.id, CREATOR_ID)).rejects.toBeInstanceOf(ConflictError);
+      expect(programRepository.withTransaction).toHaveBeenCalledWith(db);
+      expect(clientRepository.create).not.toHaveBeenCalled();
+      expect(db.rolledBack).toHaveBeenCalled();
+    });
+
+    it('should enroll concurrent approvals of one organisation under a single organisation', async () => {
+      const database = new Database({ dbPath: ':memory:' });
+      await database.connect();
+      try {
+        const migrations = new MigrationManager(database);
+        await migrations.loadMigrations('./src/migrations');
+        await migrations.migrate();
+        const services = createServices(database);
+        const reviewer = await services.userRepository.create(buildUser(UserRole.PRODUCT_PEOPLE, UserStatus.ACTIVE, 'reviewer@example.com'));
+        const manager = await services.userRepository.create(buildUser(UserRole.CLIENT_MANAGER, UserStatus.ACTIVE, 'manager@example.com'));
+        const submitTo = async (title: string) => {
+          const program = await services.programService.create({ title }, reviewer.id);
+          return (await services.enrollmentRequestService.submit(submission(program.id), manager.id)).request;
+        };
+        const first = await submitTo('Smart Alerts');
+        const second = await submitTo('Dark Mode');
+
+        const approvals = await Promise.all([
+          services.enrollmentRequestService.approve(first.id, reviewer.id),
+          services.enrollmentRequestService.approve(second.id, reviewer.id)
+        ]);
+
+        expect(approvals[0].organization.id).toBe(approvals[1].organization.id);
+        expect(await services.clientOrganizationRepository.findAllByName()).toHaveLength(1);
+      } finally {
+        await database.close();
+      }
+    });
+  });
+
+  describe('reject', () => {
+    it('should require a reason', async () => {
+      await expect(service.reject('any', CREATOR_ID, '')).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should reject with a reason', async () => {
+      const request = buildEnrollmentRequest(buildProgram().id);
+      enrollmentRequestRepository.findById.mockResolvedValue(request);
+
+      const rejected = await service.reject(request.id, CREATOR_ID, 'Not a fit');
+
+      expect(rejected.status).toBe(EnrollmentRequestStatus.REJECTED);
+      expect(rejected.rejectionReason).toBe('Not a fit');
+      expect(clientRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getById', () => {
+    it('should hide other managers\' requests from Client Managers', async () => {
+      const request = buildEnrollmentRequest(buildProgram().id);
+      enrollmentRequestRepository.findById.mockResolvedValue(request);
+
+      await expect(service.getById(request.id, buildUser(UserRole.CLIENT_MANAGER)))
+        .rejects.toBeInstanceOf(NotFoundError);
+      await expect(service.getById(request.id, buildUser(UserRole.PRODUCT_PEOPLE)))
+        .resolves.toHaveProperty('request', request);
+    });
+  });
+
+  describe('delete / restore', () => {
+    const admin = buildUser(UserRole.PRODUCT_PEOPLE);
+
+    it('should keep approved requests, which record an enrollment', async () => {
+      const request = buildEnrollmentRequest(buildProgram().id);
+      request.review({ approved: true }, CREATOR_ID);
+      enrollmentRequestRepository.findById.mockResolvedValue(request);
+
+      await expect(service.delete(request.id, admin)).rejects.toMatchObject({ code: 'ENROLLMENT_REQUEST_APPROVED' });
+      expect(enrollmentRequestRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to restore a pending request superseded by a newer one', async () => {
+      const request = buildEnrollmentRequest(buildProgram().id);
+      enrollmentRequestRepository.findDeletedById.mockResolvedValue(request);
+      enrollmentRequestRepository.hasPendingRequest.mockResolvedValue(true);
+
+      await expect(service.restore(request.id, admin)).rejects.toMatchObject({ code: 'ENROLLMENT_ALREADY_PENDING' });
+      expect(enrollmentRequestRepository.restore).not.toHaveBeenCalled();
+    });
+
+    it('should report a request that is not deleted', async () => {
+      const request = buildEnrollmentRequest(buildProgram().id);
+      enrollmentRequestRepository.findById.mockResolvedValue(request);
+
+      await expect(service.restore(request.id, admin)).rejects.toMatchObject({ code: 'ENROLLMENT_REQUEST_NOT_DELETED' });
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { Database } from '../../../src/config/database.js';
+import { MigrationManager } from '../../../src/config/migration.js';
+import { DomainEventBus } from '../../../src/config/domain-events.js';
+import { runAsActor } from '../../../src/config/actor-context.js';
+import { InboxService } from '../../../src/services/inbox-service.js';
+import { NotificationRepository } from '../../../src/repositories/notification-repository.js';
+import { UserRepository } from '../../../src/repositories/user-repository.js';
+import { ProgramRepository } from '../../../src/repositories/program-repository.js';
+import { Client } from '../../../src/models/client.js';
+import { EnrollmentRequest } from '../../../src/models/enrollment-request.js';
+import { Program } from '../../../src/models/program.js';
+import { RegistrationRequest } from '../../../src/models/registration-request.js';
+import { User } from '../../../src/models/user.js';
+import { DomainEventType } from '../../../src/types/events.js';
+import { NotificationType } from '../../../src/types/notification.js';
+import { ProgramStatus } from '../../../src/types/program.js';
+import { UserRole, UserStatus } from '../../../src/types/user.js';
+import { NotFoundError } from '../../../src/utils/errors.js';
+import { buildUser } from '../../fixtures/users.js';
+import { DAY_MS } from '../../fixtures/clients.js';
+
+describe('InboxService', () => {
+  let db: Database;
+  let users: UserRepository;
+  let programs: ProgramRepository;
+  let service: InboxService;
+  let bus: DomainEventBus;
+  let creator: User;
+  let stakeholder: User;
+  let manager: User;
+  let program: Program;
+
+  const messagesOf = async (user: User) =>
+    (await service.list(user.id, {}, {})).data.map(notification => notification.message);
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+    const migrations = new MigrationManager(db);
+    await migrations.loadMigrations('./src/migrations');
+    await migrations.migrate();
+
+    users = new UserRepository(db);
+    programs = new ProgramRepository(db);
+    service = new InboxService(new NotificationRepository(db), users, programs, 7 * DAY_MS);
+    bus = new DomainEventBus();
+    bus.subscribe(async event => {
+      await service.handle(event);
+    });
+
+    creator = await users.create(buildUser(UserRole.PRODUCT_PEOPLE, UserStatus.ACTIVE, 'creator@example.com'));
+    stakeholder = await users.create(buildUser(UserRole.PRODUCT_PEOPLE, UserStatus.ACTIVE, 'stakeholder@example.com'));
+    manager = await users.create(buildUser(UserRole.CLIENT_MANAGER, UserStatus.ACTIVE, 'manager@example.com'));
+    await users.create(buildUser(UserRole.PRODUCT_PEOPLE, UserStatus.INACTIVE, 'former@example.com'));
+    program = await programs.create(Program.create({ title: 'Smart Alerts', stakeholders: [stakeholder.id] }, creator.id));
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should tell the program team about new requests and the filer about decisions, never the actor', async () => {
+    const request = EnrollmentRequest.create({
+      programId: program.id,
+      clientName: 'Acme Corp',
+      accountIds: ['ACC-1'],
+      contacts: []
+    }, manager.id);
+
+    await runAsActor(manager.id, () => bus.publish(DomainEventType.ENROLLMENT_SUBMITTED, { request }));
+    request.review({ approved: false, rejectionReason: 'Too early' }, stakeholder.id);
+    await runAsActor(stakeholder.id, () => bus.publish(DomainEventType.ENROLLMENT_REJECTED, { request }));
+
+    expect(await messagesOf(creator)).toEqual(['Acme Corp was proposed for Smart Alerts']);
+    expect(await messagesOf(stakeholder)).toEqual(['Acme Corp was proposed for Smart Alerts']);
+    expect(await messagesOf(manager)).toEqual(['Acme Corp was not enrolled in Smart Alerts: Too early']);
+  });
+
+  it('should tell the filer when the approval put their client on the waitlist, or off it', async () => {
+    const request = EnrollmentRequest.create({
+      programId: program.id,
+      clientName: 'Acme Corp',
+      accountIds: ['ACC-1'],
+      contacts: []
+    }, manager.id);
+    request.review({ approved: true }, stakeholder.id);
+    const client = Client.enroll(program.id, request.id, request.accountIds);
+    client.waitlist();
+
+    await runAsActor(stakeholder.id, () => bus.publish(DomainEventType.ENROLLMENT_WAITLISTED, { request, client }));
+    client.promote();
+    await bus.publish(DomainEventType.ENROLLMENT_PROMOTED, { request, client });
+
+    const [promoted, waitlisted] = (await service.list(manager.id, {}, {})).data;
+    expect(waitlisted).toMatchObject({ type: NotificationType.ENROLLMENT_WAITLISTED, entityId: request.id });
+    expect(waitlisted?.message).toBe('Acme Corp is on the waitlist of Smart Alerts');
+    expect(promoted).toMatchObject({ type: NotificationType.ENROLLMENT_APPROVED, message: 'Acme Corp was enrolled in Smart Alerts' });
+    expect(await messagesOf(stakeholder)).toEqual([]);
+  });
+
+  it('should announce a program nearing its end date once to each team member', async () => {
+    const now = new Date();
+    program.update({ endDate: new Date(now.getTime() + 3 * DAY_MS) });
+    program.transitionTo(ProgramStatus.LIVE);
+    await programs.update(program.id, program);
+    const later = Program.create({ title: 'Later', endDate: new Date(now.getTime() + 30 * DAY_MS) }, creator.id);
+    later.transitionTo(ProgramStatus.LIVE);
+    await programs.create(later);
+
+    expect(await service.notifyEndingPrograms(now)).toBe(2);
+    expect(await service.notifyEndingPrograms(now)).toBe(0);
+
+    const [notice] = (await service.list(stakeholder.id, { type: NotificationType.PROGRAM_ENDING_SOON }, {})).data;
+    expect(notice).toMatchObject({ entityId: program.id, readAt: undefined });
+    expect(notice?.message).toBe(`Smart Alerts ends on ${program.endDate?.toISOString().slice(0, 10)}`);
+  });
+
+  it('should count, mark read and mark all read within the recipient\'s own inbox', async () => {
+    for (const email of ['first@example.com', 'second@example.com']) {
+      const request = RegistrationRequest.create({
+        email,
+        firstName: 'New',
+        lastName: 'Comer',
+        requestedRole: UserRole.CLIENT_MANAGER
+      });
+      await bus.publish(DomainEventType.REGISTRATION_SUBMITTED, { request });
+    }
+    expect(await service.countUnread(creator.id)).toBe(2);
+    expect(await messagesOf(creator)).toEqual(['New Comer asked to join as Client Manager', 'New Comer asked to join as Client Manager']);
+
+    const [latest] = (await service.list(creator.id, { unread: true }, {})).data;
+    await expect(service.markRead(latest?.id as string, stakeholder.id)).rejects.toBeInstanceOf(NotFoundError);
+    expect((await service.markRead(latest?.id as string, creator.id)).readAt).toBeInstanceOf(Date);
+    expect(await service.countUnread(creator.id)).toBe(1);
+
+    expect(await service.markAllRead(creator.id)).toBe(1);
+    expect(await service.countUnread(creator.id)).toBe(0);
+    expect(await service.countUnread(stakeholder.id)).toBe(2);
+  });
+});
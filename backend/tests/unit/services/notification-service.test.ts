@@ -0,0 +1,130 @@
+import { Database } from '../../../src/config/database.js';
+import { MigrationManager } from '../../../src/config/migration.js';
+import { DomainEventBus } from '../../../src/config/domain-events.js';
+import { runAsActor } from '../../../src/config/actor-context.js';
+import { NotificationService } from '../../../src/services/notification-service.js';
+import { SmtpChannel } from '../../../src/services/channels/smtp-channel.js';
+import { OutboxMessageRepository } from '../../../src/repositories/outbox-message-repository.js';
+import { UserRepository } from '../../../src/repositories/user-repository.js';
+import { ProgramRepository } from '../../../src/repositories/program-repository.js';
+import { MAX_DELIVERY_ATTEMPTS, RETRY_BASE_DELAY_MS } from '../../../src/models/outbox-message.js';
+import { Program } from '../../../src/models/program.js';
+import { RegistrationRequest } from '../../../src/models/registration-request.js';
+import { User } from '../../../src/models/user.js';
+import { DomainEventType } from '../../../src/types/events.js';
+import { OutboxStatus } from '../../../src/types/notification.js';
+import { ProgramStatus } from '../../../src/types/program.js';
+import { UserRole, UserStatus } from '../../../src/types/user.js';
+import { buildUser } from '../../fixtures/users.js';
+import { FakeSmtpServer, startFakeSmtpServer } from '../../fixtures/smtp-server.js';
+import { FAKE_SMTP_CERT } from '../../fixtures/smtp-tls.js';
+
+describe('NotificationService', () => {
+  let db: Database;
+  let server: FakeSmtpServer;
+  let outbox: OutboxMessageRepository;
+  let users: UserRepository;
+  let bus: DomainEventBus;
+  let service: NotificationService;
+
+  const createUser = (role: UserRole, email: string, status = UserStatus.ACTIVE) =>
+    users.create(buildUser(role, status, email));
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+    const manager = new MigrationManager(db);
+    await manager.loadMigrations('./src/migrations');
+    await manager.migrate();
+    server = await startFakeSmtpServer();
+
+    outbox = new OutboxMessageRepository(db);
+    users = new UserRepository(db);
+    const channel = new SmtpChannel({
+      host: '127.0.0.1',
+      port: server.port,
+      secure: false,
+      from: 'no-reply@example.com',
+      ca: FAKE_SMTP_CERT,
+      timeoutMs: 2000
+    });
+    service = new NotificationService(outbox, users, new ProgramRepository(db), channel);
+    bus = new DomainEventBus();
+    bus.subscribe(async event => {
+      await service.handle(event);
+    });
+  });
+
+  afterEach(async () => {
+    service.stop();
+    await server.close();
+    await db.close();
+  });
+
+  it('should queue a templated email for an approved registration and send it', async () => {
+    const request = RegistrationRequest.create({
+      email: 'newcomer@example.com',
+      firstName: 'Nina',
+      lastName: 'Comer',
+      requestedRole: UserRole.CLIENT_MANAGER
+    });
+    const user = User.create({ email: request.email, firstName: 'Nina', lastName: 'Comer', role: UserRole.CLIENT_MANAGER });
+
+    const event = await bus.publish(DomainEventType.REGISTRATION_APPROVED, { request, user });
+    const [queued] = await outbox.findByEventId(event.id);
+    expect(queued).toMatchObject({ to: 'newcomer@example.com', status: OutboxStatus.PENDING, attempts: 0 });
+
+    expect(await service.dispatch()).toEqual({ sent: 1, retrying: 0, failed: 0 });
+    expect(server.received.map(mail => mail.headers['Subject'])).toEqual(['Your AB-EAM account is ready']);
+    expect(server.received[0]?.text).toContain('Hello Nina,');
+    expect(server.received[0]?.text).toContain('as Client Manager');
+    expect((await outbox.findById(queued?.id as string))?.status).toBe(OutboxStatus.SENT);
+  });
+
+  it('should tell the program team and active Client Managers, but not the actor, that a program is live', async () => {
+    const creator = await createUser(UserRole.PRODUCT_PEOPLE, 'creator@example.com');
+    const stakeholder = await createUser(UserRole.PRODUCT_PEOPLE, 'stakeholder@example.com');
+    await createUser(UserRole.CLIENT_MANAGER, 'manager@example.com');
+    await createUser(UserRole.CLIENT_MANAGER, 'former@example.com', UserStatus.INACTIVE);
+    const program = Program.create({ title: 'Smart Alerts', stakeholders: [stakeholder.id] }, creator.id);
+    program.transitionTo(ProgramStatus.LIVE);
+
+    await runAsActor(creator.id, () =>
+      bus.publish(DomainEventType.PROGRAM_STATUS_CHANGED, { program, previousStatus: ProgramStatus.PENDING })
+    );
+    await service.dispatch();
+
+    expect(server.received.flatMap(mail => mail.to).sort()).toEqual(['manager@example.com', 'stakeholder@example.com']);
+    expect(server.received[0]?.headers['Subject']).toBe('Smart Alerts is now LIVE');
+  });
+
+  it('should retry failed sends with a growing delay and give up after the last attempt', async () => {
+    const request = RegistrationRequest.create({
+      email: 'newcomer@example.com',
+      firstName: 'Nina',
+      lastName: 'Comer',
+      requestedRole: UserRole.CLIENT_MANAGER
+    });
+    request.process({ approved: false, rejectionReason: 'Unknown team' }, crypto.randomUUID());
+    const event = await bus.publish(DomainEventType.REGISTRATION_REJECTED, { request });
+    server.refuseRecipients = '450 Mailbox busy';
+
+    let now = new Date();
+    for (let attempt = 1; attempt < MAX_DELIVERY_ATTEMPTS; attempt++) {
+      expect(await service.dispatch(now)).toEqual({ sent: 0, retrying: 1, failed: 0 });
+      const [message] = await outbox.findByEventId(event.id);
+      expect(message?.nextAttemptAt).toEqual(new Date(now.getTime() + RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+      // Not due again before its delay is over
+      expect(await service.dispatch(now)).toEqual({ sent: 0, retrying: 0, failed: 0 });
+      now = message?.nextAttemptAt as Date;
+    }
+
+    expect(await service.dispatch(now)).toEqual({ sent: 0, retrying: 0, failed: 1 });
+    const [message] = await outbox.findByEventId(event.id);
+    expect(message).toMatchObject({
+      status: OutboxStatus.FAILED,
+      attempts: MAX_DELIVERY_ATTEMPTS,
+      lastError: 'SMTP RCPT failed: 450 Mailbox busy'
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { ProgramService } from '../../../src/services/program-service.js';
+import { DomainEventBus } from '../../../src/config/domain-events.js';
+import { Program } from '../../../src/models/program.js';
+import { ProgramStatus } from '../../../src/types/program.js';
+import { DomainEvent, DomainEventType } from '../../../src/types/events.js';
+import { UserRole } from '../../../src/types/user.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../../src/utils/errors.js';
+import { buildUser } from '../../fixtures/users.js';
+
+describe('ProgramService', () => {
+  const creator = buildUser(UserRole.PRODUCT_PEOPLE);
+  let programRepository: any;
+  let userRepository: any;
+  let waitlistService: any;
+  let service: ProgramService;
+  let events: DomainEvent[];
+
+  beforeEach(() => {
+    programRepository = {
+      create: jest.fn(async (program: Program) => program),
+      findById: jest.fn(),
+      findWithFilters: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(async () => true)
+    };
+    userRepository = {
+      findById: jest.fn()
+    };
+    const bus = new DomainEventBus();
+    events = [];
+    bus.subscribe(event => {
+      events.push(event);
+    });
+    waitlistService = {
+      fillOpenSeats: jest.fn(async () => [])
+    };
+    service = new ProgramService(programRepository, userRepository, waitlistService, bus);
+  });
+
+  it('should create a program with Product People stakeholders', async () => {
+    const stakeholder = buildUser(UserRole.PRODUCT_PEOPLE, undefined, 'designer@example.com');
+    userRepository.findById.mockResolvedValue(stakeholder);
+
+    const program = await service.create({ title: 'Smart Alerts', stakeholders: [stakeholder.id] }, creator.id);
+
+    expect(program.stakeholders).toEqual([stakeholder.id]);
+    expect(programRepository.create).toHaveBeenCalledWith(program);
+  });
+
+  it('should refuse Client Managers as stakeholders', async () => {
+    const manager = buildUser(UserRole.CLIENT_MANAGER);
+    userRepository.findById.mockResolvedValue(manager);
+
+    await expect(service.create({ title: 'Smart Alerts', stakeholders: [manager.id] }, creator.id))
+      .rejects.toBeInstanceOf(ValidationError);
+    expect(programRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject an end date before the start date', async () => {
+    await expect(service.create({
+      title: 'Smart Alerts',
+      startDate: '2024-03-01',
+      endDate: '2024-01-01'
+    }, creator.id)).rejects.toThrow('startDate must be before endDate');
+  });
+
+  it('should apply a legal transition', async () => {
+    const program = Program.create({ title: 'Smart Alerts' }, creator.id);
+    programRepository.findById.mockResolvedValue(program);
+
+    const updated = await service.transition(program.id, ProgramStatus.LIVE);
+
+    expect(updated.status).toBe(ProgramStatus.LIVE);
+    expect(programRepository.update).toHaveBeenCalledWith(program.id, program);
+    expect(events).toEqual([expect.objectContaining({
+      type: DomainEventType.PROGRAM_STATUS_CHANGED,
+      data: { program, previousStatus: ProgramStatus.PENDING }
+    })]);
+  });
+
+  it('should refuse an illegal transition with a conflict', async () => {
+    const program = Program.create({ title: 'Smart Alerts' }, creator.id);
+    program.transitionTo(ProgramStatus.ARCHIVED);
+    programRepository.findById.mockResolvedValue(program);
+
+    await expect(service.transition(program.id, ProgramStatus.LIVE)).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'INVALID_STATUS_TRANSITION'
+    });
+    expect(programRepository.update).not.toHaveBeenCalled();
+    expect(events).toEqual([]);
+  });
+
+  it('should let waitlisted clients in when the capacity changes', async () => {
+    const program = Program.create({ title: 'Smart Alerts', maxClients: 2 }, creator.id);
+    programRepository.findById.mockResolvedValue(program);
+
+    await service.update(program.id, { title: 'Smart Alerts v2' });
+    expect(waitlistService.fillOpenSeats).not.toHaveBeenCalled();
+
+    const updated = await service.update(program.id, { maxClients: null });
+    expect(updated.maxClients).toBeUndefined();
+    expect(waitlistService.fillOpenSeats).toHaveBeenCalledWith(program.id);
+  });
+
+  it('should refuse edits to archived programs', async () => {
+    const program = Program.create({ title: 'Smart Alerts' }, creator.id);
+    program.transitionTo(ProgramStatus.ARCHIVED);
+    programRepository.findById.mockResolvedValue(program);
+
+    await expect(service.update(program.id, { title: 'New title' })).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('should only delete pending programs', async () => {
+    const program = Program.create({ title: 'Smart Alerts' }, creator.id);
+    programRepository.findById.mockResolvedValue(program);
+    await service.delete(program.id);
+    expect(programRepository.delete).toHaveBeenCalledWith(program.id);
+
+    program.transitionTo(ProgramStatus.LIVE);
+    await expect(service.delete(program.id)).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('should return not found for unknown programs', async () => {
+    programRepository.findById.mockResolvedValue(null);
+
+    await expect(service.getById('unknown')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,66 @@
+import { Database } from '../../../src/config/database.js';
+import { MigrationManager } from '../../../src/config/migration.js';
+import { PurgeService } from '../../../src/services/purge-service.js';
+import { UserRepository } from '../../../src/repositories/user-repository.js';
+import { ProgramRepository } from '../../../src/repositories/program-repository.js';
+import { EnrollmentRequestRepository } from '../../../src/repositories/enrollment-request-repository.js';
+import { Program } from '../../../src/models/program.js';
+import { User } from '../../../src/models/user.js';
+import { UserRole } from '../../../src/types/user.js';
+import { buildUser } from '../../fixtures/users.js';
+import { DAY_MS } from '../../fixtures/clients.js';
+
+describe('PurgeService', () => {
+  let db: Database;
+  let users: UserRepository;
+  let programs: ProgramRepository;
+  let service: PurgeService;
+  let creator: User;
+  let program: Program;
+
+  // Soft-delete a row as if it happened some days ago
+  const deleteDaysAgo = async (table: string, id: string, days: number) => {
+    await db.run(`UPDATE ${table} SET deleted_at = ? WHERE id = ?`, [new Date(Date.now() - days * DAY_MS).toISOString(), id]);
+  };
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+    const manager = new MigrationManager(db);
+    await manager.loadMigrations('./src/migrations');
+    await manager.migrate();
+
+    users = new UserRepository(db);
+    programs = new ProgramRepository(db);
+    service = new PurgeService(db, new EnrollmentRequestRepository(db), programs, users, 30 * DAY_MS);
+
+    creator = await users.create(buildUser(UserRole.PRODUCT_PEOPLE));
+    program = await programs.create(Program.create({ title: 'Smart Alerts' }, creator.id));
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should keep deleted rows for the retention period', async () => {
+    await deleteDaysAgo('programs', program.id, 29);
+
+    expect(await service.purge()).toEqual({ enrollmentRequests: 0, programs: 0, users: 0 });
+    expect(await programs.findDeletedById(program.id)).not.toBeNull();
+  });
+
+  it('should never purge a user whose programs are still in use', async () => {
+    await deleteDaysAgo('users', creator.id, 90);
+
+    expect(await service.purge()).toEqual({ enrollmentRequests: 0, programs: 0, users: 0 });
+    expect(await programs.findById(program.id)).not.toBeNull();
+  });
+
+  it('should purge expired dependents before the rows they point at', async () => {
+    await deleteDaysAgo('programs', program.id, 31);
+    await deleteDaysAgo('users', creator.id, 31);
+
+    expect(await service.purge()).toEqual({ enrollmentRequests: 0, programs: 1, users: 1 });
+    expect(await users.findDeletedById(creator.id)).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { RegistrationRequestService } from '../../../src/services/registration-request-service.js';
+import { DomainEventBus } from '../../../src/config/domain-events.js';
+import { RegistrationRequest } from '../../../src/models/registration-request.js';
+import { User } from '../../../src/models/user.js';
+import { RegistrationRequestStatus, UserRole, UserStatus } from '../../../src/types/user.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../../src/utils/errors.js';
+import { bindable, buildFakeDatabase } from '../../fixtures/database.js';
+
+describe('RegistrationRequestService', () => {
+  const reviewerId = '123e4567-e89b-12d3-a456-426614174000';
+  let db: any;
+  let registrationRequestRepository: any;
+  let userRepository: any;
+  let service: RegistrationRequestService;
+  let pendingRequest: RegistrationRequest;
+
+  beforeEach(() => {
+    db = buildFakeDatabase();
+    registrationRequestRepository = bindable({
+      create: jest.fn(async (request: RegistrationRequest) => request),
+      findById: jest.fn(),
+      findWithFilters: jest.fn(),
+      hasPendingRequest: jest.fn(async () => false),
+      update: jest.fn()
+    });
+    userRepository = bindable({
+      create: jest.fn(async (user: User) => user),
+      emailExists: jest.fn(async () => false)
+    });
+    service = new RegistrationRequestService(db, registrationRequestRepository, userRepository, new DomainEventBus());
+
+    pendingRequest = RegistrationRequest.create({
+      email: 'newcomer@example.com',
+      firstName: 'New',
+      lastName: 'Comer',
+      requestedRole: UserRole.CLIENT_MANAGER
+    });
+  });
+
+  describe('submit', () => {
+    it('should create a pending request', async () => {
+      const request = await service.submit({
+        email: 'newcomer@example.com',
+        firstName: 'New',
+        lastName: 'Comer',
+        requestedRole: UserRole.CLIENT_MANAGER
+      });
+
+      expect(request.status).toBe(RegistrationRequestStatus.PENDING);
+      expect(registrationRequestRepository.create).toHaveBeenCalledWith(request);
+    });
+
+    it('should refuse an email that already has a pending request', async () => {
+      registrationRequestRepository.hasPendingRequest.mockResolvedValue(true);
+
+      await expect(service.submit({
+        email: 'newcomer@example.com',
+        firstName: 'New',
+        lastName: 'Comer',
+        requestedRole: UserRole.CLIENT_MANAGER
+      })).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('should turn model validation failures into validation errors', async () => {
+      await expect(service.submit({
+        email: 'invalid',
+        firstName: 'New',
+        lastName: 'Comer',
+        requestedRole: UserRole.CLIENT_MANAGER
+      })).rejects.toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe('approve', () => {
+    it('should approve the request and create an active user with the assigned role', async () => {
+      registrationRequestRepository.findById.mockResolvedValue(pendingRequest);
+
+      const { request, user } = await service.approve(pendingRequest.id, reviewerId, UserRole.PRODUCT_PEOPLE);
+
+      expect(request.status).toBe(RegistrationRequestStatus.APPROVED);
+      expect(request.approvedBy).toBe(reviewerId);
+      expect(user.email).toBe(pendingRequest.email);
+      expect(user.role).toBe(UserRole.PRODUCT_PEOPLE);
+      expect(user.status).toBe(UserStatus.ACTIVE);
+      expect(userRepository.create).toHaveBeenCalledWith(user);
+      expect(userRepository.withTransaction).toHaveBeenCalledWith(db);
+      expect(db.committed).toHaveBeenCalled();
+    });
+
+    it('should default to the requested role', async () => {
+      registrationRequestRepository.findById.mockResolvedValue(pendingRequest);
+
+      const { user } = await service.approve(pendingRequest.id, reviewerId);
+
+      expect(user.role).toBe(UserRole.CLIENT_MANAGER);
+    });
+
+    it('should roll back when the user cannot be created', async () => {
+      registrationRequestRepository.findById.mockResolvedValue(pendingRequest);
+      userRepository.create.mockRejectedValue(new Error('constraint failed'));
+
+      await expect(service.approve(pendingRequest.id, reviewerId)).rejects.toThrow('constraint failed');
+      expect(db.rolledBack).toHaveBeenCalled();
+      expect(db.committed).not.toHaveBeenCalled();
+    });
+
+    it('should refuse requests that were already processed', async () => {
+      pendingRequest.process({ approved: false, rejectionReason: 'No' }, reviewerId);
+      registrationRequestRepository.findById.mockResolvedValue(pendingRequest);
+
+      await expect(service.approve(pendingRequest.id, reviewerId)).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('should return not found for unknown requests', async () => {
+      registrationRequestRepository.findById.mockResolvedValue(null);
+
+      await expect(service.approve('unknown', reviewerId)).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('reject', () => {
+    it('should reject the request with a reason', async () => {
+      registrationRequestRepository.findById.mockResolvedValue(pendingRequest);
+
+      const request = await service.reject(pendingRequest.id, reviewerId, 'Not an employee');
+
+      expect(request.status).toBe(RegistrationRequestStatus.REJECTED);
+      expect(request.rejectionReason).toBe('Not an employee');
+      expect(registrationRequestRepository.update).toHaveBeenCalledWith(request.id, request);
+      expect(userRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should require a reason', async () => {
+      await expect(service.reject(pendingRequest.id, reviewerId, '  ')).rejects.toBeInstanceOf(ValidationError);
+      expect(registrationRequestRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { Database } from '../../../src/config/database.js';
+import { MigrationManager } from '../../../src/config/migration.js';
+import { createServices, Services } from '../../../src/config/services.js';
+import { SchedulerService } from '../../../src/services/scheduler-service.js';
+import { EnrollmentRequest } from '../../../src/models/enrollment-request.js';
+import { JobRun } from '../../../src/models/job-run.js';
+import { Program } from '../../../src/models/program.js';
+import { User } from '../../../src/models/user.js';
+import { ProgramStatus } from '../../../src/types/program.js';
+import { JobName, JobRunStatus } from '../../../src/types/scheduler.js';
+import { UserRole, UserStatus } from '../../../src/types/user.js';
+import { ConflictError, NotFoundError } from '../../../src/utils/errors.js';
+import { buildUser } from '../../fixtures/users.js';
+import { DAY_MS } from '../../fixtures/clients.js';
+
+describe('SchedulerService', () => {
+  let db: Database;
+  let services: Services;
+  let creator: User;
+  let manager: User;
+
+  const processedBy = (runs: JobRun[]) =>
+    Object.fromEntries(runs.map(run => [run.jobName, run.processed]));
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+    const migrations = new MigrationManager(db);
+    await migrations.loadMigrations('./src/migrations');
+    await migrations.migrate();
+
+    services = createServices(db);
+    creator = await services.userRepository.create(buildUser(UserRole.PRODUCT_PEOPLE, UserStatus.ACTIVE, 'creator@example.com'));
+    manager = await services.userRepository.create(buildUser(UserRole.CLIENT_MANAGER, UserStatus.ACTIVE, 'manager@example.com'));
+  });
+
+  afterEach(async () => {
+    services.schedulerService.stop();
+    await db.close();
+  });
+
+  it('should walk programs through their dates and remind of overdue requests, each once', async () => {
+    const now = new Date();
+    const program = await services.programRepository.create(Program.create({
+      title: 'Smart Alerts',
+      startDate: new Date(now.getTime() - DAY_MS),
+      endDate: new Date(now.getTime() + 2 * DAY_MS)
+    }, creator.id));
+    await services.enrollmentRequestRepository.create(EnrollmentRequest.create({
+      programId: program.id,
+      clientName: 'Acme Corp',
+      accountIds: ['ACC-1'],
+      contacts: []
+    }, manager.id));
+    const scheduler = services.schedulerService;
+    const later = (days: number) => new Date(now.getTime() + days * DAY_MS);
+
+    expect(processedBy(await scheduler.runDue(later(0.01)))).toEqual({
+      [JobName.START_PROGRAMS]: 1,
+      [JobName.STOP_PROGRAMS]: 0,
+      [JobName.ARCHIVE_PROGRAMS]: 0,
+      [JobName.REMIND_PENDING_ENROLLMENTS]: 0,
+      [JobName.REFRESH_CLIENT_ENGAGEMENT]: 0,
+      [JobName.NOTIFY_ENDING_PROGRAMS]: 1, // Live from this pass on, and ending within the week
+      [JobName.PURGE_DELETED_ROWS]: 0
+    });
+    expect(await scheduler.runDue(later(0.01))).toEqual([]);
+    expect((await services.programRepository.findById(program.id))?.status).toBe(ProgramStatus.LIVE);
+
+    expect(processedBy(await scheduler.runDue(later(3)))).toMatchObject({ [JobName.STOP_PROGRAMS]: 1 });
+    expect(processedBy(await scheduler.runDue(later(40)))).toMatchObject({
+      [JobName.START_PROGRAMS]: 0,
+      [JobName.STOP_PROGRAMS]: 0,
+      [JobName.ARCHIVE_PROGRAMS]: 1,
+      [JobName.REMIND_PENDING_ENROLLMENTS]: 1
+    });
+    expect((await services.programRepository.findById(program.id))?.status).toBe(ProgramStatus.ARCHIVED);
+    expect(processedBy(await scheduler.runDue(later(41)))).toMatchObject({ [JobName.REMIND_PENDING_ENROLLMENTS]: 0 });
+
+    const runs = await scheduler.listRuns({ jobName: JobName.START_PROGRAMS }, {});
+    expect(runs.data.map(run => run.status)).toEqual([
+      JobRunStatus.SUCCEEDED,
+      JobRunStatus.SUCCEEDED,
+      JobRunStatus.SUCCEEDED,
+      JobRunStatus.SUCCEEDED
+    ]);
+  });
+
+  it('should archive programs by how long they have been stopped, not since their last edit', async () => {
+    const now = new Date();
+    const stopped = async (title: string, stoppedDaysAgo: number, editedDaysAgo: number) => {
+      const program = Program.create({ title }, creator.id);
+      program.status = ProgramStatus.STOPPED;
+      program.statusChangedAt = new Date(now.getTime() - stoppedDaysAgo * DAY_MS);
+      program.updatedAt = new Date(now.getTime() - editedDaysAgo * DAY_MS);
+      return services.programRepository.create(program);
+    };
+    const edited = await stopped('Smart Alerts', 40, 1);
+    const recent = await stopped('Dark Mode', 1, 40);
+
+    const run = await services.schedulerService.runNow(JobName.ARCHIVE_PROGRAMS, now);
+
+    expect(run.processed).toBe(1);
+    expect((await services.programRepository.findById(edited.id))?.status).toBe(ProgramStatus.ARCHIVED);
+    expect((await services.programRepository.findById(recent.id))?.status).toBe(ProgramStatus.STOPPED);
+  });
+
+  it('should go on with the other programs when one cannot be transitioned', async () => {
+    const now = new Date();
+    const due = async (title: string, daysAgo: number) => services.programRepository.create(Program.create({
+      title,
+      startDate: new Date(now.getTime() - daysAgo * DAY_MS)
+    }, creator.id));
+    const changed = await due('Smart Alerts', 2);
+    const started = await due('Dark Mode', 1);
+    jest.spyOn(services.programService, 'transition').mockRejectedValueOnce(
+      new ConflictError('Program was modified by someone else', 'VERSION_CONFLICT')
+    );
+
+    const run = await services.schedulerService.runNow(JobName.START_PROGRAMS, now);
+
+    expect(run).toMatchObject({ status: JobRunStatus.SUCCEEDED, processed: 1, failed: 1 });
+    expect(run.error).toBe(`Program ${changed.id}: Program was modified by someone else`);
+    expect(await services.jobRunRepository.findById(run.id)).toMatchObject({ processed: 1, failed: 1, error: run.error });
+    expect((await services.programRepository.findById(started.id))?.status).toBe(ProgramStatus.LIVE);
+  });
+
+  it('should keep the schedule across restarts and record interrupted and failing runs', async () => {
+    const now = new Date();
+    await services.schedulerService.runDue(now);
+    const interrupted = await services.jobRunRepository.create(JobRun.start(JobName.STOP_PROGRAMS, now));
+
+    // A new process: the runs it finds unfinished were interrupted
+    const restarted = new SchedulerService(services.scheduledJobRepository, services.jobRunRepository);
+    restarted.register({ name: JobName.START_PROGRAMS, intervalMs: 15 * 60 * 1000, run: async () => 0 });
+    restarted.register({
+      name: JobName.ARCHIVE_PROGRAMS,
+      intervalMs: 60 * 60 * 1000,
+      run: async () => {
+        throw new Error('Database is locked');
+      }
+    });
+
+    expect(await restarted.runDue(new Date(now.getTime() + 60 * 1000))).toEqual([]);
+    expect(await services.jobRunRepository.findById(interrupted.id)).toMatchObject({
+      status: JobRunStatus.FAILED,
+      error: 'Interrupted by a restart'
+    });
+
+    const runs = await restarted.runDue(new Date(now.getTime() + 2 * 60 * 60 * 1000));
+    expect(runs.map(run => [run.jobName, run.status])).toEqual([
+      [JobName.START_PROGRAMS, JobRunStatus.SUCCEEDED],
+      [JobName.ARCHIVE_PROGRAMS, JobRunStatus.FAILED]
+    ]);
+    const failedRuns = await restarted.listRuns({ status: JobRunStatus.FAILED }, {});
+    expect(failedRuns.data.map(run => [run.jobName, run.error])).toEqual([
+      [JobName.ARCHIVE_PROGRAMS, 'Database is locked'],
+      [JobName.STOP_PROGRAMS, 'Interrupted by a restart']
+    ]);
+    expect((await restarted.listJobs()).map(job => job.name).sort()).toEqual([JobName.ARCHIVE_PROGRAMS, JobName.START_PROGRAMS]);
+
+    await expect(restarted.runNow(JobName.REMIND_PENDING_ENROLLMENTS)).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,44 @@
+import { SearchService } from '../../../src/services/search-service.js';
+import { SearchEntityType } from '../../../src/types/search.js';
+import { UserRole } from '../../../src/types/user.js';
+import { ValidationError } from '../../../src/utils/errors.js';
+import { buildUser } from '../../fixtures/users.js';
+
+describe('SearchService', () => {
+  let searchRepository: any;
+  let service: SearchService;
+
+  const hit = (type: SearchEntityType) => ({ id: type, type, title: type, highlights: {}, score: 1 });
+
+  beforeEach(() => {
+    searchRepository = {
+      searchPrograms: jest.fn(async () => [hit(SearchEntityType.PROGRAM)]),
+      searchClients: jest.fn(async () => [hit(SearchEntityType.CLIENT)]),
+      searchUsers: jest.fn(async () => [hit(SearchEntityType.USER)])
+    };
+    service = new SearchService(searchRepository);
+  });
+
+  it('should group hits by entity type for Product People', async () => {
+    const results = await service.search('  smart alerts ', buildUser(UserRole.PRODUCT_PEOPLE), 5);
+
+    expect(searchRepository.searchPrograms).toHaveBeenCalledWith('"smart"* "alerts"*', 5);
+    expect(results).toEqual({
+      query: 'smart alerts',
+      programs: [hit(SearchEntityType.PROGRAM)],
+      clients: [hit(SearchEntityType.CLIENT)],
+      users: [hit(SearchEntityType.USER)]
+    });
+  });
+
+  it('should not search users for Client Managers', async () => {
+    const results = await service.search('acme', buildUser(UserRole.CLIENT_MANAGER));
+
+    expect(searchRepository.searchUsers).not.toHaveBeenCalled();
+    expect(results.users).toEqual([]);
+  });
+
+  it('should refuse text without a searchable word', async () => {
+    await expect(service.search('"*"', buildUser())).rejects.toBeInstanceOf(ValidationError);
+  });
+});
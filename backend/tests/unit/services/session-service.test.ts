@@ -0,0 +1,131 @@
+import { SessionService } from '../../../src/services/session-service.js';
+import { Session } from '../../../src/models/session.js';
+import { User } from '../../../src/models/user.js';
+import { UserRole, UserStatus } from '../../../src/types/user.js';
+import { ForbiddenError, UnauthorizedError } from '../../../src/utils/errors.js';
+
+describe('SessionService', () => {
+  const ttlMs = 60 * 60 * 1000;
+  let userRepository: any;
+  let sessionRepository: any;
+  let service: SessionService;
+
+  const buildUser = (status: UserStatus): User => {
+    const user = User.create({
+      email: 'test@example.com',
+      firstName: 'John',
+      lastName: 'Doe',
+      role: UserRole.PRODUCT_PEOPLE
+    });
+    user.status = status;
+    return user;
+  };
+
+  beforeEach(() => {
+    userRepository = {
+      findByEmail: jest.fn(),
+      findById: jest.fn()
+    };
+    sessionRepository = {
+      create: jest.fn(),
+      findById: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      deleteExpired: jest.fn()
+    };
+    service = new SessionService(userRepository, sessionRepository, ttlMs);
+  });
+
+  describe('login', () => {
+    it('should start a session for an active user', async () => {
+      const user = buildUser(UserStatus.ACTIVE);
+      userRepository.findByEmail.mockResolvedValue(user);
+
+      const result = await service.login('test@example.com');
+
+      expect(result.user).toBe(user);
+      expect(result.session.userId).toBe(user.id);
+      expect(sessionRepository.create).toHaveBeenCalledWith(result.session);
+    });
+
+    it('should refuse unknown emails', async () => {
+      userRepository.findByEmail.mockResolvedValue(null);
+
+      await expect(service.login('nobody@example.com')).rejects.toBeInstanceOf(UnauthorizedError);
+      expect(sessionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse users that are not active', async () => {
+      userRepository.findByEmail.mockResolvedValue(buildUser(UserStatus.PENDING));
+
+      await expect(service.login('test@example.com')).rejects.toBeInstanceOf(ForbiddenError);
+      expect(sessionRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolve', () => {
+    it('should return the session and slide its expiry', async () => {
+      const user = buildUser(UserStatus.ACTIVE);
+      const session = Session.create(user.id, ttlMs);
+      const previousExpiry = session.expiresAt;
+      session.lastSeenAt = new Date(session.lastSeenAt.getTime() - 1000);
+      session.expiresAt = new Date(previousExpiry.getTime() - 1000);
+      sessionRepository.findById.mockResolvedValue(session);
+      userRepository.findById.mockResolvedValue(user);
+
+      const result = await service.resolve(session.id);
+
+      expect(result?.user).toBe(user);
+      expect(result?.session.expiresAt.getTime()).toBeGreaterThanOrEqual(previousExpiry.getTime());
+      expect(sessionRepository.update).toHaveBeenCalledWith(session.id, {
+        lastSeenAt: session.lastSeenAt,
+        expiresAt: session.expiresAt
+      });
+    });
+
+    it('should drop expired sessions', async () => {
+      const session = Session.create('123e4567-e89b-12d3-a456-426614174000', ttlMs);
+      session.expiresAt = new Date(Date.now() - 1000);
+      sessionRepository.findById.mockResolvedValue(session);
+
+      const result = await service.resolve(session.id);
+
+      expect(result).toBeNull();
+      expect(sessionRepository.delete).toHaveBeenCalledWith(session.id);
+    });
+
+    it('should drop sessions of deactivated users', async () => {
+      const user = buildUser(UserStatus.INACTIVE);
+      const session = Session.create(user.id, ttlMs);
+      sessionRepository.findById.mockResolvedValue(session);
+      userRepository.findById.mockResolvedValue(user);
+
+      const result = await service.resolve(session.id);
+
+      expect(result).toBeNull();
+      expect(sessionRepository.delete).toHaveBeenCalledWith(session.id);
+    });
+
+    it('should return null for unknown sessions', async () => {
+      sessionRepository.findById.mockResolvedValue(null);
+
+      await expect(service.resolve('unknown')).resolves.toBeNull();
+    });
+  });
+
+  describe('check', () => {
+    it('should return the session and its current user without sliding its expiry', async () => {
+      const user = buildUser(UserStatus.ACTIVE);
+      const session = Session.create(user.id, ttlMs);
+      const expiresAt = session.expiresAt;
+      sessionRepository.findById.mockResolvedValue(session);
+      userRepository.findById.mockResolvedValue(user);
+
+      const result = await service.check(session.id);
+
+      expect(result).toEqual({ session, user });
+      expect(result?.session.expiresAt).toBe(expiresAt);
+      expect(sessionRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { SmtpChannel } from '../../../src/services/channels/smtp-channel.js';
+import { FakeSmtpServer, startFakeSmtpServer } from '../../fixtures/smtp-server.js';
+import { FAKE_SMTP_CERT } from '../../fixtures/smtp-tls.js';
+
+describe('SmtpChannel', () => {
+  let server: FakeSmtpServer;
+  let channel: SmtpChannel;
+
+  const connectTo = (smtp: FakeSmtpServer) => new SmtpChannel({
+    host: '127.0.0.1',
+    port: smtp.port,
+    secure: false,
+    user: 'mailer',
+    password: 'secret',
+    from: 'AB-EAM <no-reply@example.com>',
+    ca: FAKE_SMTP_CERT,
+    timeoutMs: 2000
+  });
+
+  beforeEach(async () => {
+    server = await startFakeSmtpServer();
+    channel = connectTo(server);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should switch to TLS, then authenticate and deliver the message with its headers', async () => {
+    await channel.send({
+      to: 'alice@example.com',
+      subject: 'Zoë joined Smart Alerts',
+      text: 'Hello Alice,\n.\nA line starting with a dot survives.\n'
+    });
+
+    expect(server.received).toHaveLength(1);
+    const [mail] = server.received;
+    expect(mail).toMatchObject({
+      credentials: '\0mailer\0secret',
+      encrypted: true,
+      from: 'no-reply@example.com',
+      to: ['alice@example.com']
+    });
+    expect(server.commands).toEqual(['EHLO', 'STARTTLS', 'EHLO', 'AUTH', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+    expect(mail?.headers).toMatchObject({
+      From: 'AB-EAM <no-reply@example.com>',
+      To: 'alice@example.com',
+      Subject: `=?UTF-8?B?${Buffer.from('Zoë joined Smart Alerts').toString('base64')}?=`
+    });
+    expect(mail?.text).toBe('Hello Alice,\n.\nA line starting with a dot survives.\n');
+  });
+
+  it('should fail with the server reply when the recipient is refused', async () => {
+    server.refuseRecipients = '550 No such user';
+
+    await expect(channel.send({ to: 'ghost@example.com', subject: 'Hi', text: 'Hi' }))
+      .rejects.toThrow('SMTP RCPT failed: 550 No such user');
+    expect(server.received).toEqual([]);
+  });
+
+  it('should never send credentials when the server offers no STARTTLS', async () => {
+    const plain = await startFakeSmtpServer({ startTls: false });
+    try {
+      await expect(connectTo(plain).send({ to: 'alice@example.com', subject: 'Hi', text: 'Hi' }))
+        .rejects.toThrow('SMTP server does not offer STARTTLS: credentials are never sent in clear text');
+      expect(plain.commands).toEqual(['EHLO']);
+      expect(plain.received).toEqual([]);
+    } finally {
+      await plain.close();
+    }
+  });
+
+  it('should fail when no server listens', async () => {
+    await server.close();
+
+    await expect(channel.send({ to: 'alice@example.com', subject: 'Hi', text: 'Hi' })).rejects.toThrow('ECONNREFUSED');
+  });
+});
@@ -0,0 +1,173 @@
+import { Database } from '../../../src/config/database.js';
+import { MigrationManager } from '../../../src/config/migration.js';
+import { createServices } from '../../../src/config/services.js';
+import { UserService } from '../../../src/services/user-service.js';
+import { User } from '../../../src/models/user.js';
+import { UserRole, UserStatus } from '../../../src/types/user.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../../src/utils/errors.js';
+import { bindable, buildFakeDatabase } from '../../fixtures/database.js';
+import { buildUser } from '../../fixtures/users.js';
+
+describe('UserService', () => {
+  let db: any;
+  let userRepository: any;
+  let sessionRepository: any;
+  let service: UserService;
+
+  beforeEach(() => {
+    db = buildFakeDatabase();
+    userRepository = bindable({
+      findById: jest.fn(),
+      findWithFilters: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(async () => true),
+      restore: jest.fn(),
+      exists: jest.fn(async () => false),
+      emailExists: jest.fn(async () => false),
+      countActiveByRole: jest.fn(async () => 2)
+    });
+    sessionRepository = bindable({
+      deleteByUserId: jest.fn()
+    });
+    service = new UserService(db, userRepository, sessionRepository);
+  });
+
+  describe('update', () => {
+    it('should edit profile fields and role', async () => {
+      const user = buildUser(UserRole.CLIENT_MANAGER);
+      userRepository.findById.mockResolvedValue(user);
+
+      const updated = await service.update(user.id, { firstName: 'Jane', role: UserRole.PRODUCT_PEOPLE });
+
+      expect(updated.firstName).toBe('Jane');
+      expect(updated.role).toBe(UserRole.PRODUCT_PEOPLE);
+      expect(userRepository.update).toHaveBeenCalledWith(user.id, user);
+    });
+
+    it('should refuse an email used by another user', async () => {
+      const user = buildUser(UserRole.CLIENT_MANAGER);
+      userRepository.findById.mockResolvedValue(user);
+      userRepository.emailExists.mockResolvedValue(true);
+
+      await expect(service.update(user.id, { email: 'taken@example.com' })).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('should reject invalid data through model validation', async () => {
+      const user = buildUser(UserRole.CLIENT_MANAGER);
+      userRepository.findById.mockResolvedValue(user);
+
+      await expect(service.update(user.id, { firstName: '' })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should refuse to demote the last active Product People', async () => {
+      const admin = buildUser(UserRole.PRODUCT_PEOPLE);
+      userRepository.findById.mockResolvedValue(admin);
+      userRepository.countActiveByRole.mockResolvedValue(1);
+
+      await expect(service.update(admin.id, { role: UserRole.CLIENT_MANAGER })).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'LAST_ACTIVE_ADMIN'
+      });
+      expect(userRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should allow demoting a Product People when another admin remains', async () => {
+      const admin = buildUser(UserRole.PRODUCT_PEOPLE);
+      userRepository.findById.mockResolvedValue(admin);
+
+      const updated = await service.update(admin.id, { role: UserRole.CLIENT_MANAGER });
+
+      expect(updated.role).toBe(UserRole.CLIENT_MANAGER);
+    });
+  });
+
+  describe('deactivate / activate', () => {
+    it('should deactivate a user and end their sessions', async () => {
+      const user = buildUser(UserRole.CLIENT_MANAGER);
+      userRepository.findById.mockResolvedValue(user);
+
+      const updated = await service.deactivate(user.id);
+
+      expect(updated.status).toBe(UserStatus.INACTIVE);
+      expect(sessionRepository.deleteByUserId).toHaveBeenCalledWith(user.id);
+    });
+
+    it('should refuse to deactivate the last active Product People', async () => {
+      const admin = buildUser(UserRole.PRODUCT_PEOPLE);
+      userRepository.findById.mockResolvedValue(admin);
+      userRepository.countActiveByRole.mockResolvedValue(1);
+
+      await expect(service.deactivate(admin.id)).rejects.toBeInstanceOf(ConflictError);
+      expect(userRepository.withTransaction).toHaveBeenCalledWith(db);
+      expect(db.rolledBack).toHaveBeenCalled();
+    });
+
+    it('should let only one of two last admins stepping down at once go', async () => {
+      const database = new Database({ dbPath: ':memory:' });
+      await database.connect();
+      try {
+        const migrations = new MigrationManager(database);
+        await migrations.loadMigrations('./src/migrations');
+        await migrations.migrate();
+        const services = createServices(database);
+        const first = await services.userRepository.create(buildUser(UserRole.PRODUCT_PEOPLE, UserStatus.ACTIVE, 'first@example.com'));
+        const second = await services.userRepository.create(buildUser(UserRole.PRODUCT_PEOPLE, UserStatus.ACTIVE, 'second@example.com'));
+
+        const outcomes = await Promise.allSettled([
+          services.userService.deactivate(first.id),
+          services.userService.update(second.id, { role: UserRole.CLIENT_MANAGER })
+        ]);
+
+        expect(outcomes.map(outcome => outcome.status)).toEqual(['fulfilled', 'rejected']);
+        expect(await services.userRepository.countActiveByRole(UserRole.PRODUCT_PEOPLE)).toBe(1);
+      } finally {
+        await database.close();
+      }
+    });
+
+    it('should reactivate a user', async () => {
+      const user: User = buildUser(UserRole.CLIENT_MANAGER, UserStatus.INACTIVE);
+      userRepository.findById.mockResolvedValue(user);
+
+      const updated = await service.activate(user.id);
+
+      expect(updated.status).toBe(UserStatus.ACTIVE);
+      expect(sessionRepository.deleteByUserId).not.toHaveBeenCalled();
+    });
+
+    it('should return not found for unknown users', async () => {
+      userRepository.findById.mockResolvedValue(null);
+
+      await expect(service.activate('unknown')).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('delete / restore', () => {
+    it('should soft-delete a user and end their sessions', async () => {
+      const user = buildUser(UserRole.CLIENT_MANAGER);
+      userRepository.findById.mockResolvedValue(user);
+
+      await service.delete(user.id);
+
+      expect(userRepository.delete).toHaveBeenCalledWith(user.id);
+      expect(sessionRepository.deleteByUserId).toHaveBeenCalledWith(user.id);
+    });
+
+    it('should refuse to delete the last active Product People', async () => {
+      const admin = buildUser(UserRole.PRODUCT_PEOPLE);
+      userRepository.findById.mockResolvedValue(admin);
+      userRepository.countActiveByRole.mockResolvedValue(1);
+
+      await expect(service.delete(admin.id)).rejects.toMatchObject({ code: 'LAST_ACTIVE_ADMIN' });
+      expect(userRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should tell a user that is not deleted from an unknown one', async () => {
+      userRepository.restore.mockResolvedValue(null);
+      await expect(service.restore('unknown')).rejects.toBeInstanceOf(NotFoundError);
+
+      userRepository.exists.mockResolvedValue(true);
+      await expect(service.restore('live')).rejects.toMatchObject({ code: 'USER_NOT_DELETED' });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { Database } from '../../../src/config/database.js';
+import { MigrationManager } from '../../../src/config/migration.js';
+import { createServices, Services } from '../../../src/config/services.js';
+import { Program } from '../../../src/models/program.js';
+import { ClientRepository } from '../../../src/repositories/client-repository.js';
+import { User } from '../../../src/models/user.js';
+import { ClientActivityType } from '../../../src/types/client-activity.js';
+import { DomainEventType } from '../../../src/types/events.js';
+import { UserRole, UserStatus } from '../../../src/types/user.js';
+import { buildUser } from '../../fixtures/users.js';
+import { DAY_MS } from '../../fixtures/clients.js';
+
+describe('WaitlistService', () => {
+  let db: Database;
+  let services: Services;
+  let reviewer: User;
+  let manager: User;
+  let program: Program;
+  let published: DomainEventType[];
+
+  const approve = async (clientName: string) => {
+    const { request } = await services.enrollmentRequestService.submit({
+      programId: program.id,
+      clientName,
+      accountIds: [`${clientName}-1`],
+      contacts: [{ firstName: 'Jane', lastName: 'Roe', email: `jane@${clientName.toLowerCase()}.test` }]
+    }, manager.id);
+    return (await services.enrollmentRequestService.approve(request.id, reviewer.id)).client;
+  };
+
+  const waitlistOf = async () => (await services.programService.getWaitlist(program.id)).map(client => client.id);
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+    const migrations = new MigrationManager(db);
+    await migrations.loadMigrations('./src/migrations');
+    await migrations.migrate();
+
+    services = createServices(db);
+    reviewer = await services.userRepository.create(buildUser(UserRole.PRODUCT_PEOPLE, UserStatus.ACTIVE, 'reviewer@example.com'));
+    manager = await services.userRepository.create(buildUser(UserRole.CLIENT_MANAGER, UserStatus.ACTIVE, 'manager@example.com'));
+    program = await services.programService.create({ title: 'Smart Alerts', maxClients: 1 }, reviewer.id);
+    published = [];
+    services.domainEvents.subscribe(event => {
+      published.push(event.type);
+    });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should waitlist approvals beyond capacity and promote them in order as seats free up', async () => {
+    const first = await approve('Acme');
+    const second = await approve('Globex');
+    const third = await approve('Initech');
+
+    expect(first.isWaitlisted()).toBe(false);
+    expect(await waitlistOf()).toEqual([second.id, third.id]);
+    expect(published.filter(type => type !== DomainEventType.ENROLLMENT_SUBMITTED)).toEqual([
+      DomainEventType.ENROLLMENT_APPROVED,
+      DomainEventType.ENROLLMENT_WAITLISTED,
+      DomainEventType.ENROLLMENT_WAITLISTED
+    ]);
+
+    // Removing the seated client lets the next in line in
+    await services.clientEngagementService.remove(first.id);
+    expect(await waitlistOf()).toEqual([third.id]);
+    expect((await services.clientRepository.findById(second.id))?.holdsSeat()).toBe(true);
+    expect(published).toContain(DomainEventType.ENROLLMENT_PROMOTED);
+
+    // So does a seated client going inactive
+    await services.clientEngagementService.recordActivity(second.id, { type: ClientActivityType.WENT_SILENT }, manager.id);
+    expect(await waitlistOf()).toEqual([]);
+    expect((await services.clientRepository.findById(third.id))?.holdsSeat()).toBe(true);
+  });
+
+  it('should keep the client when its seat cannot be handed over', async () => {
+    const first = await approve('Acme');
+    const second = await approve('Globex');
+    const update = jest.spyOn(ClientRepository.prototype, 'update').mockRejectedValueOnce(new Error('Database is locked'));
+
+    try {
+      await expect(services.clientEngagementService.remove(first.id)).rejects.toThrow('Database is locked');
+    } finally {
+      update.mockRestore();
+    }
+    expect((await services.clientRepository.findById(first.id))?.holdsSeat()).toBe(true);
+    expect(await waitlistOf()).toEqual([second.id]);
+    expect(published).not.toContain(DomainEventType.ENROLLMENT_PROMOTED);
+  });
+
+  it('should leave the waitlist alone when the removed client held no seat', async () => {
+    await approve('Acme');
+    const second = await approve('Globex');
+    const third = await approve('Initech');
+
+    expect(await services.waitlistService.remove(second)).toEqual([]);
+    expect(await waitlistOf()).toEqual([third.id]);
+  });
+
+  it('should send a client coming back to life to the waitlist when its seat was given away', async () => {
+    const first = await approve('Acme');
+    const second = await approve('Globex');
+
+    await services.clientEngagementService.recordActivity(first.id, { type: ClientActivityType.WENT_SILENT }, manager.id);
+    expect((await services.clientRepository.findById(second.id))?.holdsSeat()).toBe(true);
+
+    const { client } = await services.clientEngagementService.recordActivity(
+      first.id,
+      { type: ClientActivityType.FEEDBACK_GIVEN },
+      manager.id
+    );
+
+    expect(client.isActive).toBe(true);
+    expect(await waitlistOf()).toEqual([first.id]);
+    expect(await services.clientRepository.countSeated(program.id)).toBe(1);
+    expect(published.filter(type => type === DomainEventType.ENROLLMENT_WAITLISTED)).toHaveLength(2);
+  });
+
+  it('should give away the seat of a client nobody heard from for the engagement window', async () => {
+    const first = await approve('Acme');
+    const second = await approve('Globex');
+    const windowMs = services.clientEngagementService.getWindowMs();
+
+    expect(await services.clientEngagementService.refreshEngagement(new Date(Date.now() + windowMs / 2))).toBe(0);
+    expect(await waitlistOf()).toEqual([second.id]);
+
+    // The waitlisted client, checked only once seated, gets a fresh enrollment date
+    expect(await services.clientEngagementService.refreshEngagement(new Date(Date.now() + windowMs + DAY_MS))).toBe(1);
+    expect((await services.clientRepository.findById(first.id))?.isActive).toBe(false);
+    expect(await waitlistOf()).toEqual([]);
+    expect((await services.clientRepository.findById(second.id))?.holdsSeat()).toBe(true);
+  });
+
+  it('should let the waitlist in when the capacity is raised', async () => {
+    await approve('Acme');
+    const second = await approve('Globex');
+    const third = await approve('Initech');
+
+    const promoted = await services.waitlistService.fillOpenSeats(program.id);
+    expect(promoted).toEqual([]);
+
+    await services.programService.update(program.id, { maxClients: 2 });
+    expect(await waitlistOf()).toEqual([third.id]);
+    expect((await services.clientRepository.findById(second.id))?.holdsSeat()).toBe(true);
+
+    await services.programService.update(program.id, { maxClients: null });
+    expect(await waitlistOf()).toEqual([]);
+  });
+});
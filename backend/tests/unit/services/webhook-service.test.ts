@@ -0,0 +1,113 @@
+import { Database } from '../../../src/config/database.js';
+import { MigrationManager } from '../../../src/config/migration.js';
+import { DomainEventBus } from '../../../src/config/domain-events.js';
+import { WebhookService, signWebhookPayload } from '../../../src/services/webhook-service.js';
+import { WebhookRepository } from '../../../src/repositories/webhook-repository.js';
+import { WebhookDeliveryRepository } from '../../../src/repositories/webhook-delivery-repository.js';
+import { MAX_WEBHOOK_ATTEMPTS, WEBHOOK_RETRY_BASE_DELAY_MS } from '../../../src/models/webhook-delivery.js';
+import { Program } from '../../../src/models/program.js';
+import { Webhook } from '../../../src/models/webhook.js';
+import { DomainEventType } from '../../../src/types/events.js';
+import { ProgramStatus } from '../../../src/types/program.js';
+import { WebhookDeliveryStatus } from '../../../src/types/webhook.js';
+import { NotFoundError } from '../../../src/utils/errors.js';
+import { startWebhookReceiver, WebhookReceiver } from '../../fixtures/webhook-receiver.js';
+
+describe('WebhookService', () => {
+  let db: Database;
+  let receiver: WebhookReceiver;
+  let service: WebhookService;
+  let bus: DomainEventBus;
+  let webhook: Webhook;
+
+  const creatorId = crypto.randomUUID();
+
+  const publishGoLive = async () => {
+    const program = Program.create({ title: 'Smart Alerts' }, creatorId);
+    program.transitionTo(ProgramStatus.LIVE);
+    return bus.publish(DomainEventType.PROGRAM_STATUS_CHANGED, { program, previousStatus: ProgramStatus.PENDING });
+  };
+
+  const deliveriesOf = async (webhookId: string) => (await service.listDeliveries(webhookId, {}, {})).data;
+
+  beforeEach(async () => {
+    db = new Database({ dbPath: ':memory:' });
+    await db.connect();
+    const migrations = new MigrationManager(db);
+    await migrations.loadMigrations('./src/migrations');
+    await migrations.migrate();
+    receiver = await startWebhookReceiver();
+
+    service = new WebhookService(new WebhookRepository(db), new WebhookDeliveryRepository(db), 2000);
+    bus = new DomainEventBus();
+    bus.subscribe(async event => {
+      await service.handle(event);
+    });
+
+    webhook = await service.create({ url: receiver.url, events: [DomainEventType.PROGRAM_STATUS_CHANGED] }, creatorId);
+  });
+
+  afterEach(async () => {
+    service.stop();
+    await receiver.close();
+    await db.close();
+  });
+
+  it('should post a signed delivery to each active webhook subscribed to the event', async () => {
+    const other = await service.create({ url: receiver.url, events: [DomainEventType.ENROLLMENT_SUBMITTED] }, creatorId);
+    const paused = await service.create({ url: receiver.url, events: [DomainEventType.PROGRAM_STATUS_CHANGED] }, creatorId);
+    await service.update(paused.id, { active: false });
+
+    const event = await publishGoLive();
+
+    expect(await service.dispatch()).toEqual({ sent: 1, retrying: 0, failed: 0 });
+    expect(receiver.received).toHaveLength(1);
+    const [received] = receiver.received;
+    expect(received?.headers['x-ab-eam-event']).toBe(DomainEventType.PROGRAM_STATUS_CHANGED);
+    expect(received?.headers['x-ab-eam-signature']).toBe(signWebhookPayload(webhook.secret, received?.body ?? ''));
+    expect(JSON.parse(received?.body ?? '{}')).toMatchObject({ id: event.id, data: { program: { status: 'LIVE' } } });
+
+    const [delivery] = await deliveriesOf(webhook.id);
+    expect(delivery).toMatchObject({ status: WebhookDeliveryStatus.SUCCEEDED, attempts: 1, responseStatus: 204 });
+    expect(received?.headers['x-ab-eam-delivery']).toBe(delivery?.id);
+    expect(await deliveriesOf(other.id)).toEqual([]);
+    expect(await deliveriesOf(paused.id)).toEqual([]);
+  });
+
+  it('should retry a failing endpoint with an exponential backoff, then give up', async () => {
+    receiver.status = 500;
+    await publishGoLive();
+    const now = new Date();
+
+    expect(await service.dispatch(now)).toEqual({ sent: 0, retrying: 1, failed: 0 });
+    let [delivery] = await deliveriesOf(webhook.id);
+    expect(delivery?.nextAttemptAt).toEqual(new Date(now.getTime() + WEBHOOK_RETRY_BASE_DELAY_MS));
+    expect(delivery?.lastError).toBe('Endpoint answered HTTP 500');
+
+    expect(await service.dispatch(new Date(now.getTime() + WEBHOOK_RETRY_BASE_DELAY_MS - 1))).toEqual({ sent: 0, retrying: 0, failed: 0 });
+    for (let attempt = 2; attempt <= MAX_WEBHOOK_ATTEMPTS; attempt++) {
+      await service.dispatch(delivery?.nextAttemptAt);
+      [delivery] = await deliveriesOf(webhook.id);
+    }
+
+    expect(delivery).toMatchObject({ status: WebhookDeliveryStatus.FAILED, attempts: MAX_WEBHOOK_ATTEMPTS, responseStatus: 500 });
+    expect(receiver.received).toHaveLength(MAX_WEBHOOK_ATTEMPTS);
+  });
+
+  it('should redeliver a logged delivery as a new one with the same payload', async () => {
+    await publishGoLive();
+    await service.dispatch();
+    const [first] = await deliveriesOf(webhook.id);
+
+    const redelivery = await service.redeliver(webhook.id, first?.id as string);
+    expect(redelivery).toMatchObject({ status: WebhookDeliveryStatus.PENDING, eventId: first?.eventId, payload: first?.payload });
+    await service.dispatch();
+
+    expect((await deliveriesOf(webhook.id)).map(delivery => delivery.id)).toEqual([redelivery.id, first?.id]);
+    expect(receiver.received.map(received => received.body)).toEqual([first?.payload, first?.payload]);
+    expect(receiver.received[1]?.headers['x-ab-eam-delivery']).toBe(redelivery.id);
+
+    const other = await service.create({ url: receiver.url, events: [DomainEventType.ENROLLMENT_SUBMITTED] }, creatorId);
+    await expect(service.redeliver(other.id, first?.id as string)).rejects.toBeInstanceOf(NotFoundError);
+  });
+});